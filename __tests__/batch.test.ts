@@ -0,0 +1,61 @@
+import { batchCompletePatches, batchRemoval, groupPatches } from '../app/lib/batch';
+import type { Task } from '../app/lib/types';
+
+const task = (id: string, patch: Partial<Task> = {}) => ({ id, title: id, is_done: false, ...patch }) as Task;
+const ids = (tasks: Task[]) => tasks.map((t) => t.id);
+
+describe('groupPatches', () => {
+  it('writes equal patches together, whatever their key order', () => {
+    expect(
+      groupPatches<Task>([
+        { id: 'a', patch: { is_done: true, priority: 'high' } },
+        { id: 'b', patch: { priority: 'high', is_done: true } },
+        { id: 'c', patch: { is_done: true } },
+      ]),
+    ).toEqual([
+      { ids: ['a', 'b'], patch: { is_done: true, priority: 'high' } },
+      { ids: ['c'], patch: { is_done: true } },
+    ]);
+  });
+});
+
+describe('batchCompletePatches', () => {
+  it('completes tasks whose blockers are completed along with them', () => {
+    const tasks = [task('a', { blocked_by: ['b'] }), task('b')];
+    const { patches, blocked } = batchCompletePatches(tasks, ['a', 'b'], []);
+    expect(patches).toEqual([
+      { id: 'a', patch: { is_done: true } },
+      { id: 'b', patch: { is_done: true } },
+    ]);
+    expect(blocked).toEqual([]);
+  });
+
+  it('leaves tasks waiting on an open blocker, and the tasks waiting on those', () => {
+    const tasks = [task('a', { blocked_by: ['outside'] }), task('b', { blocked_by: ['a'] }), task('c'), task('outside')];
+    const { patches, blocked } = batchCompletePatches(tasks, ['a', 'b', 'c'], []);
+    expect(patches).toEqual([{ id: 'c', patch: { is_done: true } }]);
+    expect(ids(blocked)).toEqual(['a', 'b']);
+  });
+
+  it('closes a parent once when its subtasks are selected with it', () => {
+    const tasks = [task('parent'), task('x', { parent_id: 'parent' }), task('y', { parent_id: 'parent' })];
+    expect(batchCompletePatches(tasks, ['x', 'y', 'parent'], []).patches).toEqual([
+      { id: 'parent', patch: { is_done: true } },
+      { id: 'x', patch: { is_done: true } },
+      { id: 'y', patch: { is_done: true } },
+    ]);
+    expect(batchCompletePatches(tasks, ['x', 'y'], []).patches.map(({ id }) => id)).toEqual(['x', 'y', 'parent']);
+  });
+});
+
+describe('batchRemoval', () => {
+  it('removes subtasks along with their parent', () => {
+    const tasks = [task('a'), task('a1', { parent_id: 'a' }), task('a1x', { parent_id: 'a1' }), task('b')];
+    expect(batchRemoval(tasks, ['a'])).toEqual({ ids: ['a', 'a1', 'a1x'], patches: [] });
+  });
+
+  it('completes a parent whose last open subtask is removed', () => {
+    const tasks = [task('parent'), task('done', { parent_id: 'parent', is_done: true }), task('open', { parent_id: 'parent' })];
+    expect(batchRemoval(tasks, ['open']).patches).toEqual([{ id: 'parent', patch: { is_done: true } }]);
+  });
+});
@@ -0,0 +1,50 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+import { calendarFeedUrl, calendarSubscribeUrl, getCalendarFeed, rotateCalendarFeed } from '../app/lib/calendar-feed';
+
+// Just enough of the Supabase client for the calls under test.
+const client = (result: { data: unknown; error: unknown }) =>
+  ({
+    from: () => ({ select: () => ({ maybeSingle: async () => result }) }),
+    rpc: () => ({ single: async () => result }),
+  }) as unknown as SupabaseClient;
+
+describe('calendarFeedUrl', () => {
+  it('points at the edge function, with or without a trailing slash', () => {
+    expect(calendarFeedUrl('https://abc.supabase.co/', 't1')).toBe('https://abc.supabase.co/functions/v1/calendar-feed?token=t1');
+    expect(calendarFeedUrl('https://abc.supabase.co', 't1')).toBe('https://abc.supabase.co/functions/v1/calendar-feed?token=t1');
+  });
+
+  it('subscribes over webcal://', () => {
+    expect(calendarSubscribeUrl('https://abc.supabase.co/functions/v1/calendar-feed?token=t1')).toBe(
+      'webcal://abc.supabase.co/functions/v1/calendar-feed?token=t1',
+    );
+    expect(calendarSubscribeUrl('http://localhost:54321/x')).toBe('webcal://localhost:54321/x');
+  });
+});
+
+describe('getCalendarFeed', () => {
+  it('returns null until a feed is created', async () => {
+    expect(await getCalendarFeed(client({ data: null, error: null }))).toEqual({ data: null, error: null });
+  });
+
+  it('reports a missing table as a failure instead of throwing', async () => {
+    const result = await getCalendarFeed(client({ data: null, error: { code: '42P01', message: 'relation "calendar_feeds" does not exist' } }));
+    expect(result.error).toMatchObject({ kind: 'unknown', code: '42P01' });
+  });
+});
+
+describe('rotateCalendarFeed', () => {
+  it('returns the new token, or a network error instead of throwing', async () => {
+    const throwing = {
+      rpc: () => {
+        throw new TypeError('Network request failed');
+      },
+    } as unknown as SupabaseClient;
+    expect((await rotateCalendarFeed(throwing)).error).toMatchObject({ kind: 'network' });
+    expect(await rotateCalendarFeed(client({ data: { token: 't2', created_at: 'now' }, error: null }))).toEqual({
+      data: { token: 't2', created_at: 'now' },
+      error: null,
+    });
+  });
+});
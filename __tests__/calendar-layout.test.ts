@@ -0,0 +1,53 @@
+import { calendarRange, layoutDay, shiftAnchor, snapToMinutes, type TimedItem } from '../app/lib/calendar-layout';
+
+const day = new Date(2026, 9, 19);
+const at = (hour: number, minute = 0, date = 19) => new Date(2026, 9, date, hour, minute);
+const item = (id: string, start: Date, end: Date | null): TimedItem<string> => ({ item: id, start, end });
+
+describe('calendarRange', () => {
+  it('shows six whole weeks from the Monday before the first of the month', () => {
+    expect(calendarRange('month', new Date(2026, 9, 19))).toEqual({ from: new Date(2026, 8, 28), to: new Date(2026, 10, 9) });
+  });
+
+  it('starts weeks on Monday, also when the anchor is a Sunday', () => {
+    expect(calendarRange('week', at(15, 0, 25))).toEqual({ from: new Date(2026, 9, 19), to: new Date(2026, 9, 26) });
+  });
+});
+
+describe('shiftAnchor', () => {
+  it('moves months from the first, so Jan 31 is not pushed into March', () => {
+    expect(shiftAnchor('month', new Date(2026, 0, 31), 1)).toEqual(new Date(2026, 1, 1));
+    expect(shiftAnchor('week', new Date(2026, 9, 19), -1)).toEqual(new Date(2026, 9, 12));
+  });
+});
+
+describe('layoutDay', () => {
+  it('shares columns only within a group of overlapping items', () => {
+    const blocks = layoutDay(
+      [item('a', at(9), at(11)), item('b', at(10), at(12)), item('c', at(11), at(13)), item('d', at(14), at(15))],
+      day,
+    );
+    expect(blocks.map(({ item: id, column, columns }) => [id, column, columns])).toEqual([
+      ['a', 0, 2],
+      ['b', 1, 2],
+      ['c', 0, 2],
+      ['d', 0, 1],
+    ]);
+  });
+
+  it('clips items to the day and leaves out those ending at midnight', () => {
+    const blocks = layoutDay([item('night', at(22, 0, 18), at(2)), item('yesterday', at(22, 0, 18), at(0))], day);
+    expect(blocks).toEqual([{ item: 'night', top: 0, height: 120, column: 0, columns: 1 }]);
+  });
+
+  it('keeps instant items visible, also right before midnight', () => {
+    expect(layoutDay([item('late', at(23, 59), null)], day)).toEqual([{ item: 'late', top: 1420, height: 20, column: 0, columns: 1 }]);
+  });
+});
+
+describe('snapToMinutes', () => {
+  it('rounds to the nearest step', () => {
+    expect(snapToMinutes(at(9, 7), 15)).toEqual(at(9));
+    expect(snapToMinutes(at(9, 8), 15)).toEqual(at(9, 15));
+  });
+});
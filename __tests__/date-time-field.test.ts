@@ -0,0 +1,26 @@
+import { fromInputValue, toInputValue } from '../components/date-time-field.web';
+
+describe('toInputValue', () => {
+  it('shows the local date and time the browser inputs expect', () => {
+    const iso = new Date(2026, 9, 19, 9, 5).toISOString();
+    expect(toInputValue(iso, 'datetime')).toBe('2026-10-19T09:05');
+    expect(toInputValue(iso, 'date')).toBe('2026-10-19');
+  });
+
+  it('leaves the input empty for missing or unreadable values', () => {
+    expect(toInputValue(null, 'datetime')).toBe('');
+    expect(toInputValue('not a date', 'date')).toBe('');
+  });
+});
+
+describe('fromInputValue', () => {
+  it('reads input values as local time, dates at midnight', () => {
+    expect(fromInputValue('2026-10-19T09:05', 'datetime')).toBe(new Date(2026, 9, 19, 9, 5).toISOString());
+    expect(fromInputValue('2026-10-19', 'date')).toBe(new Date(2026, 9, 19).toISOString());
+  });
+
+  it('clears the value for an emptied or half-typed input', () => {
+    expect(fromInputValue('', 'datetime')).toBeNull();
+    expect(fromInputValue('2026-13-45', 'date')).toBeNull();
+  });
+});
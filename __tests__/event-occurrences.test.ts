@@ -0,0 +1,76 @@
+import { endSeriesBefore, expandEvents, skipOccurrence, splitSeries, updateSeries } from '../app/lib/event-occurrences';
+import type { AgendaEvent } from '../app/lib/types';
+
+const at = (day: number, hour: number) => new Date(2026, 9, day, hour).toISOString();
+
+const daily = (patch: Partial<AgendaEvent> = {}) =>
+  ({ id: 'e1', title: 'Standup', starts_at: at(19, 9), ends_at: at(19, 10), recurrence: 'FREQ=DAILY', ...patch }) as AgendaEvent;
+
+const starts = (events: AgendaEvent[], from: Date, to: Date) => expandEvents(events, from, to).map((o) => o.starts_at);
+
+describe('expandEvents', () => {
+  it('leaves out skipped occurrences and shows moved ones where they went', () => {
+    const event = daily({
+      recurrence_exceptions: [
+        { original_start: at(20, 9), skipped: true },
+        { original_start: at(21, 9), starts_at: at(21, 14), ends_at: at(21, 15), title: 'Moved' },
+      ],
+    });
+    const occurrences = expandEvents([event], new Date(2026, 9, 19), new Date(2026, 9, 22));
+    expect(occurrences.map((o) => [o.starts_at, o.title, o.occurrence_key])).toEqual([
+      [at(19, 9), 'Standup', `e1@${at(19, 9)}`],
+      [at(21, 14), 'Moved', `e1@${at(21, 9)}`],
+    ]);
+  });
+
+  it('includes an occurrence that started before the range and is still running', () => {
+    const event = daily({ starts_at: at(19, 23), ends_at: at(20, 1) });
+    expect(starts([event], new Date(2026, 9, 21), new Date(2026, 9, 22))).toEqual([at(20, 23), at(21, 23)]);
+  });
+
+  it('keeps events without a start at the end', () => {
+    const undated = { id: 'e2', title: 'Someday', starts_at: null, ends_at: null } as AgendaEvent;
+    const once = { id: 'e3', title: 'Once', starts_at: at(19, 12), ends_at: null } as AgendaEvent;
+    expect(expandEvents([undated, once], new Date(2026, 9, 19), new Date(2026, 9, 20)).map((o) => o.id)).toEqual(['e3', 'e2']);
+  });
+});
+
+describe('skipOccurrence', () => {
+  it('replaces an earlier exception for the same occurrence', () => {
+    const event = daily({ recurrence_exceptions: [{ original_start: at(20, 9), title: 'Renamed' }] });
+    expect(skipOccurrence(event, at(20, 9)).recurrence_exceptions).toEqual([{ original_start: at(20, 9), skipped: true }]);
+  });
+});
+
+describe('endSeriesBefore', () => {
+  it('ends the series the second before, dropping later exceptions', () => {
+    const event = daily({ recurrence_exceptions: [{ original_start: at(25, 9), skipped: true }] });
+    const patch = endSeriesBefore(event, at(22, 9))!;
+    expect(starts([{ ...event, ...patch }], new Date(2026, 9, 19), new Date(2026, 10, 1))).toEqual([at(19, 9), at(20, 9), at(21, 9)]);
+    expect(patch.recurrence_exceptions).toEqual([]);
+  });
+
+  it('lowers COUNT instead of setting UNTIL, and returns null for the first occurrence', () => {
+    expect(endSeriesBefore(daily({ recurrence: 'FREQ=DAILY;COUNT=10' }), at(22, 9))).toMatchObject({ recurrence: 'FREQ=DAILY;COUNT=3' });
+    expect(endSeriesBefore(daily(), at(19, 9))).toBeNull();
+  });
+});
+
+describe('splitSeries', () => {
+  it('starts a new series from the occurrence with what is left of COUNT', () => {
+    const { head, tail } = splitSeries(daily({ recurrence: 'FREQ=DAILY;COUNT=10' }), at(22, 9), { title: 'Sync', starts_at: at(22, 11) });
+    expect(head).toMatchObject({ recurrence: 'FREQ=DAILY;COUNT=3' });
+    expect(tail).toMatchObject({ title: 'Sync', starts_at: at(22, 11), ends_at: at(22, 12), recurrence: 'FREQ=DAILY;COUNT=7' });
+  });
+});
+
+describe('updateSeries', () => {
+  it('moves the series start and the exception keys along with the occurrence', () => {
+    const event = daily({ recurrence_exceptions: [{ original_start: at(25, 9), skipped: true }] });
+    expect(updateSeries(event, at(22, 9), { starts_at: at(22, 11) })).toEqual({
+      starts_at: at(19, 11),
+      ends_at: at(19, 12),
+      recurrence_exceptions: [{ original_start: at(25, 11), skipped: true }],
+    });
+  });
+});
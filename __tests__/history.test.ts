@@ -0,0 +1,62 @@
+import { RepositoryError } from '../app/lib/driver';
+import { patchSteps, plural, revertPatches, runSteps, type HistoryStep } from '../app/lib/history';
+
+type Row = { id: string; title: string; priority?: string | null; is_done?: boolean };
+
+describe('revertPatches', () => {
+  it('reads the old values, unset ones as null, and skips rows it does not know', () => {
+    const rows: Row[] = [
+      { id: 'a', title: 'A', is_done: false },
+      { id: 'b', title: 'B', priority: 'low', is_done: true },
+    ];
+    expect(
+      revertPatches(rows, [
+        { id: 'a', patch: { priority: 'high', is_done: true } },
+        { id: 'b', patch: { priority: 'high' } },
+        { id: 'gone', patch: { priority: 'high' } },
+      ]),
+    ).toEqual([
+      { id: 'a', patch: { priority: null, is_done: false } },
+      { id: 'b', patch: { priority: 'low' } },
+    ]);
+  });
+});
+
+describe('patchSteps', () => {
+  it('makes one write per distinct change', async () => {
+    const update = jest.fn(async () => ({ error: null }));
+    const steps = patchSteps<Row>(
+      [
+        { id: 'a', patch: { priority: null } },
+        { id: 'b', patch: { priority: 'low' } },
+        { id: 'c', patch: { priority: null } },
+      ],
+      update,
+    );
+    expect(await runSteps(steps)).toBeNull();
+    expect(update.mock.calls).toEqual([
+      [['a', 'c'], { priority: null }],
+      [['b'], { priority: 'low' }],
+    ]);
+  });
+});
+
+describe('runSteps', () => {
+  it('stops at the first error', async () => {
+    const error = new RepositoryError('Offline', 'network');
+    const ran: number[] = [];
+    const step = (n: number, failing = false): HistoryStep => async () => {
+      ran.push(n);
+      return { error: failing ? error : null };
+    };
+    expect(await runSteps([step(1), step(2, true), step(3)])).toBe(error);
+    expect(ran).toEqual([1, 2]);
+  });
+});
+
+describe('plural', () => {
+  it('uses the singular for one only', () => {
+    expect([0, 1, 2].map((n) => plural(n, 'task'))).toEqual(['0 tasks', '1 task', '2 tasks']);
+    expect(plural(3, 'entry', 'entries')).toBe('3 entries');
+  });
+});
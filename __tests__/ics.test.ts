@@ -0,0 +1,115 @@
+import { eventsToIcs, parseIcs } from '../app/lib/ics';
+import type { AgendaEvent } from '../app/lib/types';
+
+const calendar = (...lines: string[]) => ['BEGIN:VCALENDAR', 'VERSION:2.0', ...lines, 'END:VCALENDAR'].join('\r\n');
+
+describe('eventsToIcs', () => {
+  it('round-trips a series with a skipped and a moved occurrence', () => {
+    const event = {
+      id: 'e1',
+      title: 'Standup; daily, short',
+      starts_at: '2026-10-19T07:00:00.000Z',
+      ends_at: '2026-10-19T07:15:00.000Z',
+      location: 'Room 1',
+      description: 'Line one\nLine two',
+      recurrence: 'FREQ=DAILY;COUNT=5',
+      recurrence_exceptions: [
+        { original_start: '2026-10-20T07:00:00.000Z', skipped: true },
+        { original_start: '2026-10-21T07:00:00.000Z', starts_at: '2026-10-21T09:00:00.000Z', title: 'Late standup' },
+      ],
+    } as AgendaEvent;
+
+    const { events, unsupportedRules } = parseIcs(eventsToIcs([event]));
+    expect(unsupportedRules).toBe(0);
+    expect(events).toEqual([
+      {
+        title: 'Standup; daily, short',
+        starts_at: '2026-10-19T07:00:00.000Z',
+        ends_at: '2026-10-19T07:15:00.000Z',
+        location: 'Room 1',
+        description: 'Line one\nLine two',
+        ical_uid: 'e1@mooftodo',
+        recurrence: 'FREQ=DAILY;COUNT=5',
+        recurrence_exceptions: [
+          { original_start: '2026-10-20T07:00:00.000Z', skipped: true },
+          {
+            original_start: '2026-10-21T07:00:00.000Z',
+            title: 'Late standup',
+            starts_at: '2026-10-21T09:00:00.000Z',
+            ends_at: '2026-10-21T09:15:00.000Z',
+            location: 'Room 1',
+          },
+        ],
+      },
+    ]);
+  });
+
+  it('folds long lines at 75 octets without splitting characters', () => {
+    const title = 'Vergadering over de begroting 🗓️ '.repeat(6).trim();
+    const ics = eventsToIcs([{ id: 'e1', title, starts_at: '2026-10-19T07:00:00.000Z' } as AgendaEvent]);
+    ics.split('\r\n').forEach((line) => expect(Buffer.byteLength(line, 'utf8')).toBeLessThanOrEqual(75));
+    expect(parseIcs(ics).events[0].title).toBe(title);
+  });
+});
+
+describe('parseIcs', () => {
+  it('reads durations and all-day dates and skips nested alarms', () => {
+    const { events } = parseIcs(
+      calendar(
+        'BEGIN:VEVENT',
+        'UID:a',
+        'DTSTART:20261019T070000Z',
+        'DURATION:PT1H30M',
+        'SUMMARY:Workshop',
+        'BEGIN:VALARM',
+        'SUMMARY:Alarm',
+        'END:VALARM',
+        'END:VEVENT',
+        'BEGIN:VEVENT',
+        'DTSTART;VALUE=DATE:20261020',
+        'SUMMARY:Holiday',
+        'END:VEVENT',
+      ),
+    );
+    expect(events.map(({ title, starts_at, ends_at }) => ({ title, starts_at, ends_at }))).toEqual([
+      { title: 'Workshop', starts_at: '2026-10-19T07:00:00.000Z', ends_at: '2026-10-19T08:30:00.000Z' },
+      { title: 'Holiday', starts_at: new Date(2026, 9, 20).toISOString(), ends_at: null },
+    ]);
+  });
+
+  it('keeps only the first occurrence of rules it cannot expand', () => {
+    const { events, unsupportedRules } = parseIcs(
+      calendar('BEGIN:VEVENT', 'DTSTART:20261019T070000Z', 'RRULE:FREQ=MONTHLY;BYDAY=MO,TU;BYSETPOS=1', 'SUMMARY:First', 'END:VEVENT'),
+    );
+    expect(unsupportedRules).toBe(1);
+    expect(events[0]).not.toHaveProperty('recurrence');
+  });
+
+  it('skips cancelled occurrences and keeps moved ones without a series as events', () => {
+    const { events } = parseIcs(
+      calendar(
+        'BEGIN:VEVENT',
+        'UID:s',
+        'DTSTART:20261019T070000Z',
+        'RRULE:FREQ=DAILY',
+        'SUMMARY:Series',
+        'END:VEVENT',
+        'BEGIN:VEVENT',
+        'UID:s',
+        'RECURRENCE-ID:20261020T070000Z',
+        'DTSTART:20261020T070000Z',
+        'STATUS:CANCELLED',
+        'END:VEVENT',
+        'BEGIN:VEVENT',
+        'UID:lone',
+        'RECURRENCE-ID:20261020T070000Z',
+        'DTSTART:20261020T090000Z',
+        'SUMMARY:Moved',
+        'END:VEVENT',
+      ),
+    );
+    expect(events.map((event) => event.title)).toEqual(['Series', 'Moved']);
+    expect(events[0].recurrence_exceptions).toEqual([{ original_start: '2026-10-20T07:00:00.000Z', skipped: true }]);
+    expect(events[1].ical_uid).toBe('lone/2026-10-20T07:00:00.000Z');
+  });
+});
@@ -0,0 +1,37 @@
+import { htmlToMarkdown, markdownToHtml } from '../app/lib/markdown';
+
+const roundTrip = (md: string) => htmlToMarkdown(markdownToHtml(md));
+
+describe('markdownToHtml', () => {
+  it('leaves emphasis markers in link and image URLs alone', () => {
+    expect(markdownToHtml('[x](https://x.com/a*b*c)')).toBe('<p><a href="https://x.com/a*b*c">x</a></p>');
+    expect(markdownToHtml('![plan](images/a*b*.png)')).toContain('src="images/a*b*.png" alt="plan"');
+    expect(markdownToHtml('<https://x.com/a_b_c>')).toBe('<p><a href="https://x.com/a_b_c">https://x.com/a_b_c</a></p>');
+  });
+
+  it('escapes raw HTML and neutralises script links', () => {
+    expect(markdownToHtml('<script>x()</script> [go](JavaScript:void)')).toBe(
+      '<p>&lt;script&gt;x()&lt;/script&gt; <a href="#">go</a></p>',
+    );
+  });
+
+  it('still reads emphasis in link labels and around links', () => {
+    expect(markdownToHtml('See [**docs**](https://x.com/__init__/_draft_/) _now_')).toBe(
+      '<p>See <a href="https://x.com/__init__/_draft_/"><b>docs</b></a> <i>now</i></p>',
+    );
+  });
+});
+
+describe('Markdown round trip', () => {
+  it('keeps links and images intact', () => {
+    expect(roundTrip('[x](https://x.com/a*b*c)')).toBe('[x](https://x.com/a*b*c)');
+    expect(roundTrip('See [**docs**](https://x.com/__init__/_draft_/) now')).toBe('See [**docs**](https://x.com/__init__/_draft_/) now');
+    expect(roundTrip('![plan](images/a*b*.png) and *it*')).toBe('![plan](images/a*b*.png) and *it*');
+  });
+
+  it('keeps lists, quotes and code', () => {
+    expect(roundTrip('- one\n- two\n\n1. a\n2. b')).toBe('- one\n- two\n\n1. a\n2. b');
+    expect(roundTrip('# T\n\n> quote **b**')).toBe('# T\n\n> quote **b**');
+    expect(roundTrip('snake\\_case and `a*b*`')).toBe('snake\\_case and `a*b*`');
+  });
+});
@@ -0,0 +1,66 @@
+import { eq } from '../app/lib/driver';
+import { createMemoryDriver } from '../app/lib/memory-driver';
+import { createRepository } from '../app/lib/repository';
+
+type Stamped = { id: string; title: string; created_at: string; updated_at: string };
+
+describe('createMemoryDriver', () => {
+  it('stamps updated_at on every update, like the set_updated_at trigger', async () => {
+    const driver = createMemoryDriver();
+    const { data: inserted } = await driver.insert<Stamped>('notes', [{ title: 'a' }], { returning: true });
+    const note = inserted![0];
+    expect(note.updated_at).toBe(note.created_at);
+
+    const first = await driver.update<Stamped>('notes', { title: 'b', updated_at: '2000-01-01T00:00:00.000Z' }, [eq('id', note.id)], {
+      returning: true,
+    });
+    const second = await driver.update<Stamped>('notes', { title: 'c' }, [eq('id', note.id)], { returning: true });
+    expect(first.data![0].updated_at > note.updated_at).toBe(true);
+    expect(second.data![0].updated_at > first.data![0].updated_at).toBe(true);
+  });
+
+  it('fails selects, filters and writes on missing columns', async () => {
+    const driver = createMemoryDriver({ seed: { tasks: [{ id: 't1', title: 'a', project: 'x' }] }, missingColumns: { tasks: ['project'] } });
+
+    const selected = await driver.select('tasks', { columns: 'id, project' });
+    expect(selected.error).toMatchObject({ kind: 'missing_column', column: 'project' });
+    const filtered = await driver.select('tasks', { filters: [eq('project', 'x')] });
+    expect(filtered.error).toMatchObject({ kind: 'missing_column', column: 'project' });
+    const updated = await driver.update('tasks', { project: 'y' }, [eq('id', 't1')]);
+    expect(updated.error).toMatchObject({ kind: 'missing_column', column: 'project' });
+
+    const all = await driver.select('tasks');
+    expect(all.data).toEqual([{ id: 't1', title: 'a' }]);
+  });
+});
+
+describe('createRepository on the memory driver', () => {
+  it('retries inserts without optional columns the schema lacks', async () => {
+    const repo = createRepository(createMemoryDriver({ missingColumns: { tasks: ['priority'] } }));
+    const result = await repo.tasks.create({ title: 'Task', user_id: 'u1', priority: 'high' });
+    expect(result.error).toBeNull();
+    expect(result.data).toMatchObject({ title: 'Task' });
+    expect(result.data).not.toHaveProperty('priority');
+    expect(result.droppedColumns).toEqual(['priority']);
+  });
+
+  it('lists all rows when the schema has no trash yet', async () => {
+    const driver = createMemoryDriver({
+      seed: { tasks: [{ id: 't1', title: 'a', user_id: 'u1', created_at: '2026-10-19T00:00:00.000Z' }] },
+      missingColumns: { tasks: ['deleted_at'] },
+    });
+    const result = await createRepository(driver).tasks.list('u1');
+    expect(result.error).toBeNull();
+    expect(result.data!.map((task) => task.id)).toEqual(['t1']);
+  });
+
+  it('only updates a note that is unchanged since it was read', async () => {
+    const driver = createMemoryDriver({ seed: { notes: [{ id: 'n1', title: 'a', updated_at: '2026-10-19T00:00:00.000Z' }] } });
+    const repo = createRepository(driver);
+
+    const saved = await repo.notes.updateIfUnchanged('n1', { title: 'b' }, '2026-10-19T00:00:00.000Z');
+    expect(saved.data).toMatchObject({ title: 'b' });
+    const stale = await repo.notes.updateIfUnchanged('n1', { title: 'c' }, '2026-10-19T00:00:00.000Z');
+    expect(stale).toEqual({ data: null, error: null });
+  });
+});
@@ -0,0 +1,44 @@
+import { mergeNote, mergeText } from '../app/lib/merge';
+
+describe('mergeText', () => {
+  it('takes the only side that changed', () => {
+    expect(mergeText('a b', 'a b', 'a c')).toEqual({ merged: 'a c', conflicts: 0 });
+    expect(mergeText('a b', 'a c', 'a b')).toEqual({ merged: 'a c', conflicts: 0 });
+    expect(mergeText('a b', 'a c', 'a c')).toEqual({ merged: 'a c', conflicts: 0 });
+  });
+
+  it('combines edits to different parts', () => {
+    const base = '<p>one two three</p>';
+    expect(mergeText(base, '<p>ONE two three</p>', '<p>one two THREE</p>')).toEqual({
+      merged: '<p>ONE two THREE</p>',
+      conflicts: 0,
+    });
+  });
+
+  it('keeps both sides of an overlapping edit, ours first', () => {
+    expect(mergeText('<p>one two</p>', '<p>one mine</p>', '<p>one theirs</p>')).toEqual({
+      merged: '<p>one minetheirs</p>',
+      conflicts: 1,
+    });
+  });
+
+  it('merges markup per tag', () => {
+    const { merged } = mergeText('<p>one</p><p>two</p>', '<p class="a">one</p><p>two</p>', '<p>one</p><p>two!</p>');
+    expect(merged).toBe('<p class="a">one</p><p>two!</p>');
+  });
+});
+
+describe('mergeNote', () => {
+  const base = { title: 'Plan', content: '<p>a b</p>', color: null };
+
+  it('keeps our title and color when both sides changed them', () => {
+    const result = mergeNote(base, { ...base, title: 'Mine', color: 'red' }, { ...base, title: 'Theirs', color: 'blue' });
+    expect(result.merged).toMatchObject({ title: 'Mine', color: 'red' });
+    expect(result.conflicts).toBe(1);
+  });
+
+  it('takes their color when only they changed it', () => {
+    const result = mergeNote(base, { ...base, content: '<p>a c</p>' }, { ...base, color: 'blue' });
+    expect(result).toEqual({ merged: { title: 'Plan', content: '<p>a c</p>', color: 'blue' }, conflicts: 0 });
+  });
+});
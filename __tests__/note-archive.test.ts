@@ -0,0 +1,77 @@
+import { strToU8, zipSync } from 'fflate';
+
+import { archiveDownload, markdownFiles, readMarkdownImport, safeName } from '../app/lib/note-archive';
+import type { Note, NoteFolder } from '../app/lib/types';
+
+// A 1x1 PNG, as the rich editor pastes it.
+const PIXEL = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg==';
+
+const folders = [
+  { id: 'f1', name: 'Work: 2026', parent_folder_id: null },
+  { id: 'f2', name: 'Meetings', parent_folder_id: 'f1' },
+] as NoteFolder[];
+const notes = [
+  { id: 'n1', title: 'Plan', content: `<p>See <img src="data:image/png;base64,${PIXEL}" alt="chart"></p>`, folder_id: 'f1' },
+  { id: 'n2', title: 'Plan', content: '<p>Second</p>', folder_id: 'f1' },
+  { id: 'n3', title: 'Monday', content: '<p><b>Notes</b></p>', folder_id: 'f2' },
+] as Note[];
+
+describe('markdownFiles', () => {
+  it('writes a directory per folder, unique file names and pasted images next to the notes', () => {
+    expect(markdownFiles(folders, notes, 'f1').map((file) => file.path)).toEqual([
+      'Work- 2026/images/Plan-1.png',
+      'Work- 2026/Plan.md',
+      'Work- 2026/Plan (2).md',
+      'Work- 2026/Meetings/Monday.md',
+    ]);
+  });
+});
+
+describe('readMarkdownImport', () => {
+  it('reads an exported zip back into the same folders and notes', () => {
+    const { content } = archiveDownload(markdownFiles(folders, notes, 'f1'), 'Work');
+    const imported = readMarkdownImport([{ name: 'Work.zip', data: content }]);
+
+    expect(imported.folders).toEqual([
+      { path: 'Work- 2026', name: 'Work- 2026', parentPath: '' },
+      { path: 'Work- 2026/Meetings', name: 'Meetings', parentPath: 'Work- 2026' },
+    ]);
+    expect(imported.notes.map(({ folderPath, title }) => [folderPath, title])).toEqual([
+      ['Work- 2026', 'Plan'],
+      ['Work- 2026', 'Plan'],
+      ['Work- 2026/Meetings', 'Monday'],
+    ]);
+    expect(imported.notes[0].content).toContain(`src="data:image/png;base64,${PIXEL}"`);
+    expect(imported.notes[2].content).toBe('<p><b>Notes</b></p>');
+    expect(imported.skipped).toEqual([]);
+  });
+
+  it('skips hidden and unreadable files, and names notes without a heading after the file', () => {
+    const zip = zipSync({
+      '__MACOSX/._a.md': strToU8('junk'),
+      '.hidden.md': strToU8('junk'),
+      'a.md': strToU8('\uFEFFJust text'),
+    });
+    const imported = readMarkdownImport([
+      { name: 'notes.zip', data: zip },
+      { name: 'photo.jpg', data: new Uint8Array([1]) },
+      { name: 'broken.zip', data: new Uint8Array([1, 2, 3]) },
+    ]);
+    expect(imported.notes).toEqual([{ folderPath: '', title: 'a', content: '<p>Just text</p>' }]);
+    expect(imported.skipped).toEqual(['photo.jpg', 'broken.zip']);
+  });
+});
+
+describe('archiveDownload', () => {
+  it('downloads a single note as a Markdown file', () => {
+    const download = archiveDownload(markdownFiles(folders, notes.slice(2), 'f2'), 'Meetings');
+    expect(download).toMatchObject({ filename: 'Monday.md', mimeType: 'text/markdown' });
+  });
+});
+
+describe('safeName', () => {
+  it('replaces characters some systems do not allow', () => {
+    expect(safeName(' a/b:c*? ')).toBe('a-b-c--');
+    expect(safeName('   ')).toBe('Untitled');
+  });
+});
@@ -0,0 +1,57 @@
+import { notesPdfHtml, pdfFileName, pdfNotes } from '../app/lib/note-pdf';
+import type { Note, NoteFolder } from '../app/lib/types';
+
+const now = new Date(2026, 9, 19);
+const note = (id: string, title: string, folder_id: string | null, content = '<p>x</p>') => ({ id, title, folder_id, content }) as Note;
+const folder = (id: string, name: string, parent_folder_id: string | null) => ({ id, name, parent_folder_id }) as NoteFolder;
+
+const folders = [folder('f1', 'Work', null), folder('f2', 'Archive', 'f1'), folder('f3', 'Admin', 'f1')];
+const notes = [note('n1', 'Zeta', 'f1'), note('n2', 'Alpha', 'f1'), note('n3', 'Old', 'f2'), note('n4', 'Loose', null), note('n5', 'Tax', 'f3')];
+
+describe('pdfNotes', () => {
+  it('lists notes in folder tree order with their folder path', () => {
+    expect(pdfNotes(folders, notes, 'f1').map(({ note: n, folderPath }) => [n.title, folderPath])).toEqual([
+      ['Alpha', 'Work'],
+      ['Zeta', 'Work'],
+      ['Tax', 'Work / Admin'],
+      ['Old', 'Work / Archive'],
+    ]);
+  });
+
+  it('starts with loose notes when exporting everything, and survives folder cycles', () => {
+    const looped = [folder('a', 'A', 'b'), folder('b', 'B', 'a'), folder('top', 'Top', 'gone')];
+    const list = pdfNotes(looped, [note('x', 'In A', 'a'), note('y', 'Loose', null), note('z', 'In Top', 'top')], null);
+    expect(list.map(({ note: n }) => n.title)).toEqual(['Loose', 'In Top']);
+    expect(pdfNotes(looped, [note('x', 'In A', 'a')], 'a').map(({ folderPath }) => folderPath)).toEqual(['A']);
+  });
+});
+
+describe('notesPdfHtml', () => {
+  it('adds a title page with contents only for several notes', () => {
+    const html = notesPdfHtml('Work', pdfNotes(folders, notes, 'f1'), now);
+    expect(html).toContain('<section class="title-page">');
+    expect(html).toContain('4 notes');
+    const single = notesPdfHtml('Alpha', [{ note: notes[1], folderPath: '' }], now);
+    expect(single).not.toContain('<section class="title-page">');
+    expect(single).toContain('<section class="note" style="break-before: auto;');
+  });
+
+  it('escapes titles and strips scripts, event handlers and script links from content', () => {
+    const content = '<p onclick="steal()">Hi <a href="javascript:steal()">link</a></p><script>steal()</script><iframe src="x"></iframe>';
+    const html = notesPdfHtml('<b>Report</b>', [{ note: note('n', 'A & B', null, content), folderPath: '' }], now);
+    expect(html).toContain('<title>&lt;b&gt;Report&lt;/b&gt;</title>');
+    expect(html).toContain('<h1>A &amp; B</h1>');
+    expect(html).toContain('<p>Hi <a href="#">link</a></p>');
+    expect(html).not.toMatch(/steal|iframe/);
+  });
+
+  it('shows a placeholder for empty notes', () => {
+    expect(notesPdfHtml('Empty', [{ note: note('n', '', null, ''), folderPath: '' }], now)).toContain('<p class="empty">No content</p>');
+  });
+});
+
+describe('pdfFileName', () => {
+  it('makes a safe file name', () => {
+    expect(pdfFileName('Q3: plan/review')).toBe('Q3- plan-review.pdf');
+  });
+});
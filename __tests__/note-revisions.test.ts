@@ -0,0 +1,73 @@
+import { diffText } from '../app/lib/merge';
+import { noteText, REVISION_INTERVAL_MS, revisionWrites } from '../app/lib/note-revisions';
+import type { NoteRevision } from '../app/lib/types';
+
+const now = new Date('2026-10-19T12:00:00.000Z');
+const before = { title: 'Plan', content: '<p>a</p>', color: null, updated_at: '2026-10-18T09:00:00.000Z' };
+const saved = { title: 'Plan', content: '<p>b</p>', color: null };
+
+const revision = (user_id: string | null, age: number, patch: Partial<NoteRevision> = {}) =>
+  ({
+    id: 'r1',
+    note_id: 'n1',
+    user_id,
+    title: 'Plan',
+    content: '<p>a</p>',
+    color: null,
+    created_at: new Date(now.getTime() - age).toISOString(),
+    ...patch,
+  }) as NoteRevision;
+
+describe('revisionWrites', () => {
+  it('keeps the original text before the first revision, for the owner only', () => {
+    expect(revisionWrites('n1', null, before, saved, 'u1', true, now)).toEqual([
+      {
+        type: 'insert',
+        revision: { note_id: 'n1', user_id: null, title: 'Plan', content: '<p>a</p>', color: null, created_at: before.updated_at },
+      },
+      { type: 'insert', revision: { note_id: 'n1', user_id: 'u1', title: 'Plan', content: '<p>b</p>', color: null } },
+    ]);
+    expect(revisionWrites('n1', null, before, saved, 'u2', false, now)).toEqual([
+      { type: 'insert', revision: { note_id: 'n1', user_id: 'u2', title: 'Plan', content: '<p>b</p>', color: null } },
+    ]);
+  });
+
+  it('updates the author’s latest revision within the interval', () => {
+    expect(revisionWrites('n1', revision('u1', REVISION_INTERVAL_MS - 1), before, saved, 'u1', true, now)).toEqual([
+      { type: 'update', id: 'r1', patch: { title: 'Plan', content: '<p>b</p>', color: null } },
+    ]);
+  });
+
+  it('starts a new revision after the interval or after someone else saved', () => {
+    expect(revisionWrites('n1', revision('u1', REVISION_INTERVAL_MS), before, saved, 'u1', true, now)[0].type).toBe('insert');
+    expect(revisionWrites('n1', revision('u2', 0), before, saved, 'u1', true, now)[0].type).toBe('insert');
+  });
+
+  it('writes nothing when the text did not change', () => {
+    expect(revisionWrites('n1', null, before, { ...before }, 'u1', true, now)).toEqual([]);
+    expect(revisionWrites('n1', revision('u2', 0, { content: '<p>b</p>' }), before, saved, 'u1', true, now)).toEqual([]);
+  });
+});
+
+describe('noteText', () => {
+  it('puts blocks on their own lines and decodes entities', () => {
+    expect(noteText('<h1>Plan</h1><p>Tom &amp; Jerry&nbsp;&lt;3</p><ul><li>one</li><li>two<br>three</li></ul>')).toBe(
+      'Plan\nTom & Jerry <3\none\ntwo\nthree',
+    );
+  });
+});
+
+describe('diffText', () => {
+  it('marks what was removed and added between two versions', () => {
+    expect(diffText('Buy milk', 'Buy oat milk')).toEqual([
+      { kind: 'same', text: 'Buy ' },
+      { kind: 'added', text: 'oat ' },
+      { kind: 'same', text: 'milk' },
+    ]);
+    expect(diffText('Buy milk today', 'Buy milk')).toEqual([
+      { kind: 'same', text: 'Buy milk' },
+      { kind: 'removed', text: ' today' },
+    ]);
+    expect(diffText('', 'new')).toEqual([{ kind: 'added', text: 'new' }]);
+  });
+});
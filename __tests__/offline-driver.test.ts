@@ -0,0 +1,111 @@
+import { eq, TableDriver } from '../app/lib/driver';
+import { createMemoryDriver } from '../app/lib/memory-driver';
+import { createOfflineDriver, KeyValueStorage } from '../app/lib/offline-driver';
+
+const memoryStorage = (): KeyValueStorage => {
+  const items = new Map<string, string>();
+  return {
+    getItem: async (key) => items.get(key) ?? null,
+    setItem: async (key, value) => {
+      items.set(key, value);
+    },
+    removeItem: async (key) => {
+      items.delete(key);
+    },
+  };
+};
+
+describe('createOfflineDriver', () => {
+  it('keeps an edit made while the same row is being synced', async () => {
+    const remote = createMemoryDriver({ seed: { notes: [{ id: 'n1', title: 'server', updated_at: '2026-10-19T00:00:00.000Z' }] } });
+    // Once armed, holds the next update until the test lets it through.
+    let release = () => {};
+    let reached = () => {};
+    const updateReached = new Promise<void>((resolve) => (reached = resolve));
+    const held = new Promise<void>((resolve) => (release = resolve));
+    let armed = false;
+    const gated: TableDriver = {
+      ...remote,
+      update: async (...args) => {
+        if (armed) {
+          armed = false;
+          reached();
+          await held;
+        }
+        return remote.update(...args);
+      },
+    };
+    const driver = createOfflineDriver(gated, memoryStorage());
+    await driver.select('notes');
+
+    remote.setOffline(true);
+    await driver.update('notes', { title: 'offline-1' }, [eq('id', 'n1')]);
+    expect(driver.getStatus().pending).toBe(1);
+
+    remote.setOffline(false);
+    armed = true;
+    const flushed = driver.flush();
+    await updateReached;
+    await driver.update('notes', { title: 'offline-2' }, [eq('id', 'n1')]);
+    release();
+    // The second edit is queued behind the first and replayed by the same flush
+    await flushed;
+
+    expect(driver.getStatus()).toMatchObject({ pending: 0, conflicts: [] });
+    expect(remote.snapshot().notes[0].title).toBe('offline-2');
+  });
+
+  it('reports a compare-and-set save that lost to a newer server version', async () => {
+    const original = '2026-10-19T00:00:00.000Z';
+    const remote = createMemoryDriver({ seed: { notes: [{ id: 'n1', content: 'original', updated_at: original }] } });
+    const driver = createOfflineDriver(remote, memoryStorage());
+    await driver.select('notes');
+
+    // A note save while offline, as notes.updateIfUnchanged writes it
+    remote.setOffline(true);
+    await driver.update('notes', { content: 'mine' }, [eq('id', 'n1'), eq('updated_at', original)]);
+    remote.setOffline(false);
+    await remote.update('notes', { content: 'theirs' }, [eq('id', 'n1')]);
+
+    await driver.flush();
+    const { pending, conflicts } = driver.getStatus();
+    expect(pending).toBe(0);
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0]).toMatchObject({ reason: 'conflict', serverRows: [{ id: 'n1', content: 'theirs' }] });
+    expect(remote.snapshot().notes[0].content).toBe('theirs');
+
+    await driver.resolveConflict(conflicts[0].id, 'mine');
+    expect(driver.getStatus()).toMatchObject({ pending: 0, conflicts: [] });
+    expect(remote.snapshot().notes[0].content).toBe('mine');
+  });
+
+  it('treats a compare-and-set that matches no row as a conflict', async () => {
+    const remote = createMemoryDriver({ seed: { notes: [{ id: 'n1', content: 'theirs', updated_at: '2026-10-19T01:00:00.000Z' }] } });
+    const driver = createOfflineDriver(remote, memoryStorage());
+
+    // Nothing cached, so there is no base version to compare against up front
+    remote.setOffline(true);
+    await driver.update('notes', { content: 'mine' }, [eq('id', 'n1'), eq('updated_at', '2026-10-19T00:00:00.000Z')]);
+    remote.setOffline(false);
+    await driver.flush();
+
+    expect(driver.getStatus().conflicts).toMatchObject([{ reason: 'conflict', serverRows: [{ id: 'n1', content: 'theirs' }] }]);
+    expect(remote.snapshot().notes[0].content).toBe('theirs');
+  });
+
+  it('moves queued compare-and-set saves forward past the versions it syncs', async () => {
+    const original = '2026-10-19T00:00:00.000Z';
+    const remote = createMemoryDriver({ seed: { notes: [{ id: 'n1', title: 'a', content: 'a', updated_at: original }] } });
+    const driver = createOfflineDriver(remote, memoryStorage());
+    await driver.select('notes');
+
+    remote.setOffline(true);
+    await driver.update('notes', { title: 'b' }, [eq('id', 'n1')]);
+    await driver.update('notes', { content: 'b' }, [eq('id', 'n1'), eq('updated_at', original)]);
+    remote.setOffline(false);
+    await driver.flush();
+
+    expect(driver.getStatus()).toMatchObject({ pending: 0, conflicts: [] });
+    expect(remote.snapshot().notes[0]).toMatchObject({ title: 'b', content: 'b' });
+  });
+});
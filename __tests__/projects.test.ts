@@ -0,0 +1,41 @@
+import { activeProjects, findProjectByName, projectTasks, taskProjectLabel } from '../app/lib/projects';
+import type { Project, Task } from '../app/lib/types';
+
+const project = (id: string, name: string, patch: Partial<Project> = {}) => ({ id, name, color: '#059669', ...patch }) as Project;
+const task = (id: string, patch: Partial<Task> = {}) => ({ id, title: id, is_done: false, ...patch }) as Task;
+
+const projects = [project('p1', 'Work'), project('p2', 'Garden', { archived_at: '2026-10-01T00:00:00.000Z' }), project('p3', 'Admin')];
+
+describe('activeProjects', () => {
+  it('leaves out archived projects and sorts by name', () => {
+    expect(activeProjects(projects).map((p) => p.id)).toEqual(['p3', 'p1']);
+  });
+});
+
+describe('findProjectByName', () => {
+  it('matches case-insensitively, archived projects included', () => {
+    expect(findProjectByName(projects, '  work ')?.id).toBe('p1');
+    expect(findProjectByName(projects, 'GARDEN')?.id).toBe('p2');
+    expect(findProjectByName(projects, ' ')).toBeNull();
+  });
+});
+
+describe('taskProjectLabel', () => {
+  it('prefers the linked project over the legacy text', () => {
+    expect(taskProjectLabel(task('t', { project_id: 'p1', project: 'Old' }), projects)).toEqual({ name: 'Work', color: '#059669' });
+    expect(taskProjectLabel(task('t', { project: ' Old ' }), projects)).toEqual({ name: 'Old', color: null });
+    expect(taskProjectLabel(task('t', { project_id: 'gone' }), projects)).toBeNull();
+  });
+});
+
+describe('projectTasks', () => {
+  it('includes unlinked tasks whose legacy text names the project', () => {
+    const tasks = [
+      task('linked', { project_id: 'p1' }),
+      task('legacy', { project: 'work ' }),
+      task('elsewhere', { project_id: 'p3', project: 'Work' }),
+      task('none'),
+    ];
+    expect(projectTasks(projects[0], tasks).map((t) => t.id)).toEqual(['linked', 'legacy']);
+  });
+});
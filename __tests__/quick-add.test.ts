@@ -0,0 +1,79 @@
+import { parseQuickAdd, quickAddStart } from '../app/lib/quick-add';
+
+// Monday 19 October 2026, 08:00
+const now = new Date(2026, 9, 19, 8);
+
+describe('parseQuickAdd', () => {
+  it('leaves bare number ranges in the title', () => {
+    expect(parseQuickAdd('Read chapter 3-4', now)).toMatchObject({ title: 'Read chapter 3-4', kind: 'task', start: null });
+    expect(parseQuickAdd('Sprint 1-2 review', now)).toMatchObject({ title: 'Sprint 1-2 review', start: null, end: null });
+  });
+
+  it('reads bare ranges after a time cue or next to a day', () => {
+    expect(parseQuickAdd('Meeting vrijdag 10-11 @kantoor', now)).toMatchObject({
+      title: 'Meeting',
+      kind: 'event',
+      start: new Date(2026, 9, 23, 10),
+      end: new Date(2026, 9, 23, 11),
+    });
+    expect(parseQuickAdd('Standup from 9-10', now)).toMatchObject({ start: new Date(2026, 9, 19, 9), end: new Date(2026, 9, 19, 10) });
+    expect(parseQuickAdd('Dentist 14-15 tomorrow', now)).toMatchObject({
+      title: 'Dentist',
+      start: new Date(2026, 9, 20, 14),
+      end: new Date(2026, 9, 20, 15),
+    });
+  });
+
+  it('reads ranges with minutes or am/pm anywhere', () => {
+    expect(parseQuickAdd('Lunch 3-4pm', now)).toMatchObject({ title: 'Lunch', start: new Date(2026, 9, 19, 15), end: new Date(2026, 9, 19, 16) });
+    expect(parseQuickAdd('Workshop 10:00-11:30', now)).toMatchObject({
+      title: 'Workshop',
+      start: new Date(2026, 9, 19, 10),
+      end: new Date(2026, 9, 19, 11, 30),
+    });
+  });
+
+  it('pulls project, priority and location out of the title', () => {
+    expect(parseQuickAdd('Call Anna tomorrow 15:00 #work !high', now)).toEqual({
+      title: 'Call Anna',
+      kind: 'task',
+      start: new Date(2026, 9, 20, 15),
+      end: null,
+      allDay: false,
+      project: 'work',
+      priority: 'high',
+      location: null,
+      hasFields: true,
+    });
+    expect(parseQuickAdd('Lunch !! @"De Kroon"', now)).toMatchObject({ title: 'Lunch', kind: 'event', priority: 'medium', location: 'De Kroon' });
+  });
+
+  it('reads reminders and times that have passed today as tomorrow', () => {
+    expect(parseQuickAdd('herinner me om planten water te geven om 18u', now)).toMatchObject({
+      title: 'planten water te geven',
+      kind: 'reminder',
+      start: new Date(2026, 9, 19, 18),
+    });
+    expect(parseQuickAdd('Run 7:30', now)).toMatchObject({ title: 'Run', start: new Date(2026, 9, 20, 7, 30) });
+  });
+
+  it('reads days as the next one to come', () => {
+    expect(parseQuickAdd('Review maandag', now)).toMatchObject({ start: new Date(2026, 9, 26), allDay: true });
+    expect(parseQuickAdd('Taxes 24 jan', now)).toMatchObject({ title: 'Taxes', start: new Date(2027, 0, 24) });
+    expect(parseQuickAdd('Party 22:00-1:00', now)).toMatchObject({ start: new Date(2026, 9, 19, 22), end: new Date(2026, 9, 20, 1) });
+  });
+
+  it('leaves what is not a date or time in the title', () => {
+    expect(parseQuickAdd('Pay 31/02', now)).toMatchObject({ title: 'Pay 31/02', start: null, hasFields: false });
+    expect(parseQuickAdd('Buy 3 apples', now)).toMatchObject({ title: 'Buy 3 apples', start: null, hasFields: false });
+    expect(parseQuickAdd('tomorrow', now)).toMatchObject({ title: 'tomorrow', start: new Date(2026, 9, 20) });
+  });
+});
+
+describe('quickAddStart', () => {
+  it('gives all-day results a time of day', () => {
+    expect(quickAddStart(parseQuickAdd('Dentist vrijdag', now))).toEqual(new Date(2026, 9, 23, 9));
+    expect(quickAddStart(parseQuickAdd('Dentist vrijdag 14:30', now))).toEqual(new Date(2026, 9, 23, 14, 30));
+    expect(quickAddStart(parseQuickAdd('Dentist', now))).toBeNull();
+  });
+});
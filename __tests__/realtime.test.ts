@@ -0,0 +1,29 @@
+import { removeById, upsertById } from '../app/lib/realtime';
+
+type Item = { id: string; title: string; color?: string };
+
+describe('upsertById', () => {
+  it('patches a known row in place and keeps fields the change lacks', () => {
+    const list: Item[] = [
+      { id: 'a', title: 'a', color: 'red' },
+      { id: 'b', title: 'b' },
+    ];
+    expect(upsertById(list, { id: 'a', title: 'A' })).toEqual([
+      { id: 'a', title: 'A', color: 'red' },
+      { id: 'b', title: 'b' },
+    ]);
+  });
+
+  it('adds an unknown row at the front', () => {
+    expect(upsertById<Item>([{ id: 'a', title: 'a' }], { id: 'b', title: 'b' }).map((item) => item.id)).toEqual(['b', 'a']);
+  });
+});
+
+describe('removeById', () => {
+  it('leaves the list alone without an id', () => {
+    const list: Item[] = [{ id: 'a', title: 'a' }];
+    expect(removeById(list, undefined)).toBe(list);
+    expect(removeById(list, 'a')).toEqual([]);
+    expect(removeById(list, 'x')).toEqual(list);
+  });
+});
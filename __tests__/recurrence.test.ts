@@ -0,0 +1,97 @@
+import {
+  advanceRecurrence,
+  describeRecurrence,
+  formatRecurrence,
+  nextOccurrence,
+  occurrencesBetween,
+  parseRecurrence,
+} from '../app/lib/recurrence';
+
+const between = (value: string, start: Date, from: Date, to: Date) => occurrencesBetween(parseRecurrence(value)!, start, from, to);
+
+describe('parseRecurrence', () => {
+  it('reads rules in any case, with or without the RRULE: prefix', () => {
+    expect(parseRecurrence('RRULE:freq=weekly;byday=mo,we')).toEqual({
+      freq: 'WEEKLY',
+      interval: 1,
+      byDay: [{ weekday: 'MO' }, { weekday: 'WE' }],
+    });
+  });
+
+  it('rejects what it cannot repeat', () => {
+    expect(parseRecurrence('FREQ=HOURLY')).toBeNull();
+    expect(parseRecurrence('FREQ=DAILY;COUNT=0')).toBeNull();
+    expect(parseRecurrence('FREQ=WEEKLY;BYDAY=XX')).toBeNull();
+    expect(parseRecurrence('FREQ=MONTHLY;BYMONTHDAY=32')).toBeNull();
+    expect(parseRecurrence('  ')).toBeNull();
+  });
+
+  it('formats back to the same rule', () => {
+    const value = 'FREQ=MONTHLY;INTERVAL=2;BYDAY=-1FR;COUNT=3';
+    expect(formatRecurrence(parseRecurrence(value)!)).toBe(value);
+  });
+});
+
+describe('occurrencesBetween', () => {
+  it('finds the last weekday of each month', () => {
+    expect(between('FREQ=MONTHLY;BYDAY=-1FR', new Date(2026, 9, 30, 9), new Date(2026, 9, 1), new Date(2027, 0, 1))).toEqual([
+      new Date(2026, 9, 30, 9),
+      new Date(2026, 10, 27, 9),
+      new Date(2026, 11, 25, 9),
+    ]);
+  });
+
+  it('skips months that lack the start day, unless counting from the end', () => {
+    const start = new Date(2026, 0, 31, 9);
+    const from = new Date(2026, 0, 1);
+    const to = new Date(2026, 5, 1);
+    expect(between('FREQ=MONTHLY', start, from, to)).toEqual([new Date(2026, 0, 31, 9), new Date(2026, 2, 31, 9), new Date(2026, 4, 31, 9)]);
+    expect(between('FREQ=MONTHLY;BYMONTHDAY=-1;COUNT=3', start, from, to)).toEqual([
+      new Date(2026, 0, 31, 9),
+      new Date(2026, 1, 28, 9),
+      new Date(2026, 2, 31, 9),
+    ]);
+  });
+
+  it('stops at UNTIL, which covers the whole day when it has no time', () => {
+    expect(between('FREQ=DAILY;UNTIL=20261021', new Date(2026, 9, 19, 9), new Date(2026, 9, 1), new Date(2026, 11, 1))).toEqual([
+      new Date(2026, 9, 19, 9),
+      new Date(2026, 9, 20, 9),
+      new Date(2026, 9, 21, 9),
+    ]);
+  });
+});
+
+describe('nextOccurrence', () => {
+  it('only repeats February 29 in leap years', () => {
+    expect(nextOccurrence(parseRecurrence('FREQ=YEARLY')!, new Date(2024, 1, 29, 9), new Date(2024, 2, 1))).toEqual(
+      new Date(2028, 1, 29, 9),
+    );
+  });
+});
+
+describe('advanceRecurrence', () => {
+  it('keeps advancing series that started long ago', () => {
+    const result = advanceRecurrence('FREQ=DAILY', new Date(2000, 0, 1, 9), new Date(2026, 9, 19, 12));
+    expect(result).toEqual({ next: new Date(2026, 9, 20, 9), rule: 'FREQ=DAILY' });
+  });
+
+  it('counts the occurrences passed against COUNT', () => {
+    const result = advanceRecurrence('FREQ=DAILY;COUNT=5', new Date(2026, 9, 1, 9), new Date(2026, 9, 3, 12));
+    expect(result).toEqual({ next: new Date(2026, 9, 4, 9), rule: 'FREQ=DAILY;COUNT=2' });
+    expect(advanceRecurrence('FREQ=DAILY;COUNT=5', new Date(2026, 9, 1, 9), new Date(2026, 9, 6, 12))).toBeNull();
+  });
+
+  it('gives up on rules it cannot read', () => {
+    expect(advanceRecurrence('FREQ=SOMETIMES', new Date(2026, 9, 1, 9), new Date(2026, 9, 3, 12))).toBeNull();
+  });
+});
+
+describe('describeRecurrence', () => {
+  it('names common rules', () => {
+    expect(describeRecurrence('FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR')).toBe('Every weekday');
+    expect(describeRecurrence('FREQ=MONTHLY;BYDAY=-1FR')).toBe('Last Friday of the month');
+    expect(describeRecurrence('FREQ=DAILY;INTERVAL=2;COUNT=3')).toBe('Every 2 days, 3×');
+    expect(describeRecurrence(null)).toBeNull();
+  });
+});
@@ -0,0 +1,56 @@
+import * as Notifications from 'expo-notifications';
+
+import { scheduleReminderNotification, syncReminderNotifications } from '../app/lib/reminder-notifications';
+import type { Reminder } from '../app/lib/types';
+
+jest.mock('expo-notifications', () => ({
+  setNotificationHandler: jest.fn(),
+  setNotificationChannelAsync: jest.fn(),
+  setNotificationCategoryAsync: jest.fn(),
+  getPermissionsAsync: jest.fn(async () => ({ granted: true })),
+  requestPermissionsAsync: jest.fn(),
+  scheduleNotificationAsync: jest.fn(),
+  cancelScheduledNotificationAsync: jest.fn(),
+  getAllScheduledNotificationsAsync: jest.fn(async () => []),
+  AndroidImportance: { HIGH: 4 },
+  SchedulableTriggerInputTypes: { DATE: 'date' },
+}));
+
+const mocked = jest.mocked(Notifications);
+const inAnHour = () => new Date(Date.now() + 60 * 60 * 1000).toISOString();
+const reminder = (id: string, patch: Partial<Reminder> = {}) =>
+  ({ id, title: id, is_done: false, remind_at: inAnHour(), ...patch }) as Reminder;
+const scheduledIds = () => mocked.scheduleNotificationAsync.mock.calls.map(([request]) => request.identifier);
+
+beforeEach(() => jest.clearAllMocks());
+
+describe('scheduleReminderNotification', () => {
+  it('replaces the notification of an upcoming reminder', async () => {
+    await scheduleReminderNotification(reminder('r1'));
+    expect(mocked.cancelScheduledNotificationAsync).toHaveBeenCalledWith('reminder-r1');
+    expect(scheduledIds()).toEqual(['reminder-r1']);
+  });
+
+  it('only cancels for done or past reminders', async () => {
+    await scheduleReminderNotification(reminder('done', { is_done: true }));
+    await scheduleReminderNotification(reminder('past', { remind_at: new Date(Date.now() - 1000).toISOString() }));
+    await scheduleReminderNotification(reminder('unset', { remind_at: null }));
+    expect(mocked.cancelScheduledNotificationAsync).toHaveBeenCalledTimes(3);
+    expect(scheduledIds()).toEqual([]);
+  });
+});
+
+describe('syncReminderNotifications', () => {
+  it('drops notifications of reminders that are gone and leaves other notifications alone', async () => {
+    mocked.getAllScheduledNotificationsAsync.mockResolvedValueOnce([
+      { identifier: 'reminder-gone' },
+      { identifier: 'reminder-r1' },
+      { identifier: 'other' },
+    ] as Notifications.NotificationRequest[]);
+    await syncReminderNotifications([reminder('r1'), reminder('done', { is_done: true })]);
+
+    expect(mocked.cancelScheduledNotificationAsync).toHaveBeenCalledWith('reminder-gone');
+    expect(mocked.cancelScheduledNotificationAsync).not.toHaveBeenCalledWith('other');
+    expect(scheduledIds()).toEqual(['reminder-r1']);
+  });
+});
@@ -0,0 +1,68 @@
+import { completionPatches, descendantIds, rootTasks, taskProgress } from '../app/lib/subtasks';
+import type { Task } from '../app/lib/types';
+
+const task = (id: string, patch: Partial<Task> = {}) => ({ id, title: id, is_done: false, ...patch }) as Task;
+
+// goal > step > (a, b)
+const tree = () => [
+  task('goal'),
+  task('step', { parent_id: 'goal' }),
+  task('a', { parent_id: 'step', is_done: true }),
+  task('b', { parent_id: 'step' }),
+];
+
+describe('completionPatches', () => {
+  it('closes every parent whose last open subtask is done', () => {
+    expect(completionPatches(tree(), 'b', { is_done: true })).toEqual([
+      { id: 'b', patch: { is_done: true } },
+      { id: 'step', patch: { is_done: true } },
+      { id: 'goal', patch: { is_done: true } },
+    ]);
+  });
+
+  it('reopens completed parents when a subtask is unchecked', () => {
+    const done = tree().map((t) => ({ ...t, is_done: true }));
+    expect(completionPatches(done, 'a', { is_done: false })).toEqual([
+      { id: 'a', patch: { is_done: false } },
+      { id: 'step', patch: { is_done: false } },
+      { id: 'goal', patch: { is_done: false } },
+    ]);
+  });
+
+  it('stops at a parent that does not auto-complete', () => {
+    const tasks = tree().map((t) => (t.id === 'step' ? { ...t, auto_complete: false } : t));
+    expect(completionPatches(tasks, 'b', { is_done: true })).toEqual([{ id: 'b', patch: { is_done: true } }]);
+  });
+
+  it('closes a task once its checklist is done', () => {
+    const tasks = [task('list', { checklist: [{ id: 'c1', text: 'x', done: true }] })];
+    const checklist = [
+      { id: 'c1', text: 'x', done: true },
+      { id: 'c2', text: 'y', done: true },
+    ];
+    expect(completionPatches(tasks, 'list', { checklist })).toEqual([{ id: 'list', patch: { checklist, is_done: true } }]);
+  });
+
+  it('survives parent cycles in bad data', () => {
+    const tasks = [task('x', { parent_id: 'y' }), task('y', { parent_id: 'x' })];
+    expect(completionPatches(tasks, 'x', { is_done: true })).toEqual([
+      { id: 'x', patch: { is_done: true } },
+      { id: 'y', patch: { is_done: true } },
+    ]);
+    expect(descendantIds(tasks, 'x')).toEqual(['y']);
+  });
+});
+
+describe('rootTasks', () => {
+  it('lists subtasks whose parent is missing at the top level', () => {
+    expect(rootTasks([...tree(), task('orphan', { parent_id: 'gone' })]).map((t) => t.id)).toEqual(['goal', 'orphan']);
+  });
+});
+
+describe('taskProgress', () => {
+  it('counts direct subtasks and checklist items', () => {
+    const step = { ...tree()[1], checklist: [{ id: 'c1', text: 'x', done: true }] };
+    expect(taskProgress(step, tree())).toEqual({ done: 2, total: 3 });
+    expect(descendantIds(tree(), 'goal')).toEqual(['step', 'a', 'b']);
+  });
+});
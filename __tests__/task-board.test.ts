@@ -0,0 +1,62 @@
+import { boardColumns, moveToColumnPatch, type BoardContext } from '../app/lib/task-board';
+import type { Project, Task, WorkflowStatus } from '../app/lib/types';
+
+const task = (id: string, patch: Partial<Task> = {}) => ({ id, title: id, is_done: false, ...patch }) as Task;
+const status = (id: string, position: number, is_completed = false) =>
+  ({ id, name: id, color: null, position, is_completed }) as WorkflowStatus;
+
+const projects = [
+  { id: 'p1', name: 'Work' },
+  { id: 'p2', name: 'Garden', archived_at: '2026-10-01T00:00:00.000Z' },
+  { id: 'p3', name: 'Attic', archived_at: '2026-10-01T00:00:00.000Z' },
+] as Project[];
+const statuses = [status('doing', 1), status('backlog', 0), status('done', 2, true)];
+const context: BoardContext = { projects, statuses };
+
+const columnTasks = (tasks: Task[], grouping: 'status' | 'project' | 'priority', ctx = context) =>
+  boardColumns(tasks, grouping, ctx).map((column) => [column.key, column.tasks.map((t) => t.id)]);
+
+describe('boardColumns', () => {
+  it('puts tasks in their status, and tasks whose status disagrees with is_done in the first of the right kind', () => {
+    const tasks = [task('a', { status_id: 'doing' }), task('b', { status_id: 'doing', is_done: true }), task('c')];
+    expect(columnTasks(tasks, 'status')).toEqual([
+      ['backlog', ['c']],
+      ['doing', ['a']],
+      ['done', ['b']],
+    ]);
+  });
+
+  it('falls back to To do and Done until statuses are loaded', () => {
+    expect(columnTasks([task('a'), task('b', { is_done: true })], 'status', { projects, statuses: [] })).toEqual([
+      ['todo', ['a']],
+      ['done', ['b']],
+    ]);
+  });
+
+  it('shows archived projects only while they hold tasks, and matches legacy project text', () => {
+    const tasks = [task('a', { project: 'garden' }), task('b', { project_id: 'p1' }), task('c')];
+    expect(columnTasks(tasks, 'project')).toEqual([
+      ['p1', ['b']],
+      ['p2', ['a']],
+      ['none', ['c']],
+    ]);
+  });
+});
+
+describe('moveToColumnPatch', () => {
+  it('returns null when the task is already there', () => {
+    expect(moveToColumnPatch(task('a', { priority: 'high' }), 'priority', 'high', context)).toBeNull();
+    expect(moveToColumnPatch(task('a'), 'project', 'none', context)).toBeNull();
+  });
+
+  it('links the project and its name, or clears both', () => {
+    expect(moveToColumnPatch(task('a'), 'project', 'p1', context)).toEqual({ project_id: 'p1', project: 'Work' });
+    expect(moveToColumnPatch(task('a', { project: 'Work' }), 'project', 'none', context)).toEqual({ project_id: null, project: null });
+    expect(moveToColumnPatch(task('a', { priority: 'low' }), 'priority', 'none', context)).toEqual({ priority: null });
+  });
+
+  it('completes a task dropped on a completed status', () => {
+    expect(moveToColumnPatch(task('a', { status_id: 'backlog' }), 'status', 'done', context)).toEqual({ is_done: true, status_id: 'done' });
+    expect(moveToColumnPatch(task('a'), 'status', 'done', { projects, statuses: [] })).toEqual({ is_done: true });
+  });
+});
@@ -0,0 +1,39 @@
+import { dependentsOf, findDependencyCycle, isBlocked, openBlockers } from '../app/lib/task-dependencies';
+import type { Task } from '../app/lib/types';
+
+const task = (id: string, blocked_by: string[] = [], is_done = false) => ({ id, title: id, is_done, blocked_by }) as Task;
+const ids = (tasks: Task[] | null) => tasks && tasks.map((t) => t.id);
+
+// a waits for b, b waits for c
+const chain = [task('a', ['b']), task('b', ['c']), task('c')];
+
+describe('findDependencyCycle', () => {
+  it('returns the chain from the blocker to the task', () => {
+    expect(ids(findDependencyCycle(chain, 'c', 'a'))).toEqual(['a', 'b', 'c']);
+    expect(ids(findDependencyCycle(chain, 'b', 'a'))).toEqual(['a', 'b']);
+  });
+
+  it('rejects a task blocking itself', () => {
+    expect(ids(findDependencyCycle(chain, 'a', 'a'))).toEqual(['a']);
+  });
+
+  it('allows links that keep the graph acyclic', () => {
+    expect(findDependencyCycle(chain, 'a', 'c')).toBeNull();
+    expect(findDependencyCycle([...chain, task('d', ['b'])], 'd', 'c')).toBeNull();
+  });
+
+  it('stops on cycles already in the data and on deleted blockers', () => {
+    const tasks = [task('x', ['y']), task('y', ['x', 'gone']), task('z')];
+    expect(findDependencyCycle(tasks, 'z', 'x')).toBeNull();
+    expect(ids(findDependencyCycle(tasks, 'x', 'y'))).toEqual(['y', 'x']);
+  });
+});
+
+describe('isBlocked', () => {
+  it('only counts blockers that exist and are still open', () => {
+    const tasks = [task('a', ['b', 'gone']), task('b', [], true), task('c', ['a'])];
+    expect(isBlocked(tasks[0], tasks)).toBe(false);
+    expect(ids(openBlockers(tasks[2], tasks))).toEqual(['a']);
+    expect(ids(dependentsOf(tasks[0], tasks))).toEqual(['c']);
+  });
+});
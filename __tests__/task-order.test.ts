@@ -0,0 +1,73 @@
+import { compareByPosition, firstPosition, keyBetween, reorderPatches } from '../app/lib/task-order';
+import type { Task } from '../app/lib/types';
+
+const task = (id: string, position: string | null = null) => ({ id, title: id, is_done: false, position }) as Task;
+
+const expectBetween = (key: string, before: string | null, after: string | null) => {
+  if (before !== null) expect(key > before).toBe(true);
+  if (after !== null) expect(key < after).toBe(true);
+  expect(key.endsWith('0')).toBe(false);
+};
+
+describe('keyBetween', () => {
+  it('always fits a key between two neighbours, however often', () => {
+    let low = 'a';
+    let high = 'b';
+    for (let i = 0; i < 200; i++) {
+      const key = keyBetween(low, high);
+      expectBetween(key, low, high);
+      if (i % 2) low = key;
+      else high = key;
+    }
+  });
+
+  it('keeps keys short when adding on top', () => {
+    let top: string | null = null;
+    for (let i = 0; i < 100; i++) {
+      const key = keyBetween(null, top);
+      expectBetween(key, null, top);
+      top = key;
+    }
+    expect(top!.length).toBeLessThanOrEqual(5);
+  });
+
+  it('fits keys before ones that are almost the lowest', () => {
+    ['1', '01', '001', '11'].forEach((key) => expectBetween(keyBetween(null, key), '', key));
+  });
+});
+
+describe('compareByPosition', () => {
+  it('puts tasks without a position first', () => {
+    expect([task('b', 'V'), task('a'), task('c', 'F')].sort(compareByPosition).map((t) => t.id)).toEqual(['a', 'c', 'b']);
+  });
+});
+
+describe('firstPosition', () => {
+  it('goes above the lowest position', () => {
+    expect(firstPosition([task('a', 'V'), task('b', 'F'), task('c')]) < 'F').toBe(true);
+    expect(firstPosition([])).toBe('V');
+  });
+});
+
+describe('reorderPatches', () => {
+  const group = [task('a', 'F'), task('b', 'V'), task('c', 'k')];
+
+  it('writes only the moved task when its neighbours have positions', () => {
+    const patches = reorderPatches(group, 'c', 0);
+    expect(patches).toHaveLength(1);
+    expectBetween(patches[0].patch.position!, null, 'F');
+    expect(reorderPatches(group, 'a', 2)[0].patch.position! > 'k').toBe(true);
+  });
+
+  it('writes nothing for a drop on the same spot or an unknown task', () => {
+    expect(reorderPatches(group, 'b', 1)).toEqual([]);
+    expect(reorderPatches(group, 'x', 0)).toEqual([]);
+  });
+
+  it('numbers the whole group once when a neighbour has no position', () => {
+    const patches = reorderPatches([task('a'), task('b'), task('c', 'V')], 'c', 1);
+    expect(patches.map(({ id }) => id)).toEqual(['a', 'c', 'b']);
+    const keys = patches.map(({ patch }) => patch.position!);
+    expect([...keys].sort()).toEqual(keys);
+  });
+});
@@ -0,0 +1,56 @@
+import { dueDeadline, formatDue, formatEstimate, isDueToday, isOverdue, sortTasks } from '../app/lib/task-schedule';
+import type { Task } from '../app/lib/types';
+
+const now = new Date(2026, 9, 19, 12);
+const task = (id: string, patch: Partial<Task> = {}) => ({ id, title: id, is_done: false, ...patch }) as Task;
+const ids = (tasks: Task[]) => tasks.map((t) => t.id);
+
+describe('isOverdue', () => {
+  it('keeps day-only deadlines open until the day is over', () => {
+    const today = task('t', { due_at: new Date(2026, 9, 19).toISOString() });
+    expect(dueDeadline(today)).toEqual(new Date(2026, 9, 20));
+    expect(isOverdue(today, now)).toBe(false);
+    expect(isOverdue(today, new Date(2026, 9, 20))).toBe(true);
+    expect(isDueToday(today, now)).toBe(true);
+  });
+
+  it('is overdue from the due time on, unless done', () => {
+    const timed = task('t', { due_at: new Date(2026, 9, 19, 12).toISOString() });
+    expect(isOverdue(timed, now)).toBe(true);
+    expect(isOverdue({ ...timed, is_done: true }, now)).toBe(false);
+    expect(isOverdue(task('none'), now)).toBe(false);
+  });
+});
+
+describe('sortTasks', () => {
+  const tasks = [
+    task('none'),
+    task('low-soon', { priority: 'low', due_at: new Date(2026, 9, 20, 9).toISOString() }),
+    task('high-later', { priority: 'high', due_at: new Date(2026, 9, 22).toISOString() }),
+    task('high-none', { priority: 'high' }),
+    task('day', { due_at: new Date(2026, 9, 20).toISOString() }),
+  ];
+
+  it('sorts by deadline with undated tasks last, a day-only date counting as its end', () => {
+    expect(ids(sortTasks(tasks, 'due'))).toEqual(['low-soon', 'day', 'high-later', 'high-none', 'none']);
+  });
+
+  it('sorts by priority, then deadline, then the incoming order', () => {
+    expect(ids(sortTasks(tasks, 'priority'))).toEqual(['high-later', 'high-none', 'low-soon', 'day', 'none']);
+    expect(sortTasks(tasks, 'created')).toBe(tasks);
+  });
+});
+
+describe('formatDue', () => {
+  it('names nearby days and leaves the time off day-only dates', () => {
+    expect(formatDue(new Date(2026, 9, 20).toISOString(), now)).toBe('Tomorrow');
+    expect(formatDue(new Date(2026, 9, 18).toISOString(), now)).toBe('Yesterday');
+    expect(formatDue(new Date(2026, 9, 19, 15).toISOString(), now)).toMatch(/^Today \d/);
+  });
+});
+
+describe('formatEstimate', () => {
+  it('switches to hours from an hour on', () => {
+    expect([45, 60, 90, 135].map(formatEstimate)).toEqual(['45 min', '1 h', '1 h 30', '2 h 15']);
+  });
+});
@@ -0,0 +1,54 @@
+import { hasBothKinds, initialStatus, reorderStatuses, statusOf, statusPatch, toggledStatus } from '../app/lib/task-statuses';
+import type { Task, WorkflowStatus } from '../app/lib/types';
+
+const task = (patch: Partial<Task> = {}) => ({ id: 't', title: 't', is_done: false, ...patch }) as Task;
+const status = (id: string, position: number, is_completed = false) =>
+  ({ id, name: id, color: null, position, is_completed }) as WorkflowStatus;
+
+const statuses = [status('review', 2), status('backlog', 0), status('doing', 1), status('shipped', 3, true)];
+
+describe('statusOf', () => {
+  it('trusts is_done over a status of the wrong kind', () => {
+    expect(statusOf(task({ status_id: 'doing' }), statuses).id).toBe('doing');
+    expect(statusOf(task({ status_id: 'doing', is_done: true }), statuses).id).toBe('shipped');
+    expect(statusOf(task({ status_id: 'deleted' }), statuses).id).toBe('backlog');
+  });
+
+  it('maps is_done onto the built-in pair without statuses', () => {
+    expect(statusOf(task({ status_id: 'doing' }), []).id).toBe('todo');
+    expect(statusOf(task({ is_done: true }), []).id).toBe('done');
+    expect(initialStatus([]).id).toBe('todo');
+  });
+});
+
+describe('statusPatch', () => {
+  it('writes the status and keeps is_done in step', () => {
+    expect(statusPatch(task({ status_id: 'backlog' }), statuses[0], statuses)).toEqual({ status_id: 'review' });
+    expect(statusPatch(task({ status_id: 'backlog' }), statuses[3], statuses)).toEqual({ is_done: true, status_id: 'shipped' });
+    expect(statusPatch(task({ status_id: 'review' }), statuses[0], statuses)).toBeNull();
+  });
+
+  it('only toggles is_done for the built-in pair', () => {
+    const done = toggledStatus(task(), []);
+    expect(statusPatch(task(), done, [])).toEqual({ is_done: true });
+    expect(statusPatch(task({ is_done: true }), toggledStatus(task({ is_done: true }), []), [])).toEqual({ is_done: false });
+  });
+});
+
+describe('reorderStatuses', () => {
+  it('returns only the positions that changed, clamped to the list', () => {
+    expect(reorderStatuses(statuses, 'shipped', -1)).toEqual([
+      { id: 'shipped', position: 2 },
+      { id: 'review', position: 3 },
+    ]);
+    expect(reorderStatuses(statuses, 'backlog', -5)).toEqual([]);
+    expect(reorderStatuses(statuses, 'missing', 1)).toEqual([]);
+  });
+});
+
+describe('hasBothKinds', () => {
+  it('needs an open and a completed status', () => {
+    expect(hasBothKinds(statuses)).toBe(true);
+    expect(hasBothKinds(statuses.filter((s) => !s.is_completed))).toBe(false);
+  });
+});
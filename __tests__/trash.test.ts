@@ -0,0 +1,93 @@
+import { createMemoryDriver } from '../app/lib/memory-driver';
+import { createRepository } from '../app/lib/repository';
+import { daysLeft, EMPTY_TRASH, expiredIds, restoreWrites, trashItems, type TrashContents } from '../app/lib/trash';
+import type { Note, NoteFolder, Reminder, Task } from '../app/lib/types';
+
+const now = new Date('2026-10-19T12:00:00.000Z');
+const ago = (ms: number) => new Date(now.getTime() - ms).toISOString();
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('daysLeft', () => {
+  it('counts partial days as a day until exactly TRASH_DAYS have passed', () => {
+    expect(daysLeft(now.toISOString(), now)).toBe(30);
+    expect(daysLeft(ago(29 * DAY), now)).toBe(1);
+    expect(daysLeft(ago(30 * DAY - 1), now)).toBe(1);
+    expect(daysLeft(ago(30 * DAY), now)).toBe(0);
+    expect(daysLeft(ago(45 * DAY), now)).toBe(0);
+  });
+});
+
+describe('expiredIds', () => {
+  it('picks rows deleted TRASH_DAYS ago or longer', () => {
+    const reminder = (id: string, deleted_at: string) => ({ id, title: id, deleted_at }) as Reminder;
+    const trash: TrashContents = {
+      ...EMPTY_TRASH,
+      reminders: [reminder('fresh', ago(30 * DAY - 1)), reminder('due', ago(30 * DAY)), reminder('old', ago(90 * DAY))],
+    };
+    expect(expiredIds(trash, now)).toEqual({ notes: [], note_folders: [], tasks: [], reminders: ['due', 'old'], agenda_events: [] });
+  });
+});
+
+// A folder deleted with its subfolder and a note, a note deleted from that
+// folder earlier, and a task deleted with its subtask.
+const batch = ago(DAY);
+const earlier = ago(2 * DAY);
+const contents: TrashContents = {
+  ...EMPTY_TRASH,
+  note_folders: [
+    { id: 'f1', name: 'Work', parent_folder_id: null, deleted_at: batch },
+    { id: 'f2', name: 'Old', parent_folder_id: 'f1', deleted_at: batch },
+  ] as NoteFolder[],
+  notes: [
+    { id: 'n1', title: 'Plan', folder_id: 'f2', deleted_at: batch },
+    { id: 'n2', title: 'Draft', folder_id: 'f1', deleted_at: earlier },
+  ] as Note[],
+  tasks: [
+    { id: 't1', title: 'Move', parent_id: null, deleted_at: earlier },
+    { id: 't2', title: 'Pack', parent_id: 't1', deleted_at: earlier },
+  ] as Task[],
+};
+
+describe('trashItems', () => {
+  it('lists what was deleted together as one item, newest first', () => {
+    expect(trashItems(contents).map(({ table, id, ids }) => ({ table, id, ids }))).toEqual([
+      { table: 'note_folders', id: 'f1', ids: { note_folders: ['f1', 'f2'], notes: ['n1'] } },
+      { table: 'tasks', id: 't1', ids: { tasks: ['t1', 't2'] } },
+      { table: 'notes', id: 'n2', ids: { notes: ['n2'] } },
+    ]);
+  });
+});
+
+describe('restoreWrites', () => {
+  it('brings an item back at the top level while its parent stays in the trash', () => {
+    const note = trashItems(contents).find((item) => item.id === 'n2')!;
+    expect(restoreWrites(note, contents)).toEqual([{ table: 'notes', ids: ['n2'], patch: { deleted_at: null, folder_id: null } }]);
+  });
+
+  it('keeps the tree of an item together', () => {
+    const folder = trashItems(contents).find((item) => item.id === 'f1')!;
+    expect(restoreWrites(folder, contents)).toEqual([
+      { table: 'note_folders', ids: ['f1', 'f2'], patch: { deleted_at: null } },
+      { table: 'notes', ids: ['n1'], patch: { deleted_at: null } },
+    ]);
+  });
+});
+
+describe('trash.purgeExpired', () => {
+  it('deletes expired rows for good and lists the rest', async () => {
+    const driver = createMemoryDriver({
+      seed: {
+        tasks: [
+          { id: 'kept', title: 'kept', user_id: 'u1', deleted_at: ago(29 * DAY) },
+          { id: 'expired', title: 'expired', user_id: 'u1', deleted_at: ago(30 * DAY) },
+          { id: 'live', title: 'live', user_id: 'u1', deleted_at: null },
+        ],
+      },
+    });
+    const result = await createRepository(driver).trash.purgeExpired('u1', now);
+
+    expect(result.error).toBeNull();
+    expect(result.data!.tasks.map((task) => task.id)).toEqual(['kept']);
+    expect(driver.snapshot().tasks.map((task) => task.id)).toEqual(['kept', 'live']);
+  });
+});
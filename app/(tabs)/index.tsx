@@ -5,9 +5,12 @@ import React, { useEffect, useMemo, useRef, useState } from 'react';
 import {
   ActivityIndicator,
   Alert,
+  Linking,
+  PanResponder,
   Platform,
   Pressable,
   ScrollView,
+  Share,
   StyleSheet,
   Text,
   TextInput,
@@ -15,87 +18,165 @@ import {
   useWindowDimensions,
   View,
 } from 'react-native';
+import { Gesture, GestureDetector } from 'react-native-gesture-handler';
 import Animated, {
   FadeIn,
   FadeInDown,
   FadeOut,
   Layout,
+  useAnimatedStyle,
+  useSharedValue,
   ZoomIn,
   ZoomOut,
 } from 'react-native-reanimated';
 import { SafeAreaView } from 'react-native-safe-area-context';
+import { DateTimeField } from '@/components/date-time-field';
+import { useCalendarFeed } from '@/hooks/use-calendar-feed';
+import { useRepository } from '@/hooks/use-repository';
+import { useNotePresence } from '@/hooks/use-note-presence';
+import { usePreference } from '@/hooks/use-preference';
+import { useNoteRevisions } from '@/hooks/use-note-revisions';
+import { useSelection } from '@/hooks/use-selection';
+import { useActionHistory, type Snackbar } from '@/hooks/use-action-history';
+import { useSyncStatus } from '@/hooks/use-sync-status';
+import { diffText, mergeNote, mergeText, type NoteSnapshot } from '../lib/merge';
+import { archiveDownload, MARKDOWN_IMPORT_TYPES, markdownFiles, readMarkdownImport } from '../lib/note-archive';
+import { notesPdfHtml, PDF_PAGE, pdfFileName, pdfNotes } from '../lib/note-pdf';
+import { noteText, revisionSnapshot, revisionWrites } from '../lib/note-revisions';
+import {
+  endSeriesBefore,
+  expandEvents,
+  overrideOccurrence,
+  skipOccurrence,
+  splitSeries,
+  updateSeries,
+  type EventOccurrence,
+  type OccurrenceScope,
+} from '../lib/event-occurrences';
+import { calendarSubscribeUrl } from '../lib/calendar-feed';
+import {
+  addDays,
+  calendarRange,
+  daysBetween,
+  layoutDay,
+  sameDay,
+  shiftAnchor,
+  snapToMinutes,
+  startOfDay,
+  type CalendarMode,
+  type TimelineBlock,
+} from '../lib/calendar-layout';
+import { pickFiles, pickTextFile, shareFile, sharePdf, shareTextFile } from '../lib/files';
+import { eventsToIcs, ICS_MIME_TYPE, icsUid, parseIcs } from '../lib/ics';
+import {
+  advanceRecurrence,
+  describeRecurrence,
+  lastWeekdayOfMonthRule,
+  parseRecurrence,
+  RECURRENCE_PRESETS,
+} from '../lib/recurrence';
+import {
+  parseQuickAdd,
+  quickAddStart,
+  type QuickAdd,
+  type QuickAddKind,
+} from '../lib/quick-add';
+import type { SyncStatus } from '../lib/offline-driver';
+import { dependentsOf, findDependencyCycle, isBlocked, openBlockers } from '../lib/task-dependencies';
+import {
+  childrenOf,
+  completionPatches,
+  newChecklistItem,
+  rootTasks,
+  taskProgress,
+  type TaskPatch,
+} from '../lib/subtasks';
+import {
+  ESTIMATE_OPTIONS,
+  formatDue,
+  formatEstimate,
+  isDueToday,
+  isOverdue,
+  sortTasks,
+  TASK_PRIORITIES,
+  type TaskSort,
+} from '../lib/task-schedule';
+import {
+  removeById,
+  subscribeToSharedContent,
+  upsertById,
+  type PresenceUser,
+  type RowChange,
+} from '../lib/realtime';
+import {
+  cancelReminderNotification,
+  scheduleReminderNotification,
+  SNOOZE_MINUTES,
+  subscribeToReminderActions,
+  syncReminderNotifications,
+} from '../lib/reminder-notifications';
+import {
+  activeProjects,
+  DEFAULT_PROJECT_COLOR,
+  DEFAULT_PROJECT_ICON,
+  findProjectByName,
+  isArchived,
+  PROJECT_COLORS,
+  PROJECT_ICONS,
+  projectTasks,
+  taskProjectLabel,
+} from '../lib/projects';
+import { offlineDriver, RepositoryError, type Repository } from '../lib/repository';
+import { boardColumns, moveToColumnPatch, type BoardColumn, type TaskBoardGrouping } from '../lib/task-board';
+import {
+  DEFAULT_STATUSES,
+  hasBothKinds,
+  initialStatus,
+  reorderStatuses,
+  STATUS_COLORS,
+  statusOf,
+  statusPatch,
+  toggledStatus,
+  workflowStatuses,
+} from '../lib/task-statuses';
+import { firstPosition, reorderPatches } from '../lib/task-order';
+import { batchCompletePatches, batchRemoval, groupPatches } from '../lib/batch';
+import { patchSteps, plural, revertPatches, runSteps } from '../lib/history';
+import {
+  daysLeft,
+  EMPTY_TRASH,
+  mergeIds,
+  restoreWrites,
+  TRASH_DAYS,
+  TRASH_TABLES,
+  trashItems,
+  type TrashContents,
+  type TrashIds,
+  type TrashItem,
+  type TrashTable,
+} from '../lib/trash';
 import { supabase } from '../lib/supabase';
+import type {
+  AgendaEvent,
+  ChecklistItem,
+  FolderCollaborator,
+  NewTask,
+  Note,
+  NoteCollaborator,
+  NoteFolder,
+  NoteRevision,
+  NewProject,
+  Project,
+  Reminder,
+  Task,
+  TaskPriority,
+  UserProfile,
+  WorkflowStatus,
+} from '../lib/types';
 
 type Session = Awaited<ReturnType<typeof supabase.auth.getSession>>['data']['session'];
 
-type TabKey = 'home' | 'tasks' | 'agenda' | 'reminders' | 'notes';
-
-type Task = {
-  id: string;
-  title: string;
-  description?: string | null;
-  is_done: boolean;
-  project?: string | null;
-  folder_id?: string | null;
-  created_at?: string;
-};
-
-type Reminder = {
-  id: string;
-  title: string;
-  remind_at: string | null;
-  is_done: boolean;
-  created_at?: string;
-};
-
-type AgendaEvent = {
-  id: string;
-  title: string;
-  starts_at: string | null;
-  ends_at: string | null;
-  location?: string | null;
-  description?: string | null;
-  created_at?: string;
-};
-
-type NoteFolder = {
-  id: string;
-  name: string;
-  color?: string | null;
-  icon?: string | null;
-  notes_count?: number | null;
-  created_at?: string;
-  parent_folder_id?: string | null;
-  is_expanded?: boolean;
-};
-
-type Note = {
-  id: string;
-  folder_id: string;
-  title: string;
-  content?: string | null;
-  color?: string | null;
-  created_at?: string;
-  owner_id?: string;
-  user_id?: string;
-};
-
-type NoteCollaborator = {
-  id: string;
-  note_id: string;
-  user_id: string;
-  permission: 'view' | 'edit';
-  invited_by: string;
-  created_at?: string;
-  user_email?: string;
-  user_name?: string;
-};
-
-type UserProfile = {
-  id: string;
-  email: string;
-  name?: string | null;
-};
+type TabKey = 'home' | 'tasks' | 'projects' | 'agenda' | 'reminders' | 'notes' | 'trash';
 
 const ACCENT = '#4f3dff';
 const BACKGROUND = '#f6f7fb';
@@ -107,32 +188,110 @@ const isWeb = Platform.OS === 'web';
 const NAV_ITEMS: { key: TabKey; label: string; icon: keyof typeof Ionicons.glyphMap }[] = [
   { key: 'home', label: 'Home', icon: 'home-outline' },
   { key: 'tasks', label: 'Tasks', icon: 'list-outline' },
+  { key: 'projects', label: 'Projects', icon: 'briefcase-outline' },
   { key: 'agenda', label: 'Agenda', icon: 'calendar-outline' },
   { key: 'reminders', label: 'Reminders', icon: 'notifications-outline' },
   { key: 'notes', label: 'Notes', icon: 'document-outline' },
+  { key: 'trash', label: 'Trash', icon: 'trash-outline' },
 ];
 
-const toIsoOrNull = (value: string | null | undefined) => {
-  if (!value || !value.trim()) return null;
-  const parsed = new Date(value);
-  return isNaN(parsed.getTime()) ? null : parsed.toISOString();
+const PRIORITY_LABELS: Record<TaskPriority, string> = {
+  low: 'Low',
+  medium: 'Medium',
+  high: 'High',
+};
+
+const PRIORITY_COLORS: Record<TaskPriority, string> = {
+  low: '#0ea5e9',
+  medium: '#f59e0b',
+  high: '#ef4444',
+};
+
+const MISSING_COLUMNS: Record<string, { title: string; message: string }> = {
+  deleted_at: {
+    title: 'Prullenbak ontbreekt',
+    message:
+      'Voeg een "deleted_at" kolom toe aan de tasks, reminders, agenda_events, note_folders en notes tabellen (zie supabase/migrations) om items te verwijderen.',
+  },
+  project: {
+    title: 'Project veld ontbreekt',
+    message: 'Voeg een "project" kolom toe aan de tasks tabel om groepen te gebruiken.',
+  },
+  project_id: {
+    title: 'Projecten ontbreken',
+    message: 'Voeg een "project_id" kolom toe aan de tasks tabel om taken aan projecten te koppelen.',
+  },
+  folder_id: {
+    title: 'Folder veld ontbreekt',
+    message: 'Voeg een "folder_id" kolom toe aan de tasks tabel om de folder-structuur te gebruiken.',
+  },
+  due_at: {
+    title: 'Deadline ontbreekt',
+    message: 'Voeg een "due_at" kolom toe aan de tasks tabel om deadlines op te slaan.',
+  },
+  priority: {
+    title: 'Prioriteit ontbreekt',
+    message: 'Voeg een "priority" kolom toe aan de tasks tabel om prioriteiten op te slaan.',
+  },
+  estimated_minutes: {
+    title: 'Tijdsinschatting ontbreekt',
+    message: 'Voeg een "estimated_minutes" kolom toe aan de tasks tabel om tijdsinschattingen op te slaan.',
+  },
+  parent_id: {
+    title: 'Subtaken ontbreken',
+    message: 'Voeg een "parent_id" kolom toe aan de tasks tabel om subtaken te gebruiken.',
+  },
+  status_id: {
+    title: 'Statussen ontbreken',
+    message: 'Voeg een "status_id" kolom toe aan de tasks tabel om eigen statussen te gebruiken.',
+  },
+  checklist: {
+    title: 'Checklist ontbreekt',
+    message: 'Voeg een "checklist" kolom toe aan de tasks tabel om checklists op te slaan.',
+  },
+  recurrence: {
+    title: 'Herhaling ontbreekt',
+    message: 'Voeg een "recurrence" kolom toe aan de reminders tabel om herhalende reminders te gebruiken.',
+  },
+  recurrence_exceptions: {
+    title: 'Uitzonderingen ontbreken',
+    message: 'Voeg een "recurrence_exceptions" kolom toe aan de agenda_events tabel om losse afspraken van een reeks te wijzigen.',
+  },
+};
+
+// Marking a recurring reminder done moves it to its next occurrence instead of closing it.
+const reminderCompletionPatch = (reminder: Reminder): Partial<Reminder> => {
+  if (reminder.recurrence && reminder.remind_at) {
+    const advanced = advanceRecurrence(reminder.recurrence, new Date(reminder.remind_at));
+    if (advanced) return { is_done: false, remind_at: advanced.next.toISOString(), recurrence: advanced.rule };
+  }
+  return { is_done: true };
 };
 
-const ensureProfile = async (userId: string | undefined, name?: string | null, email?: string | null) => {
+const ensureProfile = async (
+  repo: Repository,
+  userId: string | undefined,
+  name?: string | null,
+  email?: string | null,
+) => {
   if (!userId) return;
-  await supabase
-    .from('profiles')
-    .upsert(
-      {
-        id: userId,
-        full_name: name || email || 'Moof user',
-      },
-      { onConflict: 'id' },
-    )
-    .select();
+  await repo.profiles.ensure(userId, name || email || 'Moof user');
 };
 
+type NoteVersion = NoteSnapshot & { updated_at?: string };
+
+const toNoteVersion = (note: Note): NoteVersion => ({
+  title: note.title,
+  content: note.content || '',
+  color: note.color ?? null,
+  updated_at: note.updated_at,
+});
+
+const sameNoteSnapshot = (a: NoteSnapshot, b: NoteSnapshot) =>
+  a.title === b.title && a.content === b.content && a.color === b.color;
+
 export default function PlannerScreen() {
+  const repo = useRepository();
   const [session, setSession] = useState<Session | null>(null);
   const [bootstrapLoading, setBootstrapLoading] = useState(true);
   const [authError, setAuthError] = useState<string | null>(null);
@@ -162,7 +321,7 @@ export default function PlannerScreen() {
     const { data, error } = await supabase.auth.signInWithPassword({ email, password });
     if (error) setAuthError(error.message);
     if (data?.user) {
-      await ensureProfile(data.user.id, (data.user.user_metadata as any)?.full_name, email);
+      await ensureProfile(repo, data.user.id, (data.user.user_metadata as any)?.full_name, email);
     }
     setAuthBusy(false);
   };
@@ -177,13 +336,15 @@ export default function PlannerScreen() {
     });
     if (error) setAuthError(error.message);
     if (data?.user) {
-      await ensureProfile(data.user.id, name, email);
+      await ensureProfile(repo, data.user.id, name, email);
     }
     setAuthBusy(false);
   };
 
   const handleSignOut = async () => {
     await supabase.auth.signOut();
+    // Don't leave the previous account's cached rows or queued writes on the device.
+    await offlineDriver.clear();
   };
 
   if (bootstrapLoading) {
@@ -330,20 +491,31 @@ type AppShellProps = {
 };
 
 function AppShell({ session, onSignOut }: AppShellProps) {
+  const repo = useRepository();
+  const sync = useSyncStatus();
   const [activeTab, setActiveTab] = useState<TabKey>('home');
   const [tasks, setTasks] = useState<Task[]>([]);
   const [tasksLoading, setTasksLoading] = useState(false);
   const [tasksError, setTasksError] = useState<string | null>(null);
+  const [statuses, setStatuses] = useState<WorkflowStatus[]>([]);
+  const [statusesError, setStatusesError] = useState<string | null>(null);
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [projectsError, setProjectsError] = useState<string | null>(null);
   const [reminders, setReminders] = useState<Reminder[]>([]);
   const [reminderInput, setReminderInput] = useState('');
-  const [reminderWhen, setReminderWhen] = useState('');
+  const [reminderWhen, setReminderWhen] = useState<string | null>(null);
+  const [reminderRecurrence, setReminderRecurrence] = useState<string | null>(null);
+  const [editingReminder, setEditingReminder] = useState<Reminder | null>(null);
   const [remindersLoading, setRemindersLoading] = useState(false);
   const [remindersError, setRemindersError] = useState<string | null>(null);
   const [events, setEvents] = useState<AgendaEvent[]>([]);
   const [eventInput, setEventInput] = useState('');
-  const [eventStart, setEventStart] = useState('');
-  const [eventEnd, setEventEnd] = useState('');
+  const [eventStart, setEventStart] = useState<string | null>(null);
+  const [eventEnd, setEventEnd] = useState<string | null>(null);
   const [eventLocation, setEventLocation] = useState('');
+  const [eventRecurrence, setEventRecurrence] = useState<string | null>(null);
+  const [editingOccurrence, setEditingOccurrence] = useState<EventOccurrence | null>(null);
+  const [occurrenceScope, setOccurrenceScope] = useState<OccurrenceScope>('this');
   const [eventsLoading, setEventsLoading] = useState(false);
   const [eventsError, setEventsError] = useState<string | null>(null);
   const [folders, setFolders] = useState<NoteFolder[]>([]);
@@ -353,6 +525,9 @@ function AppShell({ session, onSignOut }: AppShellProps) {
   const [notesLoading, setNotesLoading] = useState(false);
   const [notesError, setNotesError] = useState<string | null>(null);
   const [notes, setNotes] = useState<Note[]>([]);
+  const [trash, setTrash] = useState<TrashContents>(EMPTY_TRASH);
+  const [trashLoading, setTrashLoading] = useState(false);
+  const [trashError, setTrashError] = useState<string | null>(null);
   const [sharedNotes, setSharedNotes] = useState<Note[]>([]);
   const [notesListLoading, setNotesListLoading] = useState(false);
   const [selectedFolderId, setSelectedFolderId] = useState<string | null>(null);
@@ -362,6 +537,14 @@ function AppShell({ session, onSignOut }: AppShellProps) {
   const [noteColor, setNoteColor] = useState<string | null>(null);
   const [editingNote, setEditingNote] = useState<Note | null>(null);
   const hasRestoredDraft = useRef(false);
+  // Read by the realtime handlers, which outlive a single render.
+  const sharedFolderIdsRef = useRef<Set<string>>(new Set());
+  const directSharedNoteIdsRef = useRef<Set<string>>(new Set());
+  const editingNoteRef = useRef<Note | null>(null);
+  // The version of the open note our edits are based on (for three-way merges).
+  const noteBaseRef = useRef<NoteVersion | null>(null);
+  const sharingNoteRef = useRef<Note | null>(null);
+  const sharingFolderRef = useRef<NoteFolder | null>(null);
 
   // Collaboration state
   const [shareModalOpen, setShareModalOpen] = useState(false);
@@ -371,6 +554,8 @@ function AppShell({ session, onSignOut }: AppShellProps) {
   const [searchedUsers, setSearchedUsers] = useState<UserProfile[]>([]);
   const [shareLoading, setShareLoading] = useState(false);
   const [autoSaveStatus, setAutoSaveStatus] = useState<'saved' | 'saving' | 'idle'>('idle');
+  // Bumped when merged remote edits replace the editor content.
+  const [noteContentVersion, setNoteContentVersion] = useState(0);
   const [notesSearchQuery, setNotesSearchQuery] = useState('');
   const [deleteConfirmOpen, setDeleteConfirmOpen] = useState(false);
   const [noteToDelete, setNoteToDelete] = useState<string | null>(null);
@@ -382,20 +567,37 @@ function AppShell({ session, onSignOut }: AppShellProps) {
   const [showTaskOverlay, setShowTaskOverlay] = useState(false);
   const [taskOverlayTitle, setTaskOverlayTitle] = useState('');
   const [taskOverlayDescription, setTaskOverlayDescription] = useState('');
-  const [taskOverlayProject, setTaskOverlayProject] = useState('');
+  const [taskOverlayProjectId, setTaskOverlayProjectId] = useState<string | null>(null);
   const [taskOverlayFolderId, setTaskOverlayFolderId] = useState<string | null>(null);
+  const [taskOverlayDue, setTaskOverlayDue] = useState<string | null>(null);
+  const [taskOverlayPriority, setTaskOverlayPriority] = useState<TaskPriority | null>(null);
+  const [taskOverlayEstimate, setTaskOverlayEstimate] = useState<number | null>(null);
+  const [taskOverlaySubtasks, setTaskOverlaySubtasks] = useState<string[]>([]);
+  const [taskOverlayChecklist, setTaskOverlayChecklist] = useState<string[]>([]);
+  const [taskOverlayAutoComplete, setTaskOverlayAutoComplete] = useState(true);
+  const [taskOverlayItemText, setTaskOverlayItemText] = useState('');
+  const taskQuickAdd = useMemo(() => parseQuickAdd(taskOverlayTitle), [taskOverlayTitle]);
   const [alertMessage, setAlertMessage] = useState<{
     title: string;
     message: string;
     type: 'success' | 'error' | 'warning' | 'info';
   } | null>(null);
+  const history = useActionHistory((error) =>
+    setAlertMessage({ title: 'Ongedaan maken mislukt', message: error.message, type: 'error' }),
+  );
   const [editingFolder, setEditingFolder] = useState<NoteFolder | null>(null);
   const [showEditFolderOverlay, setShowEditFolderOverlay] = useState(false);
   const [deleteFolderConfirmOpen, setDeleteFolderConfirmOpen] = useState(false);
   const [folderToDelete, setFolderToDelete] = useState<NoteFolder | null>(null);
   const [sharingFolder, setSharingFolder] = useState<NoteFolder | null>(null);
   const [showShareFolderModal, setShowShareFolderModal] = useState(false);
-  const [folderCollaborators, setFolderCollaborators] = useState<any[]>([]);
+  const [folderCollaborators, setFolderCollaborators] = useState<FolderCollaborator[]>([]);
+
+  useEffect(() => {
+    editingNoteRef.current = editingNote;
+    sharingNoteRef.current = sharingNote;
+    sharingFolderRef.current = sharingFolder;
+  }, [editingNote, sharingNote, sharingFolder]);
 
   // Auto-save to localStorage on web - ONLY after restore completes!
   useEffect(() => {
@@ -498,6 +700,7 @@ function AppShell({ session, onSignOut }: AppShellProps) {
         if (draft.editingNote?.id && notes.length > 0) {
           const existingNote = notes.find(n => n.id === draft.editingNote.id);
           if (existingNote) {
+            noteBaseRef.current = toNoteVersion(existingNote);
             setEditingNote(existingNote);
           }
         }
@@ -519,14 +722,14 @@ function AppShell({ session, onSignOut }: AppShellProps) {
     const timeoutId = setTimeout(async () => {
       try {
         console.log('💾 Auto-saving note to database...');
-        const { error } = await supabase
-          .from('notes')
-          .update({
-            title: noteTitle.trim(),
-            content: noteBody.trim() || null,
-            color: noteColor,
-          })
-          .eq('id', editingNote.id);
+        const { error, conflicts } = await saveEditingNote(editingNote.id, {
+          title: noteTitle.trim(),
+          content: noteBody.trim(),
+          color: noteColor,
+        });
+        if (conflicts > 0) {
+          console.warn(`⚠️ ${conflicts} overlapping edit(s) merged, both versions kept`);
+        }
 
         if (error) {
           console.error('❌ Auto-save failed:', error);
@@ -544,7 +747,108 @@ function AppShell({ session, onSignOut }: AppShellProps) {
     }, 2000); // 2 second debounce
 
     return () => clearTimeout(timeoutId);
-  }, [noteTitle, noteBody, noteColor, editingNote]);
+    // saveEditingNote is recreated every render; the debounce must only restart on edits
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [noteTitle, noteBody, noteColor, editingNote, repo]);
+
+  // Pushes a merge result into the editor, keeping anything typed after `sent` was captured.
+  const applyMergedNote = (sent: NoteSnapshot, merged: NoteSnapshot) => {
+    if (sameNoteSnapshot(sent, merged)) return;
+    setNoteTitle((current) => mergeText(sent.title, current, merged.title).merged);
+    setNoteBody((current) => mergeText(sent.content, current, merged.content).merged);
+    setNoteColor((current) => (current !== sent.color ? current : merged.color));
+    setNoteContentVersion((version) => version + 1);
+  };
+
+  // Saves the open note without overwriting collaborators: the write only lands if
+  // nobody saved since our base version; otherwise our edits are three-way merged
+  // onto the current server version and that merge is saved instead.
+  const saveEditingNote = async (noteId: string, local: NoteSnapshot) => {
+    let ours = local;
+    let conflicts = 0;
+
+    for (let attempt = 0; attempt < 3; attempt++) {
+      const base = noteBaseRef.current;
+      const patch = { title: ours.title, content: ours.content || null, color: ours.color };
+
+      // Databases without updated_at: plain last-write-wins as before
+      if (!base?.updated_at) {
+        const { error } = await repo.notes.update(noteId, patch);
+        if (!error) await recordNoteRevision(noteId, base ?? ours, ours);
+        return { error, conflicts };
+      }
+      if (sameNoteSnapshot(base, ours)) return { error: null, conflicts };
+
+      const { data: saved, error } = await repo.notes.updateIfUnchanged(noteId, patch, base.updated_at);
+      if (error) return { error, conflicts };
+      if (saved) {
+        noteBaseRef.current = toNoteVersion(saved);
+        await recordNoteRevision(noteId, base, ours);
+        return { error: null, conflicts };
+      }
+
+      console.log('🔀 Note changed by someone else, merging');
+      const { data: current, error: fetchError } = await repo.notes.get(noteId);
+      if (fetchError || !current) return { error: fetchError, conflicts };
+      const theirs = toNoteVersion(current);
+      const result = mergeNote(base, ours, theirs);
+      noteBaseRef.current = theirs;
+      conflicts += result.conflicts;
+      applyMergedNote(ours, result.merged);
+      ours = result.merged;
+    }
+    return { error: new RepositoryError('Note is changing too quickly, try again', 'conflict'), conflicts };
+  };
+
+  // Adds a save to the note's version history. Runs after the save itself and
+  // only logs failures: older databases have no note_revisions table.
+  const recordNoteRevision = async (noteId: string, before: NoteVersion, saved: NoteSnapshot) => {
+    const userId = session?.user?.id;
+    if (!userId) return;
+    const { data: latest, error } = await repo.noteRevisions.latest(noteId);
+    if (error) {
+      console.warn('Note history unavailable', error);
+      return;
+    }
+    // The note's original text is the owner's to keep; only needed for the first revision
+    const isOwner = !latest && (await repo.notes.getOwner(noteId)).data === userId;
+    for (const write of revisionWrites(noteId, latest, before, saved, userId, isOwner, new Date())) {
+      const result =
+        write.type === 'insert'
+          ? await repo.noteRevisions.create(write.revision)
+          : await repo.noteRevisions.update(write.id, write.patch);
+      if (result.error) {
+        console.warn('Saving note history failed', result.error);
+        return;
+      }
+    }
+  };
+
+  // Puts an older version in the editor; auto-save then stores it as the newest one.
+  const restoreNoteRevision = (snapshot: NoteSnapshot) => {
+    console.log('⏪ Restoring note version');
+    setNoteTitle(snapshot.title);
+    setNoteBody(snapshot.content);
+    setNoteColor(snapshot.color);
+    setNoteContentVersion((version) => version + 1);
+  };
+
+  // A collaborator saved the note we have open (notes are patched by realtime):
+  // fold their version into ours right away instead of waiting for our next save.
+  useEffect(() => {
+    const base = noteBaseRef.current;
+    if (!noteModalOpen || !editingNote || !base?.updated_at) return;
+    const remote = [...notes, ...sharedNotes].find((n) => n.id === editingNote.id);
+    if (!remote?.updated_at || new Date(remote.updated_at) <= new Date(base.updated_at)) return;
+
+    const ours = { title: noteTitle.trim(), content: noteBody.trim(), color: noteColor };
+    const theirs = toNoteVersion(remote);
+    const { merged, conflicts } = mergeNote(base, ours, theirs);
+    console.log('🔀 Merged remote edit into open note', { conflicts });
+    noteBaseRef.current = theirs;
+    applyMergedNote(ours, merged);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [notes, sharedNotes]);
 
   const { width } = useWindowDimensions();
   const isDesktop = width >= 1024;
@@ -552,30 +856,32 @@ function AppShell({ session, onSignOut }: AppShellProps) {
     (session?.user?.user_metadata as { full_name?: string })?.full_name ??
     session?.user?.email?.split('@')[0] ??
     'Moof user';
+  const noteViewers = useNotePresence(
+    noteModalOpen ? editingNote?.id : null,
+    session?.user?.id ? { user_id: session.user.id, name: userName } : null,
+  );
   const firstName = useMemo(() => {
     if (!userName) return 'Moof user';
     return userName.split(' ')[0] || userName;
   }, [userName]);
 
+  // Completed means a status that counts as completed (which `is_done` mirrors).
   const completedCount = useMemo(
-    () => tasks.filter((task) => task.is_done).length,
-    [tasks],
+    () => tasks.filter((task) => statusOf(task, statuses).is_completed).length,
+    [tasks, statuses],
   );
   const activeCount = tasks.length - completedCount;
 
   const fetchTasks = async () => {
+    if (!session?.user?.id) return;
     setTasksLoading(true);
     setTasksError(null);
-    const { data, error } = await supabase
-      .from('tasks')
-      .select('*')
-      .eq('user_id', session?.user?.id)
-      .order('created_at', { ascending: false });
+    const { data, error } = await repo.tasks.list(session.user.id);
 
     if (error) {
       setTasksError(error.message);
     } else {
-      setTasks((data as Task[]) ?? []);
+      setTasks(data);
     }
     setTasksLoading(false);
   };
@@ -585,6 +891,8 @@ function AppShell({ session, onSignOut }: AppShellProps) {
     description?: string,
     project?: string,
     folderId?: string | null,
+    details?: Omit<NewTask, 'title' | 'description' | 'project' | 'folder_id' | 'user_id'>,
+    subtasks: string[] = [],
   ): Promise<boolean> => {
     if (!title.trim()) {
       setTasksError('Vul eerst een titel in.');
@@ -597,53 +905,20 @@ function AppShell({ session, onSignOut }: AppShellProps) {
     setTasksLoading(true);
     setTasksError(null);
 
-    const payload: Record<string, any> = {
-      title: title.trim(),
-      description: description ?? '',
-      is_done: false,
+    const { data, error, droppedColumns } = await repo.tasks.create({
+      title,
+      description,
+      project,
+      folder_id: folderId,
+      position: firstPosition(tasks),
+      ...details,
       user_id: session.user.id,
-    };
-    if (project?.trim()) {
-      payload.project = project.trim();
-    }
-    if (folderId) {
-      payload.folder_id = folderId;
-    }
-
-    let { error } = await supabase.from('tasks').insert([payload]);
-
-    // Fallback if the project column doesn't exist yet
-    if (error && error.message?.toLowerCase().includes('project')) {
-      console.warn('Project column missing on tasks table, retrying without it');
-      const { project: _ignored, ...fallbackPayload } = payload;
-      const retry = await supabase.from('tasks').insert([fallbackPayload]);
-      if (retry.error) {
-        error = retry.error;
-      } else {
-        setAlertMessage({
-          title: 'Project veld ontbreekt',
-          message: 'Voeg een "project" kolom toe aan de tasks tabel om groepen te gebruiken.',
-          type: 'warning',
-        });
-        error = null;
-      }
-    }
+    });
 
-    // Fallback if folder_id column is missing
-    if (error && error.message?.toLowerCase().includes('folder_id')) {
-      console.warn('folder_id column missing on tasks table, retrying without it');
-      const { folder_id: _ignoredFolder, ...fallbackPayload } = payload;
-      const retry = await supabase.from('tasks').insert([fallbackPayload]);
-      if (retry.error) {
-        error = retry.error;
-      } else {
-        setAlertMessage({
-          title: 'Folder veld ontbreekt',
-          message: 'Voeg een "folder_id" kolom toe aan de tasks tabel om de folder-structuur te gebruiken.',
-          type: 'warning',
-        });
-        error = null;
-      }
+    // The insert went through without columns the schema doesn't have yet
+    const missingColumnAlert = droppedColumns.map((column) => MISSING_COLUMNS[column]).find(Boolean);
+    if (!error && missingColumnAlert) {
+      setAlertMessage({ ...missingColumnAlert, type: 'warning' });
     }
 
     if (error) {
@@ -653,207 +928,906 @@ function AppShell({ session, onSignOut }: AppShellProps) {
       return false;
     }
 
+    // Subtasks share the parent's project and folder
+    const parentId = data?.id;
+    for (const subtask of parentId ? subtasks : []) {
+      const result = await repo.tasks.create({
+        title: subtask,
+        project,
+        project_id: details?.project_id,
+        status_id: details?.status_id,
+        folder_id: folderId,
+        parent_id: parentId,
+        user_id: session.user.id,
+      });
+      if (result.error) {
+        setTasksError(result.error.message);
+        break;
+      }
+    }
+
     await fetchTasks();
     setTasksLoading(false);
     return true;
   };
 
+  const closeTaskOverlay = () => {
+    setTaskOverlayTitle('');
+    setTaskOverlayDescription('');
+    setTaskOverlayProjectId(null);
+    setTaskOverlayFolderId(null);
+    setTaskOverlayDue(null);
+    setTaskOverlayPriority(null);
+    setTaskOverlayEstimate(null);
+    setTaskOverlaySubtasks([]);
+    setTaskOverlayChecklist([]);
+    setTaskOverlayAutoComplete(true);
+    setTaskOverlayItemText('');
+    setShowTaskOverlay(false);
+  };
+
+  const addOverlayItem = (kind: 'subtask' | 'checklist') => {
+    const text = taskOverlayItemText.trim();
+    if (!text) return;
+    if (kind === 'subtask') setTaskOverlaySubtasks((items) => [...items, text]);
+    else setTaskOverlayChecklist((items) => [...items, text]);
+    setTaskOverlayItemText('');
+  };
+
   const createTaskFromOverlay = async () => {
     if (!taskOverlayTitle.trim() || tasksLoading) return;
+    // A picked project wins over a typed #project, which is looked up by name
+    // or created. Without a projects table the name is stored as plain text.
+    const project = taskOverlayProjectId
+      ? projects.find((p) => p.id === taskOverlayProjectId) ?? null
+      : taskQuickAdd.project
+        ? findProjectByName(projects, taskQuickAdd.project) ??
+          (projectsError ? null : await createProject({ name: taskQuickAdd.project }))
+        : null;
     const created = await addTask(
-      taskOverlayTitle,
+      taskQuickAdd.title,
       taskOverlayDescription,
-      taskOverlayProject,
+      project?.name ?? taskQuickAdd.project ?? '',
       taskOverlayFolderId,
+      {
+        project_id: project?.id ?? null,
+        status_id: statuses.length ? initialStatus(statuses).id : null,
+        // A quick-add day without a time stays a day-only (midnight) due date
+        due_at: taskOverlayDue ?? taskQuickAdd.start?.toISOString() ?? null,
+        priority: taskOverlayPriority ?? taskQuickAdd.priority,
+        estimated_minutes: taskOverlayEstimate,
+        checklist: taskOverlayChecklist.map(newChecklistItem),
+        auto_complete: taskOverlayAutoComplete,
+      },
+      taskOverlaySubtasks,
     );
     if (!created) return;
-    setTaskOverlayTitle('');
-    setTaskOverlayDescription('');
-    setTaskOverlayProject('');
-    setTaskOverlayFolderId(null);
-    setShowTaskOverlay(false);
+    closeTaskOverlay();
+  };
+
+  // Quick add typed into the task overlay that reads as an event or reminder
+  // continues in that form, with the same text so it is parsed again there.
+  const moveQuickAddTo = (kind: QuickAddKind) => {
+    if (kind === 'event') {
+      setEventInput(taskOverlayTitle);
+      setActiveTab('agenda');
+    } else if (kind === 'reminder') {
+      setReminderInput(taskOverlayTitle);
+      setActiveTab('reminders');
+    }
+    closeTaskOverlay();
   };
 
-  const toggleTask = async (task: Task) => {
+  // Writes a task change plus the parent completions it causes, then refetches.
+  // Tasks getting the same change share one request.
+  const runTaskPatches = async (patches: TaskPatch[]) => {
     setTasksLoading(true);
-    const { error } = await supabase
-      .from('tasks')
-      .update({ is_done: !task.is_done })
-      .eq('id', task.id)
-      .eq('user_id', session?.user?.id);
+    for (const { ids, patch } of groupPatches(patches)) {
+      const { error } = await updateTaskRows(ids, patch);
+      if (error) {
+        alertMissingColumn(error);
+        setTasksError(error.message);
+        setTasksLoading(false);
+        return false;
+      }
+    }
+    fetchTasks();
+    return true;
+  };
 
-    if (error) {
-      setTasksError(error.message);
+  // Explains a missing column from an unapplied migration; false for other errors.
+  const alertMissingColumn = (error: RepositoryError) => {
+    const missingColumnAlert = error.kind === 'missing_column' && error.column ? MISSING_COLUMNS[error.column] : null;
+    if (missingColumnAlert) setAlertMessage({ ...missingColumnAlert, type: 'warning' });
+    return !!missingColumnAlert;
+  };
+
+  // Steps that move rows to the trash as one batch (a single `deleted_at`),
+  // and the step that takes them out again for undo.
+  const trashSteps = (ids: TrashIds) => {
+    const deletedAt = new Date().toISOString();
+    const tables = TRASH_TABLES.filter((table) => ids[table]?.length);
+    return {
+      move: tables.map((table) => () => repo.trash.move(table, ids[table]!, deletedAt)),
+      restore: [() => repo.trash.restore(tables.map((table) => ({ table, ids: ids[table]!, patch: { deleted_at: null } })))],
+    };
+  };
+
+  const updateTaskRows = (ids: string[], patch: Partial<Task>) => repo.tasks.updateMany(ids, patch, session?.user?.id);
+
+  // Batch changes that show up in the undo snackbar.
+  const runUndoableTaskPatches = async (label: string, patches: TaskPatch[]) => {
+    if (!patches.length) return;
+    const revert = revertPatches(tasks, patches);
+    if (!(await runTaskPatches(patches))) return;
+    history.record({
+      label,
+      undo: patchSteps(revert, updateTaskRows),
+      redo: patchSteps(patches, updateTaskRows),
+      refresh: fetchTasks,
+    });
+  };
+
+  const toggleTask = (task: Task) => {
+    const blockers = task.is_done ? [] : openBlockers(task, tasks);
+    if (blockers.length) {
+      setAlertMessage({
+        title: 'Taak is geblokkeerd',
+        message: `Rond eerst ${blockers.map((blocker) => `"${blocker.title}"`).join(', ')} af.`,
+        type: 'warning',
+      });
+      return;
+    }
+    const patch = statusPatch(task, toggledStatus(task, statuses), statuses) ?? { is_done: !task.is_done };
+    return runTaskPatches(completionPatches(tasks, task.id, patch));
+  };
+
+  // A task dropped on another board column. Completing or reopening it goes
+  // through the same checks as the checkbox.
+  const moveTask = (task: Task, patch: Partial<Task>) => {
+    if (!('is_done' in patch)) return runTaskPatches([{ id: task.id, patch }]);
+    if (patch.is_done && openBlockers(task, tasks).length) return toggleTask(task);
+    return runTaskPatches(completionPatches(tasks, task.id, patch));
+  };
+
+  // Drag-to-reorder: shows the new order right away, then saves it.
+  const reorderTasks = (patches: TaskPatch[]) => {
+    if (!patches.length) return;
+    const byId = new Map(patches.map(({ id, patch }) => [id, patch]));
+    setTasks((prev) => prev.map((task) => (byId.has(task.id) ? { ...task, ...byId.get(task.id) } : task)));
+    return runTaskPatches(patches);
+  };
+
+  const setTaskBlockers = (task: Task, blockedBy: string[]) => {
+    for (const blockerId of blockedBy.filter((id) => !task.blocked_by?.includes(id))) {
+      const cycle = findDependencyCycle(tasks, task.id, blockerId);
+      if (cycle) {
+        setAlertMessage({
+          title: 'Kringverwijzing',
+          message:
+            cycle.length > 1
+              ? `${cycle.map((t) => `"${t.title}"`).join(' wacht op ')}, dus "${task.title}" kan niet op "${cycle[0].title}" wachten.`
+              : 'Een taak kan niet op zichzelf wachten.',
+          type: 'error',
+        });
+        return;
+      }
+    }
+    return runTaskPatches([{ id: task.id, patch: { blocked_by: blockedBy } }]);
+  };
+
+  const updateChecklist = (task: Task, checklist: ChecklistItem[]) =>
+    runTaskPatches(completionPatches(tasks, task.id, { checklist }));
+
+  const addSubtask = async (parent: Task, title: string) => {
+    if (!title.trim() || !session?.user?.id) return;
+    setTasksLoading(true);
+    const { data, error, droppedColumns } = await repo.tasks.create({
+      title: title.trim(),
+      project: parent.project,
+      project_id: parent.project_id,
+      status_id: statuses.length ? initialStatus(statuses).id : null,
+      folder_id: parent.folder_id,
+      parent_id: parent.id,
+      user_id: session.user.id,
+    });
+    if (droppedColumns.includes('parent_id')) {
+      setAlertMessage({ ...MISSING_COLUMNS.parent_id, type: 'warning' });
+    }
+    if (error || !data) {
+      setTasksError(error?.message ?? null);
       setTasksLoading(false);
-    } else {
-      fetchTasks();
+      return;
+    }
+    // A new open subtask reopens a parent that was completed automatically
+    runTaskPatches(completionPatches([...tasks, data], data.id, { is_done: false }).filter(({ id }) => id !== data.id));
+  };
+
+
+  // Batch actions from the selection in the task list.
+  const completeTasks = (ids: string[]) => {
+    const { patches, blocked } = batchCompletePatches(tasks, ids, statuses);
+    if (blocked.length) {
+      setAlertMessage({
+        title: blocked.length === 1 ? 'Taak is geblokkeerd' : `${blocked.length} taken zijn geblokkeerd`,
+        message: `${blocked.map((task) => `"${task.title}"`).join(', ')} ${blocked.length === 1 ? 'wacht' : 'wachten'} nog op andere taken en ${blocked.length === 1 ? 'blijft' : 'blijven'} open.`,
+        type: 'warning',
+      });
     }
+    return runUndoableTaskPatches(`${plural(patches.length, 'task')} completed`, patches);
   };
 
-  const deleteTask = async (taskId: string) => {
+  const updateTasks = (ids: string[], patch: Partial<Task>) =>
+    runUndoableTaskPatches(`${plural(ids.length, 'task')} updated`, ids.map((id) => ({ id, patch })));
+
+  // Subtasks go to the trash along with their parent; removing the last open
+  // subtask can complete the parent.
+  const deleteTasks = async (ids: string[]) => {
     setTasksLoading(true);
-    const { error } = await supabase
-      .from('tasks')
-      .delete()
-      .eq('id', taskId)
-      .eq('user_id', session?.user?.id);
+    const removal = batchRemoval(tasks, ids);
+    const revert = revertPatches(tasks, removal.patches);
+    const { move, restore } = trashSteps({ tasks: removal.ids });
+    const error = await runSteps(move);
     if (error) {
+      alertMissingColumn(error);
       setTasksError(error.message);
       setTasksLoading(false);
-    } else {
-      fetchTasks();
+      return;
     }
+    history.record({
+      label: `${plural(ids.length, 'task')} moved to the trash`,
+      undo: [...restore, ...patchSteps(revert, updateTaskRows)],
+      redo: [...move, ...patchSteps(removal.patches, updateTaskRows)],
+      refresh: fetchTasks,
+    });
+    runTaskPatches(removal.patches);
   };
 
-  const fetchReminders = async () => {
-    setRemindersLoading(true);
-    setRemindersError(null);
-    const { data, error } = await supabase
-      .from('reminders')
-      .select('*')
-      .order('remind_at', { ascending: true });
+  const deleteTask = (taskId: string) => deleteTasks([taskId]);
 
+  // Loads the workflow statuses; a user without any gets the default set.
+  const fetchStatuses = async () => {
+    const userId = session?.user?.id;
+    if (!userId) return;
+    const { data, error } = await repo.statuses.list(userId);
     if (error) {
-      setRemindersError(error.message);
+      // Older schemas have no task_statuses table; the built-in statuses are used then.
+      console.warn('Task statuses unavailable', error);
+      setStatusesError(error.message);
+      return;
+    }
+    setStatusesError(null);
+    if (data.length) {
+      setStatuses(data);
+      return;
+    }
+    const created = await repo.statuses.createMany(DEFAULT_STATUSES.map((status) => ({ ...status, user_id: userId })));
+    if (created.error) {
+      setStatusesError(created.error.message);
     } else {
-      setReminders((data as Reminder[]) ?? []);
+      console.log('🗂️ Default task statuses created');
+      setStatuses(created.data);
     }
-    setRemindersLoading(false);
   };
 
-  const addReminder = async () => {
-    if (!reminderInput.trim()) return;
-    setRemindersLoading(true);
-    const payload = {
-      title: reminderInput.trim(),
-      remind_at: toIsoOrNull(reminderWhen) ?? new Date().toISOString(),
-      user_id: session?.user?.id,
-    };
-    const { error } = await supabase.from('reminders').insert(payload);
-    if (error) {
-      setRemindersError(error.message);
-      setRemindersLoading(false);
-    } else {
-      setReminderInput('');
-      setReminderWhen('');
-      fetchReminders();
+  const createStatus = async (name: string, isCompleted: boolean) => {
+    if (!name.trim() || !session?.user?.id) return;
+    const list = workflowStatuses(statuses);
+    const { data, error } = await repo.statuses.create({
+      name: name.trim(),
+      color: STATUS_COLORS[list.length % STATUS_COLORS.length],
+      position: list.length ? list[list.length - 1].position + 1 : 0,
+      is_completed: isCompleted,
+      user_id: session.user.id,
+    });
+    if (error || !data) {
+      setStatusesError(error?.message ?? null);
+      return;
     }
+    setStatuses((prev) => [...prev, data]);
   };
 
-  const toggleReminder = async (reminder: Reminder) => {
-    setRemindersLoading(true);
-    const { error } = await supabase
-      .from('reminders')
-      .update({ is_done: !reminder.is_done })
-      .eq('id', reminder.id);
+  const updateStatus = async (status: WorkflowStatus, patch: Partial<WorkflowStatus>) => {
+    const changesKind = 'is_completed' in patch && patch.is_completed !== status.is_completed;
+    if (changesKind && !hasBothKinds(statuses.map((s) => (s.id === status.id ? { ...s, ...patch } : s)))) {
+      setAlertMessage({
+        title: 'Status nodig',
+        message: 'Houd minstens één open en één afgeronde status over.',
+        type: 'warning',
+      });
+      return;
+    }
+    const { is_completed: isCompleted, ...rest } = patch;
+    const { error } =
+      changesKind && isCompleted !== undefined
+        ? await repo.statuses.setCompleted(status.id, isCompleted)
+        : await repo.statuses.update(status.id, rest);
     if (error) {
-      setRemindersError(error.message);
-      setRemindersLoading(false);
-    } else {
-      fetchReminders();
+      setStatusesError(error.message);
+      return;
     }
+    setStatuses((prev) => prev.map((s) => (s.id === status.id ? { ...s, ...patch } : s)));
+    if (changesKind) fetchTasks();
   };
 
-  const deleteReminder = async (id: string) => {
-    setRemindersLoading(true);
-    const { error } = await supabase.from('reminders').delete().eq('id', id);
+  const moveStatus = async (status: WorkflowStatus, delta: number) => {
+    const moves = reorderStatuses(statuses, status.id, delta);
+    for (const { id, position } of moves) {
+      const { error } = await repo.statuses.update(id, { position });
+      if (error) {
+        setStatusesError(error.message);
+        break;
+      }
+    }
+    fetchStatuses();
+  };
+
+  // Its tasks keep their open/done state and show in the first status of that kind.
+  const deleteStatus = async (status: WorkflowStatus) => {
+    if (!hasBothKinds(statuses.filter((s) => s.id !== status.id))) {
+      setAlertMessage({
+        title: 'Status nodig',
+        message: 'Houd minstens één open en één afgeronde status over.',
+        type: 'warning',
+      });
+      return;
+    }
+    const { error } = await repo.statuses.remove(status.id);
     if (error) {
-      setRemindersError(error.message);
-      setRemindersLoading(false);
-    } else {
-      fetchReminders();
+      setStatusesError(error.message);
+      return;
     }
+    setStatuses((prev) => removeById(prev, status.id));
+    setTasks((prev) => prev.map((task) => (task.status_id === status.id ? { ...task, status_id: null } : task)));
   };
 
-  const fetchEvents = async () => {
-    setEventsLoading(true);
-    setEventsError(null);
-    const { data, error } = await supabase
-      .from('agenda_events')
-      .select('*')
-      .order('starts_at', { ascending: true });
+  const fetchProjects = async () => {
+    if (!session?.user?.id) return;
+    const { data, error } = await repo.projects.list(session.user.id);
 
     if (error) {
-      setEventsError(error.message);
+      // Older schemas have no projects table; tasks then keep their text project.
+      console.warn('Projects unavailable', error);
+      setProjectsError(error.message);
     } else {
-      setEvents((data as AgendaEvent[]) ?? []);
+      setProjects(data);
+      setProjectsError(null);
     }
-    setEventsLoading(false);
   };
 
-  const addEvent = async () => {
-    if (!eventInput.trim()) return;
-    setEventsLoading(true);
-    const payload = {
-      title: eventInput.trim(),
-      starts_at: toIsoOrNull(eventStart) ?? new Date().toISOString(),
-      ends_at: toIsoOrNull(eventEnd),
-      location: eventLocation || null,
-      user_id: session?.user?.id,
-    };
-    const { error } = await supabase.from('agenda_events').insert(payload);
-    if (error) {
-      setEventsError(error.message);
-      setEventsLoading(false);
-    } else {
-      setEventInput('');
-      setEventStart('');
-      setEventEnd('');
-      setEventLocation('');
-      fetchEvents();
+  const createProject = async (input: Omit<NewProject, 'user_id'>): Promise<Project | null> => {
+    if (!input.name.trim()) {
+      setProjectsError('Geef het project een naam.');
+      return null;
+    }
+    if (!session?.user?.id) {
+      setProjectsError('Je bent niet ingelogd.');
+      return null;
+    }
+    const { data, error } = await repo.projects.create({
+      color: DEFAULT_PROJECT_COLOR,
+      icon: DEFAULT_PROJECT_ICON,
+      ...input,
+      name: input.name.trim(),
+      user_id: session.user.id,
+    });
+    if (error || !data) {
+      setAlertMessage({
+        title: 'Project niet aangemaakt',
+        message: error?.message ?? 'Probeer het opnieuw.',
+        type: 'error',
+      });
+      return null;
     }
+    console.log('📁 Project created:', data.name);
+    setProjects((prev) => [...prev, data]);
+    return data;
   };
 
-  const deleteEvent = async (id: string) => {
-    setEventsLoading(true);
-    const { error } = await supabase.from('agenda_events').delete().eq('id', id);
+  const updateProject = async (project: Project, patch: Partial<Project>) => {
+    const { error } = await repo.projects.update(project.id, patch);
     if (error) {
-      setEventsError(error.message);
+      setAlertMessage({ title: 'Project niet bijgewerkt', message: error.message, type: 'error' });
+      return;
+    }
+    setProjects((prev) => prev.map((p) => (p.id === project.id ? { ...p, ...patch } : p)));
+  };
+
+  // Tasks, notes and events of a deleted project stay, without a project.
+  const deleteProject = async (project: Project) => {
+    const { error } = await repo.projects.remove(project.id);
+    if (error) {
+      setAlertMessage({ title: 'Project niet verwijderd', message: error.message, type: 'error' });
+      return;
+    }
+    setProjects((prev) => removeById(prev, project.id));
+    const unlink = <T extends { project_id?: string | null }>(rows: T[]) =>
+      rows.map((row) => (row.project_id === project.id ? { ...row, project_id: null } : row));
+    setTasks(unlink);
+    setNotes(unlink);
+    setEvents(unlink);
+  };
+
+  // Moves a task, note or event into `project`, or out of any project with null.
+  const linkToProject = async (kind: ProjectItemKind, id: string, project: Project | null) => {
+    const projectId = project?.id ?? null;
+    const { error } =
+      kind === 'task'
+        ? await repo.tasks.update(id, { project_id: projectId, project: project?.name ?? null }, session?.user?.id)
+        : kind === 'note'
+          ? await repo.notes.update(id, { project_id: projectId })
+          : await repo.events.update(id, { project_id: projectId });
+    if (error) {
+      setAlertMessage(
+        error.kind === 'missing_column'
+          ? { ...MISSING_COLUMNS.project_id, type: 'warning' }
+          : { title: 'Koppelen mislukt', message: error.message, type: 'error' },
+      );
+      return;
+    }
+    if (kind === 'task') {
+      setTasks((prev) =>
+        prev.map((task) => (task.id === id ? { ...task, project_id: projectId, project: project?.name ?? null } : task)),
+      );
+    } else if (kind === 'note') {
+      setNotes((prev) => prev.map((note) => (note.id === id ? { ...note, project_id: projectId } : note)));
+    } else {
+      setEvents((prev) => prev.map((event) => (event.id === id ? { ...event, project_id: projectId } : event)));
+    }
+  };
+
+  const fetchReminders = async () => {
+    setRemindersLoading(true);
+    setRemindersError(null);
+    const { data, error } = await repo.reminders.list();
+
+    if (error) {
+      setRemindersError(error.message);
+    } else {
+      setReminders(data);
+      syncReminderNotifications(data);
+    }
+    setRemindersLoading(false);
+  };
+
+  // Null when the form is valid; otherwise shown as the form error.
+  const reminderFormError = (remindAt: string | null) => {
+    if (reminderRecurrence?.trim() && !parseRecurrence(reminderRecurrence)) {
+      return 'Ongeldige herhaling, bijv. FREQ=WEEKLY;BYDAY=MO,WE of FREQ=MONTHLY;BYDAY=-1FR';
+    }
+    if (reminderRecurrence?.trim() && !remindAt) return 'Kies een tijdstip voor een herhalende reminder.';
+    return null;
+  };
+
+  const addReminder = async () => {
+    if (!reminderInput.trim()) return;
+    // Phrases like "morgen 9:00" fill in the time unless one was picked
+    const quick = editingReminder ? null : parseQuickAdd(reminderInput);
+    const remindAt = reminderWhen ?? (quick && quickAddStart(quick)?.toISOString()) ?? null;
+    const formError = reminderFormError(editingReminder ? reminderWhen : remindAt);
+    setRemindersError(formError);
+    if (formError) return;
+    if (editingReminder) return saveReminderEdit(editingReminder);
+    setRemindersLoading(true);
+    const payload = {
+      title: quick?.title ?? reminderInput.trim(),
+      remind_at: remindAt,
+      recurrence: reminderRecurrence?.trim() || null,
+      user_id: session?.user?.id,
+    };
+    const { data, error, droppedColumns } = await repo.reminders.create(payload);
+    const missingColumnAlert = droppedColumns.map((column) => MISSING_COLUMNS[column]).find(Boolean);
+    if (!error && missingColumnAlert) {
+      setAlertMessage({ ...missingColumnAlert, type: 'warning' });
+    }
+    if (error) {
+      setRemindersError(error.message);
+      setRemindersLoading(false);
+    } else {
+      if (data) scheduleReminderNotification(data);
+      setReminderInput('');
+      setReminderWhen(null);
+      setReminderRecurrence(null);
+      fetchReminders();
+    }
+  };
+
+  const startEditReminder = (reminder: Reminder) => {
+    setEditingReminder(reminder);
+    setReminderInput(reminder.title);
+    setReminderWhen(reminder.remind_at);
+    setReminderRecurrence(reminder.recurrence ?? null);
+  };
+
+  const cancelEditReminder = () => {
+    setEditingReminder(null);
+    setReminderInput('');
+    setReminderWhen(null);
+    setReminderRecurrence(null);
+  };
+
+  const saveReminderEdit = async (reminder: Reminder) => {
+    setRemindersLoading(true);
+    const patch: Partial<Reminder> = {
+      title: reminderInput.trim(),
+      remind_at: reminderWhen,
+    };
+    // Only send the column when it is in use, so schemas without it keep working
+    if (reminderRecurrence?.trim() || reminder.recurrence) patch.recurrence = reminderRecurrence?.trim() || null;
+    const { error } = await repo.reminders.update(reminder.id, patch);
+    if (error) {
+      setRemindersError(error.message);
+      setRemindersLoading(false);
+    } else {
+      scheduleReminderNotification({ ...reminder, ...patch });
+      cancelEditReminder();
+      fetchReminders();
+    }
+  };
+
+  const toggleReminder = async (reminder: Reminder) => {
+    setRemindersLoading(true);
+    const patch = reminder.is_done ? { is_done: false } : reminderCompletionPatch(reminder);
+    const { error } = await repo.reminders.update(reminder.id, patch);
+    if (error) {
+      setRemindersError(error.message);
+      setRemindersLoading(false);
+    } else {
+      // Completing cancels the notification, reopening (or the next occurrence) schedules it again
+      scheduleReminderNotification({ ...reminder, ...patch });
+      if (!reminder.is_done && patch.remind_at) {
+        setAlertMessage({
+          title: 'Volgende herinnering',
+          message: `"${reminder.title}" komt terug op ${new Date(patch.remind_at).toLocaleString()}.`,
+          type: 'success',
+        });
+      }
+      fetchReminders();
+    }
+  };
+
+  // Batch actions from the reminder selection: one request per distinct change.
+  // Undo and redo refetch, which reschedules the notifications as well.
+  const runReminderPatches = async (label: string, patches: { id: string; patch: Partial<Reminder> }[]) => {
+    if (!patches.length) return;
+    setRemindersLoading(true);
+    const revert = revertPatches(reminders, patches);
+    for (const { ids, patch } of groupPatches(patches)) {
+      const { error } = await repo.reminders.updateMany(ids, patch);
+      if (error) {
+        setRemindersError(error.message);
+        setRemindersLoading(false);
+        return;
+      }
+    }
+    patches.forEach(({ id, patch }) => {
+      const reminder = reminders.find((r) => r.id === id);
+      if (reminder) scheduleReminderNotification({ ...reminder, ...patch });
+    });
+    history.record({
+      label,
+      undo: patchSteps(revert, repo.reminders.updateMany),
+      redo: patchSteps(patches, repo.reminders.updateMany),
+      refresh: fetchReminders,
+    });
+    fetchReminders();
+  };
+
+  // Recurring reminders move on to their next occurrence, like the checkbox.
+  const completeReminders = (ids: string[]) => {
+    const open = reminders.filter((reminder) => ids.includes(reminder.id) && !reminder.is_done);
+    return runReminderPatches(
+      `${plural(open.length, 'reminder')} completed`,
+      open.map((reminder) => ({ id: reminder.id, patch: reminderCompletionPatch(reminder) })),
+    );
+  };
+
+  const rescheduleReminders = (ids: string[], remindAt: string | null) =>
+    runReminderPatches(
+      `${plural(ids.length, 'reminder')} rescheduled`,
+      ids.map((id) => ({ id, patch: { remind_at: remindAt } })),
+    );
+
+  const deleteReminders = async (ids: string[]) => {
+    setRemindersLoading(true);
+    const { move, restore } = trashSteps({ reminders: ids });
+    const error = await runSteps(move);
+    if (error) {
+      alertMissingColumn(error);
+      setRemindersError(error.message);
+      setRemindersLoading(false);
+    } else {
+      ids.forEach((id) => cancelReminderNotification(id));
+      if (editingReminder && ids.includes(editingReminder.id)) cancelEditReminder();
+      history.record({
+        label: `${plural(ids.length, 'reminder')} moved to the trash`,
+        undo: restore,
+        redo: move,
+        refresh: fetchReminders,
+      });
+      fetchReminders();
+    }
+  };
+
+  const deleteReminder = (id: string) => deleteReminders([id]);
+
+  const fetchEvents = async () => {
+    setEventsLoading(true);
+    setEventsError(null);
+    const { data, error } = await repo.events.list();
+
+    if (error) {
+      setEventsError(error.message);
+    } else {
+      setEvents(data);
+    }
+    setEventsLoading(false);
+  };
+
+  // Runs one or more event writes, then refetches; the first error stops the rest.
+  const runEventChange = async (...operations: (() => Promise<{ error: RepositoryError | null }>)[]) => {
+    setEventsLoading(true);
+    for (const operation of operations) {
+      const { error } = await operation();
+      if (error) {
+        setEventsError(error.message);
+        setEventsLoading(false);
+        return false;
+      }
+    }
+    fetchEvents();
+    return true;
+  };
+
+  const resetEventForm = () => {
+    setEventInput('');
+    setEventStart(null);
+    setEventEnd(null);
+    setEventLocation('');
+    setEventRecurrence(null);
+    setEditingOccurrence(null);
+  };
+
+  const eventFormError = (startsAt: string | null, endsAt: string | null) => {
+    if (!startsAt) return 'Kies een starttijd voor de afspraak.';
+    if (endsAt && new Date(endsAt) <= new Date(startsAt)) return 'De eindtijd moet na de starttijd liggen.';
+    if (eventRecurrence?.trim() && !parseRecurrence(eventRecurrence)) {
+      return 'Ongeldige herhaling, bijv. FREQ=WEEKLY;BYDAY=MO,WE';
+    }
+    return null;
+  };
+
+  const addEvent = async () => {
+    if (!eventInput.trim()) return;
+    // Quick-add phrases ("vrijdag 10-11 @kantoor") fill the fields left empty;
+    // a parsed end only goes with a parsed start
+    const quick = editingOccurrence ? null : parseQuickAdd(eventInput);
+    const startsAt = eventStart ?? (quick && quickAddStart(quick)?.toISOString()) ?? null;
+    const endsAt = eventEnd ?? (!eventStart && quick?.end ? quick.end.toISOString() : null);
+    const formError = eventFormError(startsAt, endsAt);
+    setEventsError(formError);
+    if (formError || !startsAt) return;
+    if (editingOccurrence) return saveEventEdit(editingOccurrence, startsAt);
+    setEventsLoading(true);
+    const payload = {
+      title: quick?.title ?? eventInput.trim(),
+      starts_at: startsAt,
+      ends_at: endsAt,
+      location: eventLocation || quick?.location || null,
+      recurrence: eventRecurrence?.trim() || null,
+      user_id: session?.user?.id,
+    };
+    const { error, droppedColumns } = await repo.events.create(payload);
+    const missingColumnAlert = droppedColumns.map((column) => MISSING_COLUMNS[column]).find(Boolean);
+    if (!error && missingColumnAlert) {
+      setAlertMessage({ ...missingColumnAlert, type: 'warning' });
+    }
+    if (error) {
+      setEventsError(error.message);
       setEventsLoading(false);
     } else {
+      resetEventForm();
       fetchEvents();
     }
   };
 
+  const startEditOccurrence = (occurrence: EventOccurrence) => {
+    setEditingOccurrence(occurrence);
+    setOccurrenceScope(occurrence.original_start ? 'this' : 'all');
+    setEventInput(occurrence.title);
+    setEventStart(occurrence.starts_at);
+    setEventEnd(occurrence.ends_at);
+    setEventLocation(occurrence.location ?? '');
+    setEventRecurrence(occurrence.recurrence ?? null);
+  };
+
+  const saveEventEdit = async (occurrence: EventOccurrence, startsAt: string) => {
+    // Exceptions and splits are computed from the stored series, not the expanded copy
+    const event = events.find((e) => e.id === occurrence.id);
+    if (!event) return;
+    const changes = {
+      title: eventInput.trim(),
+      starts_at: startsAt,
+      ends_at: eventEnd,
+      location: eventLocation || null,
+    };
+    const recurrence = eventRecurrence?.trim() || null;
+    const original = occurrence.original_start;
+
+    let saved: boolean;
+    if (!original) {
+      const patch: Partial<AgendaEvent> = { ...changes };
+      if (recurrence || event.recurrence) patch.recurrence = recurrence;
+      saved = await runEventChange(() => repo.events.update(event.id, patch));
+    } else if (occurrenceScope === 'this') {
+      saved = await runEventChange(() => repo.events.update(event.id, overrideOccurrence(event, original, changes)));
+    } else if (occurrenceScope === 'following') {
+      const { head, tail } = splitSeries(event, original, { ...changes, recurrence });
+      saved = head
+        ? await runEventChange(
+            () => repo.events.update(event.id, head),
+            () => repo.events.create(tail),
+          )
+        : await runEventChange(() => repo.events.update(event.id, { ...tail, recurrence_exceptions: [] }));
+    } else {
+      saved = await runEventChange(() =>
+        repo.events.update(event.id, updateSeries(event, original, { ...changes, recurrence })),
+      );
+    }
+    if (saved) resetEventForm();
+  };
+
+  const deleteOccurrence = async (occurrence: EventOccurrence, scope: OccurrenceScope) => {
+    const event = events.find((e) => e.id === occurrence.id);
+    const original = occurrence.original_start;
+    if (editingOccurrence?.occurrence_key === occurrence.occurrence_key) resetEventForm();
+    if (!event || !original || scope === 'all') return deleteEvent(occurrence.id);
+    // Both change the series row itself; undo writes its old values back
+    const patch = scope === 'this' ? skipOccurrence(event, original) : endSeriesBefore(event, original);
+    if (!patch) return deleteEvent(event.id);
+    const apply = () => repo.events.update(event.id, patch);
+    if (!(await runEventChange(apply))) return;
+    const [revert] = revertPatches([event], [{ id: event.id, patch }]);
+    history.record({
+      label: scope === 'this' ? 'Occurrence deleted' : 'Following occurrences deleted',
+      undo: [() => repo.events.update(event.id, revert.patch)],
+      redo: [apply],
+      refresh: fetchEvents,
+    });
+  };
+
+  const deleteEvent = async (id: string) => {
+    const { move, restore } = trashSteps({ agenda_events: [id] });
+    if (!(await runEventChange(...move))) return;
+    history.record({ label: 'Event moved to the trash', undo: restore, redo: move, refresh: fetchEvents });
+  };
+
+  // Drag-to-reschedule from the calendar; a recurring occurrence moves on its own.
+  const moveOccurrence = async (occurrence: EventOccurrence, start: Date) => {
+    const event = events.find((e) => e.id === occurrence.id);
+    if (!event || !occurrence.starts_at) return;
+    const duration = occurrence.ends_at
+      ? new Date(occurrence.ends_at).getTime() - new Date(occurrence.starts_at).getTime()
+      : null;
+    const changes = {
+      starts_at: start.toISOString(),
+      ends_at: duration === null ? null : new Date(start.getTime() + duration).toISOString(),
+    };
+    await runEventChange(() =>
+      repo.events.update(
+        event.id,
+        occurrence.original_start
+          ? overrideOccurrence(event, occurrence.original_start, {
+              title: occurrence.title,
+              location: occurrence.location,
+              ...changes,
+            })
+          : changes,
+      ),
+    );
+  };
+
+  // Tapping an empty calendar slot prefills the form with a one-hour event there.
+  const createEventAt = (start: Date) => {
+    resetEventForm();
+    setEventStart(start.toISOString());
+    setEventEnd(new Date(start.getTime() + 60 * 60 * 1000).toISOString());
+  };
+
+  // Whole agenda, or the events (series included whole) with an occurrence in the range.
+  const exportEvents = async (range?: { from: Date; to: Date }) => {
+    const ids = range ? new Set(expandEvents(events, range.from, range.to).map((e) => e.id)) : null;
+    const selected = ids ? events.filter((e) => ids.has(e.id)) : events;
+    if (!selected.length) {
+      setAlertMessage({ title: 'Niets te exporteren', message: 'Er zijn geen afspraken in deze periode.', type: 'info' });
+      return;
+    }
+    try {
+      const stamp = new Date().toISOString().slice(0, 10);
+      await shareTextFile(`agenda-${stamp}.ics`, eventsToIcs(selected), ICS_MIME_TYPE);
+    } catch (error) {
+      console.error('❌ Agenda export failed:', error);
+      setAlertMessage({ title: 'Export mislukt', message: String((error as Error)?.message ?? error), type: 'error' });
+    }
+  };
+
+  const importEvents = async () => {
+    let file: Awaited<ReturnType<typeof pickTextFile>>;
+    try {
+      file = await pickTextFile([ICS_MIME_TYPE]);
+    } catch (error) {
+      console.error('❌ Could not read calendar file:', error);
+      setAlertMessage({ title: 'Import mislukt', message: 'Het bestand kon niet gelezen worden.', type: 'error' });
+      return;
+    }
+    if (!file) return;
+
+    const { events: parsed, unsupportedRules } = parseIcs(file.content);
+    if (!parsed.length) {
+      setAlertMessage({ title: 'Geen afspraken', message: `${file.name} bevat geen afspraken.`, type: 'warning' });
+      return;
+    }
+
+    setEventsLoading(true);
+    const known = new Set(events.map(icsUid));
+    let imported = 0;
+    let duplicates = 0;
+    for (const event of parsed) {
+      if (event.ical_uid && known.has(event.ical_uid)) {
+        duplicates++;
+        continue;
+      }
+      const { error } = await repo.events.create({ ...event, user_id: session?.user?.id });
+      if (error) {
+        setEventsError(error.message);
+        break;
+      }
+      if (event.ical_uid) known.add(event.ical_uid);
+      imported++;
+    }
+    fetchEvents();
+
+    const notes = [
+      duplicates ? `${duplicates} al aanwezig en overgeslagen.` : null,
+      unsupportedRules ? `${unsupportedRules} met een niet-ondersteunde herhaling; alleen de eerste keer is toegevoegd.` : null,
+    ].filter(Boolean);
+    setAlertMessage({
+      title: 'Agenda geïmporteerd',
+      message: [`${imported} afspraak${imported === 1 ? '' : 'en'} toegevoegd uit ${file.name}.`, ...notes].join(' '),
+      type: imported ? 'success' : 'info',
+    });
+  };
+
   const fetchFolders = async () => {
+    if (!session?.user?.id) return;
     setNotesLoading(true);
     setNotesError(null);
 
     // Fetch own folders
-    const { data: ownFoldersData, error: ownError } = await supabase
-      .from('note_folders')
-      .select('*')
-      .eq('user_id', session?.user?.id)
-      .order('created_at', { ascending: false });
+    const { data: ownFoldersData, error: ownError } = await repo.folders.listOwn(session.user.id);
 
     // Fetch shared folders via folder_collaborators
-    console.log('🔍 Fetching shared folders for user:', session?.user?.id);
-    const { data: collaboratorData, error: collaboratorError } = await supabase
-      .from('folder_collaborators')
-      .select('folder_id')
-      .eq('user_id', session?.user?.id);
+    console.log('🔍 Fetching shared folders for user:', session.user.id);
+    const { data: sharedFolderIds, error: collaboratorError } = await repo.folderCollaborators.listFolderIdsForUser(
+      session.user.id,
+    );
 
     if (collaboratorError) {
       console.error('❌ Error fetching folder_collaborators:', collaboratorError);
     }
-    console.log('📊 Collaborator data:', collaboratorData);
+    console.log('📊 Collaborator folder ids:', sharedFolderIds);
 
     let sharedFoldersData: NoteFolder[] = [];
-    if (collaboratorData && collaboratorData.length > 0) {
-      const folderIds = collaboratorData.map(c => c.folder_id);
-      console.log('📂 Fetching folders with IDs:', folderIds);
-      const { data: sharedData, error: sharedError } = await supabase
-        .from('note_folders')
-        .select('*')
-        .in('id', folderIds)
-        .order('created_at', { ascending: false });
+    if (sharedFolderIds && sharedFolderIds.length > 0) {
+      console.log('📂 Fetching folders with IDs:', sharedFolderIds);
+      const { data: sharedData, error: sharedError } = await repo.folders.listByIds(sharedFolderIds);
 
       if (sharedError) {
         console.error('❌ Error fetching shared folders:', sharedError);
       }
       console.log('📁 Shared folders data:', sharedData);
 
-      sharedFoldersData = (sharedData as NoteFolder[]) ?? [];
+      sharedFoldersData = sharedData ?? [];
     }
 
     console.log('📁 Folders:', { own: ownFoldersData?.length ?? 0, shared: sharedFoldersData.length });
@@ -861,28 +1835,50 @@ function AppShell({ session, onSignOut }: AppShellProps) {
     if (ownError) {
       setNotesError(ownError.message);
     } else {
-      setFolders((ownFoldersData as NoteFolder[]) ?? []);
+      setFolders(ownFoldersData);
       setSharedFolders(sharedFoldersData);
-      if (!selectedFolderId && ownFoldersData && ownFoldersData.length > 0) {
+      if (!selectedFolderId && ownFoldersData.length > 0) {
         setSelectedFolderId(ownFoldersData[0].id);
       }
     }
     setNotesLoading(false);
   };
 
+  // A new subfolder is shared with everyone its ancestor folders are shared with.
+  const shareWithAncestorCollaborators = async (folderId: string, parentFolderId: string) => {
+    console.log('🔧 AUTO-SHARE TRIGGERED for folder');
+    // Get all ancestor folder IDs (parent, grandparent, etc.)
+    const ancestorIds = await repo.folders.listAncestorIds(parentFolderId);
+    console.log(`📂 Checking ${ancestorIds.length} ancestor folders for collaborators:`, ancestorIds);
+
+    // Get all unique collaborators from ALL ancestor folders
+    const { data: uniqueCollabs } = await repo.folderCollaborators.listForFolders(ancestorIds);
+
+    if (uniqueCollabs && uniqueCollabs.length > 0) {
+      await repo.folderCollaborators.addMany(
+        uniqueCollabs.map((collab) => ({
+          folder_id: folderId,
+          user_id: collab.user_id,
+          permission: collab.permission,
+          invited_by: session?.user?.id,
+        })),
+      );
+      console.log(`✅ Auto-shared new subfolder with ${uniqueCollabs.length} collaborators`);
+    }
+  };
+
   const addFolder = async (nameOverride?: string, iconOverride?: string | null, colorOverride?: string | null, parentFolderId?: string | null) => {
     const name = (nameOverride ?? folderInput).trim();
     if (!name) return;
     console.log('🔧 addFolder called with parentFolderId:', parentFolderId);
     setNotesLoading(true);
-    const payload = {
+    const { data: newFolder, error } = await repo.folders.create({
       name,
       user_id: session?.user?.id,
       color: colorOverride ?? null,
       icon: iconOverride ?? null,
       parent_folder_id: parentFolderId ?? null,
-    };
-    const { data: newFolder, error } = await supabase.from('note_folders').insert(payload).select().single();
+    });
     console.log('🔧 newFolder created:', newFolder, 'error:', error);
     if (error) {
       setNotesError(error.message);
@@ -891,49 +1887,7 @@ function AppShell({ session, onSignOut }: AppShellProps) {
       // If this is a subfolder, automatically share it with ALL ancestor folder collaborators
       console.log('🔧 Checking auto-share condition: parentFolderId=', parentFolderId, 'newFolder=', !!newFolder);
       if (parentFolderId && newFolder) {
-        console.log('🔧 AUTO-SHARE TRIGGERED for folder');
-        // Function to get all ancestor folder IDs (parent, grandparent, etc.)
-        const getAllAncestorIds = async (folderId: string): Promise<string[]> => {
-          const { data: folder } = await supabase
-            .from('note_folders')
-            .select('parent_folder_id')
-            .eq('id', folderId)
-            .single();
-
-          if (!folder || !folder.parent_folder_id) {
-            return [folderId];
-          }
-
-          const ancestors = await getAllAncestorIds(folder.parent_folder_id);
-          return [folderId, ...ancestors];
-        };
-
-        // Get all ancestor folder IDs
-        const ancestorIds = await getAllAncestorIds(parentFolderId);
-        console.log(`📂 Checking ${ancestorIds.length} ancestor folders for collaborators:`, ancestorIds);
-
-        // Get all unique collaborators from ALL ancestor folders
-        const { data: allAncestorCollabs } = await supabase
-          .from('folder_collaborators')
-          .select('user_id, permission')
-          .in('folder_id', ancestorIds);
-
-        if (allAncestorCollabs && allAncestorCollabs.length > 0) {
-          // Remove duplicates (same user might have access via multiple ancestors)
-          const uniqueCollabs = Array.from(
-            new Map(allAncestorCollabs.map(c => [c.user_id, c])).values()
-          );
-
-          const folderCollaborators = uniqueCollabs.map(collab => ({
-            folder_id: newFolder.id,
-            user_id: collab.user_id,
-            permission: collab.permission,
-            invited_by: session?.user?.id,
-          }));
-
-          await supabase.from('folder_collaborators').insert(folderCollaborators);
-          console.log(`✅ Auto-shared new subfolder with ${uniqueCollabs.length} collaborators`);
-        }
+        await shareWithAncestorCollaborators(newFolder.id, parentFolderId);
       }
 
       setFolderInput('');
@@ -944,10 +1898,7 @@ function AppShell({ session, onSignOut }: AppShellProps) {
   const updateFolder = async (folderId: string, name: string, icon: string | null, color: string | null) => {
     if (!name.trim()) return;
     setNotesLoading(true);
-    const { error } = await supabase
-      .from('note_folders')
-      .update({ name: name.trim(), icon, color })
-      .eq('id', folderId);
+    const { error } = await repo.folders.update(folderId, { name: name.trim(), icon, color });
 
     if (error) {
       setAlertMessage({
@@ -969,84 +1920,100 @@ function AppShell({ session, onSignOut }: AppShellProps) {
   const deleteFolder = async (folderId: string) => {
     setNotesLoading(true);
 
-    // Recursive function to get all subfolder IDs
-    const getAllSubfolderIds = async (parentId: string): Promise<string[]> => {
-      const { data: subfolders } = await supabase
-        .from('note_folders')
-        .select('id')
-        .eq('parent_folder_id', parentId);
-
-      if (!subfolders || subfolders.length === 0) {
-        return [];
-      }
-
-      let allIds: string[] = subfolders.map(f => f.id);
-
-      // Recursively get sub-subfolders
-      for (const subfolder of subfolders) {
-        const subSubfolderIds = await getAllSubfolderIds(subfolder.id);
-        allIds = [...allIds, ...subSubfolderIds];
-      }
-
-      return allIds;
-    };
-
     // Get all subfolder IDs recursively
-    const subfolderIds = await getAllSubfolderIds(folderId);
+    const subfolderIds = await repo.folders.listDescendantIds(folderId);
     const allFolderIds = [folderId, ...subfolderIds];
 
-    // Check if there are notes in this folder or any subfolders
-    const { data: notesInFolders } = await supabase
-      .from('notes')
-      .select('id')
-      .in('folder_id', allFolderIds);
-
-    if (notesInFolders && notesInFolders.length > 0) {
-      // Move all notes to "no folder" (set folder_id to null)
-      await supabase
-        .from('notes')
-        .update({ folder_id: null })
-        .in('folder_id', allFolderIds);
-    }
-
-    // Delete all subfolders (cascade will happen via database ON DELETE CASCADE)
-    // But we'll delete them explicitly in reverse order (deepest first)
-    for (let i = subfolderIds.length - 1; i >= 0; i--) {
-      await supabase
-        .from('note_folders')
-        .delete()
-        .eq('id', subfolderIds[i]);
-    }
+    // The notes in this folder or any subfolders go to the trash with them
+    const { data: noteIds } = await repo.notes.listIdsInFolders(allFolderIds);
+    const notesCount = noteIds?.length || 0;
 
-    // Delete the main folder
-    const { error } = await supabase
-      .from('note_folders')
-      .delete()
-      .eq('id', folderId);
+    const { move, restore } = trashSteps({ note_folders: allFolderIds, notes: noteIds ?? [] });
+    const error = await runSteps(move);
 
     if (error) {
-      setAlertMessage({
-        title: 'Delete Failed',
-        message: error.message,
-        type: 'error',
-      });
+      if (!alertMissingColumn(error)) {
+        setAlertMessage({
+          title: 'Delete Failed',
+          message: error.message,
+          type: 'error',
+        });
+      }
       setNotesLoading(false);
     } else {
-      const totalDeleted = 1 + subfolderIds.length;
-      const notesMovedCount = notesInFolders?.length || 0;
-
-      setAlertMessage({
-        title: 'Success',
-        message: `${totalDeleted} folder${totalDeleted !== 1 ? 's' : ''} deleted! ${notesMovedCount} note${notesMovedCount !== 1 ? 's' : ''} moved to "No Folder".`,
-        type: 'success',
+      const refresh = () => {
+        fetchFolders();
+        fetchNotes();
+      };
+      history.record({
+        label: `${plural(allFolderIds.length, 'folder')} moved to the trash with ${plural(notesCount, 'note')}`,
+        undo: restore,
+        redo: move,
+        refresh,
       });
       // Reset selected folder if we deleted the active one or any of its subfolders
       if (allFolderIds.includes(selectedFolderId || '')) {
         setSelectedFolderId(null);
       }
+      refresh();
+    }
+  };
+
+  // Loads the trash and deletes whatever is past its TRASH_DAYS for good.
+  const fetchTrash = async () => {
+    const userId = session?.user?.id;
+    if (!userId) return;
+    setTrashLoading(true);
+    setTrashError(null);
+    const { data, error } = await repo.trash.purgeExpired(userId, new Date());
+    if (error) {
+      setTrashError(error.message);
+    } else {
+      setTrash(data);
+    }
+    setTrashLoading(false);
+  };
+
+  // Reloads the lists an item came from, plus the trash itself.
+  const refreshAfterTrash = (item: TrashItem) => {
+    if (item.table === 'tasks') fetchTasks();
+    if (item.table === 'reminders') fetchReminders();
+    if (item.table === 'agenda_events') fetchEvents();
+    if (item.table === 'notes' || item.table === 'note_folders') {
       fetchFolders();
       fetchNotes();
     }
+    fetchTrash();
+  };
+
+  const restoreTrashItem = async (item: TrashItem) => {
+    setTrashLoading(true);
+    const { error } = await repo.trash.restore(restoreWrites(item, trash));
+    if (error) {
+      setTrashError(error.message);
+      setTrashLoading(false);
+      return;
+    }
+    // An open subtask coming back reopens a parent that was completed meanwhile
+    const restored = trash.tasks.filter((task) => item.ids.tasks?.includes(task.id));
+    const root = restored.find((task) => task.id === item.id);
+    if (root) {
+      runTaskPatches(
+        completionPatches([...tasks, ...restored], root.id, { is_done: root.is_done }).filter(({ id }) => id !== root.id),
+      );
+    }
+    refreshAfterTrash(item);
+  };
+
+  const purgeTrash = async (ids: TrashIds) => {
+    setTrashLoading(true);
+    const { error } = await repo.trash.purge(ids);
+    if (error) {
+      setTrashError(error.message);
+      setTrashLoading(false);
+    } else {
+      fetchTrash();
+    }
   };
 
   const toggleFolder = (folderId: string) => {
@@ -1065,17 +2032,124 @@ function AppShell({ session, onSignOut }: AppShellProps) {
     await addFolder(name, icon, color, parentId);
   };
 
-  const shareFolderWithUser = async (folderId: string, userId: string, permission: 'view' | 'edit' = 'edit') => {
-    if (!session?.user?.id) {
-      setAlertMessage({
-        title: 'Not Logged In',
-        message: 'You must be logged in to share folders',
-        type: 'error',
-      });
+  // One note, a folder with its subfolders, or all notes (null) as Markdown.
+  const exportMarkdown = async (target: { note: Note } | { folderId: string | null }) => {
+    const allFolders = [...new Map([...folders, ...sharedFolders].map((f) => [f.id, f])).values()];
+    const allNotes = [...new Map([...notes, ...sharedNotes].map((n) => [n.id, n])).values()];
+    const folder = 'folderId' in target ? allFolders.find((f) => f.id === target.folderId) : undefined;
+    const files =
+      'note' in target
+        ? markdownFiles([], [target.note], null)
+        : markdownFiles(allFolders, allNotes, target.folderId);
+    if (!files.length) {
+      setAlertMessage({ title: 'Niets te exporteren', message: 'Er staan geen notities in deze map.', type: 'info' });
       return;
     }
+    const name = 'note' in target ? target.note.title : (folder?.name ?? `notities-${new Date().toISOString().slice(0, 10)}`);
+    try {
+      const { filename, content, mimeType } = archiveDownload(files, name);
+      await shareFile(filename, content, mimeType);
+    } catch (error) {
+      console.error('❌ Markdown export failed:', error);
+      setAlertMessage({ title: 'Export mislukt', message: String((error as Error)?.message ?? error), type: 'error' });
+    }
+  };
 
-    if (userId === session.user.id) {
+  // One note, or a folder with everything below it, as a PDF with a title page.
+  const exportPdf = async (target: { note: Note } | { folderId: string | null }) => {
+    const allFolders = [...new Map([...folders, ...sharedFolders].map((f) => [f.id, f])).values()];
+    const allNotes = [...new Map([...notes, ...sharedNotes].map((n) => [n.id, n])).values()];
+    const folder = 'folderId' in target ? allFolders.find((f) => f.id === target.folderId) : undefined;
+    const list =
+      'note' in target ? [{ note: target.note, folderPath: '' }] : pdfNotes(allFolders, allNotes, target.folderId);
+    if (!list.length) {
+      setAlertMessage({ title: 'Niets te exporteren', message: 'Er staan geen notities in deze map.', type: 'info' });
+      return;
+    }
+    const title = 'note' in target ? target.note.title || 'Untitled Note' : (folder?.name ?? 'All notes');
+    try {
+      await sharePdf(pdfFileName(title), notesPdfHtml(title, list, new Date()), PDF_PAGE);
+    } catch (error) {
+      console.error('❌ PDF export failed:', error);
+      setAlertMessage({ title: 'Export mislukt', message: String((error as Error)?.message ?? error), type: 'error' });
+    }
+  };
+
+  // Imports .md files and zips into `folderId`; a zip's directories become subfolders.
+  const importMarkdown = async (folderId: string | null) => {
+    let picked: Awaited<ReturnType<typeof pickFiles>>;
+    try {
+      picked = await pickFiles(MARKDOWN_IMPORT_TYPES);
+    } catch (error) {
+      console.error('❌ Could not read Markdown files:', error);
+      setAlertMessage({ title: 'Import mislukt', message: 'De bestanden konden niet gelezen worden.', type: 'error' });
+      return;
+    }
+    if (!picked) return;
+
+    const { folders: importedFolders, notes: importedNotes, skipped } = readMarkdownImport(picked);
+    if (!importedNotes.length) {
+      setAlertMessage({ title: 'Geen notities', message: 'Er zijn geen Markdown-bestanden gevonden.', type: 'warning' });
+      return;
+    }
+
+    setNotesListLoading(true);
+    const userId = session?.user?.id;
+    const folderIds = new Map<string, string | null>([['', folderId]]);
+    let created = 0;
+    let failed: RepositoryError | null = null;
+    for (const imported of importedFolders) {
+      const parentId = folderIds.get(imported.parentPath) ?? folderId;
+      const { data, error } = await repo.folders.create({ name: imported.name, user_id: userId, parent_folder_id: parentId });
+      if (error || !data) {
+        failed = error;
+        break;
+      }
+      if (parentId) await shareWithAncestorCollaborators(data.id, parentId);
+      folderIds.set(imported.path, data.id);
+    }
+    for (const imported of failed ? [] : importedNotes) {
+      const { error } = await repo.notes.create({
+        title: imported.title,
+        content: imported.content || null,
+        folder_id: folderIds.get(imported.folderPath) ?? folderId,
+        user_id: userId,
+        owner_id: userId,
+      });
+      if (error) {
+        failed = error;
+        break;
+      }
+      created++;
+    }
+    console.log('📥 Markdown imported:', { notes: created, folders: importedFolders.length });
+    setNotesListLoading(false);
+    fetchFolders();
+    fetchNotes();
+
+    const details = [
+      importedFolders.length ? `${plural(importedFolders.length, 'map', 'mappen')} aangemaakt.` : null,
+      skipped.length ? `Overgeslagen: ${skipped.join(', ')}.` : null,
+      failed ? `Gestopt na een fout: ${failed.message}` : null,
+    ].filter(Boolean);
+    setAlertMessage({
+      title: 'Notities geïmporteerd',
+      message: [`${plural(created, 'notitie', 'notities')} toegevoegd.`, ...details].join(' '),
+      type: failed ? 'warning' : 'success',
+    });
+  };
+
+  const shareFolderWithUser = async (folderId: string, userId: string, permission: 'view' | 'edit' = 'edit') => {
+    if (!session?.user?.id) {
+      setAlertMessage({
+        title: 'Not Logged In',
+        message: 'You must be logged in to share folders',
+        type: 'error',
+      });
+      return;
+    }
+
+    if (userId === session.user.id) {
       setAlertMessage({
         title: 'Invalid Action',
         message: 'You cannot share a folder with yourself',
@@ -1087,12 +2161,7 @@ function AppShell({ session, onSignOut }: AppShellProps) {
     setShareLoading(true);
     try {
       // Check if already shared
-    const { data: existing } = await supabase
-      .from('folder_collaborators')
-      .select('*')
-      .eq('folder_id', folderId)
-      .eq('user_id', userId)
-      .maybeSingle();
+      const { data: existing } = await repo.folderCollaborators.find(folderId, userId);
 
       if (existing) {
         setAlertMessage({
@@ -1106,12 +2175,14 @@ function AppShell({ session, onSignOut }: AppShellProps) {
 
       // Add folder collaborator
       console.log('➕ Adding folder collaborator:', { folderId, userId, permission });
-      const { error: folderError } = await supabase.from('folder_collaborators').insert({
-        folder_id: folderId,
-        user_id: userId,
-        permission,
-        invited_by: session.user.id,
-      });
+      const { error: folderError } = await repo.folderCollaborators.addMany([
+        {
+          folder_id: folderId,
+          user_id: userId,
+          permission,
+          invited_by: session.user.id,
+        },
+      ]);
 
       if (folderError) {
         console.error('❌ Failed to add folder collaborator:', folderError);
@@ -1126,101 +2197,49 @@ function AppShell({ session, onSignOut }: AppShellProps) {
 
       console.log('✅ Folder collaborator added successfully');
 
-      // Recursive function to share all subfolders
-      const shareSubfoldersRecursively = async (parentFolderId: string) => {
-        // Get all direct subfolders
-        const { data: subfolders } = await supabase
-          .from('note_folders')
-          .select('id')
-          .eq('parent_folder_id', parentFolderId);
-
-        if (subfolders && subfolders.length > 0) {
-          // Share each subfolder
-          for (const subfolder of subfolders) {
-            // Check if subfolder is already shared with this user
-            const { data: existingSubfolderShare } = await supabase
-              .from('folder_collaborators')
-              .select('id')
-              .eq('folder_id', subfolder.id)
-              .eq('user_id', userId)
-              .maybeSingle();
-
-            if (!existingSubfolderShare) {
-              // Share the subfolder
-              await supabase.from('folder_collaborators').insert({
-                folder_id: subfolder.id,
-                user_id: userId,
-                permission,
-                invited_by: session.user.id,
-              });
-            }
-
-            // Recursively share sub-subfolders
-            await shareSubfoldersRecursively(subfolder.id);
-          }
-        }
-      };
-
-      // Share all subfolders recursively
-      await shareSubfoldersRecursively(folderId);
-
-      // Recursive function to get ALL subfolder IDs (not just direct children)
-      const getAllSubfolderIds = async (parentId: string): Promise<string[]> => {
-        const { data: subfolders } = await supabase
-          .from('note_folders')
-          .select('id')
-          .eq('parent_folder_id', parentId);
-
-        if (!subfolders || subfolders.length === 0) {
-          return [];
-        }
-
-        let allIds: string[] = subfolders.map(f => f.id);
-
-        // Recursively get sub-subfolders
-        for (const subfolder of subfolders) {
-          const subSubfolderIds = await getAllSubfolderIds(subfolder.id);
-          allIds = [...allIds, ...subSubfolderIds];
-        }
+      // Get ALL subfolder IDs recursively (not just direct children)
+      const allSubfolderIds = await repo.folders.listDescendantIds(folderId);
 
-        return allIds;
-      };
+      // Share every subfolder that isn't shared with this user yet
+      const { data: alreadySharedFolderIds } = await repo.folderCollaborators.listFolderIdsForUser(
+        userId,
+        allSubfolderIds,
+      );
+      await repo.folderCollaborators.addMany(
+        allSubfolderIds
+          .filter((id) => !alreadySharedFolderIds?.includes(id))
+          .map((id) => ({
+            folder_id: id,
+            user_id: userId,
+            permission,
+            invited_by: session.user.id,
+          })),
+      );
 
-      // Get ALL subfolder IDs recursively
-      const allSubfolderIds = await getAllSubfolderIds(folderId);
       const folderIdsToShare = [folderId, ...allSubfolderIds];
 
       console.log(`📁 Sharing notes in ${folderIdsToShare.length} folders:`, folderIdsToShare);
 
-      const { data: notesInFolders } = await supabase
-        .from('notes')
-        .select('id')
-        .in('folder_id', folderIdsToShare);
+      const { data: notesInFolders } = await repo.notes.listIdsInFolders(folderIdsToShare);
 
       // Share all existing notes in the folder tree with this user
       if (notesInFolders && notesInFolders.length > 0) {
         // Check which notes are already shared
-        const { data: existingNoteShares } = await supabase
-          .from('note_collaborators')
-          .select('note_id')
-          .eq('user_id', userId)
-          .in('note_id', notesInFolders.map(n => n.id));
+        const { data: existingNoteShares } = await repo.noteCollaborators.listNoteIdsForUser(userId, notesInFolders);
 
-        const alreadySharedNoteIds = new Set(existingNoteShares?.map(s => s.note_id) || []);
+        const alreadySharedNoteIds = new Set(existingNoteShares ?? []);
 
         // Only share notes that aren't already shared
-        const notesToShare = notesInFolders.filter(note => !alreadySharedNoteIds.has(note.id));
-
-        if (notesToShare.length > 0) {
-          const noteCollaborators = notesToShare.map(note => ({
-            note_id: note.id,
-            user_id: userId,
-            permission,
-            invited_by: session.user.id,
-          }));
-
-          await supabase.from('note_collaborators').insert(noteCollaborators);
-        }
+        await repo.noteCollaborators.addMany(
+          notesInFolders
+            .filter((noteId) => !alreadySharedNoteIds.has(noteId))
+            .map((noteId) => ({
+              note_id: noteId,
+              user_id: userId,
+              permission,
+              invited_by: session.user.id,
+            })),
+        );
       }
 
       await fetchFolderCollaborators(folderId);
@@ -1254,116 +2273,61 @@ function AppShell({ session, onSignOut }: AppShellProps) {
   };
 
   const fetchFolderCollaborators = async (folderId: string) => {
-    try {
-      console.log('🔍 Fetching folder collaborators for:', folderId);
-      const { data: collaboratorData, error: collaboratorError } = await supabase
-        .from('folder_collaborators')
-        .select('*')
-        .eq('folder_id', folderId);
-
-      if (collaboratorError) {
-        console.error('❌ Error fetching folder collaborators:', collaboratorError);
-        return;
-      }
-
-      console.log('📊 Folder collaborators data:', collaboratorData);
-
-      if (!collaboratorData || collaboratorData.length === 0) {
-        setFolderCollaborators([]);
-        console.log('✅ No folder collaborators found');
-        return;
-      }
-
-      // Fetch user profiles for each collaborator
-      const userIds = collaboratorData.map((c: any) => c.user_id);
-      const { data: profiles, error: profilesError } = await supabase
-        .from('profiles')
-        .select('id, email')
-        .in('id', userIds);
+    console.log('🔍 Fetching folder collaborators for:', folderId);
+    const { data, error } = await repo.folderCollaborators.listForFolder(folderId);
 
-      if (profilesError) {
-        console.error('❌ Error fetching profiles:', profilesError);
-        setFolderCollaborators(collaboratorData);
-        return;
-      }
-
-      // Merge collaborator data with profile data
-      const enrichedCollaborators = collaboratorData.map((collab: any) => {
-        const profile = profiles?.find((p: any) => p.id === collab.user_id);
-        return {
-          ...collab,
-          user_email: profile?.email,
-          profiles: profile,
-        };
-      });
-
-      setFolderCollaborators(enrichedCollaborators);
-      console.log('✅ Set folder collaborators:', enrichedCollaborators.length);
-    } catch (e) {
-      console.error('❌ Fetch folder collaborators failed', e);
+    if (error) {
+      console.error('❌ Error fetching folder collaborators:', error);
+      return;
     }
+
+    setFolderCollaborators(data);
+    console.log('✅ Set folder collaborators:', data.length);
   };
 
   const removeFolderCollaborator = async (collaboratorId: string, folderId: string) => {
     setShareLoading(true);
-    try {
-      const { error } = await supabase
-        .from('folder_collaborators')
-        .delete()
-        .eq('id', collaboratorId);
+    const { error } = await repo.folderCollaborators.remove(collaboratorId);
 
-      if (error) {
-        setAlertMessage({
-          title: 'Failed to Remove',
-          message: error.message,
-          type: 'error',
-        });
-      } else {
-        await fetchFolderCollaborators(folderId);
-        await fetchFolders();
-        setAlertMessage({
-          title: 'Success',
-          message: 'Collaborator removed from folder',
-          type: 'success',
-        });
-      }
-    } catch (e) {
-      console.error('❌ Remove folder collaborator failed', e);
+    if (error) {
+      setAlertMessage({
+        title: 'Failed to Remove',
+        message: error.message,
+        type: 'error',
+      });
+    } else {
+      await fetchFolderCollaborators(folderId);
+      await fetchFolders();
+      setAlertMessage({
+        title: 'Success',
+        message: 'Collaborator removed from folder',
+        type: 'success',
+      });
     }
     setShareLoading(false);
   };
 
   const fetchNotes = async () => {
+    if (!session?.user?.id) return;
     setNotesListLoading(true);
     setNotesError(null);
 
     try {
-      console.log('📚 Fetching notes for user:', session?.user?.id);
-
-      // Get ALL folder_collaborator entries to determine which folders are shared
-      const { data: allFolderCollabData } = await supabase
-        .from('folder_collaborators')
-        .select('folder_id, user_id');
+      console.log('📚 Fetching notes for user:', session.user.id);
 
       // Collect all unique folder IDs that have at least one collaborator entry
       // These are the shared folders
-      const sharedFolderIds = new Set(
-        (allFolderCollabData || []).map(c => c.folder_id)
-      );
+      const { data: sharedFolderIdList } = await repo.folderCollaborators.listSharedFolderIds();
+      const sharedFolderIds = new Set(sharedFolderIdList ?? []);
 
-      console.log('📂 All folder collaborators:', allFolderCollabData);
       console.log('📂 Shared folder IDs:', Array.from(sharedFolderIds));
 
       // Fetch own notes EXCLUDING notes in shared folders
-      const { data: ownNotesData, error: ownError } = await supabase
-        .from('notes')
-        .select('*')
-        .or(`owner_id.eq.${session?.user?.id},user_id.eq.${session?.user?.id}`)
-        .order('created_at', { ascending: false });
+      const { data: ownNotesData, error: ownError } = await repo.notes.listOwned(session.user.id);
 
       // Filter out notes that are in shared folders
       const filteredOwnNotes = (ownNotesData ?? []).filter(
-        (note: any) => !note.folder_id || !sharedFolderIds.has(note.folder_id)
+        (note) => !note.folder_id || !sharedFolderIds.has(note.folder_id)
       );
 
       console.log('📝 Own notes:', {
@@ -1373,23 +2337,17 @@ function AppShell({ session, onSignOut }: AppShellProps) {
       });
 
       // Fetch notes shared with this user via note_collaborators
-      const { data: collaboratorData, error: collabError } = await supabase
-        .from('note_collaborators')
-        .select('note_id')
-        .eq('user_id', session?.user?.id);
+      const { data: sharedNoteIds, error: collabError } = await repo.noteCollaborators.listNoteIdsForUser(
+        session.user.id,
+      );
 
-      console.log('🤝 Collaborator entries:', { count: collaboratorData?.length, error: collabError });
+      console.log('🤝 Collaborator entries:', { count: sharedNoteIds?.length, error: collabError });
 
-      let sharedNotesData: any[] = [];
-      if (collaboratorData && collaboratorData.length > 0) {
-        const noteIds = collaboratorData.map(c => c.note_id);
-        console.log('📌 Fetching notes with IDs:', noteIds);
+      let sharedNotesData: Note[] = [];
+      if (sharedNoteIds && sharedNoteIds.length > 0) {
+        console.log('📌 Fetching notes with IDs:', sharedNoteIds);
 
-        const { data: sharedData, error: sharedError } = await supabase
-          .from('notes')
-          .select('*')
-          .in('id', noteIds)
-          .order('created_at', { ascending: false });
+        const { data: sharedData, error: sharedError } = await repo.notes.listByIds(sharedNoteIds);
 
         console.log('📤 Shared notes:', { count: sharedData?.length, error: sharedError });
         sharedNotesData = sharedData ?? [];
@@ -1400,11 +2358,7 @@ function AppShell({ session, onSignOut }: AppShellProps) {
         const folderIdsArray = Array.from(sharedFolderIds);
         console.log('📂 Fetching notes from shared folders:', folderIdsArray);
 
-        const { data: folderNotesData, error: folderNotesError } = await supabase
-          .from('notes')
-          .select('*')
-          .in('folder_id', folderIdsArray)
-          .order('created_at', { ascending: false });
+        const { data: folderNotesData, error: folderNotesError } = await repo.notes.listByFolders(folderIdsArray);
 
         console.log('📁 Notes from shared folders:', { count: folderNotesData?.length, error: folderNotesError });
 
@@ -1422,11 +2376,14 @@ function AppShell({ session, onSignOut }: AppShellProps) {
         return;
       }
 
+      sharedFolderIdsRef.current = sharedFolderIds;
+      directSharedNoteIdsRef.current = new Set(sharedNoteIds ?? []);
+
       console.log('📊 Final split:', { own: filteredOwnNotes.length, shared: sharedNotesData.length });
       console.log('📋 Shared notes data:', sharedNotesData);
 
-      setNotes(filteredOwnNotes as Note[]);
-      setSharedNotes(sharedNotesData as Note[]);
+      setNotes(filteredOwnNotes);
+      setSharedNotes(sharedNotesData);
 
       console.log('✅ State updated - notes and sharedNotes set');
     } catch (e) {
@@ -1443,11 +2400,11 @@ function AppShell({ session, onSignOut }: AppShellProps) {
     setNotesListLoading(true);
     const payload = {
       title: noteTitle.trim(),
-      content: noteBody.trim() || null,
+      content: noteBody.trim(),
       color: noteColor,
     };
     console.log('💾 Updating note:', editingNote.id, payload);
-    const { error } = await supabase.from('notes').update(payload).eq('id', editingNote.id);
+    const { error } = await saveEditingNote(editingNote.id, payload);
     if (error) {
       console.error('❌ Update note error:', error);
       setNotesError(error.message);
@@ -1468,15 +2425,14 @@ function AppShell({ session, onSignOut }: AppShellProps) {
     if (!noteTitle.trim()) return;
     console.log('🔧 addNote called with targetFolder:', targetFolder);
     setNotesListLoading(true);
-    const payload = {
+    const { data: newNote, error } = await repo.notes.create({
       title: noteTitle.trim(),
       content: noteBody.trim() || null,
       folder_id: targetFolder,
       user_id: session?.user?.id,
       owner_id: session?.user?.id,
       color: noteColor,
-    };
-    const { data: newNote, error } = await supabase.from('notes').insert(payload).select().single();
+    });
     console.log('🔧 newNote created:', newNote, 'error:', error);
     if (error) {
       setNotesError(error.message);
@@ -1485,46 +2441,22 @@ function AppShell({ session, onSignOut }: AppShellProps) {
       console.log('🔧 Checking auto-share condition for note: targetFolder=', targetFolder, 'newNote=', !!newNote);
       if (targetFolder && newNote) {
         console.log('🔧 AUTO-SHARE TRIGGERED for note');
-        // Function to get all ancestor folder IDs recursively
-        const getAllAncestorIds = async (folderId: string): Promise<string[]> => {
-          const { data: folder } = await supabase
-            .from('note_folders')
-            .select('parent_folder_id')
-            .eq('id', folderId)
-            .single();
-
-          if (!folder || !folder.parent_folder_id) {
-            return [folderId];
-          }
-
-          const ancestors = await getAllAncestorIds(folder.parent_folder_id);
-          return [folderId, ...ancestors];
-        };
-
         // Get all ancestor folder IDs (includes current folder)
-        const ancestorIds = await getAllAncestorIds(targetFolder);
+        const ancestorIds = await repo.folders.listAncestorIds(targetFolder);
         console.log(`📝 Checking ${ancestorIds.length} ancestor folders for note sharing:`, ancestorIds);
 
         // Get all unique collaborators from ALL ancestor folders
-        const { data: allAncestorCollabs } = await supabase
-          .from('folder_collaborators')
-          .select('user_id, permission')
-          .in('folder_id', ancestorIds);
-
-        if (allAncestorCollabs && allAncestorCollabs.length > 0) {
-          // Remove duplicates (same user might have access via multiple ancestors)
-          const uniqueCollabs = Array.from(
-            new Map(allAncestorCollabs.map(c => [c.user_id, c])).values()
+        const { data: uniqueCollabs } = await repo.folderCollaborators.listForFolders(ancestorIds);
+
+        if (uniqueCollabs && uniqueCollabs.length > 0) {
+          await repo.noteCollaborators.addMany(
+            uniqueCollabs.map((collab) => ({
+              note_id: newNote.id,
+              user_id: collab.user_id,
+              permission: collab.permission,
+              invited_by: session?.user?.id,
+            })),
           );
-
-          const noteCollaborators = uniqueCollabs.map(collab => ({
-            note_id: newNote.id,
-            user_id: collab.user_id,
-            permission: collab.permission,
-            invited_by: session?.user?.id,
-          }));
-
-          await supabase.from('note_collaborators').insert(noteCollaborators);
           console.log(`✅ Auto-shared new note with ${uniqueCollabs.length} collaborators`);
         }
       }
@@ -1540,13 +2472,14 @@ function AppShell({ session, onSignOut }: AppShellProps) {
   };
 
   const deleteNote = async (id: string) => {
-    try {
-      const { error } = await supabase.from('notes').delete().eq('id', id);
-      if (!error) {
-        await fetchNotes();
-      }
-    } catch (e) {
-      console.error('Delete failed', e);
+    const { move, restore } = trashSteps({ notes: [id] });
+    const error = await runSteps(move);
+    if (error) {
+      console.error('Delete failed', error);
+      alertMissingColumn(error);
+    } else {
+      history.record({ label: 'Note moved to the trash', undo: restore, redo: move, refresh: fetchNotes });
+      await fetchNotes();
     }
   };
 
@@ -1557,90 +2490,36 @@ function AppShell({ session, onSignOut }: AppShellProps) {
       return;
     }
     setShareLoading(true);
-    try {
-      console.log('🔍 Searching for users with query:', query);
-      const { data, error } = await supabase
-        .from('profiles')
-        .select('id, email, name')
-        .ilike('email', `%${query}%`)
-        .limit(5);
+    console.log('🔍 Searching for users with query:', query);
+    const { data, error } = await repo.profiles.searchByEmail(query);
 
-      console.log('👥 Search results:', data, 'Error:', error);
+    console.log('👥 Search results:', data, 'Error:', error);
 
-      if (error) {
-        console.error('Search error:', error);
-        setAlertMessage({
-          title: 'Search Failed',
-          message: error.message,
-          type: 'error',
-        });
-      } else if (data) {
-        console.log(`✅ Found ${data.length} users`);
-        setSearchedUsers(data as UserProfile[]);
-      }
-    } catch (e) {
-      console.error('User search failed', e);
+    if (error) {
+      console.error('Search error:', error);
       setAlertMessage({
         title: 'Search Failed',
-        message: 'An unexpected error occurred',
+        message: error.message,
         type: 'error',
       });
+    } else {
+      console.log(`✅ Found ${data.length} users`);
+      setSearchedUsers(data);
     }
     setShareLoading(false);
   };
 
   const fetchCollaborators = async (noteId: string) => {
     console.log('👥 Fetching collaborators for note:', noteId);
-    try {
-      // First, get the collaborator records
-      const { data: collabData, error: collabError } = await supabase
-        .from('note_collaborators')
-        .select('*')
-        .eq('note_id', noteId);
-
-      console.log('👥 Collaborators raw data:', { data: collabData, error: collabError });
-
-      if (collabError) {
-        console.error('❌ Error fetching collaborators:', collabError);
-        return;
-      }
-
-      if (!collabData || collabData.length === 0) {
-        console.log('ℹ️ No collaborators found');
-        setCollaborators([]);
-        return;
-      }
-
-      // Then fetch the profile info for each collaborator
-      const userIds = collabData.map((c: any) => c.user_id);
-      const { data: profileData, error: profileError } = await supabase
-        .from('profiles')
-        .select('id, email, name')
-        .in('id', userIds);
-
-      console.log('👥 Profiles data:', { data: profileData, error: profileError });
-
-      if (profileError) {
-        console.error('❌ Error fetching profiles:', profileError);
-        setCollaborators(collabData as NoteCollaborator[]);
-        return;
-      }
+    const { data, error } = await repo.noteCollaborators.listForNote(noteId);
 
-      // Combine the data
-      const formatted = collabData.map((c: any) => {
-        const profile = profileData?.find((p: any) => p.id === c.user_id);
-        return {
-          ...c,
-          user_email: profile?.email,
-          user_name: profile?.name,
-        };
-      });
-
-      console.log('✅ Formatted collaborators:', formatted);
-      setCollaborators(formatted);
-    } catch (e) {
-      console.error('❌ Fetch collaborators failed', e);
+    if (error) {
+      console.error('❌ Error fetching collaborators:', error);
+      return;
     }
+
+    console.log('✅ Formatted collaborators:', data);
+    setCollaborators(data);
   };
 
   const addCollaborator = async (noteId: string, userId: string, permission: 'view' | 'edit' = 'edit') => {
@@ -1669,13 +2548,9 @@ function AppShell({ session, onSignOut }: AppShellProps) {
     setShareLoading(true);
     try {
       // First, verify that the current user owns this note
-      const { data: noteData, error: noteError } = await supabase
-        .from('notes')
-        .select('owner_id, user_id')
-        .eq('id', noteId)
-        .single();
+      const { data: noteOwnerId, error: noteError } = await repo.notes.getOwner(noteId);
 
-      console.log('📝 Note ownership check:', { noteData, noteError });
+      console.log('📝 Note ownership check:', { noteOwnerId, noteError });
 
       if (noteError) {
         console.error('❌ Error checking note ownership:', noteError);
@@ -1688,7 +2563,6 @@ function AppShell({ session, onSignOut }: AppShellProps) {
         return;
       }
 
-      const noteOwnerId = noteData.owner_id || noteData.user_id;
       if (noteOwnerId !== session.user.id) {
         console.error('❌ User is not the owner of this note');
         setAlertMessage({
@@ -1703,15 +2577,9 @@ function AppShell({ session, onSignOut }: AppShellProps) {
       console.log('✅ Ownership verified, current user owns the note');
 
       // Check if collaborator already exists
-      const { data: existing, error: checkError } = await supabase
-        .from('note_collaborators')
-        .select('id')
-        .eq('note_id', noteId)
-        .eq('user_id', userId)
-        .single();
-
-      if (checkError && checkError.code !== 'PGRST116') {
-        // PGRST116 is "not found" which is what we want
+      const { data: existing, error: checkError } = await repo.noteCollaborators.find(noteId, userId);
+
+      if (checkError) {
         console.error('❌ Error checking existing collaborator:', checkError);
         setAlertMessage({
           title: 'Check Failed',
@@ -1734,12 +2602,11 @@ function AppShell({ session, onSignOut }: AppShellProps) {
       }
 
       // Add the collaborator
-      const { data, error } = await supabase.from('note_collaborators').insert({
-        note_id: noteId,
+      const { data, error } = await repo.noteCollaborators.add(noteId, {
         user_id: userId,
         permission,
         invited_by: session.user.id,
-      }).select();
+      });
 
       console.log('✅ Collaborator add result:', { data, error });
 
@@ -1775,17 +2642,11 @@ function AppShell({ session, onSignOut }: AppShellProps) {
   };
 
   const removeCollaborator = async (collaboratorId: string, noteId: string) => {
-    try {
-      const { error } = await supabase
-        .from('note_collaborators')
-        .delete()
-        .eq('id', collaboratorId);
-
-      if (!error) {
-        await fetchCollaborators(noteId);
-      }
-    } catch (e) {
-      console.error('Remove collaborator failed', e);
+    const { error } = await repo.noteCollaborators.remove(collaboratorId);
+    if (error) {
+      console.error('Remove collaborator failed', error);
+    } else {
+      await fetchCollaborators(noteId);
     }
   };
 
@@ -1805,7 +2666,16 @@ function AppShell({ session, onSignOut }: AppShellProps) {
   };
 
   useEffect(() => {
+    // The server purges daily too; this covers projects without pg_cron.
+    const userId = session?.user?.id;
+    if (userId) {
+      repo.trash.purgeExpired(userId, new Date()).then(({ error }) => {
+        if (error) console.error('❌ Purging trash failed:', error);
+      });
+    }
     fetchTasks();
+    fetchStatuses();
+    fetchProjects();
     fetchReminders();
     fetchEvents();
     fetchFolders();
@@ -1813,34 +2683,182 @@ function AppShell({ session, onSignOut }: AppShellProps) {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [session]);
 
-  // Realtime subscription for note_collaborators to refresh when user is added as collaborator
+  useEffect(() => {
+    if (activeTab === 'trash') fetchTrash();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [activeTab, session?.user?.id]);
+
+  // Queued offline changes were replayed; reload so ids and server fields are current.
+  useEffect(() => {
+    if (!sync.status.lastSyncedAt) return;
+    console.log('🔄 Offline changes synced, refreshing');
+    fetchTasks();
+    fetchStatuses();
+    fetchProjects();
+    fetchReminders();
+    fetchEvents();
+    fetchFolders();
+    fetchNotes();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [sync.status.lastSyncedAt]);
+
+  // "Done" / "Snooze" buttons on reminder notifications write straight back to Supabase.
   useEffect(() => {
     if (!session?.user?.id) return;
 
-    console.log('🔴 Setting up realtime subscription for note_collaborators');
+    return subscribeToReminderActions(async (action, reminder) => {
+      console.log('🔔 Reminder notification action:', action, reminder.id);
+      if (action === 'open') {
+        setActiveTab('reminders');
+        return;
+      }
+      const { data: current } = await repo.reminders.get(reminder.id);
+      const stored = current ?? { ...reminder, remind_at: null, is_done: false };
+      const patch: Partial<Reminder> =
+        action === 'done'
+          ? reminderCompletionPatch(stored)
+          : { is_done: false, remind_at: new Date(Date.now() + SNOOZE_MINUTES * 60 * 1000).toISOString() };
+      const { error } = await repo.reminders.update(reminder.id, patch);
+      if (error) {
+        console.error('❌ Reminder action failed:', error);
+        return;
+      }
+      scheduleReminderNotification({ ...stored, ...patch });
+      fetchReminders();
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [session?.user?.id]);
+
+  // Realtime: patch notes/folders (own and shared) in place as rows change, and
+  // drop shared items as soon as access is revoked.
+  useEffect(() => {
+    const me = session?.user?.id;
+    if (!me) return;
+
+    console.log('🔴 Setting up realtime subscription for shared notes and folders');
+
+    const handleChange = async (change: RowChange) => {
+      switch (change.table) {
+        case 'notes': {
+          if (change.type === 'DELETE') {
+            setNotes((prev) => removeById(prev, change.old.id));
+            setSharedNotes((prev) => removeById(prev, change.old.id));
+            return;
+          }
+          const note = change.row as Note;
+          const isOwn = note.owner_id === me || note.user_id === me;
+          const inSharedFolder = !!note.folder_id && sharedFolderIdsRef.current.has(note.folder_id);
+          // Same split as fetchNotes: own notes outside shared folders vs. everything else.
+          if (isOwn && !inSharedFolder) {
+            setNotes((prev) => upsertById(prev, note));
+            setSharedNotes((prev) => removeById(prev, note.id));
+          } else {
+            setSharedNotes((prev) => upsertById(prev, note));
+            setNotes((prev) => removeById(prev, note.id));
+          }
+          return;
+        }
+
+        case 'note_folders': {
+          if (change.type === 'DELETE') {
+            setFolders((prev) => removeById(prev, change.old.id));
+            setSharedFolders((prev) => removeById(prev, change.old.id));
+            return;
+          }
+          const folder = change.row as NoteFolder;
+          if (folder.user_id === me) {
+            setFolders((prev) => upsertById(prev, folder));
+          } else {
+            setSharedFolders((prev) => upsertById(prev, folder));
+          }
+          return;
+        }
 
-    const channel = supabase
-      .channel('note_collaborators_changes')
-      .on(
-        'postgres_changes',
-        {
-          event: '*',
-          schema: 'public',
-          table: 'note_collaborators',
-          filter: `user_id=eq.${session.user.id}`,
-        },
-        (payload) => {
-          console.log('🔔 Note collaborator change detected:', payload);
-          // Refresh notes when user is added/removed as collaborator
-          fetchNotes();
+        case 'note_collaborators': {
+          const collab = (change.row ?? change.old) as Partial<NoteCollaborator>;
+          const openNoteId = sharingNoteRef.current?.id;
+          if (openNoteId && (!collab.note_id || collab.note_id === openNoteId)) fetchCollaborators(openNoteId);
+
+          if (!collab.note_id || !collab.user_id) {
+            // DELETE without REPLICA IDENTITY FULL only carries the id
+            fetchNotes();
+            return;
+          }
+          if (collab.user_id !== me) return;
+
+          if (change.type === 'INSERT') {
+            console.log('🔔 Note shared with you:', collab.note_id);
+            directSharedNoteIdsRef.current.add(collab.note_id);
+            const { data } = await repo.notes.listByIds([collab.note_id]);
+            if (data?.[0]) setSharedNotes((prev) => upsertById(prev, data[0]));
+          } else if (change.type === 'DELETE') {
+            console.log('🔕 Note access revoked:', collab.note_id);
+            const noteId = collab.note_id;
+            directSharedNoteIdsRef.current.delete(noteId);
+            setSharedNotes((prev) =>
+              prev.filter((n) => n.id !== noteId || (!!n.folder_id && sharedFolderIdsRef.current.has(n.folder_id))),
+            );
+            if (editingNoteRef.current?.id === noteId) {
+              setNoteModalOpen(false);
+              setEditingNote(null);
+              setAlertMessage({
+                title: 'Access Removed',
+                message: 'This note is no longer shared with you',
+                type: 'info',
+              });
+            }
+          }
+          return;
+        }
+
+        case 'folder_collaborators': {
+          const collab = (change.row ?? change.old) as Partial<FolderCollaborator>;
+          const openFolderId = sharingFolderRef.current?.id;
+          if (openFolderId && (!collab.folder_id || collab.folder_id === openFolderId)) {
+            fetchFolderCollaborators(openFolderId);
+          }
+
+          if (!collab.folder_id || !collab.user_id) {
+            fetchFolders();
+            fetchNotes();
+            return;
+          }
+          if (change.type === 'INSERT') sharedFolderIdsRef.current.add(collab.folder_id);
+          if (collab.user_id !== me) return;
+
+          const folderId = collab.folder_id;
+          if (change.type === 'INSERT') {
+            console.log('🔔 Folder shared with you:', folderId);
+            const [{ data: folderData }, { data: folderNotes }] = await Promise.all([
+              repo.folders.listByIds([folderId]),
+              repo.notes.listByFolders([folderId]),
+            ]);
+            if (folderData?.[0]) setSharedFolders((prev) => upsertById(prev, folderData[0]));
+            if (folderNotes?.length) {
+              setSharedNotes((prev) => folderNotes.reduce((list, note) => upsertById(list, note), prev));
+            }
+          } else if (change.type === 'DELETE') {
+            console.log('🔕 Folder access revoked:', folderId);
+            setSharedFolders((prev) => removeById(prev, folderId));
+            setSharedNotes((prev) =>
+              prev.filter((n) => n.folder_id !== folderId || directSharedNoteIdsRef.current.has(n.id)),
+            );
+          }
+          return;
         }
-      )
-      .subscribe();
+      }
+    };
+
+    const unsubscribe = subscribeToSharedContent(supabase, me, (change) => {
+      console.log(`🔔 ${change.table} ${change.type}`);
+      handleChange(change);
+    });
 
     return () => {
       console.log('🔴 Cleaning up realtime subscription');
-      supabase.removeChannel(channel);
+      unsubscribe();
     };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [session?.user?.id]);
 
   const renderContent = () => {
@@ -1869,6 +2887,41 @@ function AppShell({ session, onSignOut }: AppShellProps) {
             onOpenTaskOverlay={() => setShowTaskOverlay(true)}
             onToggle={toggleTask}
             onDelete={deleteTask}
+            onChangeChecklist={updateChecklist}
+            onAddSubtask={addSubtask}
+            onChangeBlockers={setTaskBlockers}
+            onMove={moveTask}
+            onReorder={reorderTasks}
+            onCompleteMany={completeTasks}
+            onDeleteMany={deleteTasks}
+            onUpdateMany={updateTasks}
+            projects={projects}
+            statuses={statuses}
+            statusesError={statusesError}
+            onCreateStatus={createStatus}
+            onUpdateStatus={updateStatus}
+            onMoveStatus={moveStatus}
+            onDeleteStatus={deleteStatus}
+            userId={session?.user?.id}
+          />
+        );
+      case 'projects':
+        return (
+          <ProjectsView
+            projects={projects}
+            error={projectsError}
+            tasks={tasks}
+            notes={notes}
+            events={events}
+            onCreate={createProject}
+            onUpdate={updateProject}
+            onDelete={deleteProject}
+            onLink={linkToProject}
+            onToggleTask={toggleTask}
+            onAddTask={(project) => {
+              setTaskOverlayProjectId(project.id);
+              setShowTaskOverlay(true);
+            }}
           />
         );
       case 'agenda':
@@ -1885,8 +2938,20 @@ function AppShell({ session, onSignOut }: AppShellProps) {
             onChangeStart={setEventStart}
             onChangeEnd={setEventEnd}
             onChangeLocation={setEventLocation}
+            recurrence={eventRecurrence}
+            onChangeRecurrence={setEventRecurrence}
             onAdd={addEvent}
-            onDelete={deleteEvent}
+            onDelete={deleteOccurrence}
+            editing={editingOccurrence}
+            scope={occurrenceScope}
+            onChangeScope={setOccurrenceScope}
+            onEdit={startEditOccurrence}
+            onCancelEdit={resetEventForm}
+            onImport={importEvents}
+            onExport={exportEvents}
+            userId={session?.user?.id ?? null}
+            onCreateAt={createEventAt}
+            onMove={moveOccurrence}
             onRefresh={fetchEvents}
           />
         );
@@ -1903,6 +2968,14 @@ function AppShell({ session, onSignOut }: AppShellProps) {
             onAdd={addReminder}
             onToggle={toggleReminder}
             onDelete={deleteReminder}
+            onCompleteMany={completeReminders}
+            onDeleteMany={deleteReminders}
+            onRescheduleMany={rescheduleReminders}
+            recurrence={reminderRecurrence}
+            onChangeRecurrence={setReminderRecurrence}
+            editingId={editingReminder?.id ?? null}
+            onEdit={startEditReminder}
+            onCancelEdit={cancelEditReminder}
             onRefresh={fetchReminders}
           />
         );
@@ -1936,6 +3009,7 @@ function AppShell({ session, onSignOut }: AppShellProps) {
               setNoteModalOpen(true);
             }}
             onOpenExistingNote={(note) => {
+              noteBaseRef.current = toNoteVersion(note);
               setEditingNote(note);
               setNoteTitle(note.title);
               setNoteBody(note.content || '');
@@ -1963,7 +3037,13 @@ function AppShell({ session, onSignOut }: AppShellProps) {
             }}
             onDeleteNote={deleteNote}
             onShareNote={openShareModal}
+            onRestoreRevision={restoreNoteRevision}
+            onExportMarkdown={exportMarkdown}
+            onExportPdf={exportPdf}
+            onImportMarkdown={importMarkdown}
             autoSaveStatus={autoSaveStatus}
+            noteContentVersion={noteContentVersion}
+            noteViewers={noteViewers}
             notesSearchQuery={notesSearchQuery}
             onNotesSearchChange={setNotesSearchQuery}
             deleteConfirmOpen={deleteConfirmOpen}
@@ -1988,6 +3068,18 @@ function AppShell({ session, onSignOut }: AppShellProps) {
             onAddSubfolder={addSubfolder}
           />
         );
+      case 'trash':
+        return (
+          <TrashView
+            trash={trash}
+            loading={trashLoading}
+            error={trashError}
+            onRestore={restoreTrashItem}
+            onDelete={(item) => purgeTrash(item.ids)}
+            onEmpty={(items) => purgeTrash(mergeIds(items.map((item) => item.ids)))}
+            onRefresh={fetchTrash}
+          />
+        );
       default:
         return null;
     }
@@ -2009,13 +3101,19 @@ function AppShell({ session, onSignOut }: AppShellProps) {
             onSignOut={onSignOut}
           />
         ) : (
-          <MobileHeader name={userName} email={session?.user?.email ?? ''} onSignOut={onSignOut} />
+          <MobileHeader
+            name={userName}
+            email={session?.user?.email ?? ''}
+            onOpenTrash={() => setActiveTab('trash')}
+            onSignOut={onSignOut}
+          />
         )}
 
         <View style={{ flex: 1, paddingHorizontal: isDesktop ? 24 : 18, paddingTop: 20 }}>
           <ScrollView
             showsVerticalScrollIndicator={false}
             contentContainerStyle={{ paddingBottom: isDesktop ? 24 : 90 }}>
+            <SyncBanner status={sync.status} onRetry={sync.flush} onResolve={sync.resolveConflict} />
             {renderContent()}
           </ScrollView>
         </View>
@@ -2028,6 +3126,15 @@ function AppShell({ session, onSignOut }: AppShellProps) {
           canAddTask={!tasksLoading}
         />
       )}
+      {history.snackbar ? (
+        <UndoSnackbar
+          snackbar={history.snackbar}
+          bottom={isDesktop ? 24 : 84}
+          onUndo={history.undo}
+          onRedo={history.redo}
+          onDismiss={history.dismiss}
+        />
+      ) : null}
 
       <ShareModal
         visible={shareModalOpen}
@@ -2077,7 +3184,7 @@ function AppShell({ session, onSignOut }: AppShellProps) {
             {/* Title & Message */}
             <Text style={styles.deleteConfirmTitle}>Delete Note?</Text>
             <Text style={styles.deleteConfirmMessage}>
-              Are you sure you want to delete this note? This action cannot be undone.
+              The note moves to the Trash, where you can restore it for {TRASH_DAYS} days.
             </Text>
 
             {/* Actions */}
@@ -2120,123 +3227,227 @@ function AppShell({ session, onSignOut }: AppShellProps) {
           ]}>
           <Pressable
             style={styles.overlayBackdrop}
-            onPress={() => {
-              setShowTaskOverlay(false);
-              setTaskOverlayTitle('');
-              setTaskOverlayDescription('');
-              setTaskOverlayProject('');
-            }}
+            onPress={closeTaskOverlay}
           />
           <Animated.View
             entering={isWeb ? undefined : ZoomIn.duration(250).springify()}
             exiting={isWeb ? undefined : ZoomOut.duration(180)}
-            style={styles.overlayCard}>
+            style={[styles.overlayCard, { maxHeight: '92%' }]}>
             <Text style={styles.overlayTitle}>Add Task</Text>
-            <Text style={styles.overlaySubtitle}>Create a new task with a title and optional description.</Text>
-
-            <View style={{ marginTop: 20 }}>
-              <Text style={styles.overlayLabel}>Title</Text>
-              <TextInput
-                style={styles.overlayInput}
-                placeholder="Enter task title..."
-                placeholderTextColor="#9ca3af"
-                value={taskOverlayTitle}
-                onChangeText={setTaskOverlayTitle}
-                autoFocus
-              />
-            </View>
+            <Text style={styles.overlaySubtitle}>
+              {'Create a new task with a title and optional description. Try "Call Anna tomorrow 15:00 #work !high".'}
+            </Text>
 
-            <View style={{ marginTop: 20 }}>
-              <Text style={styles.overlayLabel}>Description</Text>
-              <TextInput
-                style={[styles.overlayInput, { height: 90, textAlignVertical: 'top' }]}
-                placeholder="Optional description..."
-                placeholderTextColor="#9ca3af"
-                value={taskOverlayDescription}
-                onChangeText={setTaskOverlayDescription}
-                multiline
-              />
-            </View>
+            {/* Scrolls when the form is taller than small screens */}
+            <ScrollView style={{ flexGrow: 0 }} keyboardShouldPersistTaps="handled">
+              <View style={{ marginTop: 20 }}>
+                <Text style={styles.overlayLabel}>Title</Text>
+                <TextInput
+                  style={styles.overlayInput}
+                  placeholder="Enter task title..."
+                  placeholderTextColor="#9ca3af"
+                  value={taskOverlayTitle}
+                  onChangeText={setTaskOverlayTitle}
+                  autoFocus
+                />
+                {taskQuickAdd.hasFields ? (
+                  <View style={{ marginTop: 10 }}>
+                    <QuickAddPreview
+                      parsed={taskQuickAdd}
+                      fields={[
+                        ...(taskOverlayDue ? [] : ['when' as const]),
+                        ...(taskOverlayProjectId ? [] : ['project' as const]),
+                        ...(taskOverlayPriority ? [] : ['priority' as const]),
+                      ]}
+                      kind="task"
+                      onUseKind={moveQuickAddTo}
+                    />
+                  </View>
+                ) : null}
+              </View>
 
-            <View style={{ marginTop: 20, gap: 10 }}>
-              <Text style={styles.overlayLabel}>Project (optioneel)</Text>
-              <TextInput
-                style={styles.overlayInput}
-                placeholder="Bijv. 'Website redesign'"
-                placeholderTextColor="#9ca3af"
-                value={taskOverlayProject}
-                onChangeText={setTaskOverlayProject}
-              />
-              {tasks.length > 0 && (
+              <View style={{ marginTop: 20 }}>
+                <Text style={styles.overlayLabel}>Description</Text>
+                <TextInput
+                  style={[styles.overlayInput, { height: 90, textAlignVertical: 'top' }]}
+                  placeholder="Optional description..."
+                  placeholderTextColor="#9ca3af"
+                  value={taskOverlayDescription}
+                  onChangeText={setTaskOverlayDescription}
+                  multiline
+                />
+              </View>
+
+              <View style={{ marginTop: 20, gap: 10 }}>
+                <Text style={styles.overlayLabel}>Due (optioneel)</Text>
+                <DateTimeField placeholder="No due date" value={taskOverlayDue} onChange={setTaskOverlayDue} />
+                <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={{ gap: 8 }}>
+                  {/* A day without a time: due some time that day */}
+                  {[0, 1].map((offset) => {
+                    const day = new Date();
+                    day.setHours(0, 0, 0, 0);
+                    day.setDate(day.getDate() + offset);
+                    const active = taskOverlayDue === day.toISOString();
+                    return (
+                      <Pressable
+                        key={offset}
+                        onPress={() => setTaskOverlayDue(active ? null : day.toISOString())}
+                        style={[styles.chip, active && { backgroundColor: '#eef2ff', borderColor: 'transparent' }]}>
+                        <Text style={[styles.chipText, active && { color: ACCENT, fontWeight: '700' }]}>
+                          {offset === 0 ? 'Today' : 'Tomorrow'}
+                        </Text>
+                      </Pressable>
+                    );
+                  })}
+                </ScrollView>
+              </View>
+
+              <View style={{ marginTop: 20, gap: 10 }}>
+                <Text style={styles.overlayLabel}>Priority & estimate</Text>
+                <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={{ gap: 8 }}>
+                  {TASK_PRIORITIES.map((priority) => {
+                    const active = taskOverlayPriority === priority;
+                    return (
+                      <Pressable
+                        key={priority}
+                        onPress={() => setTaskOverlayPriority(active ? null : priority)}
+                        style={[styles.chip, active && { backgroundColor: '#eef2ff', borderColor: 'transparent' }]}>
+                        <Text style={[styles.chipText, active && { color: PRIORITY_COLORS[priority], fontWeight: '700' }]}>
+                          {PRIORITY_LABELS[priority]}
+                        </Text>
+                      </Pressable>
+                    );
+                  })}
+                </ScrollView>
                 <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={{ gap: 8 }}>
-                  {Array.from(new Set(tasks.map((t) => (t.project?.trim() || 'Geen project')).filter(Boolean))).map((proj) => (
+                  {ESTIMATE_OPTIONS.map((minutes) => {
+                    const active = taskOverlayEstimate === minutes;
+                    return (
+                      <Pressable
+                        key={minutes}
+                        onPress={() => setTaskOverlayEstimate(active ? null : minutes)}
+                        style={[styles.chip, active && { backgroundColor: '#eef2ff', borderColor: 'transparent' }]}>
+                        <Text style={[styles.chipText, active && { color: ACCENT, fontWeight: '700' }]}>
+                          {formatEstimate(minutes)}
+                        </Text>
+                      </Pressable>
+                    );
+                  })}
+                </ScrollView>
+              </View>
+
+              <View style={{ marginTop: 20, gap: 10 }}>
+                <Text style={styles.overlayLabel}>Subtasks & checklist</Text>
+                <View style={{ flexDirection: 'row', gap: 8, alignItems: 'center' }}>
+                  <TextInput
+                    style={[styles.overlayInput, { flex: 1 }]}
+                    placeholder="Add a step..."
+                    placeholderTextColor="#9ca3af"
+                    value={taskOverlayItemText}
+                    onChangeText={setTaskOverlayItemText}
+                    onSubmitEditing={() => addOverlayItem('subtask')}
+                  />
+                  <TouchableOpacity
+                    onPress={() => addOverlayItem('subtask')}
+                    disabled={!taskOverlayItemText.trim()}
+                    style={styles.ghostButton}>
+                    <Text style={styles.ghostButtonText}>Subtask</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    onPress={() => addOverlayItem('checklist')}
+                    disabled={!taskOverlayItemText.trim()}
+                    style={styles.ghostButton}>
+                    <Text style={styles.ghostButtonText}>Checklist</Text>
+                  </TouchableOpacity>
+                </View>
+                {[
+                  ...taskOverlaySubtasks.map((text, index) => ({ kind: 'subtask' as const, text, index })),
+                  ...taskOverlayChecklist.map((text, index) => ({ kind: 'checklist' as const, text, index })),
+                ].map((item) => (
+                  <View key={`${item.kind}-${item.index}`} style={styles.subtaskRow}>
+                    <Ionicons
+                      name={item.kind === 'subtask' ? 'git-commit-outline' : 'checkbox-outline'}
+                      size={16}
+                      color={MUTED}
+                    />
+                    <Text style={[styles.taskSubtext, { flex: 1 }]}>{item.text}</Text>
                     <Pressable
-                      key={proj}
-                      onPress={() => setTaskOverlayProject(proj === 'Geen project' ? '' : proj)}
-                      style={[
-                        styles.chip,
-                        taskOverlayProject.trim() === proj && { backgroundColor: '#eef2ff', borderColor: 'transparent' },
-                      ]}>
-                      <Text
-                        style={[
-                          styles.chipText,
-                          taskOverlayProject.trim() === proj && { color: ACCENT, fontWeight: '700' },
-                        ]}>
-                        {proj}
-                      </Text>
+                      hitSlop={8}
+                      onPress={() =>
+                        (item.kind === 'subtask' ? setTaskOverlaySubtasks : setTaskOverlayChecklist)((items) =>
+                          items.filter((_, i) => i !== item.index),
+                        )
+                      }>
+                      <Ionicons name="close" size={16} color="#9ca3af" />
                     </Pressable>
-                  ))}
-                </ScrollView>
-              )}
-            </View>
+                  </View>
+                ))}
+                {taskOverlaySubtasks.length + taskOverlayChecklist.length > 0 ? (
+                  <Pressable
+                    onPress={() => setTaskOverlayAutoComplete((value) => !value)}
+                    style={{ flexDirection: 'row', alignItems: 'center', gap: 8 }}>
+                    <Ionicons
+                      name={taskOverlayAutoComplete ? 'checkbox' : 'square-outline'}
+                      size={18}
+                      color={taskOverlayAutoComplete ? ACCENT : '#4b5563'}
+                    />
+                    <Text style={styles.taskSubtext}>Complete the task when all steps are done</Text>
+                  </Pressable>
+                ) : null}
+              </View>
 
-            <View style={{ marginTop: 20, gap: 10 }}>
-              <Text style={styles.overlayLabel}>Folder</Text>
-              <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={{ gap: 8 }}>
-                <Pressable
-                  onPress={() => setTaskOverlayFolderId(null)}
-                  style={[
-                    styles.chip,
-                    !taskOverlayFolderId && { backgroundColor: '#eef2ff', borderColor: 'transparent' },
-                  ]}>
-                  <Text
-                    style={[
-                      styles.chipText,
-                      !taskOverlayFolderId && { color: ACCENT, fontWeight: '700' },
-                    ]}>
-                    Geen folder
-                  </Text>
-                </Pressable>
-                {[...folders, ...sharedFolders].map((folder) => (
+              <View style={{ marginTop: 20, gap: 10 }}>
+                <Text style={styles.overlayLabel}>Project (optioneel)</Text>
+                <ProjectPicker
+                  projects={projects}
+                  value={taskOverlayProjectId}
+                  onChange={setTaskOverlayProjectId}
+                  onCreate={(name) => createProject({ name })}
+                />
+              </View>
+
+              <View style={{ marginTop: 20, gap: 10 }}>
+                <Text style={styles.overlayLabel}>Folder</Text>
+                <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={{ gap: 8 }}>
                   <Pressable
-                    key={folder.id}
-                    onPress={() => setTaskOverlayFolderId(folder.id)}
+                    onPress={() => setTaskOverlayFolderId(null)}
                     style={[
                       styles.chip,
-                      taskOverlayFolderId === folder.id && { backgroundColor: '#eef2ff', borderColor: 'transparent' },
+                      !taskOverlayFolderId && { backgroundColor: '#eef2ff', borderColor: 'transparent' },
                     ]}>
                     <Text
                       style={[
                         styles.chipText,
-                        taskOverlayFolderId === folder.id && { color: ACCENT, fontWeight: '700' },
+                        !taskOverlayFolderId && { color: ACCENT, fontWeight: '700' },
                       ]}>
-                      {folder.name}
+                      Geen folder
                     </Text>
                   </Pressable>
-                ))}
-              </ScrollView>
-            </View>
+                  {[...folders, ...sharedFolders].map((folder) => (
+                    <Pressable
+                      key={folder.id}
+                      onPress={() => setTaskOverlayFolderId(folder.id)}
+                      style={[
+                        styles.chip,
+                        taskOverlayFolderId === folder.id && { backgroundColor: '#eef2ff', borderColor: 'transparent' },
+                      ]}>
+                      <Text
+                        style={[
+                          styles.chipText,
+                          taskOverlayFolderId === folder.id && { color: ACCENT, fontWeight: '700' },
+                        ]}>
+                        {folder.name}
+                      </Text>
+                    </Pressable>
+                  ))}
+                </ScrollView>
+              </View>
+            </ScrollView>
 
             <View style={styles.overlayActions}>
               <TouchableOpacity
                 style={styles.overlayCancelButton}
-                onPress={() => {
-                  setShowTaskOverlay(false);
-                  setTaskOverlayTitle('');
-                  setTaskOverlayDescription('');
-                  setTaskOverlayProject('');
-                  setTaskOverlayFolderId(null);
-                }}>
+                onPress={closeTaskOverlay}>
                 <Text style={styles.overlayCancelText}>Cancel</Text>
               </TouchableOpacity>
               <TouchableOpacity
@@ -2832,7 +4043,7 @@ function AppShell({ session, onSignOut }: AppShellProps) {
             {/* Title & Message */}
             <Text style={styles.deleteConfirmTitle}>Delete Folder?</Text>
             <Text style={styles.deleteConfirmMessage}>
-              Are you sure you want to delete &quot;{folderToDelete.name}&quot;? Notes in this folder will be moved to &quot;No Folder&quot;.
+              &quot;{folderToDelete.name}&quot;, its subfolders and their notes move to the Trash, where you can restore them for {TRASH_DAYS} days.
             </Text>
 
             {/* Actions */}
@@ -2892,6 +4103,36 @@ function AppShell({ session, onSignOut }: AppShellProps) {
   );
 }
 
+type UndoSnackbarProps = {
+  snackbar: Snackbar;
+  bottom: number;
+  onUndo: () => void;
+  onRedo: () => void;
+  onDismiss: () => void;
+};
+
+// The latest delete or batch change, with a few seconds to take it back.
+function UndoSnackbar({ snackbar, bottom, onUndo, onRedo, onDismiss }: UndoSnackbarProps) {
+  const { entry, undone } = snackbar;
+  return (
+    <Animated.View
+      entering={isWeb ? undefined : FadeInDown.duration(180)}
+      exiting={isWeb ? undefined : FadeOut.duration(150)}
+      style={[styles.snackbar, { bottom }]}>
+      <Ionicons name={undone ? 'arrow-undo' : 'checkmark-circle-outline'} size={18} color="#c7d2fe" />
+      <Text style={styles.snackbarText} numberOfLines={2}>
+        {undone ? `Undone: ${entry.label}` : entry.label}
+      </Text>
+      <Pressable onPress={undone ? onRedo : onUndo} style={{ paddingHorizontal: 6, paddingVertical: 4 }}>
+        <Text style={styles.snackbarAction}>{undone ? 'Redo' : 'Undo'}</Text>
+      </Pressable>
+      <Pressable onPress={onDismiss} style={{ padding: 4 }}>
+        <Ionicons name="close" size={16} color="#c7d2fe" />
+      </Pressable>
+    </Animated.View>
+  );
+}
+
 type SidebarProps = {
   name: string;
   email: string;
@@ -2951,10 +4192,11 @@ function Sidebar({ name, email, activeTab, onSelectTab, onSignOut }: SidebarProp
 type MobileHeaderProps = {
   name: string;
   email: string;
+  onOpenTrash: () => void;
   onSignOut: () => void;
 };
 
-function MobileHeader({ name, email, onSignOut }: MobileHeaderProps) {
+function MobileHeader({ name, email, onOpenTrash, onSignOut }: MobileHeaderProps) {
   return (
     <View style={styles.mobileHeader}>
       <View style={{ flexDirection: 'row', alignItems: 'center', gap: 10 }}>
@@ -2966,9 +4208,14 @@ function MobileHeader({ name, email, onSignOut }: MobileHeaderProps) {
           <Text style={[styles.brandSubtitle, { fontSize: 12 }]}>{email}</Text>
         </View>
       </View>
-      <Pressable onPress={onSignOut} style={styles.iconButton}>
-        <Ionicons name="log-out-outline" size={18} color="#1f2937" />
-      </Pressable>
+      <View style={{ flexDirection: 'row', gap: 8 }}>
+        <Pressable onPress={onOpenTrash} style={styles.iconButton}>
+          <Ionicons name="trash-outline" size={18} color="#1f2937" />
+        </Pressable>
+        <Pressable onPress={onSignOut} style={styles.iconButton}>
+          <Ionicons name="log-out-outline" size={18} color="#1f2937" />
+        </Pressable>
+      </View>
     </View>
   );
 }
@@ -2983,7 +4230,8 @@ type BottomNavProps = {
 function BottomNav({ activeTab, onSelectTab, onAddTask, canAddTask }: BottomNavProps) {
   return (
     <View style={styles.bottomNav}>
-      {NAV_ITEMS.map((item) => (
+      {/* The trash opens from the header; the bar has no room for it */}
+      {NAV_ITEMS.filter((item) => item.key !== 'trash').map((item) => (
         <Pressable
           key={item.key}
           onPress={() => onSelectTab(item.key)}
@@ -3031,8 +4279,9 @@ function HomeView({
 }: HomeViewProps) {
   const today = useMemo(() => new Date(), []);
   const week = useMemo(() => {
-    const start = new Date(today);
-    start.setDate(today.getDate() - today.getDay() + 1);
+    const start = new Date(today.getFullYear(), today.getMonth(), today.getDate() - today.getDay() + 1);
+    const end = new Date(start.getFullYear(), start.getMonth(), start.getDate() + 7);
+    const occurrences = expandEvents(events, start, end);
     return Array.from({ length: 7 }).map((_, idx) => {
       const day = new Date(start);
       day.setDate(start.getDate() + idx);
@@ -3040,17 +4289,24 @@ function HomeView({
         label: ['M', 'T', 'W', 'T', 'F', 'S', 'S'][idx],
         date: day.getDate(),
         isToday: day.toDateString() === today.toDateString(),
+        eventCount: occurrences.filter(
+          (e) => e.starts_at && new Date(e.starts_at).toDateString() === day.toDateString(),
+        ).length,
       };
     });
-  }, [today]);
+  }, [today, events]);
 
   const nextEvent = useMemo(() => {
-    const sorted = [...events].filter((e) => e.starts_at).sort((a, b) => {
-      return new Date(a.starts_at || 0).getTime() - new Date(b.starts_at || 0).getTime();
-    });
-    return sorted[0];
+    const now = new Date();
+    const inAYear = new Date(now.getFullYear() + 1, now.getMonth(), now.getDate());
+    return expandEvents(events, now, inAYear).find((e) => e.starts_at);
   }, [events]);
 
+  const overdueCount = tasks.filter((task) => isOverdue(task)).length;
+  // Estimated work on the open tasks due today
+  const plannedMinutes = tasks
+    .filter((task) => isDueToday(task))
+    .reduce((sum, task) => sum + (task.estimated_minutes ?? 0), 0);
   const totalNotes = useMemo(() => {
     if (!folders?.length) return 0;
     const sum = folders.reduce((acc, folder) => acc + (folder.notes_count ?? 0), 0);
@@ -3097,6 +4353,11 @@ function HomeView({
                 <Text style={[styles.weekDate, day.isToday && { color: '#fff' }]}>
                   {day.date}
                 </Text>
+                <View style={styles.weekDots}>
+                  {Array.from({ length: Math.min(day.eventCount, 3) }).map((_, idx) => (
+                    <View key={idx} style={[styles.weekDot, day.isToday && { backgroundColor: '#fff' }]} />
+                  ))}
+                </View>
               </View>
             ))}
           </View>
@@ -3113,6 +4374,11 @@ function HomeView({
                 <Text style={[styles.weekDate, day.isToday && { color: '#fff' }]}>
                   {day.date}
                 </Text>
+                <View style={styles.weekDots}>
+                  {Array.from({ length: Math.min(day.eventCount, 3) }).map((_, idx) => (
+                    <View key={idx} style={[styles.weekDot, day.isToday && { backgroundColor: '#fff' }]} />
+                  ))}
+                </View>
               </View>
             ))}
           </ScrollView>
@@ -3130,7 +4396,7 @@ function HomeView({
               icon="checkmark-done-circle-outline"
               label="Tasks"
               value={`${completedCount}/${tasks.length}`}
-              hint={`${activeCount} active`}
+              hint={`${activeCount} active${overdueCount ? ` · ${overdueCount} overdue` : ''}`}
             />
             <MiniStat
               icon="calendar-outline"
@@ -3142,7 +4408,12 @@ function HomeView({
                   : undefined
               }
             />
-            <MiniStat icon="time-outline" label="Focus Time Today" value="0 min" />
+            <MiniStat
+              icon="time-outline"
+              label="Focus Time Today"
+              value={formatEstimate(plannedMinutes)}
+              hint={plannedMinutes ? 'Estimated for tasks due today' : undefined}
+            />
           </View>
         </Animated.View>
 
@@ -3180,6 +4451,29 @@ function HomeView({
   );
 }
 
+type TaskFilter = 'all' | 'active' | 'completed' | 'overdue' | 'today';
+
+const TASK_FILTERS: TaskFilter[] = ['all', 'active', 'completed', 'overdue', 'today'];
+
+const TASK_SORTS: { key: TaskSort; label: string }[] = [
+  { key: 'manual', label: 'Manual' },
+  { key: 'created', label: 'Newest' },
+  { key: 'due', label: 'Due date' },
+  { key: 'priority', label: 'Priority' },
+];
+
+type TasksLayout = 'list' | 'board';
+
+const TASK_LAYOUTS: TasksLayout[] = ['list', 'board'];
+
+const BOARD_GROUPINGS: { key: TaskBoardGrouping; label: string }[] = [
+  { key: 'status', label: 'Status' },
+  { key: 'project', label: 'Project' },
+  { key: 'priority', label: 'Priority' },
+];
+
+const BOARD_GROUPING_KEYS = BOARD_GROUPINGS.map((grouping) => grouping.key);
+
 type TasksViewProps = {
   tasks: Task[];
   loading: boolean;
@@ -3189,6 +4483,22 @@ type TasksViewProps = {
   onOpenTaskOverlay: () => void;
   onToggle: (task: Task) => void;
   onDelete: (id: string) => void;
+  onChangeChecklist: (task: Task, checklist: ChecklistItem[]) => void;
+  onAddSubtask: (parent: Task, title: string) => void;
+  onChangeBlockers: (task: Task, blockedBy: string[]) => void;
+  onMove: (task: Task, patch: Partial<Task>) => void;
+  onReorder: (patches: TaskPatch[]) => void;
+  onCompleteMany: (ids: string[]) => void;
+  onDeleteMany: (ids: string[]) => void;
+  onUpdateMany: (ids: string[], patch: Partial<Task>) => void;
+  projects: Project[];
+  statuses: WorkflowStatus[];
+  statusesError: string | null;
+  onCreateStatus: (name: string, isCompleted: boolean) => void;
+  onUpdateStatus: (status: WorkflowStatus, patch: Partial<WorkflowStatus>) => void;
+  onMoveStatus: (status: WorkflowStatus, delta: number) => void;
+  onDeleteStatus: (status: WorkflowStatus) => void;
+  userId?: string;
 };
 
 function TasksView({
@@ -3200,8 +4510,37 @@ function TasksView({
   onOpenTaskOverlay,
   onToggle,
   onDelete,
+  onChangeChecklist,
+  onAddSubtask,
+  onChangeBlockers,
+  onMove,
+  onReorder,
+  onCompleteMany,
+  onDeleteMany,
+  onUpdateMany,
+  projects,
+  statuses,
+  statusesError,
+  onCreateStatus,
+  onUpdateStatus,
+  onMoveStatus,
+  onDeleteStatus,
+  userId,
 }: TasksViewProps) {
-  const [filter, setFilter] = useState<'all' | 'active' | 'completed'>('all');
+  const [layout, setLayout] = usePreference<TasksLayout>(userId, 'tasks-layout', 'list', TASK_LAYOUTS);
+  const [grouping, setGrouping] = usePreference<TaskBoardGrouping>(
+    userId,
+    'tasks-board-grouping',
+    'status',
+    BOARD_GROUPING_KEYS,
+  );
+  const [filter, setFilter] = useState<TaskFilter>('all');
+  const [statusFilter, setStatusFilter] = useState<string | null>(null);
+  const [editingStatuses, setEditingStatuses] = useState(false);
+  const [sort, setSort] = useState<TaskSort>('manual');
+  // Measured row heights (including the gap below), for drag-to-reorder
+  const rowHeights = useRef<Record<string, number>>({});
+  const [expandedId, setExpandedId] = useState<string | null>(null);
   const [folderFilter, setFolderFilter] = useState<string | 'none' | null>(null);
   const folderNameMap = useMemo(() => {
     const map: Record<string, string> = {};
@@ -3210,9 +4549,23 @@ function TasksView({
     });
     return map;
   }, [folders, sharedFolders]);
-  const filtered = tasks.filter((task) => {
+  const now = new Date();
+  const overdueCount = tasks.filter((task) => isOverdue(task, now)).length;
+  const progressOf = (task: Task) => taskProgress(task, tasks);
+  const blockersOf = (task: Task) => (task.is_done ? [] : openBlockers(task, tasks));
+  // Subtasks are listed under their parent, not on their own
+  const filtered = rootTasks(sortTasks(tasks, sort)).filter((task) => {
+    const status = statusOf(task, statuses);
     const passesStatus =
-      filter === 'completed' ? task.is_done : filter === 'active' ? !task.is_done : true;
+      filter === 'completed'
+        ? status.is_completed
+        : filter === 'active'
+          ? !status.is_completed
+          : filter === 'overdue'
+            ? isOverdue(task, now)
+            : filter === 'today'
+              ? isDueToday(task, now)
+              : true;
     const normalizedFolder = task.folder_id ?? 'none';
     const passesFolder =
       folderFilter === null
@@ -3220,7 +4573,8 @@ function TasksView({
         : folderFilter === 'none'
         ? !task.folder_id
         : normalizedFolder === folderFilter;
-    return passesStatus && passesFolder;
+    const passesWorkflow = !statusFilter || status.id === statusFilter;
+    return passesStatus && passesWorkflow && passesFolder;
   });
 
   const groups = useMemo(() => {
@@ -3239,6 +4593,12 @@ function TasksView({
       }))
       .sort((a, b) => a.title.localeCompare(b.title));
   }, [filtered, folderNameMap]);
+  // Multi-select works on the list; board cards are dragged instead
+  const selection = useSelection(layout === 'list' ? groups.flatMap((group) => group.items.map((task) => task.id)) : []);
+  const runBatch = (action: (ids: string[]) => void) => {
+    action(selection.selected);
+    selection.clear();
+  };
 
   return (
     <View style={{ gap: 16 }}>
@@ -3258,32 +4618,122 @@ function TasksView({
             <Text style={styles.inputLabel}>Tasks</Text>
             <Text style={styles.subheading}>{tasks.length} totaal</Text>
           </View>
-          <TouchableOpacity
-            disabled={loading}
-            onPress={onOpenTaskOverlay}
-            style={[
-              styles.primaryButton,
-              { paddingHorizontal: 18, height: 44 },
-              loading && { opacity: 0.6 },
-            ]}>
-            <Text style={styles.primaryButtonText}>Add Task</Text>
-          </TouchableOpacity>
+          <View style={styles.subtaskRow}>
+            <Pressable onPress={() => setEditingStatuses((open) => !open)} style={styles.iconButton}>
+              <Ionicons name={editingStatuses ? 'close' : 'options-outline'} size={16} color={ACCENT} />
+            </Pressable>
+            <TouchableOpacity
+              disabled={loading}
+              onPress={onOpenTaskOverlay}
+              style={[
+                styles.primaryButton,
+                { paddingHorizontal: 18, height: 44 },
+                loading && { opacity: 0.6 },
+              ]}>
+              <Text style={styles.primaryButtonText}>Add Task</Text>
+            </TouchableOpacity>
+          </View>
         </View>
 
-        <View style={styles.chipsRow}>
-          {['all', 'active', 'completed'].map((type) => (
+        {editingStatuses ? (
+          <StatusEditor
+            statuses={statuses}
+            error={statusesError}
+            onCreate={onCreateStatus}
+            onUpdate={onUpdateStatus}
+            onMove={onMoveStatus}
+            onDelete={onDeleteStatus}
+          />
+        ) : null}
+
+        <View style={[styles.chipsRow, { flexWrap: 'wrap' }]}>
+          {TASK_FILTERS.map((type) => (
             <Pressable
               key={type}
-              onPress={() => setFilter(type as 'all' | 'active' | 'completed')}
+              onPress={() => setFilter(type)}
               style={[
                 styles.chip,
                 filter === type && { backgroundColor: '#e5e7ff', borderColor: 'transparent' },
               ]}>
               <Text style={[styles.chipText, filter === type && { color: ACCENT, fontWeight: '700' }]}>
                 {type.charAt(0).toUpperCase() + type.slice(1)}
+                {type === 'overdue' && overdueCount ? ` (${overdueCount})` : ''}
+              </Text>
+            </Pressable>
+          ))}
+        </View>
+
+        <View style={[styles.chipsRow, { flexWrap: 'wrap' }]}>
+          {[null, ...workflowStatuses(statuses)].map((status) => (
+            <Pressable
+              key={status?.id ?? 'any'}
+              onPress={() => setStatusFilter(status?.id ?? null)}
+              style={[
+                styles.chip,
+                styles.quickAddChip,
+                statusFilter === (status?.id ?? null) && { backgroundColor: '#eef2ff', borderColor: 'transparent' },
+              ]}>
+              {status ? <View style={[styles.projectDot, { backgroundColor: status.color || MUTED }]} /> : null}
+              <Text
+                style={[styles.chipText, statusFilter === (status?.id ?? null) && { color: ACCENT, fontWeight: '700' }]}>
+                {status?.name ?? 'Any status'}
+              </Text>
+            </Pressable>
+          ))}
+        </View>
+
+        <View style={[styles.chipsRow, { alignItems: 'center' }]}>
+          <Ionicons name="swap-vertical" size={16} color={MUTED} />
+          {TASK_SORTS.map((option) => (
+            <Pressable
+              key={option.key}
+              onPress={() => setSort(option.key)}
+              style={[
+                styles.chip,
+                sort === option.key && { backgroundColor: '#e5e7ff', borderColor: 'transparent' },
+              ]}>
+              <Text style={[styles.chipText, sort === option.key && { color: ACCENT, fontWeight: '700' }]}>
+                {option.label}
+              </Text>
+            </Pressable>
+          ))}
+        </View>
+
+        <View style={[styles.chipsRow, { alignItems: 'center', flexWrap: 'wrap' }]}>
+          {TASK_LAYOUTS.map((option) => (
+            <Pressable
+              key={option}
+              onPress={() => setLayout(option)}
+              style={[
+                styles.chip,
+                styles.quickAddChip,
+                layout === option && { backgroundColor: '#e5e7ff', borderColor: 'transparent' },
+              ]}>
+              <Ionicons
+                name={option === 'list' ? 'list-outline' : 'grid-outline'}
+                size={14}
+                color={layout === option ? ACCENT : '#1f2937'}
+              />
+              <Text style={[styles.chipText, layout === option && { color: ACCENT, fontWeight: '700' }]}>
+                {option === 'list' ? 'List' : 'Board'}
               </Text>
             </Pressable>
           ))}
+          {layout === 'board'
+            ? BOARD_GROUPINGS.map((option) => (
+                <Pressable
+                  key={option.key}
+                  onPress={() => setGrouping(option.key)}
+                  style={[
+                    styles.chip,
+                    grouping === option.key && { backgroundColor: '#eef2ff', borderColor: 'transparent' },
+                  ]}>
+                  <Text style={[styles.chipText, grouping === option.key && { color: ACCENT, fontWeight: '700' }]}>
+                    By {option.label.toLowerCase()}
+                  </Text>
+                </Pressable>
+              ))
+            : null}
         </View>
 
         <View style={styles.chipsRow}>
@@ -3336,8 +4786,37 @@ function TasksView({
 
         {error ? <Text style={styles.errorText}>{error}</Text> : null}
 
+        {selection.selected.length ? (
+          <SelectionBar
+            count={selection.selected.length}
+            dateLabel="Due date"
+            onSelectAll={selection.selectAll}
+            onClear={selection.clear}
+            onComplete={() => runBatch(onCompleteMany)}
+            onDelete={() => runBatch(onDeleteMany)}
+            onSetDate={(dueAt) => runBatch((ids) => onUpdateMany(ids, { due_at: dueAt }))}
+            folders={[...folders, ...sharedFolders]}
+            onMoveToFolder={(folderId) => runBatch((ids) => onUpdateMany(ids, { folder_id: folderId }))}
+            projects={projects}
+            onSetProject={(project) =>
+              runBatch((ids) => onUpdateMany(ids, { project_id: project?.id ?? null, project: project?.name ?? null }))
+            }
+          />
+        ) : null}
+
         {loading ? (
           <ActivityIndicator color={ACCENT} />
+        ) : layout === 'board' ? (
+          <TaskBoard
+            columns={boardColumns(filtered, grouping, { projects, statuses })}
+            tasks={tasks}
+            projects={projects}
+            onToggle={onToggle}
+            onDrop={(task, column) => {
+              const patch = moveToColumnPatch(task, grouping, column.key, { projects, statuses });
+              if (patch) onMove(task, patch);
+            }}
+          />
         ) : groups.length === 0 ? (
           <Animated.View style={styles.emptyState} entering={isWeb ? undefined : FadeInDown.duration(200)}>
             <Ionicons name="sparkles-outline" size={32} color={ACCENT} />
@@ -3357,41 +4836,114 @@ function TasksView({
                   <Text style={styles.metaText}>{group.items.length} item{group.items.length === 1 ? '' : 's'}</Text>
                 </View>
                 <View style={{ gap: 10 }}>
-                  {group.items.map((item) => (
-                    <Animated.View
+                  {group.items.map((item, index) => (
+                    <ReorderRow
                       key={item.id}
-                      entering={isWeb ? undefined : FadeInDown.duration(180)}
-                      layout={isWeb ? undefined : Layout.springify()}
-                      style={styles.taskCard}>
-                      <Pressable onPress={() => onToggle(item)} style={styles.taskToggle}>
-                        <Ionicons
-                          name={item.is_done ? 'checkbox' : 'square-outline'}
-                          size={22}
-                          color={item.is_done ? ACCENT : '#4b5563'}
-                        />
-                        <View>
-                          <Text
-                            style={[
-                              styles.taskTitle,
-                              item.is_done && { textDecorationLine: 'line-through', color: MUTED },
-                            ]}>
-                            {item.title}
-                          </Text>
-                          <Text style={styles.taskSubtext}>{item.description ?? 'No description'}</Text>
-                          <View style={{ flexDirection: 'row', gap: 6, marginTop: 4 }}>
-                            <Text style={styles.projectPill}>
-                              {item.project?.trim() || 'Geen project'}
-                            </Text>
-                            <Text style={styles.folderPill}>
-                              {item.folder_id ? folderNameMap[item.folder_id] ?? 'Onbekende folder' : 'Geen folder'}
+                      index={index}
+                      enabled={sort === 'manual'}
+                      getHeights={() => group.items.map((other) => rowHeights.current[other.id] ?? 0)}
+                      onHeight={(height) => {
+                        rowHeights.current[item.id] = height;
+                      }}
+                      onDrop={(toIndex) => onReorder(reorderPatches(group.items, item.id, toIndex))}>
+                      <Animated.View
+                        entering={isWeb ? undefined : FadeInDown.duration(180)}
+                        layout={isWeb ? undefined : Layout.springify()}
+                        style={{ gap: 8 }}>
+                        <View style={[styles.taskCard, selection.isSelected(item.id) && styles.taskCardSelected]}>
+                          <Pressable
+                            onPress={(event) => {
+                              if (!selection.press(item.id, event)) onToggle(item);
+                            }}
+                            onLongPress={isWeb ? undefined : () => selection.start(item.id)}
+                            style={styles.taskToggle}>
+                            {selection.selected.length ? (
+                              <Ionicons
+                                name={selection.isSelected(item.id) ? 'checkmark-circle' : 'ellipse-outline'}
+                                size={22}
+                                color={selection.isSelected(item.id) ? ACCENT : '#4b5563'}
+                              />
+                            ) : (
+                              <Ionicons
+                                name={item.is_done ? 'checkbox' : blockersOf(item).length ? 'lock-closed-outline' : 'square-outline'}
+                                size={22}
+                                color={item.is_done ? ACCENT : '#4b5563'}
+                              />
+                            )}
+                            <View>
+                              <Text
+                                style={[
+                                  styles.taskTitle,
+                                  item.is_done && { textDecorationLine: 'line-through', color: MUTED },
+                                ]}>
+                                {item.title}
+                              </Text>
+                              <Text style={styles.taskSubtext}>{item.description ?? 'No description'}</Text>
+                              <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 6, marginTop: 4 }}>
+                                {blockersOf(item).length ? (
+                                  <Text style={[styles.duePill, styles.duePillOverdue]}>
+                                    Blocked by {blockersOf(item)[0].title}
+                                    {blockersOf(item).length > 1 ? ` +${blockersOf(item).length - 1}` : ''}
+                                  </Text>
+                                ) : null}
+                                <Text style={[styles.duePill, { color: statusOf(item, statuses).color || '#374151' }]}>
+                                  {statusOf(item, statuses).name}
+                                </Text>
+                                {item.due_at ? (
+                                  <Text style={[styles.duePill, isOverdue(item, now) && styles.duePillOverdue]}>
+                                    {formatDue(item.due_at, now)}
+                                  </Text>
+                                ) : null}
+                                {item.priority ? (
+                                  <Text style={[styles.duePill, { color: PRIORITY_COLORS[item.priority] }]}>
+                                    {PRIORITY_LABELS[item.priority]}
+                                  </Text>
+                                ) : null}
+                                {item.estimated_minutes ? (
+                                  <Text style={styles.duePill}>{formatEstimate(item.estimated_minutes)}</Text>
+                                ) : null}
+                                <Text
+                                  style={[
+                                    styles.projectPill,
+                                    taskProjectLabel(item, projects)?.color && {
+                                      color: taskProjectLabel(item, projects)!.color!,
+                                    },
+                                  ]}>
+                                  {taskProjectLabel(item, projects)?.name ?? 'Geen project'}
+                                </Text>
+                                <Text style={styles.folderPill}>
+                                  {item.folder_id ? folderNameMap[item.folder_id] ?? 'Onbekende folder' : 'Geen folder'}
+                                </Text>
+                              </View>
+                            </View>
+                          </Pressable>
+                          {progressOf(item).total > 0 ? (
+                            <Text style={[styles.duePill, { marginRight: 8 }]}>
+                              {progressOf(item).done}/{progressOf(item).total}
                             </Text>
-                          </View>
+                          ) : null}
+                          <Pressable
+                            onPress={() => setExpandedId(expandedId === item.id ? null : item.id)}
+                            style={[styles.iconButton, { marginRight: 8 }]}>
+                            <Ionicons name={expandedId === item.id ? 'chevron-up' : 'list-outline'} size={16} color={ACCENT} />
+                          </Pressable>
+                          <Pressable onPress={() => onDelete(item.id)} style={styles.iconButton}>
+                            <Ionicons name="trash-outline" size={16} color="#ef4444" />
+                          </Pressable>
                         </View>
-                      </Pressable>
-                      <Pressable onPress={() => onDelete(item.id)} style={styles.iconButton}>
-                        <Ionicons name="trash-outline" size={16} color="#ef4444" />
-                      </Pressable>
-                    </Animated.View>
+                        {expandedId === item.id ? (
+                          <TaskSteps
+                            task={item}
+                            tasks={tasks}
+                            onToggle={onToggle}
+                            onDelete={onDelete}
+                            onChangeChecklist={onChangeChecklist}
+                            onAddSubtask={onAddSubtask}
+                            onChangeBlockers={onChangeBlockers}
+                          />
+                        ) : null}
+                      </Animated.View>
+                    </ReorderRow>
                   ))}
                 </View>
               </Animated.View>
@@ -3403,84 +4955,1330 @@ function TasksView({
   );
 }
 
-type AgendaViewProps = {
-  events: AgendaEvent[];
-  loading: boolean;
+type StatusEditorProps = {
+  statuses: WorkflowStatus[];
   error: string | null;
-  value: string;
-  startValue: string;
-  endValue: string;
-  locationValue: string;
-  onChangeValue: (v: string) => void;
-  onChangeStart: (v: string) => void;
-  onChangeEnd: (v: string) => void;
-  onChangeLocation: (v: string) => void;
-  onAdd: () => void;
-  onDelete: (id: string) => void;
-  onRefresh: () => void;
+  onCreate: (name: string, isCompleted: boolean) => void;
+  onUpdate: (status: WorkflowStatus, patch: Partial<WorkflowStatus>) => void;
+  onMove: (status: WorkflowStatus, delta: number) => void;
+  onDelete: (status: WorkflowStatus) => void;
 };
 
-function AgendaView({
-  events,
-  loading,
-  error,
-  value,
-  startValue,
-  endValue,
-  locationValue,
-  onChangeValue,
-  onChangeStart,
-  onChangeEnd,
-  onChangeLocation,
-  onAdd,
-  onDelete,
-  onRefresh,
-}: AgendaViewProps) {
-  return (
-    <View style={{ gap: 16 }}>
-      <Animated.View style={styles.pageHeader} entering={isWeb ? undefined : FadeInDown.duration(200)}>
-        <View>
-          <Text style={styles.heading}>Agenda</Text>
-          <Text style={styles.subheading}>{events.length} upcoming</Text>
-        </View>
-      </Animated.View>
+// The user's workflow: rename, recolour, reorder and remove statuses, and
+// choose which ones count as completed.
+function StatusEditor({ statuses, error, onCreate, onUpdate, onMove, onDelete }: StatusEditorProps) {
+  const [name, setName] = useState('');
+  const [names, setNames] = useState<Record<string, string>>({});
+  const list = workflowStatuses(statuses);
 
-      <Animated.View
-        entering={isWeb ? undefined : FadeInDown.delay(60).duration(220)}
-        layout={isWeb ? undefined : Layout.springify()}
-        style={[styles.card, { gap: 12 }]}>
-        <View style={{ gap: 10 }}>
-          <Text style={styles.inputLabel}>New event</Text>
-          <View style={styles.inputRow}>
-            <Ionicons name="calendar-outline" size={18} color={ACCENT} />
+  if (!statuses.length) {
+    return (
+      <View style={styles.subtaskPanel}>
+        <Text style={styles.metaText}>
+          {error ? `Eigen statussen zijn niet beschikbaar: ${error}` : 'Statussen laden...'}
+        </Text>
+      </View>
+    );
+  }
+
+  const rename = (status: WorkflowStatus) => {
+    const next = names[status.id]?.trim();
+    if (next && next !== status.name) onUpdate(status, { name: next });
+  };
+
+  return (
+    <View style={styles.subtaskPanel}>
+      <Text style={styles.sectionTitle}>Statuses</Text>
+      {list.map((status, index) => (
+        <View key={status.id} style={{ gap: 6 }}>
+          <View style={styles.subtaskRow}>
+            <View style={[styles.projectDot, { backgroundColor: status.color || MUTED }]} />
             <TextInput
-              placeholder="Title"
-              value={value}
-              onChangeText={onChangeValue}
-              style={styles.textInput}
-              placeholderTextColor="#9ca3af"
+              value={names[status.id] ?? status.name}
+              onChangeText={(text) => setNames((prev) => ({ ...prev, [status.id]: text }))}
+              onBlur={() => rename(status)}
+              onSubmitEditing={() => rename(status)}
+              style={[styles.textInput, { flex: 1 }]}
             />
-          </View>
-          <View style={styles.inputRow}>
-            <Ionicons name="time-outline" size={18} color={ACCENT} />
-            <TextInput
-              placeholder="Starts at (e.g. 2025-01-01 14:00)"
-              value={startValue}
-              onChangeText={onChangeStart}
-              style={styles.textInput}
-              placeholderTextColor="#9ca3af"
+            <Pressable
+              onPress={() => onUpdate(status, { is_completed: !status.is_completed })}
+              style={[styles.subtaskRow, { gap: 4 }]}>
+              <Ionicons
+                name={status.is_completed ? 'checkbox' : 'square-outline'}
+                size={16}
+                color={status.is_completed ? ACCENT : '#4b5563'}
+              />
+              <Text style={styles.taskSubtext}>Completed</Text>
+            </Pressable>
+            <Pressable disabled={index === 0} onPress={() => onMove(status, -1)} style={styles.iconButton}>
+              <Ionicons name="arrow-up" size={14} color={index === 0 ? '#cbd5e1' : ACCENT} />
+            </Pressable>
+            <Pressable disabled={index === list.length - 1} onPress={() => onMove(status, 1)} style={styles.iconButton}>
+              <Ionicons name="arrow-down" size={14} color={index === list.length - 1 ? '#cbd5e1' : ACCENT} />
+            </Pressable>
+            <Pressable onPress={() => onDelete(status)} style={styles.iconButton}>
+              <Ionicons name="trash-outline" size={14} color="#ef4444" />
+            </Pressable>
+          </View>
+          <View style={[styles.chipsRow, { marginLeft: 16 }]}>
+            {STATUS_COLORS.map((color) => (
+              <Pressable
+                key={color}
+                onPress={() => onUpdate(status, { color })}
+                style={[
+                  styles.projectSwatch,
+                  { width: 18, height: 18, backgroundColor: color },
+                  status.color === color && styles.projectSwatchActive,
+                ]}
+              />
+            ))}
+          </View>
+        </View>
+      ))}
+      <View style={styles.inputRow}>
+        <TextInput
+          value={name}
+          onChangeText={setName}
+          placeholder="New status, e.g. Review"
+          placeholderTextColor="#9ca3af"
+          style={[styles.textInput, { flex: 1 }]}
+        />
+        {[false, true].map((isCompleted) => (
+          <TouchableOpacity
+            key={String(isCompleted)}
+            disabled={!name.trim()}
+            onPress={() => {
+              onCreate(name, isCompleted);
+              setName('');
+            }}
+            style={[styles.secondaryButton, !name.trim() && { opacity: 0.6 }]}>
+            <Text style={styles.secondaryButtonText}>{isCompleted ? 'Add as completed' : 'Add'}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+      {error ? <Text style={styles.errorText}>{error}</Text> : null}
+    </View>
+  );
+}
+
+const BOARD_COLUMN_WIDTH = 260;
+const BOARD_COLUMN_GAP = 12;
+
+type TaskBoardProps = {
+  columns: BoardColumn[];
+  tasks: Task[];
+  projects: Project[];
+  onToggle: (task: Task) => void;
+  onDrop: (task: Task, column: BoardColumn) => void;
+};
+
+// Columns side by side. Cards are dragged onto another column; on touch
+// screens after a long press, so a quick swipe still scrolls the board.
+function TaskBoard({ columns, tasks, projects, onToggle, onDrop }: TaskBoardProps) {
+  const [dragging, setDragging] = useState<{ taskId: string; target: number } | null>(null);
+
+  return (
+    <ScrollView
+      horizontal
+      scrollEnabled={!dragging}
+      showsHorizontalScrollIndicator={isWeb}
+      contentContainerStyle={{ gap: BOARD_COLUMN_GAP, paddingBottom: 4 }}>
+      {columns.map((column, index) => (
+        <View
+          key={column.key}
+          style={[
+            styles.boardColumn,
+            { width: BOARD_COLUMN_WIDTH },
+            dragging?.target === index && styles.boardColumnTarget,
+            // The dragged card has to be drawn over the columns next to it
+            dragging && column.tasks.some((task) => task.id === dragging.taskId) && { zIndex: 10 },
+          ]}>
+          <View style={styles.taskGroupHeader}>
+            <View style={styles.subtaskRow}>
+              {column.color ? <View style={[styles.projectDot, { backgroundColor: column.color }]} /> : null}
+              <Text style={styles.sectionTitle}>{column.title}</Text>
+            </View>
+            <Text style={styles.metaText}>{column.tasks.length}</Text>
+          </View>
+          {column.tasks.length === 0 ? <Text style={styles.metaText}>Drop tasks here</Text> : null}
+          {column.tasks.map((task) => (
+            <BoardCard
+              key={task.id}
+              task={task}
+              tasks={tasks}
+              projects={projects}
+              columnIndex={index}
+              columnCount={columns.length}
+              onToggle={onToggle}
+              onDrag={(target) =>
+                setDragging((current) =>
+                  target === null
+                    ? null
+                    : current?.taskId === task.id && current.target === target
+                      ? current
+                      : { taskId: task.id, target },
+                )
+              }
+              onDrop={(target) => {
+                if (target !== index) onDrop(task, columns[target]);
+              }}
             />
+          ))}
+        </View>
+      ))}
+    </ScrollView>
+  );
+}
+
+type BoardCardProps = {
+  task: Task;
+  tasks: Task[];
+  projects: Project[];
+  columnIndex: number;
+  columnCount: number;
+  onToggle: (task: Task) => void;
+  // The column index under the card while dragging, null once it is let go.
+  onDrag: (target: number | null) => void;
+  onDrop: (target: number) => void;
+};
+
+function BoardCard({ task, tasks, projects, columnIndex, columnCount, onToggle, onDrag, onDrop }: BoardCardProps) {
+  const offsetX = useSharedValue(0);
+  const offsetY = useSharedValue(0);
+  const now = new Date();
+  const blocked = !task.is_done && openBlockers(task, tasks).length > 0;
+  const progress = taskProgress(task, tasks);
+  const project = taskProjectLabel(task, projects);
+
+  // The gesture is built once per column; it reads the latest callbacks from here
+  const handlers = useRef({ onDrag, onDrop });
+  handlers.current = { onDrag, onDrop };
+
+  const pan = useMemo(() => {
+    const targetFor = (dx: number) =>
+      Math.min(Math.max(columnIndex + Math.round(dx / (BOARD_COLUMN_WIDTH + BOARD_COLUMN_GAP)), 0), columnCount - 1);
+    const gesture = Gesture.Pan()
+      .runOnJS(true)
+      .minDistance(6)
+      .onUpdate((e) => {
+        offsetX.value = e.translationX;
+        offsetY.value = e.translationY;
+        handlers.current.onDrag(targetFor(e.translationX));
+      })
+      .onEnd((e, success) => {
+        if (success) handlers.current.onDrop(targetFor(e.translationX));
+      })
+      .onFinalize(() => {
+        offsetX.value = 0;
+        offsetY.value = 0;
+        handlers.current.onDrag(null);
+      });
+    return isWeb ? gesture : gesture.activateAfterLongPress(250);
+  }, [columnIndex, columnCount, offsetX, offsetY]);
+
+  const dragStyle = useAnimatedStyle(() => ({
+    transform: [{ translateX: offsetX.value }, { translateY: offsetY.value }],
+    opacity: offsetX.value || offsetY.value ? 0.85 : 1,
+  }));
+
+  return (
+    <GestureDetector gesture={pan}>
+      <Animated.View style={[styles.boardCard, dragStyle]}>
+        <Pressable onPress={() => onToggle(task)} style={[styles.subtaskRow, { alignItems: 'flex-start' }]}>
+          <Ionicons
+            name={task.is_done ? 'checkbox' : blocked ? 'lock-closed-outline' : 'square-outline'}
+            size={20}
+            color={task.is_done ? ACCENT : '#4b5563'}
+          />
+          <Text style={[styles.subtaskText, task.is_done && { textDecorationLine: 'line-through', color: MUTED }]}>
+            {task.title}
+          </Text>
+        </Pressable>
+        <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 6 }}>
+          {task.due_at ? (
+            <Text style={[styles.duePill, isOverdue(task, now) && styles.duePillOverdue]}>{formatDue(task.due_at, now)}</Text>
+          ) : null}
+          {task.priority ? (
+            <Text style={[styles.duePill, { color: PRIORITY_COLORS[task.priority] }]}>{PRIORITY_LABELS[task.priority]}</Text>
+          ) : null}
+          {progress.total > 0 ? <Text style={styles.duePill}>{progress.done}/{progress.total}</Text> : null}
+          {project ? (
+            <Text style={[styles.projectPill, project.color ? { color: project.color } : null]}>{project.name}</Text>
+          ) : null}
+        </View>
+      </Animated.View>
+    </GestureDetector>
+  );
+}
+
+const REORDER_GAP = 10;
+
+type ReorderRowProps = {
+  index: number;
+  enabled: boolean;
+  // Heights of every row in the list, in display order.
+  getHeights: () => number[];
+  onHeight: (height: number) => void;
+  onDrop: (toIndex: number) => void;
+  children: React.ReactNode;
+};
+
+// A list row with a drag handle; dropping it past half of a neighbour takes
+// that neighbour's place. Touch screens need a short press on the handle first
+// so the page can still scroll.
+function ReorderRow({ index, enabled, getHeights, onHeight, onDrop, children }: ReorderRowProps) {
+  const offsetY = useSharedValue(0);
+  const handlers = useRef({ getHeights, onDrop });
+  handlers.current = { getHeights, onDrop };
+
+  const pan = useMemo(() => {
+    const targetFor = (dy: number) => {
+      const heights = handlers.current.getHeights();
+      let target = index;
+      let rest = dy;
+      while (rest > 0 && target < heights.length - 1 && rest > heights[target + 1] / 2) {
+        rest -= heights[target + 1];
+        target += 1;
+      }
+      while (rest < 0 && target > 0 && -rest > heights[target - 1] / 2) {
+        rest += heights[target - 1];
+        target -= 1;
+      }
+      return target;
+    };
+    const gesture = Gesture.Pan()
+      .runOnJS(true)
+      .onUpdate((e) => {
+        offsetY.value = e.translationY;
+      })
+      .onEnd((e, success) => {
+        const target = targetFor(e.translationY);
+        if (success && target !== index) handlers.current.onDrop(target);
+      })
+      .onFinalize(() => {
+        offsetY.value = 0;
+      });
+    return isWeb ? gesture : gesture.activateAfterLongPress(150);
+  }, [index, offsetY]);
+
+  const dragStyle = useAnimatedStyle(() => ({
+    transform: [{ translateY: offsetY.value }],
+    zIndex: offsetY.value ? 10 : 0,
+    opacity: offsetY.value ? 0.9 : 1,
+  }));
+
+  return (
+    <Animated.View
+      onLayout={(e) => onHeight(e.nativeEvent.layout.height + REORDER_GAP)}
+      style={[{ flexDirection: 'row', alignItems: 'flex-start', gap: 6 }, dragStyle]}>
+      {enabled ? (
+        <GestureDetector gesture={pan}>
+          <View style={styles.dragHandle}>
+            <Ionicons name="reorder-three-outline" size={20} color={MUTED} />
           </View>
+        </GestureDetector>
+      ) : null}
+      <View style={{ flex: 1 }}>{children}</View>
+    </Animated.View>
+  );
+}
+
+type SelectionBarProps = {
+  count: number;
+  dateLabel: string;
+  onSelectAll: () => void;
+  onClear: () => void;
+  onComplete: () => void;
+  onDelete: () => void;
+  onSetDate: (value: string | null) => void;
+  // Only offered when given; reminders have no folders or projects.
+  folders?: NoteFolder[];
+  onMoveToFolder?: (folderId: string | null) => void;
+  projects?: Project[];
+  onSetProject?: (project: Project | null) => void;
+};
+
+type SelectionPanel = 'date' | 'folder' | 'project';
+
+// Actions for the selected rows of a list. Folder, project and date open a
+// row of choices below the buttons; deleting asks once more.
+function SelectionBar({
+  count,
+  dateLabel,
+  onSelectAll,
+  onClear,
+  onComplete,
+  onDelete,
+  onSetDate,
+  folders,
+  onMoveToFolder,
+  projects,
+  onSetProject,
+}: SelectionBarProps) {
+  const [panel, setPanel] = useState<SelectionPanel | null>(null);
+  const [date, setDate] = useState<string | null>(null);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  const panelButton = (key: SelectionPanel, icon: keyof typeof Ionicons.glyphMap, label: string) => (
+    <Pressable
+      onPress={() => setPanel(panel === key ? null : key)}
+      style={[styles.chip, styles.quickAddChip, panel === key && { backgroundColor: '#e5e7ff', borderColor: 'transparent' }]}>
+      <Ionicons name={icon} size={14} color={panel === key ? ACCENT : '#1f2937'} />
+      <Text style={[styles.chipText, panel === key && { color: ACCENT, fontWeight: '700' }]}>{label}</Text>
+    </Pressable>
+  );
+
+  return (
+    <View style={styles.selectionBar}>
+      <View style={[styles.inputRow, { justifyContent: 'space-between' }]}>
+        <Text style={styles.inputLabel}>{count} selected</Text>
+        <View style={styles.subtaskRow}>
+          <Pressable onPress={onSelectAll} style={[styles.chip, styles.quickAddChip]}>
+            <Text style={[styles.chipText, { color: ACCENT }]}>Select all</Text>
+          </Pressable>
+          <Pressable onPress={onClear} style={styles.iconButton}>
+            <Ionicons name="close" size={16} color={ACCENT} />
+          </Pressable>
+        </View>
+      </View>
+      <View style={[styles.chipsRow, { flexWrap: 'wrap' }]}>
+        <Pressable onPress={onComplete} style={[styles.chip, styles.quickAddChip]}>
+          <Ionicons name="checkmark-done-outline" size={14} color="#1f2937" />
+          <Text style={styles.chipText}>Complete</Text>
+        </Pressable>
+        {panelButton('date', 'calendar-outline', dateLabel)}
+        {folders && onMoveToFolder ? panelButton('folder', 'folder-outline', 'Folder') : null}
+        {projects && onSetProject ? panelButton('project', 'briefcase-outline', 'Project') : null}
+        {confirmDelete ? (
+          <>
+            <Pressable onPress={() => setConfirmDelete(false)} style={styles.chip}>
+              <Text style={styles.chipText}>Cancel</Text>
+            </Pressable>
+            <Pressable onPress={onDelete} style={[styles.chip, styles.quickAddChip, { borderColor: '#fecaca' }]}>
+              <Ionicons name="trash-outline" size={14} color="#ef4444" />
+              <Text style={[styles.chipText, { color: '#ef4444', fontWeight: '700' }]}>Delete {count}</Text>
+            </Pressable>
+          </>
+        ) : (
+          <Pressable onPress={() => setConfirmDelete(true)} style={[styles.chip, styles.quickAddChip]}>
+            <Ionicons name="trash-outline" size={14} color="#ef4444" />
+            <Text style={[styles.chipText, { color: '#ef4444' }]}>Delete</Text>
+          </Pressable>
+        )}
+      </View>
+
+      {panel === 'date' ? (
+        <View style={styles.inputRow}>
+          <View style={{ flex: 1 }}>
+            <DateTimeField placeholder={dateLabel} value={date} onChange={setDate} />
+          </View>
+          <TouchableOpacity onPress={() => onSetDate(null)} style={[styles.ghostButton, { height: 44 }]}>
+            <Text style={styles.ghostButtonText}>No date</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={() => onSetDate(date)}
+            disabled={!date}
+            style={[styles.primaryButton, { paddingHorizontal: 18, height: 44 }, !date && { opacity: 0.6 }]}>
+            <Text style={styles.primaryButtonText}>Apply</Text>
+          </TouchableOpacity>
+        </View>
+      ) : null}
+      {panel === 'folder' && folders && onMoveToFolder ? (
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={{ gap: 8 }}>
+          <Pressable onPress={() => onMoveToFolder(null)} style={styles.chip}>
+            <Text style={styles.chipText}>Geen folder</Text>
+          </Pressable>
+          {folders.map((folder) => (
+            <Pressable key={folder.id} onPress={() => onMoveToFolder(folder.id)} style={styles.chip}>
+              <Text style={styles.chipText}>{folder.name}</Text>
+            </Pressable>
+          ))}
+        </ScrollView>
+      ) : null}
+      {panel === 'project' && projects && onSetProject ? (
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={{ gap: 8 }}>
+          <Pressable onPress={() => onSetProject(null)} style={styles.chip}>
+            <Text style={styles.chipText}>Geen project</Text>
+          </Pressable>
+          {activeProjects(projects).map((project) => (
+            <Pressable
+              key={project.id}
+              onPress={() => onSetProject(project)}
+              style={[styles.chip, styles.quickAddChip]}>
+              <View style={[styles.projectDot, { backgroundColor: project.color || DEFAULT_PROJECT_COLOR }]} />
+              <Text style={styles.chipText}>{project.name}</Text>
+            </Pressable>
+          ))}
+        </ScrollView>
+      ) : null}
+    </View>
+  );
+}
+
+type TaskStepsProps = {
+  task: Task;
+  tasks: Task[];
+  onToggle: (task: Task) => void;
+  onDelete: (id: string) => void;
+  onChangeChecklist: (task: Task, checklist: ChecklistItem[]) => void;
+  onAddSubtask: (parent: Task, title: string) => void;
+  onChangeBlockers: (task: Task, blockedBy: string[]) => void;
+};
+
+// The subtasks, checklist and blockers of an expanded task card.
+function TaskSteps({
+  task,
+  tasks,
+  onToggle,
+  onDelete,
+  onChangeChecklist,
+  onAddSubtask,
+  onChangeBlockers,
+}: TaskStepsProps) {
+  const [text, setText] = useState('');
+  const [pickingBlocker, setPickingBlocker] = useState(false);
+  const subtasks = childrenOf(tasks, task.id);
+  const checklist = task.checklist ?? [];
+  const blockedBy = task.blocked_by ?? [];
+  const blockers = tasks.filter((other) => blockedBy.includes(other.id));
+  const dependents = dependentsOf(task, tasks);
+  const candidates = tasks.filter((other) => other.id !== task.id && !other.is_done && !blockedBy.includes(other.id));
+
+  const addStep = (kind: 'subtask' | 'checklist') => {
+    if (!text.trim()) return;
+    if (kind === 'subtask') onAddSubtask(task, text);
+    else onChangeChecklist(task, [...checklist, newChecklistItem(text)]);
+    setText('');
+  };
+
+  return (
+    <View style={styles.subtaskPanel}>
+      {subtasks.map((subtask) => {
+        const progress = taskProgress(subtask, tasks);
+        return (
+          <View key={subtask.id} style={styles.subtaskRow}>
+            <Pressable onPress={() => onToggle(subtask)} style={styles.taskToggle}>
+              <Ionicons
+                name={subtask.is_done ? 'checkbox' : isBlocked(subtask, tasks) ? 'lock-closed-outline' : 'square-outline'}
+                size={18}
+                color={subtask.is_done ? ACCENT : '#4b5563'}
+              />
+              <Text style={[styles.subtaskText, subtask.is_done && { textDecorationLine: 'line-through', color: MUTED }]}>
+                {subtask.title}
+              </Text>
+              {progress.total > 0 ? (
+                <Text style={styles.metaText}>
+                  {progress.done}/{progress.total}
+                </Text>
+              ) : null}
+            </Pressable>
+            <Pressable hitSlop={8} onPress={() => onDelete(subtask.id)}>
+              <Ionicons name="trash-outline" size={14} color="#ef4444" />
+            </Pressable>
+          </View>
+        );
+      })}
+      {checklist.map((item) => (
+        <View key={item.id} style={styles.subtaskRow}>
+          <Pressable
+            onPress={() =>
+              onChangeChecklist(
+                task,
+                checklist.map((entry) => (entry.id === item.id ? { ...entry, done: !entry.done } : entry)),
+              )
+            }
+            style={styles.taskToggle}>
+            <Ionicons
+              name={item.done ? 'checkmark-circle' : 'ellipse-outline'}
+              size={18}
+              color={item.done ? ACCENT : '#9ca3af'}
+            />
+            <Text style={[styles.subtaskText, item.done && { textDecorationLine: 'line-through', color: MUTED }]}>
+              {item.text}
+            </Text>
+          </Pressable>
+          <Pressable
+            hitSlop={8}
+            onPress={() => onChangeChecklist(task, checklist.filter((entry) => entry.id !== item.id))}>
+            <Ionicons name="close" size={16} color="#9ca3af" />
+          </Pressable>
+        </View>
+      ))}
+      <View style={[styles.subtaskRow, { flexWrap: 'wrap' }]}>
+        <Ionicons name="lock-closed-outline" size={16} color={MUTED} />
+        <Text style={styles.metaText}>Blocked by</Text>
+        {blockers.map((blocker) => (
+          <Pressable
+            key={blocker.id}
+            onPress={() => onChangeBlockers(task, blockedBy.filter((id) => id !== blocker.id))}
+            style={[styles.chip, styles.quickAddChip, blocker.is_done && { opacity: 0.6 }]}>
+            <Text style={[styles.chipText, blocker.is_done && { textDecorationLine: 'line-through' }]}>
+              {blocker.title}
+            </Text>
+            <Ionicons name="close" size={14} color="#9ca3af" />
+          </Pressable>
+        ))}
+        <Pressable
+          onPress={() => setPickingBlocker((open) => !open)}
+          style={[
+            styles.chip,
+            styles.quickAddChip,
+            pickingBlocker && { backgroundColor: '#e5e7ff', borderColor: 'transparent' },
+          ]}>
+          <Ionicons name={pickingBlocker ? 'chevron-up' : 'add'} size={14} color={ACCENT} />
+          <Text style={[styles.chipText, { color: ACCENT }]}>Task</Text>
+        </Pressable>
+      </View>
+      {pickingBlocker ? (
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={{ gap: 8 }}>
+          {candidates.length === 0 ? <Text style={styles.metaText}>No other open tasks</Text> : null}
+          {candidates.map((candidate) => (
+            <Pressable
+              key={candidate.id}
+              onPress={() => {
+                setPickingBlocker(false);
+                onChangeBlockers(task, [...blockedBy, candidate.id]);
+              }}
+              style={styles.chip}>
+              <Text style={styles.chipText}>{candidate.title}</Text>
+            </Pressable>
+          ))}
+        </ScrollView>
+      ) : null}
+      {dependents.length ? (
+        <Text style={styles.metaText}>Blocks {dependents.map((dependent) => dependent.title).join(', ')}</Text>
+      ) : null}
+      <View style={styles.subtaskRow}>
+        <TextInput
+          placeholder="Add a step..."
+          value={text}
+          onChangeText={setText}
+          onSubmitEditing={() => addStep('subtask')}
+          style={[styles.textInput, { fontSize: 14 }]}
+          placeholderTextColor="#9ca3af"
+        />
+        <TouchableOpacity onPress={() => addStep('subtask')} disabled={!text.trim()} style={styles.ghostButton}>
+          <Text style={styles.ghostButtonText}>Subtask</Text>
+        </TouchableOpacity>
+        <TouchableOpacity onPress={() => addStep('checklist')} disabled={!text.trim()} style={styles.ghostButton}>
+          <Text style={styles.ghostButtonText}>Checklist</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+type ProjectPickerProps = {
+  projects: Project[];
+  value: string | null;
+  onChange: (projectId: string | null) => void;
+  onCreate: (name: string) => Promise<Project | null>;
+};
+
+// Chips for the active projects, plus a field to create one on the spot.
+function ProjectPicker({ projects, value, onChange, onCreate }: ProjectPickerProps) {
+  const [creating, setCreating] = useState(false);
+  const [newName, setNewName] = useState('');
+  // An archived project stays visible while it is the selected one
+  const options = activeProjects(projects.filter((project) => !isArchived(project) || project.id === value));
+
+  const submit = async () => {
+    if (!newName.trim()) return;
+    const project = await onCreate(newName);
+    if (!project) return;
+    onChange(project.id);
+    setNewName('');
+    setCreating(false);
+  };
+
+  return (
+    <View style={{ gap: 10 }}>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={{ gap: 8 }}>
+        <Pressable
+          onPress={() => onChange(null)}
+          style={[styles.chip, !value && { backgroundColor: '#eef2ff', borderColor: 'transparent' }]}>
+          <Text style={[styles.chipText, !value && { color: ACCENT, fontWeight: '700' }]}>Geen project</Text>
+        </Pressable>
+        {options.map((project) => (
+          <Pressable
+            key={project.id}
+            onPress={() => onChange(project.id)}
+            style={[
+              styles.chip,
+              styles.quickAddChip,
+              value === project.id && { backgroundColor: '#eef2ff', borderColor: 'transparent' },
+            ]}>
+            <View style={[styles.projectDot, { backgroundColor: project.color || DEFAULT_PROJECT_COLOR }]} />
+            <Text style={[styles.chipText, value === project.id && { color: ACCENT, fontWeight: '700' }]}>
+              {project.name}
+            </Text>
+          </Pressable>
+        ))}
+        <Pressable onPress={() => setCreating((open) => !open)} style={[styles.chip, styles.quickAddChip]}>
+          <Ionicons name={creating ? 'close' : 'add'} size={14} color={ACCENT} />
+          <Text style={[styles.chipText, { color: ACCENT }]}>New project</Text>
+        </Pressable>
+      </ScrollView>
+      {creating ? (
+        <View style={styles.inputRow}>
+          <TextInput
+            style={[styles.overlayInput, { flex: 1 }]}
+            placeholder="Bijv. 'Website redesign'"
+            placeholderTextColor="#9ca3af"
+            value={newName}
+            onChangeText={setNewName}
+            onSubmitEditing={submit}
+            autoFocus
+          />
+          <TouchableOpacity
+            onPress={submit}
+            disabled={!newName.trim()}
+            style={[styles.primaryButton, { paddingHorizontal: 18, height: 44 }, !newName.trim() && { opacity: 0.6 }]}>
+            <Text style={styles.primaryButtonText}>Add</Text>
+          </TouchableOpacity>
+        </View>
+      ) : null}
+    </View>
+  );
+}
+
+type ProjectItemKind = 'task' | 'note' | 'event';
+
+type ProjectsViewProps = {
+  projects: Project[];
+  error: string | null;
+  tasks: Task[];
+  notes: Note[];
+  events: AgendaEvent[];
+  onCreate: (input: Omit<NewProject, 'user_id'>) => Promise<Project | null>;
+  onUpdate: (project: Project, patch: Partial<Project>) => void;
+  onDelete: (project: Project) => void;
+  onLink: (kind: ProjectItemKind, id: string, project: Project | null) => void;
+  onToggleTask: (task: Task) => void;
+  onAddTask: (project: Project) => void;
+};
+
+function ProjectsView({
+  projects,
+  error,
+  tasks,
+  notes,
+  events,
+  onCreate,
+  onUpdate,
+  onDelete,
+  onLink,
+  onToggleTask,
+  onAddTask,
+}: ProjectsViewProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
+  const [name, setName] = useState('');
+  const selected = projects.find((project) => project.id === selectedId);
+  const archivedCount = projects.filter(isArchived).length;
+  const listed = showArchived
+    ? projects.filter(isArchived).sort((a, b) => a.name.localeCompare(b.name))
+    : activeProjects(projects);
+
+  const create = async () => {
+    const project = await onCreate({ name });
+    if (!project) return;
+    setName('');
+    setSelectedId(project.id);
+  };
+
+  if (selected) {
+    return (
+      <ProjectDetail
+        key={selected.id}
+        project={selected}
+        tasks={tasks}
+        notes={notes}
+        events={events}
+        onBack={() => setSelectedId(null)}
+        onUpdate={onUpdate}
+        onDelete={(project) => {
+          setSelectedId(null);
+          onDelete(project);
+        }}
+        onLink={onLink}
+        onToggleTask={onToggleTask}
+        onAddTask={onAddTask}
+      />
+    );
+  }
+
+  return (
+    <View style={{ gap: 16 }}>
+      <Animated.View style={styles.pageHeader} entering={isWeb ? undefined : FadeInDown.duration(200)}>
+        <View>
+          <Text style={styles.heading}>Projects</Text>
+          <Text style={styles.subheading}>{activeProjects(projects).length} active</Text>
+        </View>
+      </Animated.View>
+
+      <Animated.View
+        entering={isWeb ? undefined : FadeInDown.delay(60).duration(220)}
+        layout={isWeb ? undefined : Layout.springify()}
+        style={[styles.card, { gap: 12 }]}>
+        <View style={styles.inputRow}>
+          <Ionicons name="add" size={18} color={ACCENT} />
+          <TextInput
+            placeholder="New project, e.g. Website redesign"
+            value={name}
+            onChangeText={setName}
+            onSubmitEditing={create}
+            style={styles.textInput}
+            placeholderTextColor="#9ca3af"
+          />
+          <TouchableOpacity
+            onPress={create}
+            disabled={!name.trim()}
+            style={[styles.primaryButton, { paddingHorizontal: 18, height: 44 }, !name.trim() && { opacity: 0.6 }]}>
+            <Text style={styles.primaryButtonText}>Add</Text>
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.chipsRow}>
+          {[false, true].map((archived) => (
+            <Pressable
+              key={String(archived)}
+              onPress={() => setShowArchived(archived)}
+              style={[
+                styles.chip,
+                showArchived === archived && { backgroundColor: '#e5e7ff', borderColor: 'transparent' },
+              ]}>
+              <Text style={[styles.chipText, showArchived === archived && { color: ACCENT, fontWeight: '700' }]}>
+                {archived ? `Archived${archivedCount ? ` (${archivedCount})` : ''}` : 'Active'}
+              </Text>
+            </Pressable>
+          ))}
+        </View>
+
+        {error ? <Text style={styles.errorText}>{error}</Text> : null}
+
+        {listed.length === 0 ? (
+          <Animated.View style={styles.emptyState} entering={isWeb ? undefined : FadeInDown.duration(200)}>
+            <Ionicons name="briefcase-outline" size={32} color={ACCENT} />
+            <Text style={styles.emptyText}>{showArchived ? 'No archived projects' : 'No projects yet'}</Text>
+            <Text style={styles.metaText}>
+              {showArchived ? 'Archived projects show up here.' : 'Group tasks, notes and events in a project.'}
+            </Text>
+          </Animated.View>
+        ) : (
+          <View style={{ gap: 10 }}>
+            {listed.map((project) => {
+              const projectTaskList = projectTasks(project, tasks);
+              const openCount = projectTaskList.filter((task) => !task.is_done).length;
+              const noteCount = notes.filter((note) => note.project_id === project.id).length;
+              const eventCount = events.filter((event) => event.project_id === project.id).length;
+              return (
+                <Animated.View
+                  key={project.id}
+                  entering={isWeb ? undefined : FadeInDown.duration(180)}
+                  layout={isWeb ? undefined : Layout.springify()}>
+                  <Pressable onPress={() => setSelectedId(project.id)} style={styles.taskCard}>
+                    <View style={styles.taskToggle}>
+                      <Ionicons
+                        name={(project.icon as keyof typeof Ionicons.glyphMap) || DEFAULT_PROJECT_ICON}
+                        size={22}
+                        color={project.color || DEFAULT_PROJECT_COLOR}
+                      />
+                      <View style={{ flexShrink: 1 }}>
+                        <Text style={styles.taskTitle}>{project.name}</Text>
+                        <Text style={styles.taskSubtext}>
+                          {openCount} open · {projectTaskList.length} task{projectTaskList.length === 1 ? '' : 's'} ·{' '}
+                          {noteCount} note{noteCount === 1 ? '' : 's'} · {eventCount} event{eventCount === 1 ? '' : 's'}
+                        </Text>
+                      </View>
+                    </View>
+                    <Ionicons name="chevron-forward" size={18} color={MUTED} />
+                  </Pressable>
+                </Animated.View>
+              );
+            })}
+          </View>
+        )}
+      </Animated.View>
+    </View>
+  );
+}
+
+type ProjectDetailProps = {
+  project: Project;
+  tasks: Task[];
+  notes: Note[];
+  events: AgendaEvent[];
+  onBack: () => void;
+  onUpdate: (project: Project, patch: Partial<Project>) => void;
+  onDelete: (project: Project) => void;
+  onLink: (kind: ProjectItemKind, id: string, project: Project | null) => void;
+  onToggleTask: (task: Task) => void;
+  onAddTask: (project: Project) => void;
+};
+
+// One project: its settings, and the tasks, notes and events linked to it.
+function ProjectDetail({
+  project,
+  tasks,
+  notes,
+  events,
+  onBack,
+  onUpdate,
+  onDelete,
+  onLink,
+  onToggleTask,
+  onAddTask,
+}: ProjectDetailProps) {
+  const [name, setName] = useState(project.name);
+  const [description, setDescription] = useState(project.description ?? '');
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const [linking, setLinking] = useState<ProjectItemKind | null>(null);
+  const color = project.color || DEFAULT_PROJECT_COLOR;
+  const now = new Date();
+
+  const linkedTasks = projectTasks(project, tasks);
+  const linkedNotes = notes.filter((note) => note.project_id === project.id);
+  const linkedEvents = events
+    .filter((event) => event.project_id === project.id)
+    .sort((a, b) => (a.starts_at ?? '').localeCompare(b.starts_at ?? ''));
+  // Only items without a project are offered, so linking never moves things silently
+  const candidates: Record<ProjectItemKind, { id: string; title: string }[]> = {
+    task: tasks.filter((task) => !task.is_done && !task.project_id && !task.project?.trim()),
+    note: notes.filter((note) => !note.project_id),
+    event: events.filter((event) => !event.project_id),
+  };
+  const edited = name.trim() !== project.name || description.trim() !== (project.description ?? '');
+
+  const section = (
+    kind: ProjectItemKind,
+    title: string,
+    rows: { id: string; title: string; meta?: string; done?: boolean; onPress?: () => void }[],
+  ) => (
+    <View style={styles.taskGroup}>
+      <View style={styles.taskGroupHeader}>
+        <Text style={styles.sectionTitle}>{title}</Text>
+        <View style={{ flexDirection: 'row', gap: 6 }}>
+          {kind === 'task' ? (
+            <Pressable onPress={() => onAddTask(project)} style={styles.iconButton}>
+              <Ionicons name="add" size={16} color={ACCENT} />
+            </Pressable>
+          ) : null}
+          <Pressable onPress={() => setLinking(linking === kind ? null : kind)} style={styles.iconButton}>
+            <Ionicons name={linking === kind ? 'close' : 'link-outline'} size={16} color={ACCENT} />
+          </Pressable>
+        </View>
+      </View>
+      {linking === kind ? (
+        candidates[kind].length ? (
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={{ gap: 8 }}>
+            {candidates[kind].map((item) => (
+              <Pressable key={item.id} onPress={() => onLink(kind, item.id, project)} style={[styles.chip, styles.quickAddChip]}>
+                <Ionicons name="add" size={14} color={ACCENT} />
+                <Text style={styles.chipText}>{item.title}</Text>
+              </Pressable>
+            ))}
+          </ScrollView>
+        ) : (
+          <Text style={styles.metaText}>Nothing left without a project.</Text>
+        )
+      ) : null}
+      {rows.length === 0 ? <Text style={styles.metaText}>None yet</Text> : null}
+      {rows.map((row) => (
+        <View key={row.id} style={styles.taskCard}>
+          <Pressable onPress={row.onPress} disabled={!row.onPress} style={styles.taskToggle}>
+            {kind === 'task' ? (
+              <Ionicons name={row.done ? 'checkbox' : 'square-outline'} size={20} color={row.done ? ACCENT : '#4b5563'} />
+            ) : (
+              <Ionicons name={kind === 'note' ? 'document-text-outline' : 'calendar-outline'} size={20} color="#4b5563" />
+            )}
+            <View style={{ flexShrink: 1 }}>
+              <Text style={[styles.taskTitle, row.done && { textDecorationLine: 'line-through', color: MUTED }]}>
+                {row.title}
+              </Text>
+              {row.meta ? <Text style={styles.taskSubtext}>{row.meta}</Text> : null}
+            </View>
+          </Pressable>
+          <Pressable onPress={() => onLink(kind, row.id, null)} style={styles.iconButton}>
+            <Ionicons name="remove-circle-outline" size={16} color={MUTED} />
+          </Pressable>
+        </View>
+      ))}
+    </View>
+  );
+
+  return (
+    <View style={{ gap: 16 }}>
+      <Animated.View style={styles.pageHeader} entering={isWeb ? undefined : FadeInDown.duration(200)}>
+        <View style={{ flexDirection: 'row', alignItems: 'center', gap: 12 }}>
+          <Pressable onPress={onBack} style={styles.iconButton}>
+            <Ionicons name="chevron-back" size={18} color={ACCENT} />
+          </Pressable>
+          <Ionicons name={(project.icon as keyof typeof Ionicons.glyphMap) || DEFAULT_PROJECT_ICON} size={26} color={color} />
+          <View style={{ flexShrink: 1 }}>
+            <Text style={styles.heading}>{project.name}</Text>
+            <Text style={styles.subheading}>
+              {isArchived(project) ? 'Archived' : `${linkedTasks.filter((task) => !task.is_done).length} open tasks`}
+            </Text>
+          </View>
+        </View>
+      </Animated.View>
+
+      <Animated.View
+        entering={isWeb ? undefined : FadeInDown.delay(60).duration(220)}
+        layout={isWeb ? undefined : Layout.springify()}
+        style={[styles.card, { gap: 12 }]}>
+        <View style={styles.inputRow}>
+          <TextInput
+            value={name}
+            onChangeText={setName}
+            placeholder="Project name"
+            style={styles.textInput}
+            placeholderTextColor="#9ca3af"
+          />
+        </View>
+        <View style={styles.inputRow}>
+          <TextInput
+            value={description}
+            onChangeText={setDescription}
+            placeholder="Description (optional)"
+            style={styles.textInput}
+            placeholderTextColor="#9ca3af"
+            multiline
+          />
+        </View>
+        <View style={[styles.chipsRow, { flexWrap: 'wrap' }]}>
+          {PROJECT_COLORS.map((option) => (
+            <Pressable
+              key={option}
+              onPress={() => onUpdate(project, { color: option })}
+              style={[styles.projectSwatch, { backgroundColor: option }, color === option && styles.projectSwatchActive]}
+            />
+          ))}
+        </View>
+        <View style={[styles.chipsRow, { flexWrap: 'wrap' }]}>
+          {PROJECT_ICONS.map((icon) => (
+            <Pressable
+              key={icon}
+              onPress={() => onUpdate(project, { icon })}
+              style={[
+                styles.chip,
+                (project.icon || DEFAULT_PROJECT_ICON) === icon && { backgroundColor: '#eef2ff', borderColor: 'transparent' },
+              ]}>
+              <Ionicons name={icon} size={16} color={(project.icon || DEFAULT_PROJECT_ICON) === icon ? color : '#4b5563'} />
+            </Pressable>
+          ))}
+        </View>
+        <View style={[styles.inputRow, { flexWrap: 'wrap' }]}>
+          <TouchableOpacity
+            disabled={!edited || !name.trim()}
+            onPress={() => onUpdate(project, { name: name.trim(), description: description.trim() || null })}
+            style={[styles.primaryButton, { paddingHorizontal: 18, height: 44 }, (!edited || !name.trim()) && { opacity: 0.6 }]}>
+            <Text style={styles.primaryButtonText}>Save</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={() => onUpdate(project, { archived_at: isArchived(project) ? null : new Date().toISOString() })}
+            style={styles.secondaryButton}>
+            <Ionicons name={isArchived(project) ? 'arrow-undo-outline' : 'archive-outline'} size={16} color={ACCENT} />
+            <Text style={styles.secondaryButtonText}>{isArchived(project) ? 'Unarchive' : 'Archive'}</Text>
+          </TouchableOpacity>
+          {confirmDelete ? (
+            <>
+              <TouchableOpacity onPress={() => setConfirmDelete(false)} style={[styles.ghostButton, { height: 44 }]}>
+                <Text style={styles.ghostButtonText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity onPress={() => onDelete(project)} style={styles.secondaryButton}>
+                <Ionicons name="trash-outline" size={16} color="#ef4444" />
+                <Text style={[styles.secondaryButtonText, { color: '#ef4444' }]}>Delete project, keep its items</Text>
+              </TouchableOpacity>
+            </>
+          ) : (
+            <TouchableOpacity onPress={() => setConfirmDelete(true)} style={styles.secondaryButton}>
+              <Ionicons name="trash-outline" size={16} color="#ef4444" />
+              <Text style={[styles.secondaryButtonText, { color: '#ef4444' }]}>Delete</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </Animated.View>
+
+      <Animated.View
+        entering={isWeb ? undefined : FadeInDown.delay(90).duration(220)}
+        layout={isWeb ? undefined : Layout.springify()}
+        style={[styles.card, { gap: 16 }]}>
+        {section(
+          'task',
+          `Tasks (${linkedTasks.length})`,
+          linkedTasks.map((task) => ({
+            id: task.id,
+            title: task.title,
+            meta: task.due_at ? formatDue(task.due_at, now) : undefined,
+            done: task.is_done,
+            onPress: () => onToggleTask(task),
+          })),
+        )}
+        {section(
+          'note',
+          `Notes (${linkedNotes.length})`,
+          linkedNotes.map((note) => ({ id: note.id, title: note.title || 'Untitled' })),
+        )}
+        {section(
+          'event',
+          `Events (${linkedEvents.length})`,
+          linkedEvents.map((event) => ({
+            id: event.id,
+            title: event.title,
+            meta: [event.starts_at ? new Date(event.starts_at).toLocaleString() : null, event.location]
+              .filter(Boolean)
+              .join(' · '),
+          })),
+        )}
+      </Animated.View>
+    </View>
+  );
+}
+
+type AgendaViewProps = {
+  events: AgendaEvent[];
+  loading: boolean;
+  error: string | null;
+  value: string;
+  startValue: string | null;
+  endValue: string | null;
+  locationValue: string;
+  recurrence: string | null;
+  onChangeValue: (v: string) => void;
+  onChangeStart: (v: string | null) => void;
+  onChangeEnd: (v: string | null) => void;
+  onChangeLocation: (v: string) => void;
+  onChangeRecurrence: (rule: string | null) => void;
+  onAdd: () => void;
+  onDelete: (occurrence: EventOccurrence, scope: OccurrenceScope) => void;
+  editing: EventOccurrence | null;
+  scope: OccurrenceScope;
+  onChangeScope: (scope: OccurrenceScope) => void;
+  onEdit: (occurrence: EventOccurrence) => void;
+  onCancelEdit: () => void;
+  onImport: () => void;
+  // Without a range the whole agenda is exported.
+  onExport: (range?: { from: Date; to: Date }) => void;
+  userId: string | null;
+  onCreateAt: (start: Date) => void;
+  onMove: (occurrence: EventOccurrence, start: Date) => void;
+  onRefresh: () => void;
+};
+
+type AgendaMode = 'list' | CalendarMode;
+
+const AGENDA_MODES: { key: AgendaMode; label: string }[] = [
+  { key: 'list', label: 'List' },
+  { key: 'month', label: 'Month' },
+  { key: 'week', label: 'Week' },
+  { key: 'day', label: 'Day' },
+];
+
+const OCCURRENCE_SCOPES: { key: OccurrenceScope; label: string }[] = [
+  { key: 'this', label: 'This event' },
+  { key: 'following', label: 'This and following' },
+  { key: 'all', label: 'All events' },
+];
+
+// Upcoming range shown at first; "Show more" extends it by the same amount.
+const AGENDA_RANGE_WEEKS = 4;
+
+function AgendaView({
+  events,
+  loading,
+  error,
+  value,
+  startValue,
+  endValue,
+  locationValue,
+  recurrence,
+  onChangeValue,
+  onChangeStart,
+  onChangeEnd,
+  onChangeLocation,
+  onChangeRecurrence,
+  onAdd,
+  onDelete,
+  editing,
+  scope,
+  onChangeScope,
+  onEdit,
+  onCancelEdit,
+  onImport,
+  onExport,
+  userId,
+  onCreateAt,
+  onMove,
+  onRefresh,
+}: AgendaViewProps) {
+  const [mode, setMode] = useState<AgendaMode>('list');
+  const [anchor, setAnchor] = useState(() => new Date());
+  const calendarOccurrences = useMemo(() => {
+    if (mode === 'list') return [];
+    const { from, to } = calendarRange(mode, anchor);
+    return expandEvents(events, from, to);
+  }, [events, mode, anchor]);
+  const calendarTitle =
+    mode === 'day'
+      ? anchor.toLocaleDateString(undefined, { weekday: 'long', day: 'numeric', month: 'long' })
+      : mode === 'week'
+        ? `${calendarRange('week', anchor).from.toLocaleDateString(undefined, { day: 'numeric', month: 'short' })} – ${addDays(calendarRange('week', anchor).to, -1).toLocaleDateString(undefined, { day: 'numeric', month: 'short', year: 'numeric' })}`
+        : anchor.toLocaleDateString(undefined, { month: 'long', year: 'numeric' });
+  const [showFeed, setShowFeed] = useState(false);
+  const calendarFeed = useCalendarFeed(userId, showFeed);
+  const [weeks, setWeeks] = useState(AGENDA_RANGE_WEEKS);
+  const [deletingKey, setDeletingKey] = useState<string | null>(null);
+  const [showExport, setShowExport] = useState(false);
+  const [exportFrom, setExportFrom] = useState<string | null>(null);
+  const [exportTo, setExportTo] = useState<string | null>(null);
+  const occurrences = useMemo(() => {
+    const now = new Date();
+    const from = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    const to = new Date(from.getFullYear(), from.getMonth(), from.getDate() + weeks * 7);
+    return expandEvents(events, from, to);
+  }, [events, weeks]);
+
+  const exportRange = () => {
+    if (!exportFrom && !exportTo) return onExport();
+    // The end date is inclusive: export up to the end of that day
+    const end = exportTo ? new Date(exportTo) : null;
+    end?.setHours(23, 59, 59, 999);
+    onExport({ from: exportFrom ? new Date(exportFrom) : new Date(0), to: end ?? new Date(8.64e15) });
+  };
+  const editingSeries = !!editing?.original_start;
+  const quickAdd = useMemo(() => parseQuickAdd(value), [value]);
+
+  const scopeChipStyle = (active: boolean) => [
+    styles.chip,
+    active && { backgroundColor: '#e5e7ff', borderColor: 'transparent' },
+  ];
+  const scopeChipTextStyle = (active: boolean) => [
+    styles.chipText,
+    active && { color: ACCENT, fontWeight: '700' as const },
+  ];
+
+  return (
+    <View style={{ gap: 16 }}>
+      <Animated.View style={styles.pageHeader} entering={isWeb ? undefined : FadeInDown.duration(200)}>
+        <View>
+          <Text style={styles.heading}>Agenda</Text>
+          <Text style={styles.subheading}>{occurrences.length} upcoming</Text>
+        </View>
+        <View style={{ flexDirection: 'row', gap: 8 }}>
+          <TouchableOpacity onPress={onImport} style={styles.ghostButton}>
+            <Text style={styles.ghostButtonText}>Import .ics</Text>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={() => setShowExport((open) => !open)} style={styles.ghostButton}>
+            <Text style={styles.ghostButtonText}>Export .ics</Text>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={() => setShowFeed((open) => !open)} style={styles.ghostButton}>
+            <Text style={styles.ghostButtonText}>Feed</Text>
+          </TouchableOpacity>
+        </View>
+      </Animated.View>
+
+      {showFeed ? (
+        <Animated.View
+          entering={isWeb ? undefined : FadeInDown.duration(180)}
+          style={[styles.card, { gap: 10 }]}>
+          <Text style={styles.inputLabel}>Calendar feed</Text>
+          <Text style={styles.metaText}>
+            Subscribe from any calendar app to see your events, due tasks and reminders. Anyone with the link
+            can read it; make a new link or revoke it if it leaks.
+          </Text>
+          {calendarFeed.loading ? (
+            <ActivityIndicator color={ACCENT} />
+          ) : calendarFeed.url ? (
+            <>
+              <Text selectable style={[styles.metaText, { color: '#1f2937' }]}>
+                {calendarFeed.url}
+              </Text>
+              <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 8 }}>
+                <TouchableOpacity
+                  onPress={() => Linking.openURL(calendarSubscribeUrl(calendarFeed.url!))}
+                  style={[styles.primaryButton, { paddingHorizontal: 18 }]}>
+                  <Text style={styles.primaryButtonText}>Subscribe</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  onPress={() => Share.share({ message: calendarFeed.url! })}
+                  style={styles.ghostButton}>
+                  <Text style={styles.ghostButtonText}>Share</Text>
+                </TouchableOpacity>
+                <TouchableOpacity onPress={calendarFeed.rotate} style={styles.ghostButton}>
+                  <Text style={styles.ghostButtonText}>New link</Text>
+                </TouchableOpacity>
+                <TouchableOpacity onPress={calendarFeed.revoke} style={styles.ghostButton}>
+                  <Text style={[styles.ghostButtonText, { color: '#ef4444' }]}>Revoke</Text>
+                </TouchableOpacity>
+              </View>
+            </>
+          ) : (
+            <TouchableOpacity
+              onPress={calendarFeed.rotate}
+              style={[styles.primaryButton, { alignSelf: 'flex-start', paddingHorizontal: 18 }]}>
+              <Text style={styles.primaryButtonText}>Create feed link</Text>
+            </TouchableOpacity>
+          )}
+          {calendarFeed.error ? <Text style={styles.errorText}>{calendarFeed.error}</Text> : null}
+        </Animated.View>
+      ) : null}
+
+      {showExport ? (
+        <Animated.View
+          entering={isWeb ? undefined : FadeInDown.duration(180)}
+          style={[styles.card, { gap: 10 }]}>
+          <Text style={styles.inputLabel}>Export (leave empty for the whole agenda)</Text>
+          <DateTimeField mode="date" placeholder="From" value={exportFrom} onChange={setExportFrom} />
+          <DateTimeField
+            mode="date"
+            placeholder="To"
+            value={exportTo}
+            onChange={setExportTo}
+            minimumDate={exportFrom ? new Date(exportFrom) : undefined}
+            invalid={!!exportFrom && !!exportTo && new Date(exportTo) < new Date(exportFrom)}
+          />
+          <TouchableOpacity
+            onPress={exportRange}
+            disabled={!events.length}
+            style={[styles.primaryButton, { alignSelf: 'flex-start', paddingHorizontal: 18 }]}>
+            <Text style={styles.primaryButtonText}>Export</Text>
+          </TouchableOpacity>
+        </Animated.View>
+      ) : null}
+
+      <Animated.View
+        entering={isWeb ? undefined : FadeInDown.delay(60).duration(220)}
+        layout={isWeb ? undefined : Layout.springify()}
+        style={[styles.card, { gap: 12 }]}>
+        <View style={{ gap: 10 }}>
+          <Text style={styles.inputLabel}>{editing ? 'Edit event' : 'New event'}</Text>
           <View style={styles.inputRow}>
-            <Ionicons name="time-outline" size={18} color={ACCENT} />
+            <Ionicons name="calendar-outline" size={18} color={ACCENT} />
             <TextInput
-              placeholder="Ends at (optional)"
-              value={endValue}
-              onChangeText={onChangeEnd}
+              placeholder="Title, e.g. Meeting vrijdag 10-11 @kantoor"
+              value={value}
+              onChangeText={onChangeValue}
               style={styles.textInput}
               placeholderTextColor="#9ca3af"
             />
           </View>
+          {!editing ? (
+            <QuickAddPreview
+              parsed={quickAdd}
+              fields={[...(startValue ? [] : ['when' as const]), ...(locationValue ? [] : ['location' as const])]}
+              defaultHour={9}
+            />
+          ) : null}
+          <DateTimeField placeholder="Starts at" value={startValue} onChange={onChangeStart} />
+          <DateTimeField
+            placeholder="Ends at (optional)"
+            value={endValue}
+            onChange={onChangeEnd}
+            minimumDate={startValue ? new Date(startValue) : undefined}
+            invalid={!!startValue && !!endValue && new Date(endValue) <= new Date(startValue)}
+          />
           <View style={styles.inputRow}>
             <Ionicons name="location-outline" size={18} color={ACCENT} />
             <TextInput
@@ -3491,24 +6289,102 @@ function AgendaView({
               placeholderTextColor="#9ca3af"
             />
           </View>
-          <TouchableOpacity
-            onPress={onAdd}
-            disabled={!value.trim() || loading}
-            style={[styles.primaryButton, { alignSelf: 'flex-start', paddingHorizontal: 18 }]}>
-            <Text style={styles.primaryButtonText}>Add Event</Text>
-          </TouchableOpacity>
+          {editingSeries ? (
+            <View style={styles.chipsRow}>
+              {OCCURRENCE_SCOPES.map((option) => (
+                <Pressable
+                  key={option.key}
+                  onPress={() => onChangeScope(option.key)}
+                  style={scopeChipStyle(scope === option.key)}>
+                  <Text style={scopeChipTextStyle(scope === option.key)}>{option.label}</Text>
+                </Pressable>
+              ))}
+            </View>
+          ) : null}
+          {/* A single occurrence can be moved, but its repeat rule belongs to the series */}
+          {editingSeries && scope === 'this' ? null : (
+            <RecurrencePicker
+              value={recurrence}
+              onChange={onChangeRecurrence}
+              anchor={new Date(startValue ?? Date.now())}
+            />
+          )}
+          <View style={{ flexDirection: 'row', gap: 8 }}>
+            <TouchableOpacity
+              onPress={onAdd}
+              disabled={!value.trim() || loading}
+              style={[styles.primaryButton, { alignSelf: 'flex-start', paddingHorizontal: 18 }]}>
+              <Text style={styles.primaryButtonText}>{editing ? 'Save' : 'Add Event'}</Text>
+            </TouchableOpacity>
+            {editing ? (
+              <TouchableOpacity onPress={onCancelEdit} style={styles.ghostButton}>
+                <Text style={styles.ghostButtonText}>Cancel</Text>
+              </TouchableOpacity>
+            ) : null}
+          </View>
         </View>
 
         {error ? <Text style={styles.errorText}>{error}</Text> : null}
 
-        {loading ? (
+        <View style={[styles.chipsRow, { flexWrap: 'wrap' }]}>
+          {AGENDA_MODES.map((option) => (
+            <Pressable
+              key={option.key}
+              onPress={() => setMode(option.key)}
+              style={[
+                styles.chip,
+                mode === option.key && { backgroundColor: '#e5e7ff', borderColor: 'transparent' },
+              ]}>
+              <Text style={[styles.chipText, mode === option.key && { color: ACCENT, fontWeight: '700' }]}>
+                {option.label}
+              </Text>
+            </Pressable>
+          ))}
+        </View>
+
+        {mode !== 'list' ? (
+          <View style={{ gap: 12 }}>
+            <View style={styles.calendarNavRow}>
+              <Pressable onPress={() => setAnchor(shiftAnchor(mode, anchor, -1))} style={styles.iconButton}>
+                <Ionicons name="chevron-back" size={18} color="#1f2937" />
+              </Pressable>
+              <Text style={[styles.sectionTitle, { flex: 1, textAlign: 'center' }]}>{calendarTitle}</Text>
+              {loading ? <ActivityIndicator color={ACCENT} /> : null}
+              <TouchableOpacity onPress={() => setAnchor(new Date())} style={styles.ghostButton}>
+                <Text style={styles.ghostButtonText}>Today</Text>
+              </TouchableOpacity>
+              <Pressable onPress={() => setAnchor(shiftAnchor(mode, anchor, 1))} style={styles.iconButton}>
+                <Ionicons name="chevron-forward" size={18} color="#1f2937" />
+              </Pressable>
+            </View>
+            {mode === 'month' ? (
+              <CalendarMonth
+                occurrences={calendarOccurrences}
+                anchor={anchor}
+                onSelectDay={(day) => {
+                  setAnchor(day);
+                  setMode('day');
+                }}
+              />
+            ) : (
+              <CalendarTimeline
+                occurrences={calendarOccurrences}
+                days={daysBetween(calendarRange(mode, anchor).from, calendarRange(mode, anchor).to)}
+                editingKey={editing?.occurrence_key ?? null}
+                onCreateAt={onCreateAt}
+                onMove={onMove}
+                onEdit={onEdit}
+              />
+            )}
+          </View>
+        ) : loading ? (
           <ActivityIndicator color={ACCENT} />
         ) : (
           <Animated.FlatList
             entering={isWeb ? undefined : FadeInDown.delay(90)}
             scrollEnabled={false}
-            data={events}
-            keyExtractor={(item) => item.id}
+            data={occurrences}
+            keyExtractor={(item) => item.occurrence_key}
             ItemSeparatorComponent={() => <View style={{ height: 10 }} />}
             renderItem={({ item }) => (
               <Animated.View
@@ -3522,11 +6398,49 @@ function AgendaView({
                       ? new Date(item.starts_at).toLocaleString()
                       : 'No start time'}
                   </Text>
+                  {item.original_start && describeRecurrence(item.recurrence) ? (
+                    <View style={{ flexDirection: 'row', alignItems: 'center', gap: 4 }}>
+                      <Ionicons name="repeat" size={12} color={MUTED} />
+                      <Text style={styles.metaText}>{describeRecurrence(item.recurrence)}</Text>
+                    </View>
+                  ) : null}
                   {item.location ? <Text style={styles.metaText}>{item.location}</Text> : null}
+                  {deletingKey === item.occurrence_key ? (
+                    <View style={styles.chipsRow}>
+                      {OCCURRENCE_SCOPES.map((option) => (
+                        <Pressable
+                          key={option.key}
+                          onPress={() => {
+                            setDeletingKey(null);
+                            onDelete(item, option.key);
+                          }}
+                          style={styles.chip}>
+                          <Text style={[styles.chipText, { color: '#ef4444' }]}>{option.label}</Text>
+                        </Pressable>
+                      ))}
+                      <Pressable onPress={() => setDeletingKey(null)} style={styles.chip}>
+                        <Text style={styles.chipText}>Cancel</Text>
+                      </Pressable>
+                    </View>
+                  ) : null}
+                </View>
+                <View style={{ flexDirection: 'row', gap: 6 }}>
+                  <Pressable onPress={() => onEdit(item)} style={styles.iconButton}>
+                    <Ionicons
+                      name="create-outline"
+                      size={16}
+                      color={editing?.occurrence_key === item.occurrence_key ? ACCENT : '#4b5563'}
+                    />
+                  </Pressable>
+                  <Pressable
+                    onPress={() =>
+                      // Recurring events ask which occurrences to remove first
+                      item.original_start ? setDeletingKey(item.occurrence_key) : onDelete(item, 'all')
+                    }
+                    style={styles.iconButton}>
+                    <Ionicons name="trash-outline" size={16} color="#ef4444" />
+                  </Pressable>
                 </View>
-                <Pressable onPress={() => onDelete(item.id)} style={styles.iconButton}>
-                  <Ionicons name="trash-outline" size={16} color="#ef4444" />
-                </Pressable>
               </Animated.View>
             )}
             ListEmptyComponent={
@@ -3536,6 +6450,15 @@ function AgendaView({
                 <Text style={styles.metaText}>Add your next meeting or class.</Text>
               </Animated.View>
             }
+            ListFooterComponent={
+              events.length ? (
+                <TouchableOpacity
+                  onPress={() => setWeeks((current) => current + AGENDA_RANGE_WEEKS)}
+                  style={[styles.ghostButton, { alignSelf: 'center', marginTop: 12 }]}>
+                  <Text style={styles.ghostButtonText}>Show more</Text>
+                </TouchableOpacity>
+              ) : null
+            }
           />
         )}
       </Animated.View>
@@ -3543,17 +6466,384 @@ function AgendaView({
   );
 }
 
+// Rows of days (six weeks) with the first few events per day; tapping a day opens it.
+function CalendarMonth({
+  occurrences,
+  anchor,
+  onSelectDay,
+}: {
+  occurrences: EventOccurrence[];
+  anchor: Date;
+  onSelectDay: (day: Date) => void;
+}) {
+  const { from, to } = calendarRange('month', anchor);
+  const days = daysBetween(from, to);
+  const today = new Date();
+  const timed = occurrences
+    .filter((o) => o.starts_at)
+    .map((o) => ({ item: o, start: new Date(o.starts_at!), end: o.ends_at ? new Date(o.ends_at) : null }));
+
+  return (
+    <View style={{ gap: 4 }}>
+      <View style={{ flexDirection: 'row' }}>
+        {['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'].map((label) => (
+          <Text key={label} style={[styles.metaText, { flex: 1, textAlign: 'center' }]}>
+            {label}
+          </Text>
+        ))}
+      </View>
+      {Array.from({ length: days.length / 7 }).map((_, week) => (
+        <View key={week} style={{ flexDirection: 'row', gap: 4 }}>
+          {days.slice(week * 7, week * 7 + 7).map((day) => {
+            const dayEvents = layoutDay(timed, day).map((block) => block.item);
+            const isToday = sameDay(day, today);
+            return (
+              <Pressable key={day.toISOString()} onPress={() => onSelectDay(day)} style={styles.monthCell}>
+                <Text
+                  style={[
+                    styles.monthDayNumber,
+                    day.getMonth() !== anchor.getMonth() && { color: '#cbd5e1' },
+                    isToday && { backgroundColor: ACCENT, color: '#fff' },
+                  ]}>
+                  {day.getDate()}
+                </Text>
+                {dayEvents.slice(0, 3).map((occurrence) => (
+                  <Text key={occurrence.occurrence_key} numberOfLines={1} style={styles.monthEventPill}>
+                    {occurrence.title}
+                  </Text>
+                ))}
+                {dayEvents.length > 3 ? <Text style={styles.metaText}>+{dayEvents.length - 3}</Text> : null}
+              </Pressable>
+            );
+          })}
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const HOUR_HEIGHT = 44;
+const MINUTE_HEIGHT = HOUR_HEIGHT / 60;
+// Drag and tap targets snap to this many minutes.
+const SNAP_MINUTES = 15;
+
+// Day columns on a 24-hour grid. Event blocks are sized by duration and share
+// the column width where they overlap; dragging one reschedules it (across
+// days in the week view), tapping empty space starts a new event there.
+function CalendarTimeline({
+  occurrences,
+  days,
+  editingKey,
+  onCreateAt,
+  onMove,
+  onEdit,
+}: {
+  occurrences: EventOccurrence[];
+  days: Date[];
+  editingKey: string | null;
+  onCreateAt: (start: Date) => void;
+  onMove: (occurrence: EventOccurrence, start: Date) => void;
+  onEdit: (occurrence: EventOccurrence) => void;
+}) {
+  const [columnWidth, setColumnWidth] = useState(0);
+  const now = new Date();
+  const timed = occurrences
+    .filter((o) => o.starts_at)
+    .map((o) => ({ item: o, start: new Date(o.starts_at!), end: o.ends_at ? new Date(o.ends_at) : null }));
+
+  return (
+    <View style={{ gap: 6 }}>
+      {days.length > 1 ? (
+        <View style={{ flexDirection: 'row', paddingLeft: 44 }}>
+          {days.map((day) => (
+            <Text
+              key={day.toISOString()}
+              style={[
+                styles.metaText,
+                { flex: 1, textAlign: 'center' },
+                sameDay(day, now) && { color: ACCENT, fontWeight: '700' },
+              ]}>
+              {day.toLocaleDateString(undefined, { weekday: 'short' })} {day.getDate()}
+            </Text>
+          ))}
+        </View>
+      ) : null}
+      <View style={{ flexDirection: 'row' }}>
+        <View style={{ width: 44 }}>
+          {Array.from({ length: 24 }).map((_, hour) => (
+            <Text key={hour} style={[styles.timelineHourLabel, { height: HOUR_HEIGHT }]}>
+              {`${String(hour).padStart(2, '0')}:00`}
+            </Text>
+          ))}
+        </View>
+        <View
+          style={{ flex: 1, flexDirection: 'row' }}
+          onLayout={(e) => setColumnWidth(e.nativeEvent.layout.width / days.length)}>
+          {days.map((day, dayIndex) => (
+            <Pressable
+              key={day.toISOString()}
+              onPress={(e) => {
+                const minutes = e.nativeEvent.locationY / MINUTE_HEIGHT;
+                onCreateAt(snapToMinutes(new Date(startOfDay(day).getTime() + minutes * 60000), 30));
+              }}
+              style={styles.timelineColumn}>
+              {Array.from({ length: 24 }).map((_, hour) => (
+                <View key={hour} pointerEvents="none" style={[styles.timelineHourLine, { top: hour * HOUR_HEIGHT }]} />
+              ))}
+              {sameDay(day, now) ? (
+                <View
+                  pointerEvents="none"
+                  style={[
+                    styles.timelineNowLine,
+                    { top: (now.getHours() * 60 + now.getMinutes()) * MINUTE_HEIGHT },
+                  ]}
+                />
+              ) : null}
+              {layoutDay(timed, day).map((block) => (
+                <TimelineEventBlock
+                  key={block.item.occurrence_key}
+                  block={block}
+                  dayIndex={dayIndex}
+                  dayCount={days.length}
+                  columnWidth={columnWidth}
+                  active={editingKey === block.item.occurrence_key}
+                  onMove={onMove}
+                  onPress={onEdit}
+                />
+              ))}
+            </Pressable>
+          ))}
+        </View>
+      </View>
+    </View>
+  );
+}
+
+function TimelineEventBlock({
+  block,
+  dayIndex,
+  dayCount,
+  columnWidth,
+  active,
+  onMove,
+  onPress,
+}: {
+  block: TimelineBlock<EventOccurrence>;
+  dayIndex: number;
+  dayCount: number;
+  columnWidth: number;
+  active: boolean;
+  onMove: (occurrence: EventOccurrence, start: Date) => void;
+  onPress: (occurrence: EventOccurrence) => void;
+}) {
+  const [drag, setDrag] = useState<{ x: number; y: number } | null>(null);
+  const { item } = block;
+
+  const responder = useMemo(() => {
+    const targetFor = (dx: number, dy: number) => {
+      const days = columnWidth ? Math.round(dx / columnWidth) : 0;
+      const dayShift = Math.min(Math.max(days, -dayIndex), dayCount - 1 - dayIndex);
+      const minutes = Math.round(dy / MINUTE_HEIGHT / SNAP_MINUTES) * SNAP_MINUTES;
+      return { dayShift, minutes };
+    };
+    return PanResponder.create({
+      // Only a real drag takes over; a plain tap still reaches the Pressable below.
+      onMoveShouldSetPanResponderCapture: (_, g) => Math.abs(g.dx) > 6 || Math.abs(g.dy) > 6,
+      onPanResponderTerminationRequest: () => false,
+      onPanResponderMove: (_, g) => {
+        const { dayShift, minutes } = targetFor(g.dx, g.dy);
+        setDrag({ x: dayShift * columnWidth, y: minutes * MINUTE_HEIGHT });
+      },
+      onPanResponderRelease: (_, g) => {
+        setDrag(null);
+        const { dayShift, minutes } = targetFor(g.dx, g.dy);
+        if (!item.starts_at || (!dayShift && !minutes)) return;
+        const start = addDays(new Date(item.starts_at), dayShift);
+        onMove(item, new Date(start.getTime() + minutes * 60000));
+      },
+      onPanResponderTerminate: () => setDrag(null),
+    });
+  }, [item, columnWidth, dayIndex, dayCount, onMove]);
+
+  const start = item.starts_at ? new Date(item.starts_at) : null;
+  return (
+    <View
+      {...responder.panHandlers}
+      style={[
+        styles.timelineEvent,
+        {
+          top: block.top * MINUTE_HEIGHT,
+          height: block.height * MINUTE_HEIGHT - 2,
+          left: `${(block.column / block.columns) * 100}%`,
+          width: `${100 / block.columns}%`,
+        },
+        active && { borderColor: ACCENT, borderWidth: 1 },
+        drag && { transform: [{ translateX: drag.x }, { translateY: drag.y }], opacity: 0.85, zIndex: 10 },
+      ]}>
+      <Pressable onPress={() => onPress(item)} style={{ flex: 1 }}>
+        <Text numberOfLines={1} style={styles.timelineEventTitle}>
+          {item.title}
+        </Text>
+        {block.height >= 40 && start ? (
+          <Text numberOfLines={1} style={styles.timelineEventMeta}>
+            {start.toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' })}
+            {item.location ? ` · ${item.location}` : ''}
+          </Text>
+        ) : null}
+      </Pressable>
+    </View>
+  );
+}
+
+type QuickAddPreviewProps = {
+  parsed: QuickAdd;
+  // The parsed fields this form uses; filled-in form fields take precedence, so
+  // the caller leaves those out.
+  fields: ('when' | 'location' | 'project' | 'priority')[];
+  // Reminders and events need a time: a bare day is shown (and saved) at this hour.
+  defaultHour?: number;
+  // Offers to continue in another form when the input looks like another kind.
+  kind?: QuickAddKind;
+  onUseKind?: (kind: QuickAddKind) => void;
+};
+
+const QUICK_ADD_KIND_LABELS: Record<QuickAddKind, string> = {
+  task: 'Als taak toevoegen',
+  reminder: 'Als herinnering toevoegen',
+  event: 'Als afspraak toevoegen',
+};
+
+// Shows what a quick-add input will be saved as before the form is submitted.
+function QuickAddPreview({ parsed, fields, defaultHour, kind, onUseKind }: QuickAddPreviewProps) {
+  if (!parsed.hasFields) return null;
+  const start = defaultHour === undefined ? parsed.start : quickAddStart(parsed, defaultHour);
+  const showsTime = !!start && (!parsed.allDay || defaultHour !== undefined);
+  const items: { icon: keyof typeof Ionicons.glyphMap; label: string }[] = [];
+  if (fields.includes('when') && start) {
+    const day = start.toLocaleDateString(undefined, { weekday: 'short', day: 'numeric', month: 'short' });
+    const time = (date: Date) => date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+    items.push({
+      icon: 'calendar-outline',
+      label: `${day}${showsTime ? ` ${time(start)}` : ''}${parsed.end ? ` – ${time(parsed.end)}` : ''}`,
+    });
+  }
+  if (fields.includes('location') && parsed.location) items.push({ icon: 'location-outline', label: parsed.location });
+  if (fields.includes('project') && parsed.project) items.push({ icon: 'pricetag-outline', label: parsed.project });
+  if (fields.includes('priority') && parsed.priority) {
+    items.push({ icon: 'flag-outline', label: PRIORITY_LABELS[parsed.priority] });
+  }
+
+  return (
+    <View style={[styles.chipsRow, { flexWrap: 'wrap', alignItems: 'center', gap: 8 }]}>
+      <Ionicons name="sparkles-outline" size={16} color={ACCENT} />
+      <Text style={[styles.metaText, { color: '#111827', fontWeight: '600' }]} numberOfLines={1}>
+        {parsed.title}
+      </Text>
+      {items.map((item) => (
+        <View key={item.icon} style={[styles.chip, styles.quickAddChip]}>
+          <Ionicons name={item.icon} size={14} color={ACCENT} />
+          <Text style={styles.chipText}>{item.label}</Text>
+        </View>
+      ))}
+      {onUseKind && kind && parsed.kind !== kind ? (
+        <Pressable
+          onPress={() => onUseKind(parsed.kind)}
+          style={[styles.chip, styles.quickAddChip, { backgroundColor: '#e5e7ff', borderColor: 'transparent' }]}>
+          <Text style={[styles.chipText, { color: ACCENT, fontWeight: '700' }]}>
+            {QUICK_ADD_KIND_LABELS[parsed.kind]}
+          </Text>
+          <Ionicons name="arrow-forward" size={14} color={ACCENT} />
+        </Pressable>
+      ) : null}
+    </View>
+  );
+}
+
+type RecurrencePickerProps = {
+  value: string | null;
+  onChange: (rule: string | null) => void;
+  // Date the series starts on; used for the "last <weekday> of the month" preset.
+  anchor: Date;
+};
+
+function RecurrencePicker({ value, onChange, anchor }: RecurrencePickerProps) {
+  const [custom, setCustom] = useState(false);
+  const options = [
+    ...RECURRENCE_PRESETS,
+    { key: 'last-weekday', label: describeRecurrence(lastWeekdayOfMonthRule(anchor))!, rule: lastWeekdayOfMonthRule(anchor) },
+  ];
+  const isPreset = options.some((option) => option.rule === (value || null));
+  const showCustom = custom || !isPreset;
+  const summary = describeRecurrence(value);
+
+  const chipStyle = (active: boolean) => [
+    styles.chip,
+    active && { backgroundColor: '#e5e7ff', borderColor: 'transparent' },
+  ];
+  const chipTextStyle = (active: boolean) => [styles.chipText, active && { color: ACCENT, fontWeight: '700' as const }];
+
+  return (
+    <>
+      <View style={[styles.chipsRow, { flexWrap: 'wrap' }]}>
+        <Ionicons name="repeat" size={18} color={ACCENT} style={{ alignSelf: 'center' }} />
+        {options.map((option) => {
+          const active = !showCustom && option.rule === (value || null);
+          return (
+            <Pressable
+              key={option.key}
+              onPress={() => {
+                setCustom(false);
+                onChange(option.rule);
+              }}
+              style={chipStyle(active)}>
+              <Text style={chipTextStyle(active)}>{option.label}</Text>
+            </Pressable>
+          );
+        })}
+        <Pressable onPress={() => setCustom(true)} style={chipStyle(showCustom)}>
+          <Text style={chipTextStyle(showCustom)}>Custom</Text>
+        </Pressable>
+      </View>
+      {showCustom ? (
+        <View style={styles.inputRow}>
+          <Ionicons name="code-outline" size={18} color={ACCENT} />
+          <TextInput
+            placeholder="RRULE, e.g. FREQ=MONTHLY;BYDAY=-1FR"
+            value={value ?? ''}
+            onChangeText={(text) => onChange(text || null)}
+            autoCapitalize="characters"
+            autoCorrect={false}
+            style={styles.textInput}
+            placeholderTextColor="#9ca3af"
+          />
+        </View>
+      ) : null}
+      {showCustom && value ? (
+        <Text style={styles.metaText}>{summary ?? 'Unrecognised rule'}</Text>
+      ) : null}
+    </>
+  );
+}
+
 type RemindersViewProps = {
   reminders: Reminder[];
   loading: boolean;
   error: string | null;
   value: string;
-  whenValue: string;
+  whenValue: string | null;
   onChangeValue: (v: string) => void;
-  onChangeWhen: (v: string) => void;
+  onChangeWhen: (v: string | null) => void;
   onAdd: () => void;
   onToggle: (r: Reminder) => void;
   onDelete: (id: string) => void;
+  onCompleteMany: (ids: string[]) => void;
+  onDeleteMany: (ids: string[]) => void;
+  onRescheduleMany: (ids: string[], remindAt: string | null) => void;
+  recurrence: string | null;
+  onChangeRecurrence: (rule: string | null) => void;
+  editingId: string | null;
+  onEdit: (r: Reminder) => void;
+  onCancelEdit: () => void;
   onRefresh: () => void;
 };
 
@@ -3568,8 +6858,22 @@ function RemindersView({
   onAdd,
   onToggle,
   onDelete,
+  onCompleteMany,
+  onDeleteMany,
+  onRescheduleMany,
+  recurrence,
+  onChangeRecurrence,
+  editingId,
+  onEdit,
+  onCancelEdit,
   onRefresh,
 }: RemindersViewProps) {
+  const quickAdd = useMemo(() => parseQuickAdd(value), [value]);
+  const selection = useSelection(reminders.map((reminder) => reminder.id));
+  const runBatch = (action: (ids: string[]) => void) => {
+    action(selection.selected);
+    selection.clear();
+  };
   return (
     <View style={{ gap: 16 }}>
       <Animated.View style={styles.pageHeader} entering={isWeb ? undefined : FadeInDown.duration(200)}>
@@ -3588,32 +6892,51 @@ function RemindersView({
         <View style={styles.inputRow}>
           <Ionicons name="add" size={18} color={ACCENT} />
           <TextInput
-            placeholder="Add a reminder..."
+            placeholder="Add a reminder, e.g. Call Anna morgen 9:00"
             value={value}
             onChangeText={onChangeValue}
             style={styles.textInput}
             placeholderTextColor="#9ca3af"
           />
         </View>
+        {!editingId ? <QuickAddPreview parsed={quickAdd} fields={whenValue ? [] : ['when']} defaultHour={9} /> : null}
         <View style={styles.inputRow}>
-          <Ionicons name="time-outline" size={18} color={ACCENT} />
-          <TextInput
-            placeholder="When? (e.g. 2025-01-01 09:00) optional"
-            value={whenValue}
-            onChangeText={onChangeWhen}
-            style={styles.textInput}
-            placeholderTextColor="#9ca3af"
-          />
+          <View style={{ flex: 1 }}>
+            <DateTimeField placeholder="When? (optional)" value={whenValue} onChange={onChangeWhen} />
+          </View>
+          {editingId ? (
+            <TouchableOpacity onPress={onCancelEdit} style={[styles.ghostButton, { height: 44 }]}>
+              <Text style={styles.ghostButtonText}>Cancel</Text>
+            </TouchableOpacity>
+          ) : null}
           <TouchableOpacity
             onPress={onAdd}
             disabled={!value.trim() || loading}
             style={[styles.primaryButton, { paddingHorizontal: 18, height: 44 }]}>
-            <Text style={styles.primaryButtonText}>Add</Text>
+            <Text style={styles.primaryButtonText}>{editingId ? 'Save' : 'Add'}</Text>
           </TouchableOpacity>
         </View>
 
+        <RecurrencePicker
+          value={recurrence}
+          onChange={onChangeRecurrence}
+          anchor={new Date(whenValue ?? Date.now())}
+        />
+
         {error ? <Text style={styles.errorText}>{error}</Text> : null}
 
+        {selection.selected.length ? (
+          <SelectionBar
+            count={selection.selected.length}
+            dateLabel="Remind at"
+            onSelectAll={selection.selectAll}
+            onClear={selection.clear}
+            onComplete={() => runBatch(onCompleteMany)}
+            onDelete={() => runBatch(onDeleteMany)}
+            onSetDate={(remindAt) => runBatch((ids) => onRescheduleMany(ids, remindAt))}
+          />
+        ) : null}
+
         {loading ? (
           <ActivityIndicator color={ACCENT} />
         ) : (
@@ -3621,19 +6944,33 @@ function RemindersView({
             entering={isWeb ? undefined : FadeInDown.delay(90)}
             scrollEnabled={false}
             data={reminders}
+            extraData={selection.selected}
             keyExtractor={(item) => item.id}
             ItemSeparatorComponent={() => <View style={{ height: 10 }} />}
             renderItem={({ item }) => (
               <Animated.View
                 entering={isWeb ? undefined : FadeInDown.duration(180)}
                 layout={isWeb ? undefined : Layout.springify()}
-                style={styles.taskCard}>
-                <Pressable onPress={() => onToggle(item)} style={styles.taskToggle}>
-                  <Ionicons
-                    name={item.is_done ? 'notifications' : 'notifications-outline'}
-                    size={20}
-                    color={item.is_done ? ACCENT : '#4b5563'}
-                  />
+                style={[styles.taskCard, selection.isSelected(item.id) && styles.taskCardSelected]}>
+                <Pressable
+                  onPress={(event) => {
+                    if (!selection.press(item.id, event)) onToggle(item);
+                  }}
+                  onLongPress={isWeb ? undefined : () => selection.start(item.id)}
+                  style={styles.taskToggle}>
+                  {selection.selected.length ? (
+                    <Ionicons
+                      name={selection.isSelected(item.id) ? 'checkmark-circle' : 'ellipse-outline'}
+                      size={20}
+                      color={selection.isSelected(item.id) ? ACCENT : '#4b5563'}
+                    />
+                  ) : (
+                    <Ionicons
+                      name={item.is_done ? 'notifications' : 'notifications-outline'}
+                      size={20}
+                      color={item.is_done ? ACCENT : '#4b5563'}
+                    />
+                  )}
                   <View>
                     <Text
                       style={[
@@ -3647,11 +6984,22 @@ function RemindersView({
                         ? new Date(item.remind_at).toLocaleString()
                         : 'No time set'}
                     </Text>
+                    {describeRecurrence(item.recurrence) ? (
+                      <View style={{ flexDirection: 'row', alignItems: 'center', gap: 4 }}>
+                        <Ionicons name="repeat" size={12} color={MUTED} />
+                        <Text style={styles.metaText}>{describeRecurrence(item.recurrence)}</Text>
+                      </View>
+                    ) : null}
                   </View>
                 </Pressable>
-                <Pressable onPress={() => onDelete(item.id)} style={styles.iconButton}>
-                  <Ionicons name="trash-outline" size={16} color="#ef4444" />
-                </Pressable>
+                <View style={{ flexDirection: 'row', gap: 6 }}>
+                  <Pressable onPress={() => onEdit(item)} style={styles.iconButton}>
+                    <Ionicons name="create-outline" size={16} color={editingId === item.id ? ACCENT : '#4b5563'} />
+                  </Pressable>
+                  <Pressable onPress={() => onDelete(item.id)} style={styles.iconButton}>
+                    <Ionicons name="trash-outline" size={16} color="#ef4444" />
+                  </Pressable>
+                </View>
               </Animated.View>
             )}
             ListEmptyComponent={
@@ -3668,6 +7016,383 @@ function RemindersView({
   );
 }
 
+const TRASH_SECTIONS: { table: TrashTable; label: string; icon: keyof typeof Ionicons.glyphMap }[] = [
+  { table: 'tasks', label: 'Tasks', icon: 'list-outline' },
+  { table: 'note_folders', label: 'Folders', icon: 'folder-outline' },
+  { table: 'notes', label: 'Notes', icon: 'document-outline' },
+  { table: 'reminders', label: 'Reminders', icon: 'notifications-outline' },
+  { table: 'agenda_events', label: 'Events', icon: 'calendar-outline' },
+];
+
+// "with 2 subtasks" / "with 1 subfolder and 3 notes" for rows deleted along with an item.
+const trashIncludes = (item: TrashItem) => {
+  // The item itself is the first id of its own table
+  const subtasks = Math.max(0, (item.ids.tasks?.length ?? 0) - 1);
+  const subfolders = Math.max(0, (item.ids.note_folders?.length ?? 0) - 1);
+  const notes = item.table === 'note_folders' ? (item.ids.notes?.length ?? 0) : 0;
+  const parts = [
+    subtasks ? plural(subtasks, 'subtask') : null,
+    subfolders ? plural(subfolders, 'subfolder') : null,
+    notes ? plural(notes, 'note') : null,
+  ].filter(Boolean);
+  return parts.length ? `with ${parts.join(' and ')}` : null;
+};
+
+type TrashViewProps = {
+  trash: TrashContents;
+  loading: boolean;
+  error: string | null;
+  onRestore: (item: TrashItem) => void;
+  onDelete: (item: TrashItem) => void;
+  onEmpty: (items: TrashItem[]) => void;
+  onRefresh: () => void;
+};
+
+function TrashView({ trash, loading, error, onRestore, onDelete, onEmpty, onRefresh }: TrashViewProps) {
+  const items = useMemo(() => trashItems(trash), [trash]);
+  // Id of the item (or 'all') waiting for a second tap to delete for good
+  const [confirmDelete, setConfirmDelete] = useState<string | null>(null);
+  const now = new Date();
+
+  return (
+    <View style={{ gap: 16 }}>
+      <Animated.View style={styles.pageHeader} entering={isWeb ? undefined : FadeInDown.duration(200)}>
+        <View>
+          <Text style={styles.heading}>Trash</Text>
+          <Text style={styles.subheading}>Deleted items are removed for good after {TRASH_DAYS} days</Text>
+        </View>
+        <View style={{ flexDirection: 'row', gap: 8 }}>
+          <Pressable onPress={onRefresh} style={styles.iconButton}>
+            <Ionicons name="refresh" size={18} color="#1f2937" />
+          </Pressable>
+          {items.length ? (
+            confirmDelete === 'all' ? (
+              <>
+                <TouchableOpacity onPress={() => setConfirmDelete(null)} style={styles.ghostButton}>
+                  <Text style={styles.ghostButtonText}>Cancel</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  onPress={() => {
+                    setConfirmDelete(null);
+                    onEmpty(items);
+                  }}
+                  style={styles.secondaryButton}>
+                  <Ionicons name="trash" size={16} color="#ef4444" />
+                  <Text style={[styles.secondaryButtonText, { color: '#ef4444' }]}>Delete all for good</Text>
+                </TouchableOpacity>
+              </>
+            ) : (
+              <TouchableOpacity onPress={() => setConfirmDelete('all')} style={styles.secondaryButton}>
+                <Ionicons name="trash-outline" size={16} color="#ef4444" />
+                <Text style={[styles.secondaryButtonText, { color: '#ef4444' }]}>Empty trash</Text>
+              </TouchableOpacity>
+            )
+          ) : null}
+        </View>
+      </Animated.View>
+
+      {error ? <Text style={styles.errorText}>{error}</Text> : null}
+
+      {loading && !items.length ? (
+        <ActivityIndicator color={ACCENT} />
+      ) : !items.length ? (
+        <Animated.View style={styles.emptyState} entering={isWeb ? undefined : FadeInDown.duration(200)}>
+          <Ionicons name="trash-outline" size={32} color={ACCENT} />
+          <Text style={styles.emptyText}>The trash is empty</Text>
+          <Text style={styles.metaText}>Deleted tasks, notes, folders, reminders and events show up here.</Text>
+        </Animated.View>
+      ) : (
+        TRASH_SECTIONS.filter(({ table }) => items.some((item) => item.table === table)).map((section) => (
+          <Animated.View
+            key={section.table}
+            entering={isWeb ? undefined : FadeInDown.delay(60).duration(220)}
+            layout={isWeb ? undefined : Layout.springify()}
+            style={[styles.card, { gap: 10 }]}>
+            <Text style={styles.sectionTitle}>{section.label}</Text>
+            {items
+              .filter((item) => item.table === section.table)
+              .map((item) => (
+                <View key={item.id} style={styles.taskCard}>
+                  <View style={styles.taskToggle}>
+                    <Ionicons name={section.icon} size={20} color="#4b5563" />
+                    <View style={{ flexShrink: 1 }}>
+                      <Text style={styles.taskTitle}>{item.title || 'Untitled'}</Text>
+                      <Text style={styles.metaText}>
+                        Deleted {new Date(item.deleted_at).toLocaleString()} · {plural(daysLeft(item.deleted_at, now), 'day')} left
+                      </Text>
+                      {trashIncludes(item) ? <Text style={styles.metaText}>{trashIncludes(item)}</Text> : null}
+                    </View>
+                  </View>
+                  <View style={{ flexDirection: 'row', gap: 6 }}>
+                    {confirmDelete === item.id ? (
+                      <>
+                        <TouchableOpacity onPress={() => setConfirmDelete(null)} style={styles.ghostButton}>
+                          <Text style={styles.ghostButtonText}>Cancel</Text>
+                        </TouchableOpacity>
+                        <TouchableOpacity
+                          onPress={() => {
+                            setConfirmDelete(null);
+                            onDelete(item);
+                          }}
+                          style={styles.secondaryButton}>
+                          <Text style={[styles.secondaryButtonText, { color: '#ef4444' }]}>Delete for good</Text>
+                        </TouchableOpacity>
+                      </>
+                    ) : (
+                      <>
+                        <TouchableOpacity disabled={loading} onPress={() => onRestore(item)} style={styles.secondaryButton}>
+                          <Ionicons name="arrow-undo-outline" size={16} color={ACCENT} />
+                          <Text style={styles.secondaryButtonText}>Restore</Text>
+                        </TouchableOpacity>
+                        <Pressable onPress={() => setConfirmDelete(item.id)} style={styles.iconButton}>
+                          <Ionicons name="trash-outline" size={16} color="#ef4444" />
+                        </Pressable>
+                      </>
+                    )}
+                  </View>
+                </View>
+              ))}
+          </Animated.View>
+        ))
+      )}
+    </View>
+  );
+}
+
+// Caret position as a plain-text offset, so it survives replacing the editor HTML.
+const getWebCaretOffset = (root: HTMLElement): number | null => {
+  const selection = window.getSelection();
+  if (!selection || selection.rangeCount === 0 || !root.contains(selection.anchorNode)) return null;
+  const range = selection.getRangeAt(0).cloneRange();
+  range.selectNodeContents(root);
+  range.setEnd(selection.anchorNode!, selection.anchorOffset);
+  return range.toString().length;
+};
+
+const setWebCaretOffset = (root: HTMLElement, offset: number) => {
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+  let remaining = offset;
+  let node = walker.nextNode();
+  while (node) {
+    const length = node.textContent?.length ?? 0;
+    if (remaining <= length) {
+      const range = document.createRange();
+      range.setStart(node, remaining);
+      range.collapse(true);
+      const selection = window.getSelection();
+      selection?.removeAllRanges();
+      selection?.addRange(range);
+      return;
+    }
+    remaining -= length;
+    node = walker.nextNode();
+  }
+};
+
+type NoteExportPanelProps = {
+  folders: NoteFolder[];
+  selectedFolderId: string | null;
+  onExport: (folderId: string | null) => void;
+  onExportPdf: (folderId: string | null) => void;
+  onImport: (folderId: string | null) => void;
+  onClose: () => void;
+};
+
+// Markdown and PDF export of one folder (with its subfolders) or all notes, and Markdown import.
+function NoteExportPanel({ folders, selectedFolderId, onExport, onExportPdf, onImport, onClose }: NoteExportPanelProps) {
+  const [folderId, setFolderId] = useState<string | null>(selectedFolderId);
+  // "Parent / Child" labels, in tree order
+  const options = useMemo(() => {
+    const list: { id: string; label: string }[] = [];
+    const visit = (parentId: string | null, prefix: string, seen: Set<string>) =>
+      folders
+        .filter((folder) =>
+          parentId ? folder.parent_folder_id === parentId : !folders.some((f) => f.id === folder.parent_folder_id),
+        )
+        .filter((folder) => !seen.has(folder.id))
+        .forEach((folder) => {
+          seen.add(folder.id);
+          list.push({ id: folder.id, label: prefix + folder.name });
+          visit(folder.id, `${prefix}${folder.name} / `, seen);
+        });
+    visit(null, '', new Set());
+    return list;
+  }, [folders]);
+  const target = options.find((option) => option.id === folderId)?.label;
+
+  return (
+    <View style={[styles.card, { gap: 12 }]}>
+      <View style={{ flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between' }}>
+        <Text style={styles.sectionTitle}>Import & export</Text>
+        <Pressable onPress={onClose} style={styles.iconButton}>
+          <Ionicons name="close" size={16} color="#1f2937" />
+        </Pressable>
+      </View>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={{ gap: 8 }}>
+        {[{ id: null, label: 'All notes' }, ...options].map((option) => (
+          <Pressable
+            key={option.id ?? 'all'}
+            onPress={() => setFolderId(option.id)}
+            style={[styles.chip, folderId === option.id && { backgroundColor: '#eef2ff', borderColor: 'transparent' }]}>
+            <Text style={[styles.chipText, folderId === option.id && { color: ACCENT, fontWeight: '700' }]}>
+              {option.label}
+            </Text>
+          </Pressable>
+        ))}
+      </ScrollView>
+      <View style={{ flexDirection: 'row', gap: 8, flexWrap: 'wrap' }}>
+        <TouchableOpacity onPress={() => onExport(folderId)} style={styles.secondaryButton}>
+          <Ionicons name="download-outline" size={16} color={ACCENT} />
+          <Text style={styles.secondaryButtonText}>Markdown</Text>
+        </TouchableOpacity>
+        <TouchableOpacity onPress={() => onExportPdf(folderId)} style={styles.secondaryButton}>
+          <Ionicons name="document-outline" size={16} color={ACCENT} />
+          <Text style={styles.secondaryButtonText}>PDF</Text>
+        </TouchableOpacity>
+        <TouchableOpacity onPress={() => onImport(folderId)} style={styles.secondaryButton}>
+          <Ionicons name="cloud-upload-outline" size={16} color={ACCENT} />
+          <Text style={styles.secondaryButtonText}>{target ? `Import into "${target}"` : 'Import without folder'}</Text>
+        </TouchableOpacity>
+      </View>
+      <Text style={styles.metaText}>
+        {target ? `Exports "${target}" with its subfolders` : 'Exports all notes'}: Markdown as .md files, zipped with their
+        folders and images, or one PDF. Import takes .md files or a .zip; its folders become subfolders.
+      </Text>
+    </View>
+  );
+}
+
+type NoteHistoryPanelProps = {
+  noteId: string;
+  // What the editor holds now.
+  current: NoteSnapshot;
+  currentUserId?: string;
+  saving: boolean;
+  onRestore: (snapshot: NoteSnapshot) => void;
+  onClose: () => void;
+};
+
+// The note's versions; picking one shows what it changed compared to the
+// version before it (or to the editor) and lets you restore it.
+function NoteHistoryPanel({ noteId, current, currentUserId, saving, onRestore, onClose }: NoteHistoryPanelProps) {
+  const { revisions, loading, error, reload } = useNoteRevisions(noteId);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [compare, setCompare] = useState<'previous' | 'current'>('previous');
+  const wasSaving = useRef(saving);
+
+  // Each save updates or adds a revision
+  useEffect(() => {
+    if (wasSaving.current && !saving) reload();
+    wasSaving.current = saving;
+  }, [saving, reload]);
+
+  const index = Math.max(0, revisions.findIndex((revision) => revision.id === selectedId));
+  const selected = revisions[index];
+  const snapshot = selected ? revisionSnapshot(selected) : null;
+  const isCurrent = (revision: NoteRevision) => {
+    const other = revisionSnapshot(revision);
+    return other.title === current.title && other.content === current.content && other.color === current.color;
+  };
+  const against =
+    compare === 'current' ? current : revisions[index + 1] ? revisionSnapshot(revisions[index + 1]) : null;
+  // Older version first, so additions are what the newer one brought in
+  const [from, to] = compare === 'current' ? [snapshot, against] : [against, snapshot];
+  const parts = snapshot ? diffText(noteText(from?.content ?? ''), noteText(to?.content ?? '')) : [];
+  const author = (revision: NoteRevision) =>
+    !revision.user_id
+      ? 'Before version history'
+      : revision.user_id === currentUserId
+        ? 'You'
+        : revision.user_name || revision.user_email || 'A collaborator';
+
+  return (
+    <View style={[styles.card, { gap: 12, marginBottom: 16 }]}>
+      <View style={{ flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between' }}>
+        <Text style={styles.sectionTitle}>Version history</Text>
+        <View style={{ flexDirection: 'row', gap: 6 }}>
+          <Pressable onPress={reload} style={styles.iconButton}>
+            <Ionicons name="refresh" size={16} color="#1f2937" />
+          </Pressable>
+          <Pressable onPress={onClose} style={styles.iconButton}>
+            <Ionicons name="close" size={16} color="#1f2937" />
+          </Pressable>
+        </View>
+      </View>
+
+      {error ? <Text style={styles.errorText}>{error}</Text> : null}
+      {loading && !revisions.length ? <ActivityIndicator color={ACCENT} /> : null}
+      {!loading && !error && !revisions.length ? (
+        <Text style={styles.metaText}>No earlier versions yet. Versions are kept as you edit.</Text>
+      ) : null}
+
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={{ gap: 8 }}>
+        {revisions.map((revision) => (
+          <Pressable
+            key={revision.id}
+            onPress={() => setSelectedId(revision.id)}
+            style={[
+              styles.chip,
+              { alignItems: 'flex-start' },
+              revision.id === selected?.id && { backgroundColor: '#eef2ff', borderColor: 'transparent' },
+            ]}>
+            <Text style={[styles.chipText, revision.id === selected?.id && { color: ACCENT, fontWeight: '700' }]}>
+              {new Date(revision.updated_at ?? revision.created_at).toLocaleString()}
+            </Text>
+            <Text style={styles.metaText}>
+              {author(revision)}
+              {isCurrent(revision) ? ' · current' : ''}
+            </Text>
+          </Pressable>
+        ))}
+      </ScrollView>
+
+      {selected && snapshot ? (
+        <View style={{ gap: 10 }}>
+          <View style={{ flexDirection: 'row', gap: 8, flexWrap: 'wrap' }}>
+            {(['previous', 'current'] as const).map((option) => (
+              <Pressable
+                key={option}
+                onPress={() => setCompare(option)}
+                style={[styles.chip, compare === option && { backgroundColor: '#eef2ff', borderColor: 'transparent' }]}>
+                <Text style={[styles.chipText, compare === option && { color: ACCENT, fontWeight: '700' }]}>
+                  {option === 'previous' ? 'Changes in this version' : 'Compare with current'}
+                </Text>
+              </Pressable>
+            ))}
+          </View>
+          {from && to && from.title !== to.title ? (
+            <Text style={styles.metaText}>
+              Title: <Text style={styles.diffRemoved}>{from.title}</Text> → <Text style={styles.diffAdded}>{to.title}</Text>
+            </Text>
+          ) : null}
+          <View style={styles.diffBox}>
+            {parts.some((part) => part.kind !== 'same') ? (
+              <Text style={styles.diffText}>
+                {parts.map((part, i) => (
+                  <Text
+                    key={i}
+                    style={part.kind === 'added' ? styles.diffAdded : part.kind === 'removed' ? styles.diffRemoved : undefined}>
+                    {part.text}
+                  </Text>
+                ))}
+              </Text>
+            ) : (
+              <Text style={styles.metaText}>No changes to the text</Text>
+            )}
+          </View>
+          <TouchableOpacity
+            disabled={isCurrent(selected)}
+            onPress={() => onRestore(snapshot)}
+            style={[styles.secondaryButton, { alignSelf: 'flex-start' }, isCurrent(selected) && { opacity: 0.6 }]}>
+            <Ionicons name="arrow-undo-outline" size={16} color={ACCENT} />
+            <Text style={styles.secondaryButtonText}>Restore this version</Text>
+          </TouchableOpacity>
+        </View>
+      ) : null}
+    </View>
+  );
+}
+
 type NotesViewProps = {
   folders: NoteFolder[];
   sharedFolders: NoteFolder[];
@@ -3696,7 +7421,13 @@ type NotesViewProps = {
   onCreateNote: () => void;
   onDeleteNote: (id: string) => Promise<void>;
   onShareNote: (note: Note) => void;
+  onRestoreRevision: (snapshot: NoteSnapshot) => void;
+  onExportMarkdown: (target: { note: Note } | { folderId: string | null }) => void;
+  onExportPdf: (target: { note: Note } | { folderId: string | null }) => void;
+  onImportMarkdown: (folderId: string | null) => void;
   autoSaveStatus: 'saved' | 'saving' | 'idle';
+  noteContentVersion: number;
+  noteViewers: PresenceUser[];
   notesSearchQuery: string;
   onNotesSearchChange: (query: string) => void;
   deleteConfirmOpen: boolean;
@@ -3749,7 +7480,13 @@ function NotesView({
   onCreateNote,
   onDeleteNote,
   onShareNote,
+  onRestoreRevision,
+  onExportMarkdown,
+  onExportPdf,
+  onImportMarkdown,
   autoSaveStatus,
+  noteContentVersion,
+  noteViewers,
   notesSearchQuery,
   onNotesSearchChange,
   deleteConfirmOpen,
@@ -3834,6 +7571,12 @@ function NotesView({
         ? [...notes, ...sharedNotes].filter((n) => n.folder_id === selectedFolderId)
         : looseNotes;
   const [showSearchBar, setShowSearchBar] = useState(false);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [showExportPanel, setShowExportPanel] = useState(false);
+
+  useEffect(() => {
+    setHistoryOpen(false);
+  }, [editingNote?.id]);
   const colors = [
     '#4f46e5', // Indigo
     '#7c3aed', // Purple
@@ -4287,7 +8030,8 @@ function NotesView({
     };
   }, [isWeb, noteModalOpen, webStates.bold, webStates.italic, webStates.underline, webStates.highlight, highlightColor]);
 
-  // Hydrate content only when de modal opent of een andere note wordt geladen.
+  // Hydrate content only when de modal opent, een andere note wordt geladen of
+  // wijzigingen van een collaborator zijn gemerged (noteContentVersion).
   // deliberate lint disable: we willen noteBody NIET in deps om caret te behouden
   // eslint-disable-next-line react-hooks/exhaustive-deps
   useEffect(() => {
@@ -4295,12 +8039,15 @@ function NotesView({
       if (!isWeb && richRef.current) {
         richRef.current.setContentHTML(noteBody || '');
       }
-      if (isWeb && webEditorRef.current) {
-        webEditorRef.current.innerHTML = noteBody || '';
+      if (isWeb && webEditorRef.current && webEditorRef.current.innerHTML !== (noteBody || '')) {
+        const editor = webEditorRef.current;
+        const caret = getWebCaretOffset(editor);
+        editor.innerHTML = noteBody || '';
+        if (caret !== null) setWebCaretOffset(editor, caret);
         ensureWebImageSizing();
       }
     }
-  }, [noteModalOpen, editingNote?.id, isWeb]);
+  }, [noteModalOpen, editingNote?.id, isWeb, noteContentVersion]);
 
   // Simple highlight toggle function
   const toggleHighlight = () => {
@@ -4472,6 +8219,30 @@ function NotesView({
                       </View>
                     </>
                   )}
+                  {/* Presence: collaborators who have this note open */}
+                  {editingNote && noteViewers.length > 0 && (
+                    <>
+                      <View style={{ width: 3, height: 3, borderRadius: 1.5, backgroundColor: '#d1d5db' }} />
+                      <View style={{ flexDirection: 'row', alignItems: 'center', gap: 6 }}>
+                        <View style={{ flexDirection: 'row' }}>
+                          {noteViewers.slice(0, 3).map((viewer, index) => (
+                            <View
+                              key={viewer.user_id}
+                              style={[styles.presenceAvatar, index > 0 && { marginLeft: -6 }]}>
+                              <Text style={styles.presenceAvatarText}>
+                                {(viewer.name || '?').charAt(0).toUpperCase()}
+                              </Text>
+                            </View>
+                          ))}
+                        </View>
+                        <Text style={{ fontSize: 11, color: '#10b981', fontWeight: '600' }}>
+                          {noteViewers.length === 1
+                            ? `${noteViewers[0].name} is also editing`
+                            : `${noteViewers.length} others editing`}
+                        </Text>
+                      </View>
+                    </>
+                  )}
                 </View>
               </View>
             </View>
@@ -4481,6 +8252,21 @@ function NotesView({
               {/* Share button */}
               {editingNote && (
                 <>
+                  {/* Version history */}
+                  <TouchableOpacity
+                    style={{
+                      width: 36,
+                      height: 36,
+                      borderRadius: 10,
+                      backgroundColor: historyOpen ? '#eef2ff' : '#f3f4f6',
+                      borderWidth: 1,
+                      borderColor: historyOpen ? '#c7d2fe' : '#e5e7eb',
+                      alignItems: 'center',
+                      justifyContent: 'center',
+                    }}
+                    onPress={() => setHistoryOpen((open) => !open)}>
+                    <Ionicons name="time-outline" size={18} color={historyOpen ? ACCENT : '#4b5563'} />
+                  </TouchableOpacity>
                   <TouchableOpacity
                     style={{
                       paddingVertical: 8,
@@ -4501,7 +8287,7 @@ function NotesView({
                     <Ionicons name="share-social-outline" size={16} color="#3b82f6" />
                     <Text style={{ fontSize: 13, fontWeight: '600', color: '#3b82f6' }}>Share</Text>
                   </TouchableOpacity>
-                  {/* Export/Print button */}
+                  {/* PDF export of what the editor holds */}
                   <TouchableOpacity
                     style={{
                       width: 36,
@@ -4513,27 +8299,27 @@ function NotesView({
                       alignItems: 'center',
                       justifyContent: 'center',
                     }}
-                    onPress={() => {
-                      if (Platform.OS === 'web') {
-                        const printContainer = document.createElement('div');
-                        printContainer.id = 'print-note-container';
-                        printContainer.className = 'print-note-container';
-                        printContainer.innerHTML = `
-                          <h1 class="print-note-title">
-                            ${noteTitle || 'Untitled Note'}
-                          </h1>
-                          <div class="print-note-content">
-                            ${noteBody || '<p style="color: #94a3b8; font-style: italic;">No content</p>'}
-                          </div>
-                        `;
-                        document.body.appendChild(printContainer);
-                        window.print();
-                        setTimeout(() => {
-                          document.body.removeChild(printContainer);
-                        }, 1000);
-                      }
-                    }}>
-                    <Ionicons name="print-outline" size={18} color="#ca8a04" />
+                    onPress={() =>
+                      onExportPdf({ note: { ...editingNote, title: noteTitle.trim() || editingNote.title, content: noteBody } })
+                    }>
+                    <Ionicons name="document-outline" size={18} color="#ca8a04" />
+                  </TouchableOpacity>
+                  {/* Markdown export of what the editor holds */}
+                  <TouchableOpacity
+                    style={{
+                      width: 36,
+                      height: 36,
+                      borderRadius: 10,
+                      backgroundColor: '#f3f4f6',
+                      borderWidth: 1,
+                      borderColor: '#e5e7eb',
+                      alignItems: 'center',
+                      justifyContent: 'center',
+                    }}
+                    onPress={() =>
+                      onExportMarkdown({ note: { ...editingNote, title: noteTitle.trim() || editingNote.title, content: noteBody } })
+                    }>
+                    <Ionicons name="logo-markdown" size={18} color="#4b5563" />
                   </TouchableOpacity>
                 </>
               )}
@@ -4560,6 +8346,19 @@ function NotesView({
         </View>
 
         <ScrollView contentContainerStyle={{ padding: 20, paddingBottom: 60 }}>
+          {editingNote && historyOpen ? (
+            <NoteHistoryPanel
+              noteId={editingNote.id}
+              current={{ title: noteTitle.trim(), content: noteBody.trim(), color: noteColor }}
+              currentUserId={currentUserId}
+              saving={autoSaveStatus === 'saving'}
+              onRestore={(snapshot) => {
+                onRestoreRevision(snapshot);
+                setHistoryOpen(false);
+              }}
+              onClose={() => setHistoryOpen(false)}
+            />
+          ) : null}
           {/* Title Card */}
           <View style={{
             backgroundColor: '#fff',
@@ -5134,6 +8933,12 @@ function NotesView({
               <Ionicons name="search" size={20} color={showSearchBar ? ACCENT : "#64748b"} />
             </TouchableOpacity>
 
+            <TouchableOpacity
+              style={[styles.searchButton, showExportPanel && { backgroundColor: ACCENT + '15', borderColor: ACCENT }]}
+              onPress={() => setShowExportPanel(!showExportPanel)}>
+              <Ionicons name="swap-vertical" size={20} color={showExportPanel ? ACCENT : '#64748b'} />
+            </TouchableOpacity>
+
             <TouchableOpacity
               style={styles.folderButton}
               onPress={() => {
@@ -5204,6 +9009,17 @@ function NotesView({
         )}
       </Animated.View>
 
+      {showExportPanel ? (
+        <NoteExportPanel
+          folders={[...folders, ...sharedFolders]}
+          selectedFolderId={selectedFolderId}
+          onExport={(folderId) => onExportMarkdown({ folderId })}
+          onExportPdf={(folderId) => onExportPdf({ folderId })}
+          onImport={onImportMarkdown}
+          onClose={() => setShowExportPanel(false)}
+        />
+      ) : null}
+
       {error ? <Text style={styles.errorText}>{error}</Text> : null}
 
       {/* Premium Filter Pills */}
@@ -5882,11 +9698,91 @@ function BubbleCard({ icon, color, title, subtitle }: BubbleCardProps) {
   );
 }
 
+type SyncBannerProps = {
+  status: SyncStatus;
+  onRetry: () => void;
+  onResolve: (id: string, choice: 'mine' | 'theirs') => void;
+};
+
+const SYNC_TABLE_LABELS: Record<string, string> = {
+  tasks: 'Taak',
+  reminders: 'Reminder',
+  agenda_events: 'Afspraak',
+  note_folders: 'Map',
+  notes: 'Notitie',
+};
+
+function SyncBanner({ status, onRetry, onResolve }: SyncBannerProps) {
+  if (status.online && status.pending === 0 && status.conflicts.length === 0) return null;
+
+  const title = status.syncing
+    ? 'Wijzigingen synchroniseren...'
+    : !status.online
+    ? 'Offline'
+    : status.pending > 0
+    ? 'Nog niet gesynchroniseerd'
+    : 'Sync conflict';
+
+  return (
+    <View style={styles.syncBanner}>
+      <View style={{ flexDirection: 'row', alignItems: 'center', gap: 10 }}>
+        <Ionicons
+          name={status.online ? (status.conflicts.length > 0 ? 'warning-outline' : 'sync-outline') : 'cloud-offline-outline'}
+          size={18}
+          color={ACCENT}
+        />
+        <View style={{ flex: 1 }}>
+          <Text style={styles.syncBannerTitle}>{title}</Text>
+          {status.pending > 0 ? (
+            <Text style={styles.metaText}>
+              {status.pending} {status.pending === 1 ? 'wijziging wacht' : 'wijzigingen wachten'} op verbinding
+            </Text>
+          ) : null}
+        </View>
+        {status.pending > 0 && !status.syncing ? (
+          <Pressable style={styles.ghostButton} onPress={onRetry}>
+            <Text style={styles.ghostButtonText}>Opnieuw</Text>
+          </Pressable>
+        ) : null}
+      </View>
+      {status.conflicts.map((conflict) => {
+        const row = conflict.serverRows[0] ?? ('rows' in conflict.entry ? conflict.entry.rows[0] : undefined);
+        const label = `${SYNC_TABLE_LABELS[conflict.entry.table] ?? conflict.entry.table}${row?.title ? ` "${row.title}"` : ''}`;
+        return (
+          <View key={conflict.id} style={styles.syncConflict}>
+            <Text style={styles.taskSubtext}>
+              {conflict.reason === 'conflict'
+                ? `${label} is op een ander apparaat gewijzigd terwijl je offline was.`
+                : `${label} kon niet worden opgeslagen: ${conflict.message}`}
+            </Text>
+            <View style={styles.chipsRow}>
+              {conflict.reason === 'conflict' ? (
+                <>
+                  <Pressable style={styles.chip} onPress={() => onResolve(conflict.id, 'mine')}>
+                    <Text style={styles.chipText}>Mijn versie</Text>
+                  </Pressable>
+                  <Pressable style={styles.chip} onPress={() => onResolve(conflict.id, 'theirs')}>
+                    <Text style={styles.chipText}>Server versie</Text>
+                  </Pressable>
+                </>
+              ) : (
+                <Pressable style={styles.chip} onPress={() => onResolve(conflict.id, 'theirs')}>
+                  <Text style={styles.chipText}>Sluiten</Text>
+                </Pressable>
+              )}
+            </View>
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
 type ShareModalProps = {
   visible: boolean;
   note?: Note | null;
   title?: string;
-  collaborators: NoteCollaborator[];
+  collaborators: (NoteCollaborator | FolderCollaborator)[];
   searchQuery: string;
   searchResults: UserProfile[];
   loading: boolean;
@@ -6087,6 +9983,21 @@ const styles = StyleSheet.create({
     shadowOffset: { width: 0, height: 10 },
     shadowRadius: 12,
   },
+  presenceAvatar: {
+    width: 20,
+    height: 20,
+    borderRadius: 10,
+    backgroundColor: '#10b981',
+    borderWidth: 2,
+    borderColor: '#fff',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  presenceAvatarText: {
+    color: '#fff',
+    fontSize: 10,
+    fontWeight: '700',
+  },
   avatarText: {
     color: '#fff',
     fontWeight: '800',
@@ -6292,6 +10203,18 @@ const styles = StyleSheet.create({
     fontWeight: '700',
     color: '#0f172a',
   },
+  weekDots: {
+    flexDirection: 'row',
+    gap: 3,
+    height: 5,
+    marginTop: 2,
+  },
+  weekDot: {
+    width: 5,
+    height: 5,
+    borderRadius: 3,
+    backgroundColor: ACCENT,
+  },
   twoColumn: {
     flexDirection: 'row',
     gap: 16,
@@ -6392,6 +10315,100 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     gap: 10,
   },
+  calendarNavRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  monthCell: {
+    flex: 1,
+    minHeight: 74,
+    padding: 4,
+    gap: 2,
+    borderRadius: 10,
+    backgroundColor: '#f8fafc',
+  },
+  monthDayNumber: {
+    alignSelf: 'flex-start',
+    minWidth: 22,
+    paddingHorizontal: 4,
+    borderRadius: 11,
+    overflow: 'hidden',
+    textAlign: 'center',
+    fontSize: 12,
+    fontWeight: '700',
+    color: '#0f172a',
+  },
+  monthEventPill: {
+    fontSize: 10,
+    color: ACCENT,
+    backgroundColor: '#e5e7ff',
+    borderRadius: 4,
+    paddingHorizontal: 3,
+    overflow: 'hidden',
+  },
+  timelineHourLabel: {
+    fontSize: 10,
+    color: MUTED,
+    marginTop: -6,
+  },
+  timelineColumn: {
+    flex: 1,
+    height: HOUR_HEIGHT * 24,
+    borderLeftWidth: 1,
+    borderColor: BORDER,
+  },
+  timelineHourLine: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    borderTopWidth: 1,
+    borderColor: '#f1f5f9',
+  },
+  timelineNowLine: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    borderTopWidth: 2,
+    borderColor: '#ef4444',
+  },
+  timelineEvent: {
+    position: 'absolute',
+    padding: 4,
+    borderRadius: 8,
+    borderLeftWidth: 3,
+    borderLeftColor: ACCENT,
+    backgroundColor: '#e5e7ff',
+    overflow: 'hidden',
+  },
+  timelineEventTitle: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: '#1e1b4b',
+  },
+  timelineEventMeta: {
+    fontSize: 11,
+    color: '#4338ca',
+  },
+  syncBanner: {
+    backgroundColor: '#eef2ff',
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#c7d2fe',
+    padding: 14,
+    gap: 10,
+    marginBottom: 16,
+  },
+  syncBannerTitle: {
+    color: '#111827',
+    fontWeight: '700',
+  },
+  syncConflict: {
+    gap: 8,
+    paddingTop: 10,
+    borderTopWidth: 1,
+    borderTopColor: '#c7d2fe',
+  },
   chip: {
     paddingHorizontal: 12,
     paddingVertical: 8,
@@ -6404,6 +10421,12 @@ const styles = StyleSheet.create({
     color: '#1f2937',
     fontWeight: '600',
   },
+  quickAddChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: 6,
+  },
   taskGroup: {
     gap: 10,
   },
@@ -6422,6 +10445,24 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: BORDER,
   },
+  subtaskPanel: {
+    marginLeft: 24,
+    paddingLeft: 12,
+    borderLeftWidth: 2,
+    borderLeftColor: '#e0e7ff',
+    gap: 8,
+  },
+  subtaskRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  subtaskText: {
+    flexShrink: 1,
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#0f172a',
+  },
   taskToggle: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -6433,6 +10474,58 @@ const styles = StyleSheet.create({
     fontWeight: '700',
     color: '#0f172a',
   },
+  taskCardSelected: {
+    borderColor: ACCENT,
+    backgroundColor: '#f5f3ff',
+  },
+  selectionBar: {
+    gap: 10,
+    padding: 12,
+    borderRadius: 14,
+    backgroundColor: '#eef2ff',
+    borderWidth: 1,
+    borderColor: '#c7d2fe',
+  },
+  dragHandle: {
+    paddingVertical: 16,
+    paddingHorizontal: 2,
+    cursor: 'pointer',
+  },
+  boardColumn: {
+    gap: 10,
+    padding: 12,
+    borderRadius: 16,
+    backgroundColor: '#f8fafc',
+    borderWidth: 1,
+    borderColor: BORDER,
+  },
+  boardColumnTarget: {
+    borderColor: ACCENT,
+    backgroundColor: '#eef2ff',
+  },
+  boardCard: {
+    gap: 8,
+    padding: 12,
+    borderRadius: 12,
+    backgroundColor: CARD,
+    borderWidth: 1,
+    borderColor: BORDER,
+  },
+  projectDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+  projectSwatch: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  projectSwatchActive: {
+    borderColor: '#0f172a',
+  },
   projectPill: {
     paddingHorizontal: 8,
     paddingVertical: 4,
@@ -6451,6 +10544,19 @@ const styles = StyleSheet.create({
     fontWeight: '700',
     fontSize: 11,
   },
+  duePill: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 8,
+    backgroundColor: '#f3f4f6',
+    color: '#374151',
+    fontWeight: '700',
+    fontSize: 11,
+  },
+  duePillOverdue: {
+    backgroundColor: '#fee2e2',
+    color: '#b91c1c',
+  },
   taskSubtext: {
     color: MUTED,
     fontSize: 12,
@@ -6465,6 +10571,56 @@ const styles = StyleSheet.create({
     fontWeight: '700',
     color: '#111827',
   },
+  diffBox: {
+    borderWidth: 1,
+    borderColor: BORDER,
+    borderRadius: 12,
+    padding: 12,
+    backgroundColor: '#fafafa',
+  },
+  diffText: {
+    color: '#1f2937',
+    fontSize: 14,
+    lineHeight: 21,
+  },
+  diffAdded: {
+    backgroundColor: '#dcfce7',
+    color: '#166534',
+  },
+  diffRemoved: {
+    backgroundColor: '#fee2e2',
+    color: '#991b1b',
+    textDecorationLine: 'line-through',
+  },
+  snackbar: {
+    position: 'absolute',
+    alignSelf: 'center',
+    maxWidth: 520,
+    marginHorizontal: 18,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 14,
+    backgroundColor: '#1f2937',
+    shadowColor: '#000',
+    shadowOpacity: 0.18,
+    shadowRadius: 12,
+    shadowOffset: { width: 0, height: 4 },
+    elevation: 6,
+  },
+  snackbarText: {
+    flexShrink: 1,
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  snackbarAction: {
+    color: '#a5b4fc',
+    fontSize: 14,
+    fontWeight: '700',
+  },
   bottomNav: {
     position: 'absolute',
     left: 0,
@@ -0,0 +1,76 @@
+import { completionPatches, descendantIds, TaskPatch } from './subtasks';
+import { openBlockers } from './task-dependencies';
+import { statusPatch, toggledStatus } from './task-statuses';
+import type { Task, WorkflowStatus } from './types';
+
+// Batch actions on a selection of rows. Rows that get the same change are
+// written in one request, so completing or moving twenty tasks is a single
+// update (plus one for parents that close along with them) and one refetch.
+
+export type BatchWrite<T> = { ids: string[]; patch: Partial<T> };
+
+export function groupPatches<T>(patches: { id: string; patch: Partial<T> }[]): BatchWrite<T>[] {
+  const groups = new Map<string, BatchWrite<T>>();
+  for (const { id, patch } of patches) {
+    const key = JSON.stringify(Object.entries(patch).sort(([a], [b]) => a.localeCompare(b)));
+    const group = groups.get(key);
+    if (group) group.ids.push(id);
+    else groups.set(key, { ids: [id], patch });
+  }
+  return [...groups.values()];
+}
+
+// Completes the open tasks in `ids`, like ticking each checkbox. Tasks still
+// waiting on an open blocker outside the selection are left open and returned
+// as `blocked`.
+export function batchCompletePatches(
+  tasks: Task[],
+  ids: string[],
+  statuses: WorkflowStatus[],
+): { patches: TaskPatch[]; blocked: Task[] } {
+  let completing = tasks.filter((task) => ids.includes(task.id) && !task.is_done);
+  // Skipping one task can leave another waiting on it, so repeat until stable
+  for (;;) {
+    const completingIds = completing.map((task) => task.id);
+    const next = completing.filter((task) =>
+      openBlockers(task, tasks).every((blocker) => completingIds.includes(blocker.id)),
+    );
+    if (next.length === completing.length) break;
+    completing = next;
+  }
+  const blocked = tasks.filter((task) => ids.includes(task.id) && !task.is_done && !completing.includes(task));
+
+  let current = tasks;
+  const merged = new Map<string, Partial<Task>>();
+  for (const { id } of completing) {
+    const task = current.find((t) => t.id === id)!;
+    // Already closed because all of its subtasks were in the selection
+    if (task.is_done) continue;
+    const patch = statusPatch(task, toggledStatus(task, statuses), statuses) ?? { is_done: true };
+    for (const write of completionPatches(current, id, patch)) {
+      merged.set(write.id, { ...merged.get(write.id), ...write.patch });
+      current = current.map((t) => (t.id === write.id ? { ...t, ...write.patch } : t));
+    }
+  }
+  return { patches: [...merged].map(([id, patch]) => ({ id, patch })), blocked };
+}
+
+// Everything removed when deleting `ids` (their subtasks too), and the parents
+// that complete because their last open subtask went.
+export function batchRemoval(tasks: Task[], ids: string[]): { ids: string[]; patches: TaskPatch[] } {
+  const removed = new Set(ids.flatMap((id) => [id, ...descendantIds(tasks, id)]));
+  let remaining = tasks.filter((task) => !removed.has(task.id));
+  const parentIds = new Set(
+    tasks.filter((task) => removed.has(task.id) && task.parent_id && !removed.has(task.parent_id)).map((t) => t.parent_id!),
+  );
+  const merged = new Map<string, Partial<Task>>();
+  for (const parentId of parentIds) {
+    for (const write of completionPatches(remaining, parentId, {}).filter(({ patch }) => 'is_done' in patch)) {
+      merged.set(write.id, { ...merged.get(write.id), ...write.patch });
+      remaining = remaining.map((t) => (t.id === write.id ? { ...t, ...write.patch } : t));
+    }
+  }
+  return { ids: [...removed], patches: [...merged].map(([id, patch]) => ({ id, patch })) };
+}
+
+export default groupPatches;
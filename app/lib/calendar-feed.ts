@@ -0,0 +1,46 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+import { fail, ok, type RepoResult } from './driver';
+
+// The per-user calendar feed served by supabase/functions/calendar-feed. The
+// token is generated by the database (rotate_calendar_feed) and a feed URL is
+// useless offline, so these calls go to Supabase directly instead of through
+// the offline repository.
+
+export type CalendarFeed = { token: string; created_at: string };
+
+export async function getCalendarFeed(client: SupabaseClient): Promise<RepoResult<CalendarFeed | null>> {
+  try {
+    const { data, error } = await client.from('calendar_feeds').select('token, created_at').maybeSingle();
+    return error ? fail(error) : ok((data as CalendarFeed | null) ?? null);
+  } catch (e) {
+    return fail(e);
+  }
+}
+
+// Creates the feed, or replaces its token so the previous URL stops working.
+export async function rotateCalendarFeed(client: SupabaseClient): Promise<RepoResult<CalendarFeed>> {
+  try {
+    const { data, error } = await client.rpc('rotate_calendar_feed').single();
+    return error ? fail(error) : ok(data as CalendarFeed);
+  } catch (e) {
+    return fail(e);
+  }
+}
+
+export async function revokeCalendarFeed(client: SupabaseClient, userId: string): Promise<RepoResult<null>> {
+  try {
+    const { error } = await client.from('calendar_feeds').delete().eq('user_id', userId);
+    return error ? fail(error) : ok(null);
+  } catch (e) {
+    return fail(e);
+  }
+}
+
+export const calendarFeedUrl = (supabaseUrl: string, token: string) =>
+  `${supabaseUrl.replace(/\/$/, '')}/functions/v1/calendar-feed?token=${token}`;
+
+// Same feed as a webcal:// link, which calendar apps open as "subscribe".
+export const calendarSubscribeUrl = (feedUrl: string) => feedUrl.replace(/^https?:\/\//, 'webcal://');
+
+export default getCalendarFeed;
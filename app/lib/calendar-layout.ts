@@ -0,0 +1,114 @@
+// Date ranges and block layout for the agenda's month/week/day views. Weeks
+// start on Monday (like the home screen's week strip); all math is in local time.
+
+export type CalendarMode = 'month' | 'week' | 'day';
+
+export const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+export const addDays = (date: Date, days: number) =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days, date.getHours(), date.getMinutes());
+
+export const startOfWeek = (date: Date) => addDays(startOfDay(date), -((date.getDay() + 6) % 7));
+
+export const sameDay = (a: Date, b: Date) => a.toDateString() === b.toDateString();
+
+// Visible [from, to) for a mode around `anchor`. Month views show whole weeks,
+// always six of them so the grid doesn't jump in height between months.
+export function calendarRange(mode: CalendarMode, anchor: Date): { from: Date; to: Date } {
+  if (mode === 'day') {
+    const from = startOfDay(anchor);
+    return { from, to: addDays(from, 1) };
+  }
+  if (mode === 'week') {
+    const from = startOfWeek(anchor);
+    return { from, to: addDays(from, 7) };
+  }
+  const from = startOfWeek(new Date(anchor.getFullYear(), anchor.getMonth(), 1));
+  return { from, to: addDays(from, 42) };
+}
+
+// The anchor one page earlier (-1) or later (+1).
+export function shiftAnchor(mode: CalendarMode, anchor: Date, direction: 1 | -1): Date {
+  if (mode === 'day') return addDays(anchor, direction);
+  if (mode === 'week') return addDays(anchor, 7 * direction);
+  return new Date(anchor.getFullYear(), anchor.getMonth() + direction, 1);
+}
+
+export const daysBetween = (from: Date, to: Date) => {
+  const days: Date[] = [];
+  for (let day = startOfDay(from); day < to; day = addDays(day, 1)) days.push(day);
+  return days;
+};
+
+export type TimedItem<T> = { item: T; start: Date; end: Date | null };
+
+export type TimelineBlock<T> = {
+  item: T;
+  // Minutes since the start of the day, clipped to the day.
+  top: number;
+  height: number;
+  // Overlapping blocks share the width: this one is `column` of `columns`.
+  column: number;
+  columns: number;
+};
+
+// Shortest block drawn, so instant events (and tasks) stay visible and tappable.
+export const MIN_BLOCK_MINUTES = 20;
+
+const DAY_MINUTES = 24 * 60;
+
+// Lays out the items that touch `day` as side-by-side columns: every group of
+// transitively overlapping items gets as many columns as it needs at most.
+export function layoutDay<T>(items: TimedItem<T>[], day: Date): TimelineBlock<T>[] {
+  const dayStart = startOfDay(day).getTime();
+  const dayEnd = addDays(startOfDay(day), 1).getTime();
+
+  const spans = items
+    .map(({ item, start, end }) => {
+      const endTime = Math.max(end?.getTime() ?? start.getTime(), start.getTime());
+      // Items ending exactly at midnight belong to the previous day only.
+      if (start.getTime() >= dayEnd || endTime < dayStart || (endTime === dayStart && start.getTime() < dayStart)) {
+        return null;
+      }
+      const startMs = Math.max(start.getTime(), dayStart);
+      const endMs = Math.min(endTime, dayEnd);
+      const top = (startMs - dayStart) / 60000;
+      const height = Math.max((endMs - startMs) / 60000, MIN_BLOCK_MINUTES);
+      return { item, top: Math.min(top, DAY_MINUTES - MIN_BLOCK_MINUTES), height };
+    })
+    .filter((span): span is { item: T; top: number; height: number } => span !== null)
+    .sort((a, b) => a.top - b.top || b.height - a.height);
+
+  const blocks: TimelineBlock<T>[] = [];
+  let group: TimelineBlock<T>[] = [];
+  let columnEnds: number[] = [];
+  let groupEnd = -1;
+
+  const closeGroup = () => {
+    group.forEach((block) => (block.columns = columnEnds.length));
+    group = [];
+    columnEnds = [];
+  };
+
+  spans.forEach(({ item, top, height }) => {
+    const startsGroup = top >= groupEnd;
+    if (startsGroup) closeGroup();
+    let column = columnEnds.findIndex((end) => end <= top);
+    if (column < 0) column = columnEnds.length;
+    columnEnds[column] = top + height;
+    groupEnd = startsGroup ? top + height : Math.max(groupEnd, top + height);
+    const block = { item, top, height, column, columns: 1 };
+    group.push(block);
+    blocks.push(block);
+  });
+  closeGroup();
+  return blocks;
+}
+
+// Snaps a date to the nearest `minutes` step (drag and tap targets).
+export const snapToMinutes = (date: Date, minutes: number) => {
+  const step = minutes * 60000;
+  return new Date(Math.round(date.getTime() / step) * step);
+};
+
+export default layoutDay;
@@ -0,0 +1,176 @@
+// Low-level table access used by the repository services. A driver only knows
+// how to select/insert/update/delete rows; everything entity-specific lives in
+// repository.ts so the Supabase and in-memory backends behave identically.
+
+export type TableName =
+  | 'tasks'
+  | 'reminders'
+  | 'agenda_events'
+  | 'note_folders'
+  | 'notes'
+  | 'note_collaborators'
+  | 'folder_collaborators'
+  | 'profiles'
+  | 'projects'
+  | 'task_statuses'
+  | 'note_revisions';
+
+export type Row = Record<string, unknown>;
+
+// A row as stored: every table has a uuid primary key, synced ones an `updated_at`.
+export type StoredRow = Row & { id: string; updated_at?: string | null };
+
+// The primary key of a row that has been stored, null for one that hasn't.
+export const rowId = (row: Row) => (typeof row.id === 'string' ? row.id : null);
+
+export type Filter =
+  | { op: 'eq'; column: string; value: string | number | boolean | null }
+  | { op: 'in'; column: string; values: (string | number)[] }
+  | { op: 'not_null'; column: string }
+  | { op: 'ilike'; column: string; pattern: string }
+  | { op: 'or'; filters: Filter[] };
+
+export type SelectOptions = {
+  columns?: string;
+  filters?: Filter[];
+  order?: { column: string; ascending: boolean };
+  limit?: number;
+};
+
+export type WriteOptions = { returning?: boolean };
+
+export type RepositoryErrorKind =
+  | 'network'
+  | 'missing_column'
+  | 'not_found'
+  | 'permission'
+  | 'conflict'
+  | 'unknown';
+
+const NETWORK_PATTERN = /network request failed|failed to fetch|networkerror|fetch failed|load failed/i;
+
+// PostgREST: Could not find the 'project' column of 'tasks' in the schema cache
+// Postgres:  column "project" of relation "tasks" does not exist
+//            column tasks.deleted_at does not exist (selects and filters)
+const MISSING_COLUMN_PATTERNS = [
+  /'([a-z0-9_]+)' column/i,
+  /column "?(?:[a-z0-9_]+\.)?([a-z0-9_]+)"?(?: of relation "?[a-z0-9_]+"?)? does not exist/i,
+];
+
+export class RepositoryError extends Error {
+  readonly kind: RepositoryErrorKind;
+  readonly code?: string;
+  readonly column?: string;
+
+  constructor(message: string, kind: RepositoryErrorKind = 'unknown', details: { code?: string; column?: string } = {}) {
+    super(message);
+    this.name = 'RepositoryError';
+    this.kind = kind;
+    this.code = details.code;
+    this.column = details.column;
+  }
+
+  // Normalizes whatever Supabase (or fetch) threw into a RepositoryError.
+  static from(raw: unknown): RepositoryError {
+    if (raw instanceof RepositoryError) return raw;
+
+    const source = (raw ?? {}) as { message?: string; code?: string; details?: string };
+    const message =
+      typeof raw === 'string' ? raw : source.message || source.details || 'An unexpected error occurred';
+    const code = typeof source.code === 'string' && source.code ? source.code : undefined;
+
+    if (code === 'PGRST204' || code === '42703' || MISSING_COLUMN_PATTERNS.some((p) => p.test(message))) {
+      const match = MISSING_COLUMN_PATTERNS.map((p) => message.match(p)).find(Boolean);
+      return new RepositoryError(message, 'missing_column', { code, column: match?.[1]?.toLowerCase() });
+    }
+    if (code === 'PGRST116') return new RepositoryError(message, 'not_found', { code });
+    if (code === '42501' || /row-level security|permission denied/i.test(message)) {
+      return new RepositoryError(message, 'permission', { code });
+    }
+    if (code === '23505') return new RepositoryError(message, 'conflict', { code });
+    if (raw instanceof TypeError || NETWORK_PATTERN.test(message)) {
+      return new RepositoryError(message, 'network', { code });
+    }
+    return new RepositoryError(message, 'unknown', { code });
+  }
+}
+
+export type RepoResult<T> = { data: T; error: null } | { data: null; error: RepositoryError };
+
+export const ok = <T>(data: T): RepoResult<T> => ({ data, error: null });
+
+export const fail = <T = never>(error: unknown): RepoResult<T> => ({
+  data: null,
+  error: RepositoryError.from(error),
+});
+
+export interface TableDriver {
+  select<T extends Row>(table: TableName, options?: SelectOptions): Promise<RepoResult<T[]>>;
+  // insert/update return the written rows when `returning` is set, otherwise an empty array.
+  insert<T extends Row>(table: TableName, rows: Row[], options?: WriteOptions): Promise<RepoResult<T[]>>;
+  upsert(table: TableName, rows: Row[], onConflict: string): Promise<RepoResult<null>>;
+  update<T extends Row>(table: TableName, patch: Row, filters: Filter[], options?: WriteOptions): Promise<RepoResult<T[]>>;
+  remove(table: TableName, filters: Filter[]): Promise<RepoResult<null>>;
+}
+
+const likeToRegExp = (pattern: string) =>
+  new RegExp(`^${pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/%/g, '.*').replace(/_/g, '.')}$`, 'i');
+
+// Client-side evaluation of the filters above, shared by the in-memory driver
+// and the offline cache so both answer queries the way PostgREST would.
+export const matchesFilter = (row: Row, filter: Filter): boolean => {
+  switch (filter.op) {
+    case 'eq':
+      return filter.value === null ? row[filter.column] == null : row[filter.column] === filter.value;
+    case 'in':
+      return (filter.values as unknown[]).includes(row[filter.column]);
+    case 'not_null':
+      return row[filter.column] != null;
+    case 'ilike':
+      return likeToRegExp(filter.pattern).test(String(row[filter.column] ?? ''));
+    case 'or':
+      return filter.filters.some((f) => matchesFilter(row, f));
+  }
+};
+
+export const matchesFilters = (row: Row, filters: Filter[] = []) => filters.every((f) => matchesFilter(row, f));
+
+const project = (row: Row, columns?: string) => {
+  if (!columns || columns.trim() === '*') return { ...row };
+  return columns
+    .split(',')
+    .map((c) => c.trim())
+    .reduce<Row>((acc, column) => {
+      acc[column] = row[column];
+      return acc;
+    }, {});
+};
+
+export const queryRows = <T extends Row>(source: Row[], options: SelectOptions = {}): T[] => {
+  let rows = source.filter((row) => matchesFilters(row, options.filters));
+  if (options.order) {
+    const { column, ascending } = options.order;
+    rows = [...rows].sort((a, b) => {
+      if (a[column] == null) return 1;
+      if (b[column] == null) return -1;
+      const result = a[column] < b[column] ? -1 : a[column] > b[column] ? 1 : 0;
+      return ascending ? result : -result;
+    });
+  }
+  if (options.limit) rows = rows.slice(0, options.limit);
+  return rows.map((row) => project(row, options.columns) as T);
+};
+
+export const eq = (column: string, value: string | number | boolean | null): Filter => ({ op: 'eq', column, value });
+export const isIn = (column: string, values: (string | number)[]): Filter => ({ op: 'in', column, values });
+export const notNull = (column: string): Filter => ({ op: 'not_null', column });
+
+// RFC4122-style v4 id; Math.random is fine here since ids only need to be unique, not secret.
+export const createId = () =>
+  'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (c) => {
+    const r = (Math.random() * 16) | 0;
+    const v = c === 'x' ? r : (r & 0x3) | 0x8;
+    return v.toString(16);
+  });
+
+export default RepositoryError;
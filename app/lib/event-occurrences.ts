@@ -0,0 +1,185 @@
+import { formatRecurrence, iterateOccurrences, occurrencesBetween, parseRecurrence, type RecurrenceRule } from './recurrence';
+import type { AgendaEvent, EventException, NewAgendaEvent } from './types';
+
+// Turns agenda events into the concrete occurrences of a date range and builds
+// the patches for editing a single occurrence. A recurring event stores its
+// first occurrence in `starts_at`/`ends_at`; every other occurrence has the
+// same duration unless an entry in `recurrence_exceptions` skips or moves it.
+
+export type EventOccurrence = AgendaEvent & {
+  // Unique per occurrence: the event id, plus `@<original start>` for recurring events.
+  occurrence_key: string;
+  // The start the rule gives this occurrence (what exceptions are keyed by); null for one-off events.
+  original_start: string | null;
+};
+
+export type OccurrenceChanges = Pick<EventException, 'title' | 'starts_at' | 'ends_at' | 'location'>;
+
+// Which occurrences an edit or delete of a recurring event applies to.
+export type OccurrenceScope = 'this' | 'following' | 'all';
+
+const time = (iso: string | null | undefined) => (iso ? new Date(iso).getTime() : NaN);
+
+const sameInstant = (a: string, b: string) => time(a) === time(b);
+
+const durationOf = (event: Pick<AgendaEvent, 'starts_at' | 'ends_at'>) =>
+  event.starts_at && event.ends_at ? Math.max(0, time(event.ends_at) - time(event.starts_at)) : null;
+
+const endFor = (startsAt: string, duration: number | null) =>
+  duration === null ? null : new Date(time(startsAt) + duration).toISOString();
+
+// Whether [start, end] touches [from, to); zero-length events count at their start.
+const overlaps = (start: number, end: number, from: Date, to: Date) =>
+  start < to.getTime() && (end > from.getTime() || start >= from.getTime());
+
+export const isRecurring = (event: AgendaEvent) => !!event.starts_at && !!parseRecurrence(event.recurrence);
+
+// All occurrences overlapping [from, to), sorted by start. Events without a
+// start time are kept (at the end) so they stay visible and deletable.
+export function expandEvents(events: AgendaEvent[], from: Date, to: Date): EventOccurrence[] {
+  const result: EventOccurrence[] = [];
+
+  events.forEach((event) => {
+    const rule = parseRecurrence(event.recurrence);
+    if (!rule || !event.starts_at) {
+      const start = time(event.starts_at);
+      const end = time(event.ends_at);
+      if (Number.isNaN(start) || overlaps(start, Number.isNaN(end) ? start : end, from, to)) {
+        result.push({ ...event, occurrence_key: event.id, original_start: null });
+      }
+      return;
+    }
+
+    const duration = durationOf(event);
+    const exceptions = event.recurrence_exceptions ?? [];
+    const push = (original: string, changes: OccurrenceChanges) => {
+      const startsAt = changes.starts_at ?? original;
+      const endsAt = changes.ends_at !== undefined ? changes.ends_at : endFor(startsAt, duration);
+      if (!overlaps(time(startsAt), time(endsAt) || time(startsAt), from, to)) return;
+      result.push({
+        ...event,
+        ...changes,
+        starts_at: startsAt,
+        ends_at: endsAt,
+        occurrence_key: `${event.id}@${original}`,
+        original_start: original,
+      });
+    };
+
+    // Start early enough to include occurrences that began before `from` but still run.
+    const windowStart = new Date(from.getTime() - (duration ?? 0));
+    occurrencesBetween(rule, new Date(event.starts_at), windowStart, to).forEach((date) => {
+      const original = date.toISOString();
+      if (!exceptions.some((e) => sameInstant(e.original_start, original))) push(original, {});
+    });
+    // Moved occurrences may have left (or entered) the range, so check them on their own.
+    exceptions.forEach(({ original_start, skipped, ...changes }) => {
+      if (!skipped) push(original_start, changes);
+    });
+  });
+
+  return result.sort((a, b) => (time(a.starts_at) || Infinity) - (time(b.starts_at) || Infinity));
+}
+
+const withException = (event: AgendaEvent, exception: EventException): Partial<AgendaEvent> => ({
+  recurrence_exceptions: [
+    ...(event.recurrence_exceptions ?? []).filter((e) => !sameInstant(e.original_start, exception.original_start)),
+    exception,
+  ],
+});
+
+export const skipOccurrence = (event: AgendaEvent, originalStart: string) =>
+  withException(event, { original_start: originalStart, skipped: true });
+
+export const overrideOccurrence = (event: AgendaEvent, originalStart: string, changes: OccurrenceChanges) =>
+  withException(event, { original_start: originalStart, ...changes });
+
+const countBefore = (rule: RecurrenceRule, start: Date, cut: Date) => {
+  let count = 0;
+  for (const date of iterateOccurrences(rule, start)) {
+    if (date >= cut) break;
+    count++;
+  }
+  return count;
+};
+
+// Ends the series just before `originalStart` ("delete this and following").
+// Null when that is the first occurrence, i.e. the whole series goes.
+export function endSeriesBefore(event: AgendaEvent, originalStart: string): Partial<AgendaEvent> | null {
+  const rule = parseRecurrence(event.recurrence);
+  if (!rule || !event.starts_at || time(originalStart) <= time(event.starts_at)) return null;
+  const cut = new Date(originalStart);
+  const truncated = rule.count
+    ? { ...rule, count: countBefore(rule, new Date(event.starts_at), cut) }
+    : { ...rule, until: new Date(cut.getTime() - 1000) };
+  return {
+    recurrence: formatRecurrence(truncated),
+    recurrence_exceptions: (event.recurrence_exceptions ?? []).filter((e) => time(e.original_start) < cut.getTime()),
+  };
+}
+
+// "Edit this and following": the old series stops before the occurrence and a
+// new one starts from it with the changes. `head` is null when the occurrence
+// is the first one, in which case `tail` should replace the event itself.
+export function splitSeries(
+  event: AgendaEvent,
+  originalStart: string,
+  changes: OccurrenceChanges & { recurrence?: string | null },
+): { head: Partial<AgendaEvent> | null; tail: NewAgendaEvent } {
+  const rule = parseRecurrence(event.recurrence);
+  const startsAt = changes.starts_at ?? originalStart;
+  const remaining =
+    rule?.count && event.starts_at
+      ? { ...rule, count: Math.max(1, rule.count - countBefore(rule, new Date(event.starts_at), new Date(originalStart))) }
+      : rule;
+  const recurrence =
+    changes.recurrence !== undefined && changes.recurrence !== event.recurrence
+      ? changes.recurrence
+      : remaining && formatRecurrence(remaining);
+
+  return {
+    head: endSeriesBefore(event, originalStart),
+    tail: {
+      title: changes.title ?? event.title,
+      starts_at: startsAt,
+      ends_at: changes.ends_at !== undefined ? changes.ends_at : endFor(startsAt, durationOf(event)),
+      location: changes.location !== undefined ? changes.location : (event.location ?? null),
+      description: event.description ?? null,
+      recurrence,
+      user_id: event.user_id,
+    },
+  };
+}
+
+// "Edit all": applies an edit made on one occurrence to the whole series. Moving
+// that occurrence moves the series start (and the exception keys) by the same
+// amount; BYDAY is left alone, so changing the weekday is a "this and following" edit.
+export function updateSeries(
+  event: AgendaEvent,
+  originalStart: string,
+  changes: OccurrenceChanges & { recurrence?: string | null },
+): Partial<AgendaEvent> {
+  const patch: Partial<AgendaEvent> = {};
+  if (changes.title !== undefined) patch.title = changes.title;
+  if (changes.location !== undefined) patch.location = changes.location;
+  if (changes.recurrence !== undefined && changes.recurrence !== event.recurrence) patch.recurrence = changes.recurrence;
+
+  const shift = changes.starts_at ? time(changes.starts_at) - time(originalStart) : 0;
+  const startsAt = event.starts_at && shift ? new Date(time(event.starts_at) + shift).toISOString() : event.starts_at;
+  if (shift && startsAt) {
+    patch.starts_at = startsAt;
+    patch.recurrence_exceptions = (event.recurrence_exceptions ?? []).map((e) => ({
+      ...e,
+      original_start: new Date(time(e.original_start) + shift).toISOString(),
+    }));
+  }
+  if (changes.ends_at !== undefined && startsAt) {
+    const duration = changes.ends_at ? time(changes.ends_at) - time(changes.starts_at ?? originalStart) : null;
+    patch.ends_at = endFor(startsAt, duration === null ? null : Math.max(0, duration));
+  } else if (shift) {
+    patch.ends_at = startsAt ? endFor(startsAt, durationOf(event)) : event.ends_at;
+  }
+  return patch;
+}
+
+export default expandEvents;
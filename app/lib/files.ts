@@ -0,0 +1,103 @@
+import * as DocumentPicker from 'expo-document-picker';
+import { File, Paths } from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { Platform } from 'react-native';
+
+// Getting files in and out of the app. Web downloads and uploads through the
+// browser; native writes to the cache directory and opens the share sheet.
+// All functions throw on failure so callers can show their own alert.
+
+export async function shareFile(filename: string, content: string | Uint8Array, mimeType: string) {
+  if (Platform.OS === 'web') {
+    const url = URL.createObjectURL(new Blob([content as BlobPart], { type: mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+    return;
+  }
+
+  const file = new File(Paths.cache, filename);
+  file.create({ overwrite: true });
+  file.write(content);
+  if (!(await Sharing.isAvailableAsync())) throw new Error('Delen is niet beschikbaar op dit apparaat');
+  await Sharing.shareAsync(file.uri, { mimeType, dialogTitle: filename });
+}
+
+export const shareTextFile = (filename: string, content: string, mimeType: string) =>
+  shareFile(filename, content, mimeType);
+
+// Renders an HTML document to a PDF. Native renders it with
+// react-native-html-to-pdf and opens the share sheet; web has no PDF renderer,
+// so the document is printed from a hidden frame where "Save as PDF" is offered.
+export async function sharePdf(filename: string, html: string, page: { width: number; height: number; padding: number }) {
+  if (Platform.OS === 'web') {
+    const frame = document.createElement('iframe');
+    frame.style.cssText = 'position: fixed; right: 0; bottom: 0; width: 0; height: 0; border: 0;';
+    document.body.appendChild(frame);
+    try {
+      await new Promise((resolve) => {
+        frame.onload = resolve;
+        frame.srcdoc = html;
+      });
+      const doc = frame.contentDocument!;
+      await Promise.all(
+        Array.from(doc.images)
+          .filter((image) => !image.complete)
+          .map((image) => new Promise((resolve) => (image.onload = image.onerror = resolve))),
+      );
+      // Browsers suggest the document title as the file name
+      doc.title = filename.replace(/\.pdf$/i, '');
+      frame.contentWindow!.focus();
+      frame.contentWindow!.print();
+    } finally {
+      setTimeout(() => frame.remove(), 1000);
+    }
+    return;
+  }
+
+  // The native module does not exist on web, so it is only loaded here
+  const { generatePDF } = await import('react-native-html-to-pdf');
+  const { filePath } = await generatePDF({
+    html,
+    fileName: filename.replace(/\.pdf$/i, ''),
+    width: page.width,
+    height: page.height,
+    padding: page.padding,
+    bgColor: '#ffffff',
+  });
+  if (!filePath) throw new Error('De PDF kon niet gemaakt worden');
+  if (!(await Sharing.isAvailableAsync())) throw new Error('Delen is niet beschikbaar op dit apparaat');
+  const uri = filePath.startsWith('file://') ? filePath : `file://${filePath}`;
+  await Sharing.shareAsync(uri, { mimeType: 'application/pdf', UTI: 'com.adobe.pdf', dialogTitle: filename });
+}
+
+// Asks the user for a file; resolves to its name and text, or null when cancelled.
+export async function pickTextFile(types: string[]): Promise<{ name: string; content: string } | null> {
+  const result = await DocumentPicker.getDocumentAsync({ type: types, copyToCacheDirectory: true });
+  if (result.canceled || !result.assets.length) return null;
+  const asset = result.assets[0];
+  const content =
+    Platform.OS === 'web'
+      ? await (asset.file ?? (await (await fetch(asset.uri)).blob())).text()
+      : await new File(asset.uri).text();
+  return { name: asset.name, content };
+}
+
+// Like pickTextFile, for any number of files read as bytes (e.g. zip archives).
+export async function pickFiles(types: string[]): Promise<{ name: string; data: Uint8Array }[] | null> {
+  const result = await DocumentPicker.getDocumentAsync({ type: types, multiple: true, copyToCacheDirectory: true });
+  if (result.canceled || !result.assets.length) return null;
+  return Promise.all(
+    result.assets.map(async (asset) => ({
+      name: asset.name,
+      data:
+        Platform.OS === 'web'
+          ? new Uint8Array(await (asset.file ?? (await (await fetch(asset.uri)).blob())).arrayBuffer())
+          : await new File(asset.uri).bytes(),
+    })),
+  );
+}
+
+export default shareTextFile;
@@ -0,0 +1,53 @@
+import { groupPatches } from './batch';
+import type { RepositoryError } from './driver';
+
+// Undo/redo for deletes and batch changes. The write happens right away; an
+// entry remembers how to revert it (put deleted rows back with their ids,
+// write the old values) and how to apply it again.
+
+export type HistoryStep = () => Promise<{ error: RepositoryError | null }>;
+
+export type HistoryEntry = {
+  // Shown in the undo snackbar, e.g. "3 tasks deleted".
+  label: string;
+  undo: HistoryStep[];
+  redo: HistoryStep[];
+  // Reloads whatever the steps touched.
+  refresh: () => void;
+};
+
+export const HISTORY_LIMIT = 50;
+
+// Runs the steps in order; the first error stops the rest.
+export async function runSteps(steps: HistoryStep[]): Promise<RepositoryError | null> {
+  for (const step of steps) {
+    const { error } = await step();
+    if (error) return error;
+  }
+  return null;
+}
+
+type Patch<T> = { id: string; patch: Partial<T> };
+
+// The writes that put back what `patches` are about to change, read from the
+// rows as they are now. Columns that were unset become null.
+export function revertPatches<T extends { id: string }>(rows: T[], patches: Patch<T>[]): Patch<T>[] {
+  return patches.flatMap(({ id, patch }) => {
+    const row = rows.find((r) => r.id === id);
+    if (!row) return [];
+    const previous = Object.fromEntries(
+      Object.keys(patch).map((key) => [key, row[key as keyof T] ?? null]),
+    ) as Partial<T>;
+    return [{ id, patch: previous }];
+  });
+}
+
+// One step per distinct change, like the batch actions themselves.
+export const patchSteps = <T>(
+  patches: Patch<T>[],
+  update: (ids: string[], patch: Partial<T>) => Promise<{ error: RepositoryError | null }>,
+): HistoryStep[] => groupPatches(patches).map(({ ids, patch }) => () => update(ids, patch));
+
+export const plural = (count: number, one: string, many = `${one}s`) => `${count} ${count === 1 ? one : many}`;
+
+export default runSteps;
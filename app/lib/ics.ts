@@ -0,0 +1,285 @@
+import { formatRecurrence, parseRecurrence } from './recurrence';
+import type { AgendaEvent, EventException, NewAgendaEvent } from './types';
+
+// iCalendar (RFC 5545) import/export for agenda events. Export writes one
+// VEVENT per event (RRULE + EXDATE for skipped occurrences) plus one per moved
+// occurrence (RECURRENCE-ID). Import maps the same back. Times are written in
+// UTC; TZID times are read as device-local time since there is no tz database.
+
+export const ICS_MIME_TYPE = 'text/calendar';
+
+const PRODUCT_ID = '-//MoofToDo//Agenda//EN';
+const UID_DOMAIN = 'mooftodo';
+
+// RRULE parts recurrence.ts understands; anything else would silently change the schedule.
+const SUPPORTED_RULE_PARTS = ['FREQ', 'INTERVAL', 'BYDAY', 'BYMONTHDAY', 'COUNT', 'UNTIL', 'WKST'];
+
+// Events imported from elsewhere keep their UID; our own get a stable one from the id.
+export const icsUid = (event: Pick<AgendaEvent, 'id' | 'ical_uid'>) => event.ical_uid || `${event.id}@${UID_DOMAIN}`;
+
+export type IcsImport = {
+  events: NewAgendaEvent[];
+  // Events whose RRULE uses parts we can't expand; only their first occurrence was kept.
+  unsupportedRules: number;
+};
+
+// ---- export
+
+const escapeText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/\r?\n/g, '\\n').replace(/([,;])/g, '\\$1');
+
+const formatDateTime = (iso: string) => new Date(iso).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const utf8Length = (char: string) => {
+  const code = char.codePointAt(0) ?? 0;
+  return code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4;
+};
+
+// Lines longer than 75 octets continue on the next line after a space.
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let size = 0;
+  for (const char of line) {
+    const length = utf8Length(char);
+    if (size + length > (parts.length ? 74 : 75)) {
+      parts.push(current);
+      current = '';
+      size = 0;
+    }
+    current += char;
+    size += length;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function eventLines(event: AgendaEvent, stamp: string): string[] {
+  if (!event.starts_at) return [];
+  const uid = icsUid(event);
+  const exceptions = event.recurrence_exceptions ?? [];
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${uid}`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART:${formatDateTime(event.starts_at)}`,
+  ];
+  if (event.ends_at) lines.push(`DTEND:${formatDateTime(event.ends_at)}`);
+  lines.push(`SUMMARY:${escapeText(event.title)}`);
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+
+  const rule = parseRecurrence(event.recurrence);
+  if (rule) {
+    lines.push(`RRULE:${formatRecurrence(rule)}`);
+    exceptions.filter((e) => e.skipped).forEach((e) => lines.push(`EXDATE:${formatDateTime(e.original_start)}`));
+  }
+  lines.push('END:VEVENT');
+  if (!rule) return lines;
+
+  const duration = event.ends_at ? new Date(event.ends_at).getTime() - new Date(event.starts_at).getTime() : null;
+  exceptions
+    .filter((e) => !e.skipped)
+    .forEach((e) => {
+      const startsAt = e.starts_at ?? e.original_start;
+      const endsAt =
+        e.ends_at !== undefined
+          ? e.ends_at
+          : duration === null
+            ? null
+            : new Date(new Date(startsAt).getTime() + duration).toISOString();
+      lines.push(
+        'BEGIN:VEVENT',
+        `UID:${uid}`,
+        `DTSTAMP:${stamp}`,
+        `RECURRENCE-ID:${formatDateTime(e.original_start)}`,
+        `DTSTART:${formatDateTime(startsAt)}`,
+      );
+      if (endsAt) lines.push(`DTEND:${formatDateTime(endsAt)}`);
+      lines.push(`SUMMARY:${escapeText(e.title ?? event.title)}`);
+      const location = e.location !== undefined ? e.location : event.location;
+      if (location) lines.push(`LOCATION:${escapeText(location)}`);
+      lines.push('END:VEVENT');
+    });
+  return lines;
+}
+
+export function eventsToIcs(events: AgendaEvent[], calendarName = 'MoofToDo'): string {
+  const stamp = formatDateTime(new Date().toISOString());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+    ...events.flatMap((event) => eventLines(event, stamp)),
+    'END:VCALENDAR',
+  ];
+  return `${lines.map(foldLine).join('\r\n')}\r\n`;
+}
+
+// ---- import
+
+type Property = { name: string; params: Record<string, string>; value: string };
+
+type RawEvent = Record<string, Property[]>;
+
+const unescapeText = (value: string) =>
+  value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+
+// NAME;PARAM=x;PARAM="y:z":value — the value starts at the first colon outside quotes.
+function parseProperty(line: string): Property | null {
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    else if (line[i] === ':' && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon < 0) return null;
+  const [name, ...rawParams] = line.slice(0, colon).split(';');
+  const params = Object.fromEntries(
+    rawParams.map((param) => {
+      const [key, ...rest] = param.split('=');
+      return [key.toUpperCase(), rest.join('=').replace(/^"|"$/g, '')];
+    }),
+  );
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+function parseDate(value: string): { date: Date; allDay: boolean } | null {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+  if (!match) return null;
+  const [, y, mo, d, h, mi, s = '0', utc] = match;
+  if (h === undefined) return { date: new Date(+y, +mo - 1, +d), allDay: true };
+  const date = utc ? new Date(Date.UTC(+y, +mo - 1, +d, +h, +mi, +s)) : new Date(+y, +mo - 1, +d, +h, +mi, +s);
+  return { date, allDay: false };
+}
+
+// ISO 8601 duration as used by DURATION, e.g. PT1H30M or P1D; milliseconds.
+function parseDuration(value: string): number | null {
+  const match = value.trim().match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return null;
+  const [, sign, w = '0', d = '0', h = '0', m = '0', s = '0'] = match;
+  const ms = ((+w * 7 + +d) * 86400 + +h * 3600 + +m * 60 + +s) * 1000;
+  return sign === '-' ? -ms : ms;
+}
+
+const first = (event: RawEvent, name: string) => event[name]?.[0];
+
+const textOf = (event: RawEvent, name: string) => {
+  const property = first(event, name);
+  return property ? unescapeText(property.value).trim() || null : null;
+};
+
+function timesOf(event: RawEvent): { starts_at: string; ends_at: string | null } | null {
+  const start = first(event, 'DTSTART') && parseDate(first(event, 'DTSTART')!.value);
+  if (!start) return null;
+  const end = first(event, 'DTEND') && parseDate(first(event, 'DTEND')!.value);
+  const duration = first(event, 'DURATION') && parseDuration(first(event, 'DURATION')!.value);
+  const endsAt = end ? end.date : duration != null ? new Date(start.date.getTime() + duration) : null;
+  return { starts_at: start.date.toISOString(), ends_at: endsAt ? endsAt.toISOString() : null };
+}
+
+const supportedRule = (value: string) =>
+  value
+    .split(';')
+    .map((part) => part.split('=')[0].trim().toUpperCase())
+    .every((key) => SUPPORTED_RULE_PARTS.includes(key));
+
+function readEvents(text: string): RawEvent[] {
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const events: RawEvent[] = [];
+  let current: RawEvent | null = null;
+  // Nested components (VALARM, ...) inside a VEVENT are skipped.
+  let nested = 0;
+
+  lines.forEach((line) => {
+    const property = parseProperty(line);
+    if (!property) return;
+    if (property.name === 'BEGIN') {
+      if (current) nested++;
+      else if (property.value.toUpperCase() === 'VEVENT') current = {};
+    } else if (property.name === 'END') {
+      if (nested) nested--;
+      else if (current && property.value.toUpperCase() === 'VEVENT') {
+        events.push(current);
+        current = null;
+      }
+    } else if (current && !nested) {
+      (current[property.name] ??= []).push(property);
+    }
+  });
+  return events;
+}
+
+export function parseIcs(text: string): IcsImport {
+  const raw = readEvents(text);
+  const events: NewAgendaEvent[] = [];
+  const byUid = new Map<string, NewAgendaEvent>();
+  const overrides: { uid: string | null; exception: EventException; standalone: NewAgendaEvent }[] = [];
+  let unsupportedRules = 0;
+
+  raw.forEach((event) => {
+    const times = timesOf(event);
+    if (!times) return;
+    const uid = textOf(event, 'UID');
+    const cancelled = textOf(event, 'STATUS')?.toUpperCase() === 'CANCELLED';
+    const base: NewAgendaEvent = {
+      title: textOf(event, 'SUMMARY') ?? 'Untitled event',
+      ...times,
+      location: textOf(event, 'LOCATION'),
+      description: textOf(event, 'DESCRIPTION'),
+      ical_uid: uid,
+    };
+
+    const recurrenceId = first(event, 'RECURRENCE-ID') && parseDate(first(event, 'RECURRENCE-ID')!.value);
+    if (recurrenceId) {
+      const original_start = recurrenceId.date.toISOString();
+      overrides.push({
+        uid,
+        exception: cancelled
+          ? { original_start, skipped: true }
+          : { original_start, title: base.title, starts_at: times.starts_at, ends_at: times.ends_at, location: base.location },
+        standalone: { ...base, ical_uid: uid ? `${uid}/${original_start}` : null },
+      });
+      return;
+    }
+    if (cancelled) return;
+
+    const rrule = first(event, 'RRULE')?.value;
+    const rule = rrule && supportedRule(rrule) ? parseRecurrence(rrule) : null;
+    if (rrule && !rule) unsupportedRules++;
+    if (rule) {
+      base.recurrence = formatRecurrence(rule);
+      base.recurrence_exceptions = (event.EXDATE ?? [])
+        .flatMap((property) => property.value.split(','))
+        .map(parseDate)
+        .filter((date): date is NonNullable<typeof date> => !!date)
+        .map(({ date }) => ({ original_start: date.toISOString(), skipped: true }));
+    }
+    events.push(base);
+    if (uid) byUid.set(uid, base);
+  });
+
+  // Moved/cancelled occurrences belong to their series; without one they're plain events.
+  overrides.forEach(({ uid, exception, standalone }) => {
+    const master = uid ? byUid.get(uid) : undefined;
+    if (master?.recurrence) {
+      master.recurrence_exceptions = [
+        ...(master.recurrence_exceptions ?? []).filter(
+          (e) => new Date(e.original_start).getTime() !== new Date(exception.original_start).getTime(),
+        ),
+        exception,
+      ];
+    } else if (!exception.skipped && !master) {
+      events.push(standalone);
+    }
+  });
+
+  return { events, unsupportedRules };
+}
+
+export default parseIcs;
@@ -0,0 +1,309 @@
+// Markdown to and from the HTML the note editors produce (contentEditable on
+// web, pell on native). Both directions handle headings, paragraphs, lists,
+// bold/italic/strikethrough, links, images, quotes and code; anything else
+// keeps its text. No DOM is needed, so this runs on native too.
+
+type HtmlElement = { tag: string; attrs: Record<string, string>; children: HtmlNode[] };
+type HtmlNode = HtmlElement | string;
+
+// Called for every image; returns the src to write, e.g. a file in an export.
+export type ImageHandler = (src: string, alt: string) => string;
+
+const VOID_TAGS = new Set(['br', 'img', 'hr', 'input', 'meta', 'link', 'wbr']);
+const BLOCK_TAGS = new Set([
+  ...['p', 'div', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6'],
+  ...['ul', 'ol', 'li', 'blockquote', 'pre', 'hr', 'table', 'tr'],
+]);
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', '#39': "'" };
+
+const decodeEntities = (text: string) =>
+  text.replace(/&(#x?[0-9a-f]+|[a-z]+);/gi, (match, name: string) => {
+    if (name in ENTITIES) return ENTITIES[name];
+    if (name[0] !== '#') return match;
+    const code = name[1] === 'x' || name[1] === 'X' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+    return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+  });
+
+export const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const ATTR_PATTERN = /([^\s=/>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+
+// A forgiving parser: unknown tags are kept, stray closing tags ignored and
+// anything left open is closed at the end.
+function parseHtml(html: string): HtmlElement {
+  const root: HtmlElement = { tag: '', attrs: {}, children: [] };
+  const stack = [root];
+  const pattern = /<!--[\s\S]*?-->|<\/?([a-z][a-z0-9]*)([^>]*)>|[^<]+|</gi;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(html))) {
+    const [token, name, rest] = match;
+    const parent = stack[stack.length - 1];
+    if (token.startsWith('<!--')) continue;
+    if (!name) {
+      parent.children.push(decodeEntities(token));
+      continue;
+    }
+    const tag = name.toLowerCase();
+    if (token[1] === '/') {
+      const index = stack.map((el) => el.tag).lastIndexOf(tag);
+      if (index > 0) stack.length = index;
+      continue;
+    }
+    const attrs: Record<string, string> = {};
+    for (const [, key, double, single, bare] of rest.matchAll(ATTR_PATTERN)) {
+      attrs[key.toLowerCase()] = decodeEntities(double ?? single ?? bare ?? '');
+    }
+    const element: HtmlElement = { tag, attrs, children: [] };
+    parent.children.push(element);
+    if (!VOID_TAGS.has(tag) && !rest.trim().endsWith('/')) stack.push(element);
+  }
+  return root;
+}
+
+const escapeMarkdown = (text: string) => text.replace(/([\\`*_[\]])/g, '\\$1');
+
+// Wraps inline text in a marker, keeping surrounding spaces outside it ("** a**" does not parse).
+const wrap = (text: string, marker: string) => {
+  const inner = text.trim();
+  if (!inner) return text;
+  const lead = text.slice(0, text.indexOf(inner[0]));
+  const trail = text.slice(text.lastIndexOf(inner[inner.length - 1]) + 1);
+  return `${lead}${marker}${inner}${marker}${trail}`;
+};
+
+function inlineMarkdown(nodes: HtmlNode[], image: ImageHandler): string {
+  return nodes
+    .map((node) => {
+      if (typeof node === 'string') return escapeMarkdown(node.replace(/\s+/g, ' '));
+      const inner = () => inlineMarkdown(node.children, image);
+      switch (node.tag) {
+        case 'br':
+          return '  \n';
+        case 'b':
+        case 'strong':
+          return wrap(inner(), '**');
+        case 'i':
+        case 'em':
+          return wrap(inner(), '*');
+        case 's':
+        case 'strike':
+        case 'del':
+          return wrap(inner(), '~~');
+        case 'code':
+          return `\`${textOf(node)}\``;
+        case 'a':
+          return node.attrs.href ? `[${inner()}](${node.attrs.href})` : inner();
+        case 'img':
+          if (!node.attrs.src) return '';
+          return `![${escapeMarkdown(node.attrs.alt ?? '')}](${image(node.attrs.src, node.attrs.alt ?? '')})`;
+        default:
+          // Blocks nested in inline content (e.g. a div inside a list item) become line breaks
+          return BLOCK_TAGS.has(node.tag) ? `${inner()}  \n` : inner();
+      }
+    })
+    .join('');
+}
+
+const textOf = (node: HtmlNode): string => (typeof node === 'string' ? node : node.children.map(textOf).join(''));
+
+// Tidies one block: no trailing hard breaks, no spaces at line ends.
+const cleanBlock = (text: string) =>
+  text
+    .replace(/( {2}\n)+$/, '')
+    .replace(/[ \t]+$/gm, (spaces) => (spaces === '  ' ? spaces : ''))
+    .trim();
+
+function blockMarkdown(nodes: HtmlNode[], image: ImageHandler): string[] {
+  const blocks: string[] = [];
+  let inline: HtmlNode[] = [];
+  const flushInline = () => {
+    const text = cleanBlock(inlineMarkdown(inline, image));
+    if (text) blocks.push(text);
+    inline = [];
+  };
+
+  for (const node of nodes) {
+    if (typeof node === 'string' || !BLOCK_TAGS.has(node.tag)) {
+      inline.push(node);
+      continue;
+    }
+    flushInline();
+    const level = /^h([1-6])$/.exec(node.tag)?.[1];
+    if (level) {
+      const text = cleanBlock(inlineMarkdown(node.children, image)).replace(/ {2}\n/g, ' ');
+      if (text) blocks.push(`${'#'.repeat(Number(level))} ${text}`);
+    } else if (node.tag === 'ul' || node.tag === 'ol') {
+      blocks.push(listMarkdown(node, image));
+    } else if (node.tag === 'blockquote') {
+      const quoted = blockMarkdown(node.children, image).join('\n\n');
+      if (quoted) blocks.push(quoted.replace(/^/gm, '> '));
+    } else if (node.tag === 'pre') {
+      blocks.push(`\`\`\`\n${textOf(node).replace(/\n$/, '')}\n\`\`\``);
+    } else if (node.tag === 'hr') {
+      blocks.push('---');
+    } else {
+      blocks.push(...blockMarkdown(node.children, image));
+    }
+  }
+  flushInline();
+  return blocks.filter((block) => block.trim());
+}
+
+function listMarkdown(list: HtmlElement, image: ImageHandler): string {
+  const items = list.children.filter((child): child is HtmlElement => typeof child !== 'string' && child.tag === 'li');
+  return items
+    .map((item, index) => {
+      const marker = list.tag === 'ol' ? `${index + 1}. ` : '- ';
+      const body = blockMarkdown(item.children, image).join('\n');
+      return marker + body.replace(/\n/g, `\n${' '.repeat(marker.length)}`);
+    })
+    .join('\n');
+}
+
+// Note HTML as Markdown. `image` decides what each image points to.
+export function htmlToMarkdown(html: string, image: ImageHandler = (src) => src): string {
+  return blockMarkdown(parseHtml(html).children, image).join('\n\n');
+}
+
+// Links from imported files must not run script when clicked.
+const safeHref = (href: string) => (/^\s*(javascript|vbscript|data):/i.test(href) ? '#' : href);
+
+// Inline Markdown: code spans first so their content is left alone. Generated
+// tags are set aside the same way, so emphasis never rewrites an href or src
+// (`a*b*c`, `__init__` and `_draft_` are common in URLs).
+function inlineHtml(text: string, image: ImageHandler): string {
+  const codes: string[] = [];
+  let html = text.replace(/`([^`]+)`/g, (_, code: string) => {
+    codes.push(`<code>${escapeHtml(code)}</code>`);
+    return `\u0000${codes.length - 1}\u0000`;
+  });
+  // Backslash escapes become placeholders too, so they are not read as markup
+  const escapes: string[] = [];
+  html = html.replace(/\\([\\`*_[\]()#~!>-])/g, (_, char: string) => {
+    escapes.push(escapeHtml(char));
+    return `\u0001${escapes.length - 1}\u0001`;
+  });
+  const tags: string[] = [];
+  const setAside = (tag: string) => {
+    tags.push(tag);
+    return `\u0002${tags.length - 1}\u0002`;
+  };
+  html = escapeHtml(html)
+    .replace(/!\[([^\]]*)\]\(([^)\s]+)(?:\s+&quot;[^)]*&quot;)?\)/g, (_, alt: string, src: string) => {
+      const resolved = image(src.replace(/&amp;/g, '&'), alt);
+      return setAside(`<img src="${escapeHtml(resolved)}" alt="${alt}" style="max-width:100%; height:auto;" />`);
+    })
+    // The label stays in the text so it can still be bold or italic
+    .replace(
+      /\[([^\]]+)\]\(([^)\s]+)(?:\s+&quot;[^)]*&quot;)?\)/g,
+      (_, label: string, href: string) => `${setAside(`<a href="${safeHref(href)}">`)}${label}</a>`,
+    )
+    .replace(/&lt;(https?:\/\/[^\s&]+)&gt;/g, (_, url: string) => setAside(`<a href="${url}">${url}</a>`))
+    .replace(/(\*\*|__)(?=\S)([\s\S]*?\S)\1/g, '<b>$2</b>')
+    .replace(/\*(?=\S)([\s\S]*?\S)\*/g, '<i>$1</i>')
+    // Underscores only at word edges, so snake_case stays as it is
+    .replace(/(^|\W)_(?=\S)([\s\S]*?\S)_(?!\w)/g, '$1<i>$2</i>')
+    .replace(/~~(?=\S)([\s\S]*?\S)~~/g, '<s>$1</s>')
+    .replace(/ {2,}\n|\\\n/g, '<br>')
+    .replace(/\n/g, ' ');
+  return html
+    .replace(/\u0002(\d+)\u0002/g, (_, i: string) => tags[Number(i)])
+    .replace(/\u0001(\d+)\u0001/g, (_, i: string) => escapes[Number(i)])
+    .replace(/\u0000(\d+)\u0000/g, (_, i: string) => codes[Number(i)]);
+}
+
+const LIST_ITEM = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/;
+const RULE = /^(-{3,}|\*{3,}|_{3,})\s*$/;
+
+// Markdown as note HTML. `image` maps each image's src, e.g. to a data URL.
+export function markdownToHtml(markdown: string, image: ImageHandler = (src) => src): string {
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  const out: string[] = [];
+  let i = 0;
+
+  const isBlockStart = (line: string) =>
+    [/^\s*$/, /^#{1,6}\s/, /^```/, /^>/, LIST_ITEM, RULE].some((pattern) => pattern.test(line));
+
+  while (i < lines.length) {
+    const line = lines[i];
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const heading = /^(#{1,6})\s+(.*?)\s*#*\s*$/.exec(line);
+    if (heading) {
+      const level = heading[1].length;
+      out.push(`<h${level}>${inlineHtml(heading[2], image)}</h${level}>`);
+      i++;
+      continue;
+    }
+
+    if (/^```/.test(line)) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !/^```/.test(lines[i])) code.push(lines[i++]);
+      i++;
+      out.push(`<pre>${escapeHtml(code.join('\n'))}</pre>`);
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      out.push('<hr>');
+      i++;
+      continue;
+    }
+
+    if (/^>/.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && /^>/.test(lines[i])) quoted.push(lines[i++].replace(/^>\s?/, ''));
+      out.push(`<blockquote>${markdownToHtml(quoted.join('\n'), image)}</blockquote>`);
+      continue;
+    }
+
+    const item = LIST_ITEM.exec(line);
+    if (item) {
+      // Until a blank line, a non-indented paragraph or a top-level item of the other kind
+      const ordered = /\d/.test(item[2]);
+      const block: string[] = [];
+      while (i < lines.length) {
+        const next = LIST_ITEM.exec(lines[i]);
+        const sameList = next && (next[1].length > item[1].length || /\d/.test(next[2]) === ordered);
+        if (!(sameList || (!next && /^\s+\S/.test(lines[i])))) break;
+        block.push(lines[i++]);
+      }
+      out.push(listHtml(block, image));
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (i < lines.length && (paragraph.length === 0 || !isBlockStart(lines[i]))) paragraph.push(lines[i++]);
+    out.push(`<p>${inlineHtml(paragraph.join('\n'), image)}</p>`);
+  }
+  return out.join('');
+}
+
+// Nested lists by indentation; continuation lines belong to the item above.
+function listHtml(lines: string[], image: ImageHandler): string {
+  const first = LIST_ITEM.exec(lines[0])!;
+  const indent = first[1].length;
+  const tag = /\d/.test(first[2]) ? 'ol' : 'ul';
+  const items: string[][] = [];
+  for (const line of lines) {
+    const item = LIST_ITEM.exec(line);
+    if (item && item[1].length <= indent) items.push([item[3]]);
+    else items[items.length - 1].push(line);
+  }
+  const html = items.map(([text, ...rest]) => {
+    const nestedAt = rest.findIndex((line) => LIST_ITEM.test(line));
+    const continuation = nestedAt < 0 ? rest : rest.slice(0, nestedAt);
+    const nested = nestedAt < 0 ? '' : listHtml(rest.slice(nestedAt), image);
+    const body = [text, ...continuation.map((line) => line.trim())].join('\n');
+    return `<li>${inlineHtml(body, image)}${nested}</li>`;
+  });
+  return `<${tag}>${html.join('')}</${tag}>`;
+}
+
+export default htmlToMarkdown;
@@ -0,0 +1,167 @@
+import {
+  createId,
+  fail,
+  Filter,
+  matchesFilters,
+  ok,
+  queryRows,
+  RepositoryError,
+  Row,
+  SelectOptions,
+  TableDriver,
+  TableName,
+} from './driver';
+
+// Tables with the `set_updated_at` trigger (see supabase/migrations).
+const TIMESTAMPED_TABLES: TableName[] = [
+  'tasks',
+  'reminders',
+  'agenda_events',
+  'note_folders',
+  'notes',
+  'projects',
+  'task_statuses',
+  'note_revisions',
+];
+
+export type MemoryDriverOptions = {
+  // Pre-populated rows per table.
+  seed?: Partial<Record<TableName, Row[]>>;
+  // Columns that "don't exist yet", to exercise the schema fallback in the services.
+  missingColumns?: Partial<Record<TableName, string[]>>;
+};
+
+export type MemoryDriver = TableDriver & {
+  // Makes every call fail with a network error until switched back.
+  setOffline: (offline: boolean) => void;
+  snapshot: () => Record<string, Row[]>;
+};
+
+// In-memory stand-in for Supabase, used by tests and local development. Like
+// the real database it stamps `updated_at` on every update and answers
+// writes, selects and filters on missing columns with the errors PostgREST
+// gives, so the services' fallbacks can be exercised against it.
+export function createMemoryDriver(options: MemoryDriverOptions = {}): MemoryDriver {
+  const tables: Record<string, Row[]> = {};
+  Object.entries(options.seed ?? {}).forEach(([table, rows]) => {
+    tables[table] = (rows ?? []).map((row) => ({ ...row }));
+  });
+  let offline = false;
+  let lastStamp = 0;
+
+  const rowsOf = (table: TableName) => (tables[table] ??= []);
+  const offlineError = () => new RepositoryError('Network request failed', 'network');
+  const missingIn = (table: TableName, columns: string[]) =>
+    (options.missingColumns?.[table] ?? []).find((column) => columns.includes(column));
+  // Parsed like the real responses, so column detection is exercised as well.
+  const writeError = (table: TableName, row: Row) => {
+    const missing = missingIn(table, Object.keys(row));
+    return missing
+      ? RepositoryError.from({
+          message: `Could not find the '${missing}' column of '${table}' in the schema cache`,
+          code: 'PGRST204',
+        })
+      : null;
+  };
+  const filterColumns = (filters: Filter[] = []): string[] =>
+    filters.flatMap((filter) => (filter.op === 'or' ? filterColumns(filter.filters) : [filter.column]));
+  const selectError = (table: TableName, selectOptions: SelectOptions) => {
+    const columns =
+      selectOptions.columns && selectOptions.columns.trim() !== '*'
+        ? selectOptions.columns.split(',').map((column) => column.trim())
+        : [];
+    const missing = missingIn(table, [...columns, ...filterColumns(selectOptions.filters), selectOptions.order?.column ?? '']);
+    return missing ? RepositoryError.from({ message: `column ${table}.${missing} does not exist`, code: '42703' }) : null;
+  };
+  // Strictly increasing, like now() across transactions; compare-and-set on
+  // `updated_at` depends on two writes never sharing a stamp.
+  const timestamp = () => {
+    lastStamp = Math.max(Date.now(), lastStamp + 1);
+    return new Date(lastStamp).toISOString();
+  };
+  const defaults = (table: TableName): Row => {
+    const now = timestamp();
+    return TIMESTAMPED_TABLES.includes(table) ? { created_at: now, updated_at: now } : { created_at: now };
+  };
+  // `select *` leaves out columns the schema doesn't have.
+  const withoutMissing = (table: TableName, row: Row) => {
+    const copy = { ...row };
+    (options.missingColumns?.[table] ?? []).forEach((column) => delete copy[column]);
+    return copy;
+  };
+
+  const select = async <T extends Row>(table: TableName, selectOptions: SelectOptions = {}) => {
+    if (offline) return fail<T[]>(offlineError());
+    const error = selectError(table, selectOptions);
+    if (error) return fail<T[]>(error);
+    return ok(queryRows<T>(rowsOf(table).map((row) => withoutMissing(table, row)), selectOptions));
+  };
+
+  return {
+    select,
+
+    async insert<T extends Row>(table: TableName, rows: Row[], writeOptions: { returning?: boolean } = {}) {
+      if (offline) return fail<T[]>(offlineError());
+      for (const row of rows) {
+        const error = writeError(table, row);
+        if (error) return fail<T[]>(error);
+      }
+      const inserted: Row[] = rows.map((row) => ({ id: createId(), ...defaults(table), ...row }));
+      rowsOf(table).push(...inserted);
+      return ok(writeOptions.returning ? inserted.map((row) => ({ ...row }) as T) : []);
+    },
+
+    async upsert(table, rows, onConflict) {
+      if (offline) return fail(offlineError());
+      for (const row of rows) {
+        const error = writeError(table, row);
+        if (error) return fail(error);
+      }
+      const existing = rowsOf(table);
+      rows.forEach((row) => {
+        const index = existing.findIndex((r) => r[onConflict] === row[onConflict]);
+        if (index >= 0) {
+          const stamp = TIMESTAMPED_TABLES.includes(table) ? { updated_at: timestamp() } : {};
+          existing[index] = { ...existing[index], ...row, ...stamp };
+        } else {
+          existing.push({ id: createId(), ...defaults(table), ...row });
+        }
+      });
+      return ok(null);
+    },
+
+    async update<T extends Row>(table: TableName, patch: Row, filters: Filter[], writeOptions: { returning?: boolean } = {}) {
+      if (offline) return fail<T[]>(offlineError());
+      const error = writeError(table, patch) ?? selectError(table, { filters });
+      if (error) return fail<T[]>(error);
+      const updated: Row[] = [];
+      // One statement, one now(): the trigger overrides any `updated_at` in the patch
+      const stamp = TIMESTAMPED_TABLES.includes(table) ? { updated_at: timestamp() } : {};
+      tables[table] = rowsOf(table).map((row) => {
+        if (!matchesFilters(row, filters)) return row;
+        const next = { ...row, ...patch, ...stamp };
+        updated.push(next);
+        return next;
+      });
+      return ok(writeOptions.returning ? updated.map((row) => ({ ...row }) as T) : []);
+    },
+
+    async remove(table, filters) {
+      if (offline) return fail(offlineError());
+      const error = selectError(table, { filters });
+      if (error) return fail(error);
+      tables[table] = rowsOf(table).filter((row) => !matchesFilters(row, filters));
+      return ok(null);
+    },
+
+    setOffline(next) {
+      offline = next;
+    },
+
+    snapshot() {
+      return Object.fromEntries(Object.entries(tables).map(([table, rows]) => [table, rows.map((r) => ({ ...r }))]));
+    },
+  };
+}
+
+export default createMemoryDriver;
@@ -0,0 +1,154 @@
+// Three-way merge for note content. Both sides are diffed against the version
+// they started from (`base`); regions only one side touched take that side's
+// edit, regions both sides changed differently keep both (ours first) and are
+// counted as conflicts. Content is HTML, so it is merged per tag/word token to
+// avoid splitting markup.
+
+export type MergeResult = { merged: string; conflicts: number };
+
+export type NoteSnapshot = { title: string; content: string; color: string | null };
+
+// Tags, entities, whitespace runs, words, and any leftover single character.
+const TOKEN_PATTERN = /<[^>]*>|&[a-z0-9#]+;|\s+|[^\s<&]+|[\s\S]/gi;
+
+// Upper bound for the LCS table over the changed middle (~16 MB of Uint32).
+const MAX_LCS_CELLS = 4_000_000;
+
+const tokenize = (text: string) => text.match(TOKEN_PATTERN) ?? [];
+
+// For every token of `base`, the index of the same token in `other` (or -1).
+function matchTokens(base: string[], other: string[]): number[] {
+  const matches = new Array<number>(base.length).fill(-1);
+
+  // Edits are usually local: match the common prefix/suffix cheaply first.
+  let start = 0;
+  while (start < base.length && start < other.length && base[start] === other[start]) {
+    matches[start] = start;
+    start++;
+  }
+  let baseEnd = base.length;
+  let otherEnd = other.length;
+  while (baseEnd > start && otherEnd > start && base[baseEnd - 1] === other[otherEnd - 1]) {
+    baseEnd--;
+    otherEnd--;
+    matches[baseEnd] = otherEnd;
+  }
+
+  const n = baseEnd - start;
+  const m = otherEnd - start;
+  // Too large to diff token-by-token: the whole middle becomes one changed region.
+  if (n === 0 || m === 0 || (n + 1) * (m + 1) > MAX_LCS_CELLS) return matches;
+
+  const width = m + 1;
+  const table = new Uint32Array((n + 1) * width);
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      table[i * width + j] =
+        base[start + i] === other[start + j]
+          ? table[(i + 1) * width + j + 1] + 1
+          : Math.max(table[(i + 1) * width + j], table[i * width + j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (base[start + i] === other[start + j]) {
+      matches[start + i] = start + j;
+      i++;
+      j++;
+    } else if (table[(i + 1) * width + j] >= table[i * width + j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return matches;
+}
+
+export function mergeText(base: string, ours: string, theirs: string): MergeResult {
+  if (ours === theirs || theirs === base) return { merged: ours, conflicts: 0 };
+  if (ours === base) return { merged: theirs, conflicts: 0 };
+
+  const o = tokenize(base);
+  const a = tokenize(ours);
+  const b = tokenize(theirs);
+  const inOurs = matchTokens(o, a);
+  const inTheirs = matchTokens(o, b);
+
+  const out: string[] = [];
+  let conflicts = 0;
+  let oStart = 0;
+  let aStart = 0;
+  let bStart = 0;
+
+  const emitChunk = (oEnd: number, aEnd: number, bEnd: number) => {
+    const baseChunk = o.slice(oStart, oEnd).join('');
+    const ourChunk = a.slice(aStart, aEnd).join('');
+    const theirChunk = b.slice(bStart, bEnd).join('');
+    if (ourChunk === theirChunk || theirChunk === baseChunk) {
+      out.push(ourChunk);
+    } else if (ourChunk === baseChunk) {
+      out.push(theirChunk);
+    } else {
+      out.push(ourChunk, theirChunk);
+      conflicts++;
+    }
+  };
+
+  // Tokens present in all three versions are sync points; everything between
+  // two sync points is one chunk that at most one side should have changed.
+  for (let i = 0; i < o.length; i++) {
+    if (inOurs[i] < 0 || inTheirs[i] < 0) continue;
+    emitChunk(i, inOurs[i], inTheirs[i]);
+    out.push(o[i]);
+    oStart = i + 1;
+    aStart = inOurs[i] + 1;
+    bStart = inTheirs[i] + 1;
+  }
+  emitChunk(o.length, a.length, b.length);
+
+  return { merged: out.join(''), conflicts };
+}
+
+export type DiffPart = { kind: 'same' | 'added' | 'removed'; text: string };
+
+// What changed from `before` to `after`, per token, for showing two versions
+// side by side. Adjacent tokens of the same kind are joined.
+export function diffText(before: string, after: string): DiffPart[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+  const inAfter = matchTokens(a, b);
+  const parts: DiffPart[] = [];
+  const push = (kind: DiffPart['kind'], text: string) => {
+    const last = parts[parts.length - 1];
+    if (last?.kind === kind) last.text += text;
+    else if (text) parts.push({ kind, text });
+  };
+
+  let j = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (inAfter[i] < 0) {
+      push('removed', a[i]);
+      continue;
+    }
+    push('added', b.slice(j, inAfter[i]).join(''));
+    push('same', a[i]);
+    j = inAfter[i] + 1;
+  }
+  push('added', b.slice(j).join(''));
+  return parts;
+}
+
+export function mergeNote(base: NoteSnapshot, ours: NoteSnapshot, theirs: NoteSnapshot) {
+  const title = mergeText(base.title, ours.title, theirs.title);
+  const content = mergeText(base.content, ours.content, theirs.content);
+  // A title or color can't sensibly hold both edits; ours wins if both changed it.
+  const color = ours.color !== base.color ? ours.color : theirs.color;
+  return {
+    merged: { title: title.conflicts ? ours.title : title.merged, content: content.merged, color },
+    conflicts: title.conflicts + content.conflicts,
+  };
+}
+
+export default mergeText;
@@ -0,0 +1,208 @@
+import { strFromU8, strToU8, unzipSync, zipSync } from 'fflate';
+
+import { htmlToMarkdown, markdownToHtml } from './markdown';
+import type { Note, NoteFolder } from './types';
+
+// Notes as Markdown files. A folder exports as a directory per (sub)folder
+// with one `.md` file per note; pasted images are written next to them in an
+// `images/` directory. Importing reads `.md` files and zips laid out the same
+// way, so an exported folder comes back with its subfolders.
+
+export const MARKDOWN_MIME_TYPE = 'text/markdown';
+export const ZIP_MIME_TYPE = 'application/zip';
+// Browsers go by the extensions; Android often reports `.md` files as octet-stream.
+export const MARKDOWN_IMPORT_TYPES = [
+  ...['.md', '.markdown', '.txt', '.zip'],
+  ...[MARKDOWN_MIME_TYPE, 'text/plain', ZIP_MIME_TYPE, 'application/x-zip-compressed', 'application/octet-stream'],
+];
+
+export type ArchiveFile = { path: string; data: Uint8Array };
+
+export type ImportedNote = { folderPath: string; title: string; content: string };
+
+export type ImportedFolder = { path: string; name: string; parentPath: string };
+
+// Folders (parents before children) and notes found in the picked files; the
+// empty path is the folder imported into.
+export type MarkdownImport = { folders: ImportedFolder[]; notes: ImportedNote[]; skipped: string[] };
+
+const IMAGE_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+};
+
+const extension = (path: string) => /\.([a-z0-9]+)$/i.exec(path)?.[1].toLowerCase() ?? '';
+
+const dirname = (path: string) => path.split('/').slice(0, -1).join('/');
+
+const join = (...parts: string[]) => parts.filter(Boolean).join('/');
+
+// Characters that are not allowed in file names on some systems.
+export const safeName = (name: string) =>
+  name
+    .replace(/[\\/:*?"<>|\u0000-\u001f]/g, '-')
+    .trim()
+    .slice(0, 120) || 'Untitled';
+
+const BASE64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+function toBase64(bytes: Uint8Array): string {
+  let out = '';
+  for (let i = 0; i < bytes.length; i += 3) {
+    const n = (bytes[i] << 16) | ((bytes[i + 1] ?? 0) << 8) | (bytes[i + 2] ?? 0);
+    out += BASE64[(n >> 18) & 63] + BASE64[(n >> 12) & 63];
+    out += i + 1 < bytes.length ? BASE64[(n >> 6) & 63] : '=';
+    out += i + 2 < bytes.length ? BASE64[n & 63] : '=';
+  }
+  return out;
+}
+
+function fromBase64(text: string): Uint8Array {
+  const clean = text.replace(/[^A-Za-z0-9+/]/g, '');
+  const bytes = new Uint8Array(Math.floor((clean.length * 3) / 4));
+  let length = 0;
+  for (let i = 0; i < clean.length; i += 4) {
+    const n = [0, 1, 2, 3].reduce((acc, k) => (acc << 6) | Math.max(0, BASE64.indexOf(clean[i + k] ?? 'A')), 0);
+    bytes[length++] = (n >> 16) & 255;
+    if (i + 2 < clean.length) bytes[length++] = (n >> 8) & 255;
+    if (i + 3 < clean.length) bytes[length++] = n & 255;
+  }
+  return bytes.slice(0, length);
+}
+
+// Hands out "name.md", "name (2).md", ... per directory.
+function uniquePaths() {
+  const taken = new Set<string>();
+  return (dir: string, name: string, ext = '') => {
+    let path = join(dir, `${name}${ext}`);
+    for (let n = 2; taken.has(path.toLowerCase()); n++) path = join(dir, `${name} (${n})${ext}`);
+    taken.add(path.toLowerCase());
+    return path;
+  };
+}
+
+// The Markdown files for `notes` in `folderId` and everything below it, or for
+// all notes and folders when `folderId` is null. Notes in a folder that is not
+// part of the list end up at the top.
+export function markdownFiles(folders: NoteFolder[], notes: Note[], folderId: string | null): ArchiveFile[] {
+  const files: ArchiveFile[] = [];
+  const path = uniquePaths();
+  const known = new Set(folders.map((folder) => folder.id));
+
+  const addNotes = (dir: string, inFolder: Note[]) => {
+    for (const note of inFolder) {
+      const file = path(dir, safeName(note.title), '.md');
+      const base = file.slice(0, -3).split('/').pop()!;
+      let count = 0;
+      // Pasted images are data URLs; everything else (web links) stays a link
+      const body = htmlToMarkdown(note.content ?? '', (src) => {
+        const data = /^data:image\/([a-z0-9.+-]+);base64,(.*)$/i.exec(src);
+        if (!data) return src;
+        const ext = data[1].toLowerCase() === 'jpeg' ? 'jpg' : data[1].toLowerCase().replace('svg+xml', 'svg');
+        const image = path(join(dir, 'images'), `${safeName(base)}-${++count}`, `.${ext}`);
+        files.push({ path: image, data: fromBase64(data[2]) });
+        return encodeURI(image.slice(dir ? dir.length + 1 : 0));
+      });
+      files.push({ path: file, data: strToU8(`# ${note.title}\n\n${body}\n`) });
+    }
+  };
+
+  const addFolder = (folder: NoteFolder, parentDir: string) => {
+    const dir = path(parentDir, safeName(folder.name));
+    addNotes(dir, notes.filter((note) => note.folder_id === folder.id));
+    folders.filter((child) => child.parent_folder_id === folder.id).forEach((child) => addFolder(child, dir));
+  };
+
+  if (folderId) {
+    const folder = folders.find((f) => f.id === folderId);
+    if (folder) addFolder(folder, '');
+  } else {
+    const isTop = (parentId?: string | null) => !parentId || !known.has(parentId);
+    folders.filter((folder) => isTop(folder.parent_folder_id)).forEach((folder) => addFolder(folder, ''));
+    addNotes('', notes.filter((note) => isTop(note.folder_id)));
+  }
+  return files;
+}
+
+// One `.md` file as it is, several (or any images) zipped.
+export function archiveDownload(files: ArchiveFile[], name: string) {
+  if (files.length === 1) {
+    return { filename: files[0].path.split('/').pop()!, content: files[0].data, mimeType: MARKDOWN_MIME_TYPE };
+  }
+  return {
+    filename: `${safeName(name)}.zip`,
+    content: zipSync(Object.fromEntries(files.map((file) => [file.path, file.data]))),
+    mimeType: ZIP_MIME_TYPE,
+  };
+}
+
+// Reads picked `.md` files and zips. A zip's directories become folders below
+// the folder imported into; images next to a note are embedded in it.
+export function readMarkdownImport(picked: { name: string; data: Uint8Array }[]): MarkdownImport {
+  const entries: ArchiveFile[] = [];
+  const skipped: string[] = [];
+  for (const file of picked) {
+    if (extension(file.name) === 'zip') {
+      try {
+        const unzipped = unzipSync(file.data);
+        for (const [path, data] of Object.entries(unzipped)) {
+          // Directories, macOS metadata and hidden files
+          const hidden = path.split('/').some((part) => part.startsWith('.') || part === '__MACOSX');
+          if (path.endsWith('/') || hidden) continue;
+          entries.push({ path, data });
+        }
+      } catch {
+        skipped.push(file.name);
+      }
+    } else if (['md', 'markdown', 'txt'].includes(extension(file.name))) {
+      entries.push({ path: file.name, data: file.data });
+    } else {
+      skipped.push(file.name);
+    }
+  }
+
+  const byPath = new Map(entries.map((entry) => [entry.path.toLowerCase(), entry]));
+  const resolveImage = (dir: string, src: string) => {
+    if (/^[a-z]+:/i.test(src)) return src;
+    const parts: string[] = [];
+    let decoded = src;
+    try {
+      decoded = decodeURI(src);
+    } catch {
+      // Not percent-encoded after all
+    }
+    for (const part of join(dir, decoded).split('/')) {
+      if (part === '..') parts.pop();
+      else if (part && part !== '.') parts.push(part);
+    }
+    const path = parts.join('/');
+    const image = byPath.get(path.toLowerCase());
+    const type = IMAGE_TYPES[extension(path)];
+    return image && type ? `data:${type};base64,${toBase64(image.data)}` : src;
+  };
+
+  const notes: ImportedNote[] = [];
+  const folderPaths = new Set<string>();
+  for (const entry of entries) {
+    if (!['md', 'markdown', 'txt'].includes(extension(entry.path))) continue;
+    const folderPath = dirname(entry.path);
+    const text = strFromU8(entry.data).replace(/^\uFEFF/, '');
+    // A leading "# Title" (as exported) is the note's title
+    const heading = /^\s*#\s+(.+?)\s*#*\s*(?:\n|$)/.exec(text);
+    const title = heading ? heading[1] : entry.path.split('/').pop()!.replace(/\.[^.]+$/, '');
+    const body = heading ? text.slice(heading[0].length) : text;
+    notes.push({ folderPath, title, content: markdownToHtml(body, (src) => resolveImage(folderPath, src)) });
+    for (let dir = folderPath; dir; dir = dirname(dir)) folderPaths.add(dir);
+  }
+
+  const folders = [...folderPaths]
+    .sort((a, b) => a.split('/').length - b.split('/').length || a.localeCompare(b))
+    .map((path) => ({ path, name: path.split('/').pop()!, parentPath: dirname(path) }));
+  return { folders, notes, skipped };
+}
+
+export default markdownFiles;
@@ -0,0 +1,136 @@
+import { escapeHtml } from './markdown';
+import { safeName } from './note-archive';
+import type { Note, NoteFolder } from './types';
+
+// Notes as one printable HTML document for PDF export: a title page with the
+// contents, then every note starting on a new page. Pasted images are data
+// URLs and therefore already embedded; web images are loaded when rendering.
+
+export const PDF_MIME_TYPE = 'application/pdf';
+
+// A4 in points, the unit the native PDF renderer works in.
+export const PDF_PAGE = { width: 595, height: 842, padding: 48 };
+
+export type PdfNote = { note: Note; folderPath: string };
+
+// The notes in `folderId` and everything below it (or all notes when null),
+// in folder tree order with each note's "Parent / Child" folder path.
+export function pdfNotes(folders: NoteFolder[], notes: Note[], folderId: string | null): PdfNote[] {
+  const list: PdfNote[] = [];
+  const known = new Set(folders.map((folder) => folder.id));
+  const byTitle = (a: Note, b: Note) => a.title.localeCompare(b.title);
+
+  const addFolder = (folder: NoteFolder, parentPath: string, seen: Set<string>) => {
+    if (seen.has(folder.id)) return;
+    seen.add(folder.id);
+    const folderPath = parentPath ? `${parentPath} / ${folder.name}` : folder.name;
+    notes
+      .filter((note) => note.folder_id === folder.id)
+      .sort(byTitle)
+      .forEach((note) => list.push({ note, folderPath }));
+    folders
+      .filter((child) => child.parent_folder_id === folder.id)
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .forEach((child) => addFolder(child, folderPath, seen));
+  };
+
+  if (folderId) {
+    const folder = folders.find((f) => f.id === folderId);
+    if (folder) addFolder(folder, '', new Set());
+  } else {
+    const isTop = (parentId?: string | null) => !parentId || !known.has(parentId);
+    notes
+      .filter((note) => isTop(note.folder_id))
+      .sort(byTitle)
+      .forEach((note) => list.push({ note, folderPath: '' }));
+    const seen = new Set<string>();
+    folders
+      .filter((folder) => isTop(folder.parent_folder_id))
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .forEach((folder) => addFolder(folder, '', seen));
+  }
+  return list;
+}
+
+// Note content comes from the rich editor; scripts, frames and event handlers
+// have no place in an exported document.
+const cleanContent = (html: string) =>
+  html
+    .replace(/<(script|style|iframe|object|embed)\b[\s\S]*?(?:<\/\1\s*>|$)/gi, '')
+    .replace(/\s+on[a-z]+\s*=\s*(?:"[^"]*"|'[^']*'|[^\s>]+)/gi, '')
+    .replace(/(href|src)\s*=\s*(["']?)\s*javascript:[^"'\s>]*\2/gi, '$1="#"');
+
+const STYLES = `
+  @page { size: A4; margin: 18mm; }
+  * { box-sizing: border-box; }
+  body {
+    margin: 0;
+    color: #1e293b;
+    font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif;
+    font-size: 12pt;
+    line-height: 1.6;
+    -webkit-print-color-adjust: exact;
+    print-color-adjust: exact;
+  }
+  .title-page { padding-top: 30%; }
+  .title-page h1 { font-size: 32pt; line-height: 1.2; margin: 0 0 12pt; color: #0f172a; }
+  .title-page .meta { color: #64748b; margin: 0 0 36pt; }
+  .contents { list-style: none; padding: 0; margin: 0; border-top: 1px solid #e2e8f0; }
+  .contents li { padding: 6pt 0; border-bottom: 1px solid #e2e8f0; }
+  .contents .folder { color: #94a3b8; font-size: 10pt; }
+  .note { break-before: page; page-break-before: always; }
+  .note > h1 { font-size: 24pt; line-height: 1.25; margin: 0 0 4pt; color: #0f172a; }
+  .note > .meta { color: #94a3b8; font-size: 10pt; margin: 0 0 18pt; }
+  .content h1, .content h2, .content h3 { color: #0f172a; break-after: avoid; page-break-after: avoid; }
+  .content img { max-width: 100% !important; height: auto !important; break-inside: avoid; page-break-inside: avoid; }
+  .content pre, .content blockquote, .content li { break-inside: avoid; page-break-inside: avoid; }
+  .content pre { white-space: pre-wrap; background: #f1f5f9; padding: 8pt; border-radius: 4pt; }
+  .content blockquote { margin: 0 0 12pt; padding-left: 12pt; border-left: 3pt solid #e2e8f0; color: #475569; }
+  .content a { color: #2563eb; }
+  .empty { color: #94a3b8; font-style: italic; }
+`;
+
+// The document for `title`. A single note skips the title page.
+export function notesPdfHtml(title: string, list: PdfNote[], now: Date): string {
+  const date = now.toLocaleDateString(undefined, { day: 'numeric', month: 'long', year: 'numeric' });
+  const titlePage =
+    list.length > 1
+      ? `<section class="title-page">
+          <h1>${escapeHtml(title)}</h1>
+          <p class="meta">${list.length} notes · ${escapeHtml(date)}</p>
+          <ol class="contents">${list
+            .map(
+              ({ note, folderPath }) =>
+                `<li>${escapeHtml(note.title || 'Untitled Note')}${
+                  folderPath ? ` <span class="folder">— ${escapeHtml(folderPath)}</span>` : ''
+                }</li>`,
+            )
+            .join('')}</ol>
+        </section>`
+      : '';
+  const sections = list.map(({ note, folderPath }, index) => {
+    const updated = note.updated_at ? new Date(note.updated_at).toLocaleDateString() : null;
+    const meta = [folderPath, updated && `Updated ${updated}`].filter(Boolean).join(' · ');
+    const content = cleanContent(note.content ?? '').trim();
+    return `<section class="note"${!titlePage && index === 0 ? ' style="break-before: auto; page-break-before: auto;"' : ''}>
+      <h1>${escapeHtml(note.title || 'Untitled Note')}</h1>
+      ${meta ? `<p class="meta">${escapeHtml(meta)}</p>` : ''}
+      <div class="content">${content || '<p class="empty">No content</p>'}</div>
+    </section>`;
+  });
+  return `<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="utf-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1" />
+    <title>${escapeHtml(title)}</title>
+    <style>${STYLES}</style>
+  </head>
+  <body>${titlePage}${sections.join('')}</body>
+</html>`;
+}
+
+// "Title.pdf", safe on every system.
+export const pdfFileName = (title: string) => `${safeName(title)}.pdf`;
+
+export default notesPdfHtml;
@@ -0,0 +1,76 @@
+import type { NoteSnapshot } from './merge';
+import type { NewNoteRevision, NoteRevision } from './types';
+
+// Version history for notes. Every save is written to the author's latest
+// revision; a new revision starts once that one is REVISION_INTERVAL_MS old
+// or someone else saved in between, so history holds one entry per author
+// per burst of editing and its newest entry always matches the note.
+
+export const REVISION_INTERVAL_MS = 10 * 60 * 1000;
+
+export type RevisionWrite =
+  | { type: 'insert'; revision: NewNoteRevision }
+  | { type: 'update'; id: string; patch: Partial<NoteRevision> };
+
+export const revisionSnapshot = (revision: NoteRevision): NoteSnapshot => ({
+  title: revision.title,
+  content: revision.content || '',
+  color: revision.color ?? null,
+});
+
+const sameSnapshot = (a: NoteSnapshot, b: NoteSnapshot) =>
+  a.title === b.title && a.content === b.content && a.color === b.color;
+
+// The writes that add `saved` to the history of note `noteId`. `latest` is its
+// newest revision; for a note without any, `before` (the note as it was loaded,
+// with its `updated_at`) is kept first so the original text is not lost. Only
+// the note's owner may write that original (`isOwner`); when a collaborator
+// saves first, the history starts at their version.
+export function revisionWrites(
+  noteId: string,
+  latest: NoteRevision | null,
+  before: NoteSnapshot & { updated_at?: string },
+  saved: NoteSnapshot,
+  userId: string,
+  isOwner: boolean,
+  now: Date,
+): RevisionWrite[] {
+  const fields = { title: saved.title, content: saved.content || null, color: saved.color };
+  if (!latest) {
+    if (sameSnapshot(before, saved)) return [];
+    if (!isOwner) return [{ type: 'insert', revision: { note_id: noteId, user_id: userId, ...fields } }];
+    const original: NewNoteRevision = {
+      note_id: noteId,
+      title: before.title,
+      content: before.content || null,
+      color: before.color,
+      user_id: null,
+      ...(before.updated_at ? { created_at: before.updated_at } : {}),
+    };
+    return [
+      { type: 'insert', revision: original },
+      { type: 'insert', revision: { note_id: noteId, user_id: userId, ...fields } },
+    ];
+  }
+  if (sameSnapshot(revisionSnapshot(latest), saved)) return [];
+  const recent = now.getTime() - new Date(latest.created_at).getTime() < REVISION_INTERVAL_MS;
+  if (latest.user_id === userId && recent) return [{ type: 'update', id: latest.id, patch: fields }];
+  return [{ type: 'insert', revision: { note_id: noteId, user_id: userId, ...fields } }];
+}
+
+// Note HTML as plain text with one line per block, for diffing versions.
+export const noteText = (html: string) =>
+  html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|h[1-6]|li|blockquote|pre)>/gi, '\n')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+export default revisionWrites;
@@ -0,0 +1,574 @@
+import { AppState, Platform } from 'react-native';
+
+import {
+  createId,
+  fail,
+  Filter,
+  isIn,
+  matchesFilters,
+  ok,
+  queryRows,
+  RepoResult,
+  Row,
+  rowId,
+  SelectOptions,
+  StoredRow,
+  TableDriver,
+  TableName,
+  WriteOptions,
+} from './driver';
+
+// Offline-first wrapper around another driver (normally Supabase).
+//
+// Every full-row select refreshes a persistent per-table cache. Writes go to
+// the remote driver directly while it is reachable; when a write fails with a
+// network error (or older writes are still waiting) it is applied to the cache
+// and appended to an outbox that is replayed in order once the network is back.
+// Queued updates/deletes remember the `updated_at` of the rows they touched, and
+// are parked as conflicts instead of overwriting rows that changed server-side.
+
+// Subset of AsyncStorage / localStorage that the cache needs.
+export type KeyValueStorage = {
+  getItem: (key: string) => Promise<string | null>;
+  setItem: (key: string, value: string) => Promise<void>;
+  removeItem: (key: string) => Promise<void>;
+};
+
+type Base = Record<string, string | null>;
+
+export type OutboxEntry =
+  | { id: string; queuedAt: string; op: 'insert'; table: TableName; rows: Row[] }
+  | { id: string; queuedAt: string; op: 'upsert'; table: TableName; rows: Row[]; onConflict: string }
+  | { id: string; queuedAt: string; op: 'update'; table: TableName; patch: Row; filters: Filter[]; base: Base }
+  | { id: string; queuedAt: string; op: 'remove'; table: TableName; filters: Filter[]; base: Base };
+
+type Unqueued<E> = E extends OutboxEntry ? Omit<E, 'id' | 'queuedAt'> : never;
+
+// `conflict`: the row changed on the server after it was edited offline.
+// `rejected`: the server refused the write (permissions, schema, ...).
+export type SyncConflict = {
+  id: string;
+  reason: 'conflict' | 'rejected';
+  message: string;
+  entry: OutboxEntry;
+  serverRows: StoredRow[];
+};
+
+export type SyncStatus = {
+  online: boolean;
+  syncing: boolean;
+  pending: number;
+  conflicts: SyncConflict[];
+  lastSyncedAt: string | null;
+};
+
+export type OfflineDriver = TableDriver & {
+  getStatus: () => SyncStatus;
+  subscribe: (listener: (status: SyncStatus) => void) => () => void;
+  // Replays the outbox; resolves once it is empty or the network dropped again.
+  flush: () => Promise<void>;
+  // Retries on app foreground, on the browser `online` event and on an interval.
+  start: () => () => void;
+  // `mine` re-applies the offline change over the server version, `theirs` drops it.
+  resolveConflict: (id: string, choice: 'mine' | 'theirs') => Promise<void>;
+  // Forgets cached rows, pending writes and conflicts (e.g. on sign out).
+  clear: () => Promise<void>;
+};
+
+export type OfflineDriverOptions = {
+  keyPrefix?: string;
+  retryIntervalMs?: number;
+};
+
+const TABLES: TableName[] = [
+  'tasks',
+  'reminders',
+  'agenda_events',
+  'note_folders',
+  'notes',
+  'note_collaborators',
+  'folder_collaborators',
+  'profiles',
+  'projects',
+  'task_statuses',
+  'note_revisions',
+];
+
+const isFullRow = (columns?: string) => !columns || columns.trim() === '*';
+
+export function createOfflineDriver(
+  remote: TableDriver,
+  storage: KeyValueStorage,
+  options: OfflineDriverOptions = {},
+): OfflineDriver {
+  const prefix = options.keyPrefix ?? 'moof:offline:v1';
+  const retryIntervalMs = options.retryIntervalMs ?? 20000;
+
+  const cache = new Map<TableName, Map<string, StoredRow>>(TABLES.map((table) => [table, new Map()]));
+  let outbox: OutboxEntry[] = [];
+  let conflicts: SyncConflict[] = [];
+  let online = true;
+  let syncing = false;
+  let lastSyncedAt: string | null = null;
+  let flushing: Promise<void> | null = null;
+  // The entry runFlush is replaying; it is no longer safe to coalesce into.
+  let sending: OutboxEntry | null = null;
+  const listeners = new Set<(status: SyncStatus) => void>();
+
+  const getStatus = (): SyncStatus => ({ online, syncing, pending: outbox.length, conflicts, lastSyncedAt });
+  const emit = () => {
+    const status = getStatus();
+    listeners.forEach((listener) => listener(status));
+  };
+
+  // ---- persistence -------------------------------------------------------
+
+  const persistTable = (table: TableName) =>
+    storage
+      .setItem(`${prefix}:cache:${table}`, JSON.stringify(Array.from(cache.get(table)!.values())))
+      .catch((e) => console.warn(`Could not persist offline cache for ${table}`, e));
+
+  const persistQueue = () =>
+    Promise.all([
+      storage.setItem(`${prefix}:outbox`, JSON.stringify(outbox)),
+      storage.setItem(`${prefix}:conflicts`, JSON.stringify(conflicts)),
+    ]).catch((e) => console.warn('Could not persist offline outbox', e));
+
+  const readJson = async <T>(key: string, fallback: T): Promise<T> => {
+    try {
+      const raw = await storage.getItem(key);
+      return raw ? (JSON.parse(raw) as T) : fallback;
+    } catch (e) {
+      console.warn(`Ignoring unreadable offline data in ${key}`, e);
+      return fallback;
+    }
+  };
+
+  const hydrated = (async () => {
+    for (const table of TABLES) {
+      const rows = await readJson<StoredRow[]>(`${prefix}:cache:${table}`, []);
+      rows.forEach((row) => cache.get(table)!.set(row.id, row));
+    }
+    outbox = await readJson<OutboxEntry[]>(`${prefix}:outbox`, []);
+    conflicts = await readJson<SyncConflict[]>(`${prefix}:conflicts`, []);
+    emit();
+  })();
+
+  // ---- local cache -------------------------------------------------------
+
+  const rowsOf = (table: TableName) => Array.from(cache.get(table)!.values());
+
+  const putRows = (table: TableName, rows: Row[]) => {
+    const tableCache = cache.get(table)!;
+    rows.forEach((row) => {
+      const id = rowId(row);
+      if (id != null) tableCache.set(id, { ...tableCache.get(id), ...row, id });
+    });
+  };
+
+  const baseOf = (table: TableName, filters: Filter[]): Base =>
+    Object.fromEntries(
+      rowsOf(table)
+        .filter((row) => matchesFilters(row, filters))
+        .map((row) => [row.id, row.updated_at ?? null]),
+    );
+
+  // Applies a queued write to the cache; returns the rows it produced.
+  const applyLocally = (entry: OutboxEntry): Row[] => {
+    const tableCache = cache.get(entry.table)!;
+    switch (entry.op) {
+      case 'insert': {
+        // Until the server assigns one, sort offline rows by when they were queued.
+        const rows = entry.rows.map((row) => ({ created_at: entry.queuedAt, ...row }));
+        putRows(entry.table, rows);
+        return rows;
+      }
+      case 'upsert': {
+        const key = entry.onConflict;
+        entry.rows.forEach((row) => {
+          const existing = rowsOf(entry.table).find((r) => r[key] === row[key]);
+          const id = existing?.id ?? rowId(row);
+          if (id != null) tableCache.set(id, { ...existing, ...row, id });
+        });
+        return entry.rows;
+      }
+      case 'update': {
+        const updated = rowsOf(entry.table)
+          .filter((row) => matchesFilters(row, entry.filters))
+          .map((row) => ({ ...row, ...entry.patch }));
+        putRows(entry.table, updated);
+        return updated;
+      }
+      case 'remove':
+        rowsOf(entry.table)
+          .filter((row) => matchesFilters(row, entry.filters))
+          .forEach((row) => tableCache.delete(row.id));
+        return [];
+    }
+  };
+
+  // Server results replace the cached rows in the queried range; queued writes
+  // are layered back on top so they don't disappear before they are synced.
+  const refreshCache = (table: TableName, selectOptions: SelectOptions, rows: Row[]) => {
+    const tableCache = cache.get(table)!;
+    if (!selectOptions.limit) {
+      const returned = new Set(rows.map((row) => row.id));
+      rowsOf(table)
+        .filter((row) => !returned.has(row.id) && matchesFilters(row, selectOptions.filters))
+        .forEach((row) => tableCache.delete(row.id));
+    }
+    rows.forEach((row) => {
+      const id = rowId(row);
+      if (id != null) tableCache.set(id, { ...row, id });
+    });
+    outbox.filter((entry) => entry.table === table).forEach(applyLocally);
+    persistTable(table);
+  };
+
+  const hasPending = (table: TableName) => outbox.some((entry) => entry.table === table);
+
+  const markOnline = (next: boolean) => {
+    if (online === next) return;
+    online = next;
+    emit();
+  };
+
+  // ---- outbox ------------------------------------------------------------
+
+  const enqueue = (entry: OutboxEntry) => {
+    const last = outbox[outbox.length - 1];
+    // Coalesce rapid edits of the same rows (e.g. note auto-save) into one write.
+    if (
+      entry.op === 'update' &&
+      last?.op === 'update' &&
+      last !== sending &&
+      last.table === entry.table &&
+      JSON.stringify(last.filters) === JSON.stringify(entry.filters)
+    ) {
+      last.patch = { ...last.patch, ...entry.patch };
+    } else {
+      outbox = [...outbox, entry];
+    }
+    const rows = applyLocally(entry);
+    persistTable(entry.table);
+    persistQueue();
+    emit();
+    return rows;
+  };
+
+  const newEntry = (entry: Unqueued<OutboxEntry>) =>
+    ({ ...entry, id: createId(), queuedAt: new Date().toISOString() }) as OutboxEntry;
+
+  // Rows on the server that changed since the offline write was queued. Looked
+  // up by id: the write's own filters may pin the old `updated_at` and would
+  // then miss exactly the rows that changed.
+  const changedOnServer = async (
+    entry: Extract<OutboxEntry, { op: 'update' | 'remove' }>,
+  ): Promise<RepoResult<StoredRow[]>> => {
+    if (Object.values(entry.base).every((value) => value == null)) return ok([]);
+    const current = await remote.select<StoredRow>(entry.table, { filters: [isIn('id', Object.keys(entry.base))] });
+    if (current.error) return current;
+    return ok(
+      current.data.filter((row) => entry.base[row.id] != null && row.updated_at != null && row.updated_at !== entry.base[row.id]),
+    );
+  };
+
+  // Compare-and-set writes (notes.updateIfUnchanged) filter on the `updated_at`
+  // they expect; withVersion moves that filter from one version to the next.
+  const isVersionFilter = (filter: Filter): filter is Extract<Filter, { op: 'eq' }> =>
+    filter.op === 'eq' && filter.column === 'updated_at';
+  const withVersion = (filters: Filter[], from: string | null, to: string | null) =>
+    filters.map((filter) => (isVersionFilter(filter) && from != null && filter.value === from ? { ...filter, value: to } : filter));
+
+  // Later queued writes were based on the pre-sync `updated_at`; move them forward.
+  const rebase = (table: TableName, rows: StoredRow[]) => {
+    rows.forEach((row) => {
+      outbox.forEach((entry) => {
+        if (entry.table === table && (entry.op === 'update' || entry.op === 'remove') && row.id in entry.base) {
+          entry.filters = withVersion(entry.filters, entry.base[row.id], row.updated_at ?? null);
+          entry.base[row.id] = row.updated_at ?? null;
+        }
+      });
+    });
+  };
+
+  const replay = async (entry: OutboxEntry): Promise<RepoResult<null> | { conflict: StoredRow[] }> => {
+    switch (entry.op) {
+      case 'insert': {
+        const result = await remote.insert(entry.table, entry.rows, { returning: true });
+        // A previous attempt may have reached the server before the connection dropped.
+        if (result.error?.kind === 'conflict') return ok(null);
+        if (result.error) return result;
+        putRows(entry.table, result.data);
+        return ok(null);
+      }
+      case 'upsert':
+        return remote.upsert(entry.table, entry.rows, entry.onConflict);
+      case 'update': {
+        const changed = await changedOnServer(entry);
+        if (changed.error) return changed;
+        if (changed.data.length > 0) return { conflict: changed.data };
+        const result = await remote.update<StoredRow>(entry.table, entry.patch, entry.filters, { returning: true });
+        if (result.error) return result;
+        // A compare-and-set that matched nothing lost to a newer version of the row
+        if (result.data.length === 0 && entry.filters.some(isVersionFilter)) {
+          const filters = entry.filters.filter((filter) => !isVersionFilter(filter));
+          const current = await remote.select<StoredRow>(entry.table, { filters });
+          if (current.error) return current;
+          return { conflict: current.data };
+        }
+        putRows(entry.table, result.data);
+        rebase(entry.table, result.data);
+        return ok(null);
+      }
+      case 'remove': {
+        const changed = await changedOnServer(entry);
+        if (changed.error) return changed;
+        if (changed.data.length > 0) return { conflict: changed.data };
+        return remote.remove(entry.table, entry.filters);
+      }
+    }
+  };
+
+  const runFlush = async () => {
+    await hydrated;
+    if (outbox.length === 0) return;
+    syncing = true;
+    emit();
+    const touched = new Set<TableName>();
+    try {
+      while (outbox.length > 0) {
+        const entry = outbox[0];
+        sending = entry;
+        const result = await replay(entry);
+        sending = null;
+        if ('conflict' in result) {
+          console.warn(`⚠️ Offline change to ${entry.table} conflicts with a newer server version`);
+          conflicts = [
+            ...conflicts,
+            {
+              id: entry.id,
+              reason: 'conflict',
+              message: 'Changed on another device while you were offline',
+              entry,
+              serverRows: result.conflict,
+            },
+          ];
+        } else if (result.error?.kind === 'network') {
+          markOnline(false);
+          return;
+        } else if (result.error) {
+          console.error(`❌ Offline change to ${entry.table} was rejected:`, result.error);
+          conflicts = [...conflicts, { id: entry.id, reason: 'rejected', message: result.error.message, entry, serverRows: [] }];
+        }
+        markOnline(true);
+        outbox = outbox.filter((queued) => queued !== entry);
+        touched.add(entry.table);
+        persistQueue();
+      }
+      lastSyncedAt = new Date().toISOString();
+    } finally {
+      sending = null;
+      touched.forEach(persistTable);
+      syncing = false;
+      emit();
+    }
+  };
+
+  const flush = () => {
+    flushing ??= runFlush().finally(() => {
+      flushing = null;
+    });
+    return flushing;
+  };
+
+  // Re-reads the rows an outbox entry touched so the cache matches the server again.
+  const restoreFromServer = async (entry: OutboxEntry) => {
+    const key = entry.op === 'upsert' ? entry.onConflict : 'id';
+    const filters =
+      entry.op === 'insert' || entry.op === 'upsert' ? [isIn(key, entry.rows.map((row) => row[key] as string | number))] : entry.filters;
+    const result = await remote.select<StoredRow>(entry.table, { filters });
+    if (!result.error) refreshCache(entry.table, { filters }, result.data);
+  };
+
+  // ---- TableDriver -------------------------------------------------------
+
+  // Runs `write` against the server unless it is unreachable or older writes
+  // are still queued, in which case the change is queued behind them.
+  const writeThrough = async <T>(
+    entry: OutboxEntry,
+    write: () => Promise<RepoResult<T>>,
+    queued: (rows: Row[]) => T,
+  ): Promise<RepoResult<T>> => {
+    await hydrated;
+    if (outbox.length === 0) {
+      const result = await write();
+      if (!result.error) {
+        markOnline(true);
+        return result;
+      }
+      if (result.error.kind !== 'network') return result;
+      markOnline(false);
+    }
+    const rows = enqueue(entry);
+    if (online) flush();
+    return ok(queued(rows));
+  };
+
+  return {
+    async select<T extends Row>(table: TableName, selectOptions: SelectOptions = {}) {
+      await hydrated;
+      const result = await remote.select<T>(table, selectOptions);
+      if (result.error) {
+        if (result.error.kind !== 'network') return result;
+        markOnline(false);
+        return ok(queryRows<T>(rowsOf(table), selectOptions));
+      }
+      markOnline(true);
+      if (isFullRow(selectOptions.columns)) refreshCache(table, selectOptions, result.data);
+      return hasPending(table) ? ok(queryRows<T>(rowsOf(table), selectOptions)) : result;
+    },
+
+    async insert<T extends Row>(table: TableName, rows: Row[], writeOptions: WriteOptions = {}) {
+      // Ids are assigned up front so rows created offline keep them once synced.
+      const withIds = rows.map((row) => ({ id: createId(), ...row }));
+      return writeThrough<T[]>(
+        newEntry({ op: 'insert', table, rows: withIds }),
+        async () => {
+          const result = await remote.insert<T>(table, withIds, writeOptions);
+          if (!result.error && writeOptions.returning) {
+            putRows(table, result.data);
+            persistTable(table);
+          }
+          return result;
+        },
+        (queued) => (writeOptions.returning ? queued.map((row) => ({ ...row }) as T) : []),
+      );
+    },
+
+    async upsert(table, rows, onConflict) {
+      return writeThrough(
+        newEntry({ op: 'upsert', table, rows, onConflict }),
+        () => remote.upsert(table, rows, onConflict),
+        () => null,
+      );
+    },
+
+    async update<T extends Row>(table: TableName, patch: Row, filters: Filter[], writeOptions: WriteOptions = {}) {
+      await hydrated;
+      return writeThrough<T[]>(
+        newEntry({ op: 'update', table, patch, filters, base: baseOf(table, filters) }),
+        async () => {
+          const result = await remote.update<Row>(table, patch, filters, { returning: true });
+          if (result.error) return fail<T[]>(result.error);
+          putRows(table, result.data);
+          persistTable(table);
+          return ok(writeOptions.returning ? (result.data as T[]) : []);
+        },
+        (queued) => (writeOptions.returning ? queued.map((row) => ({ ...row }) as T) : []),
+      );
+    },
+
+    async remove(table, filters) {
+      await hydrated;
+      return writeThrough(
+        newEntry({ op: 'remove', table, filters, base: baseOf(table, filters) }),
+        async () => {
+          const result = await remote.remove(table, filters);
+          if (!result.error) {
+            rowsOf(table)
+              .filter((row) => matchesFilters(row, filters))
+              .forEach((row) => cache.get(table)!.delete(row.id));
+            persistTable(table);
+          }
+          return result;
+        },
+        () => null,
+      );
+    },
+
+    getStatus,
+
+    subscribe(listener) {
+      listeners.add(listener);
+      listener(getStatus());
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    flush,
+
+    start() {
+      const retry = () => {
+        if (outbox.length > 0) flush();
+      };
+      const appState = AppState.addEventListener('change', (state) => {
+        if (state === 'active') retry();
+      });
+      const interval = setInterval(retry, retryIntervalMs);
+      const onBrowserOnline = () => {
+        markOnline(true);
+        retry();
+      };
+      const onBrowserOffline = () => markOnline(false);
+      if (Platform.OS === 'web' && typeof window !== 'undefined') {
+        window.addEventListener('online', onBrowserOnline);
+        window.addEventListener('offline', onBrowserOffline);
+      }
+      retry();
+      return () => {
+        appState.remove();
+        clearInterval(interval);
+        if (Platform.OS === 'web' && typeof window !== 'undefined') {
+          window.removeEventListener('online', onBrowserOnline);
+          window.removeEventListener('offline', onBrowserOffline);
+        }
+      };
+    },
+
+    async resolveConflict(id, choice) {
+      const conflict = conflicts.find((c) => c.id === id);
+      if (!conflict) return;
+      conflicts = conflicts.filter((c) => c.id !== id);
+      if (choice === 'mine' && conflict.reason === 'conflict') {
+        const { entry } = conflict;
+        // Re-queue against the server version we just saw so it no longer conflicts.
+        if (entry.op === 'update' || entry.op === 'remove') {
+          const base = { ...entry.base };
+          let filters = entry.filters;
+          conflict.serverRows.forEach((row) => {
+            // Whatever version the write expected, it now expects the one just seen
+            filters = filters.map((filter) => (isVersionFilter(filter) ? { ...filter, value: row.updated_at ?? null } : filter));
+            base[row.id] = row.updated_at ?? null;
+          });
+          outbox = [{ ...entry, base, filters }, ...outbox];
+        }
+        persistQueue();
+        emit();
+        await flush();
+        return;
+      }
+      persistQueue();
+      emit();
+      await restoreFromServer(conflict.entry);
+      emit();
+    },
+
+    async clear() {
+      await hydrated;
+      cache.forEach((rows) => rows.clear());
+      outbox = [];
+      conflicts = [];
+      lastSyncedAt = null;
+      await Promise.all([
+        ...TABLES.map((table) => storage.removeItem(`${prefix}:cache:${table}`)),
+        storage.removeItem(`${prefix}:outbox`),
+        storage.removeItem(`${prefix}:conflicts`),
+      ]).catch((e) => console.warn('Could not clear offline data', e));
+      emit();
+    },
+  };
+}
+
+export default createOfflineDriver;
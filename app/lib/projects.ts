@@ -0,0 +1,51 @@
+import type { Project, Task } from './types';
+
+// Projects group tasks, notes and agenda events through `project_id`. Tasks
+// from before projects existed only have the free-text `project`; those are
+// shown under that name until the migration (or an edit) links them.
+
+export const PROJECT_COLORS = ['#4f46e5', '#2563eb', '#0891b2', '#059669', '#ca8a04', '#ea580c', '#dc2626', '#ec4899'];
+
+export const PROJECT_ICONS = [
+  'briefcase-outline',
+  'rocket-outline',
+  'school-outline',
+  'home-outline',
+  'heart-outline',
+  'code-slash-outline',
+  'brush-outline',
+  'airplane-outline',
+] as const;
+
+export const DEFAULT_PROJECT_COLOR = PROJECT_COLORS[0];
+export const DEFAULT_PROJECT_ICON = PROJECT_ICONS[0];
+
+export const isArchived = (project: Project) => !!project.archived_at;
+
+// Active projects by name, for pickers.
+export const activeProjects = (projects: Project[]) =>
+  projects.filter((project) => !isArchived(project)).sort((a, b) => a.name.localeCompare(b.name));
+
+// Case-insensitive, ignoring surrounding spaces; archived projects match too.
+export function findProjectByName(projects: Project[], name: string): Project | null {
+  const wanted = name.trim().toLowerCase();
+  if (!wanted) return null;
+  return projects.find((project) => project.name.trim().toLowerCase() === wanted) ?? null;
+}
+
+// What a task's project pill shows: the linked project, or the legacy text.
+export function taskProjectLabel(task: Task, projects: Project[]): { name: string; color: string | null } | null {
+  const project = task.project_id ? projects.find((p) => p.id === task.project_id) : undefined;
+  if (project) return { name: project.name, color: project.color ?? null };
+  return task.project?.trim() ? { name: task.project.trim(), color: null } : null;
+}
+
+// Tasks in a project, including unlinked ones whose legacy text matches its name.
+export const projectTasks = (project: Project, tasks: Task[]) =>
+  tasks.filter(
+    (task) =>
+      task.project_id === project.id ||
+      (!task.project_id && !!task.project && task.project.trim().toLowerCase() === project.name.trim().toLowerCase()),
+  );
+
+export default activeProjects;
@@ -0,0 +1,297 @@
+import type { TaskPriority } from './types';
+
+// Natural-language quick add: pulls dates, times, a project, a priority and a
+// location out of a typed title, in English or Dutch. For example
+// `Call Anna tomorrow 15:00 #work !high` or `Meeting vrijdag 10-11 @kantoor`.
+//
+// Recognised (case-insensitive, the first match of each kind wins):
+//   #project          project name, up to the next space
+//   @place, @"a b"    location
+//   !low/!medium/!high (or !laag/!normaal/!hoog, !urgent, !, !!, !!!)
+//   today/vandaag, tomorrow/morgen, overmorgen, weekday names, next week,
+//   in 3 days / over 3 dagen, 2025-12-24, 24/12, 24-12-2025, 24 dec, dec 24
+//   15:00, 15.00, 3pm, 15u, and ranges like 10:00-11:30, 3-4pm, or 10-11
+//   next to a day or after from/van/at/om ("chapter 3-4" stays in the title)
+// Weekday names mean the next such day after today. Dashed day-month pairs
+// need a year (`24-12-2025`), since `10-11` reads as a time range.
+
+export type QuickAddKind = 'task' | 'reminder' | 'event';
+
+export type QuickAdd = {
+  // The input with every recognised phrase removed.
+  title: string;
+  // Best guess: "remind me ..." is a reminder, a time range or a location makes
+  // an event, everything else is a task.
+  kind: QuickAddKind;
+  start: Date | null;
+  end: Date | null;
+  // A day without a time; `start` is then local midnight.
+  allDay: boolean;
+  project: string | null;
+  priority: TaskPriority | null;
+  location: string | null;
+  // False when nothing was recognised and `title` is just the trimmed input.
+  hasFields: boolean;
+};
+
+const WEEKDAY_NAMES: Record<string, number> = {
+  sunday: 0,
+  zondag: 0,
+  monday: 1,
+  maandag: 1,
+  tuesday: 2,
+  dinsdag: 2,
+  wednesday: 3,
+  woensdag: 3,
+  thursday: 4,
+  donderdag: 4,
+  friday: 5,
+  vrijdag: 5,
+  saturday: 6,
+  zaterdag: 6,
+};
+
+// Month name prefixes (English and Dutch) -> month index.
+const MONTH_PATTERNS: [RegExp, number][] = [
+  [/^jan(uary|uari)?$/, 0],
+  [/^feb(ruary|ruari)?$/, 1],
+  [/^(mar(ch)?|maart|mrt)$/, 2],
+  [/^apr(il)?$/, 3],
+  [/^(may|mei)$/, 4],
+  [/^jun[ei]?$/, 5],
+  [/^jul[yi]?$/, 6],
+  [/^aug(ust|ustus)?$/, 7],
+  [/^sep(t|tember)?$/, 8],
+  [/^(oct|okt)(ober)?$/, 9],
+  [/^nov(ember)?$/, 10],
+  [/^dec(ember)?$/, 11],
+];
+
+const PRIORITIES: Record<string, TaskPriority> = {
+  '!': 'low',
+  '!!': 'medium',
+  '!!!': 'high',
+  low: 'low',
+  laag: 'low',
+  medium: 'medium',
+  med: 'medium',
+  normaal: 'medium',
+  high: 'high',
+  hoog: 'high',
+  urgent: 'high',
+};
+
+const WEEKDAY_WORDS = Object.keys(WEEKDAY_NAMES).join('|');
+const MONTH_WORDS =
+  'jan(?:uary|uari)?|feb(?:ruary|ruari)?|mar(?:ch)?|maart|mrt|apr(?:il)?|may|mei|jun[ei]?|jul[yi]?|aug(?:ust|ustus)?|sep(?:t|tember)?|o[ck]t(?:ober)?|nov(?:ember)?|dec(?:ember)?';
+// One clock time; minutes and a suffix are optional here, `toTime` decides.
+const TIME = '(\\d{1,2})(?:[:.](\\d{2}))?\\s*(am|pm|u|uur|h)?';
+// A day right next to a bare range makes it a time range ("vrijdag 10-11").
+const DAY_CUE = [
+  `today|vandaag|tomorrow|morgen|overmorgen|${WEEKDAY_WORDS}`,
+  `\\d{1,2}\\s+(?:${MONTH_WORDS})|(?:${MONTH_WORDS})\\s+\\d{1,2}`,
+  '\\d{1,2}/\\d{1,2}(?:/\\d{4})?|\\d{1,2}-\\d{1,2}-\\d{4}|\\d{4}-\\d{1,2}-\\d{1,2}',
+].join('|');
+const DAY_BEFORE = new RegExp(`(?:^|\\s)(?:${DAY_CUE})\\s*$`, 'i');
+const DAY_AFTER = new RegExp(`^\\s*(?:${DAY_CUE})(?=\\s|$)`, 'i');
+// Every phrase is a whole word: preceded by a space (or the start) and followed
+// by a space or the end.
+const END = '(?=\\s|$)';
+
+type Time = { hours: number; minutes: number };
+
+const toTime = (hours: string, minutes: string | undefined, suffix: string | undefined, bare = false): Time | null => {
+  let h = Number(hours);
+  const m = minutes ? Number(minutes) : 0;
+  // A lone number is only a time inside a range ("10-11").
+  if (!bare && minutes === undefined && !suffix) return null;
+  const meridiem = suffix?.toLowerCase();
+  if (meridiem === 'am' || meridiem === 'pm') {
+    if (h < 1 || h > 12) return null;
+    h = (h % 12) + (meridiem === 'pm' ? 12 : 0);
+  }
+  return h <= 23 && m <= 59 ? { hours: h, minutes: m } : null;
+};
+
+const startOfToday = (now: Date) => new Date(now.getFullYear(), now.getMonth(), now.getDate());
+
+const addDays = (date: Date, days: number) => new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+const monthIndex = (word: string) => MONTH_PATTERNS.find(([pattern]) => pattern.test(word.toLowerCase()))?.[1];
+
+// A day and month without a year: this year, or next year once it has passed.
+const upcomingDate = (day: number, month: number, now: Date) => {
+  const today = startOfToday(now);
+  const date = new Date(today.getFullYear(), month, day);
+  if (date < today) date.setFullYear(today.getFullYear() + 1);
+  return date;
+};
+
+const validDate = (date: Date, day: number) => (date.getDate() === day ? date : null);
+
+export function parseQuickAdd(input: string, now: Date = new Date()): QuickAdd {
+  let text = ` ${input.trim()} `;
+  const found: {
+    kind?: QuickAddKind;
+    project?: string;
+    priority?: TaskPriority;
+    location?: string;
+    day?: Date | null;
+    time?: Time | null;
+    endTime?: Time;
+  } = {};
+  const today = startOfToday(now);
+
+  // Removes the first match that `apply` accepts; rejected matches stay in the
+  // title (e.g. "25:00" is not a time, "3" in "3 apples" isn't either).
+  const take = (pattern: string, apply: (match: string[], before: string, after: string) => boolean) => {
+    for (const match of text.matchAll(new RegExp(`(\\s)${pattern}${END}`, 'gi'))) {
+      if (match.index === undefined) continue;
+      if (!apply(match.slice(2), text.slice(0, match.index), text.slice(match.index + match[0].length))) continue;
+      text = `${text.slice(0, match.index)} ${text.slice(match.index + match[0].length)}`;
+      return;
+    }
+  };
+
+  take('(?:remind me(?: to)?|herinner me(?: eraan)?(?: om)?|reminder:)', () => {
+    found.kind = 'reminder';
+    return true;
+  });
+  take('#([^\\s#@]+)', ([name]) => {
+    found.project = name;
+    return true;
+  });
+  take('@(?:"([^"]+)"|([^\\s"]+))', ([quoted, word]) => {
+    found.location = (quoted ?? word).trim();
+    return !!found.location;
+  });
+  take('!(!{0,2}|low|laag|medium|med|normaal|high|hoog|urgent)', ([level]) => {
+    found.priority = PRIORITIES[/^!*$/.test(level) ? `!${level}` : level.toLowerCase()];
+    return !!found.priority;
+  });
+
+  // Ranges first, so "10-11" isn't read as a single time or a date.
+  take(`(?:(from|van|at|om)\\s+)?${TIME}\\s*(?:-|–|to|tot)\\s*${TIME}`, ([cue, h1, m1, s1, h2, m2, s2], before, after) => {
+    // Two bare numbers are just as often "chapter 3-4" or "sprint 1-2"
+    const bare = !m1 && !s1 && !m2 && !s2;
+    if (bare && !cue && !DAY_BEFORE.test(before) && !DAY_AFTER.test(after)) return false;
+    // "3-4pm" / "10-11u": a suffix on the end time applies to both
+    const from = toTime(h1, m1, s1 ?? s2, true);
+    const to = toTime(h2, m2, s2, true);
+    if (!from || !to) return false;
+    found.time = from;
+    found.endTime = to;
+    return true;
+  });
+  if (!found.time) {
+    take(`(?:(?:at|om)\\s+)?${TIME}`, ([h, m, suffix]) => {
+      found.time = toTime(h, m, suffix);
+      return !!found.time;
+    });
+  }
+
+  take('(?:on |op )?(\\d{4})-(\\d{1,2})-(\\d{1,2})', ([y, m, d]) => {
+    found.day = validDate(new Date(+y, +m - 1, +d), +d);
+    return !!found.day;
+  });
+  if (!found.day) {
+    take('(?:on |op )?(\\d{1,2})[/-](\\d{1,2})[/-](\\d{4})', ([d, m, y]) => {
+      found.day = validDate(new Date(+y, +m - 1, +d), +d);
+      return !!found.day;
+    });
+  }
+  if (!found.day) {
+    take('(?:on |op )?(\\d{1,2})/(\\d{1,2})', ([d, m]) => {
+      found.day = validDate(upcomingDate(+d, +m - 1, now), +d);
+      return !!found.day;
+    });
+  }
+  if (!found.day) {
+    take(`(?:on |op )?(\\d{1,2})\\s+(${MONTH_WORDS})(?:\\s+(\\d{4}))?`, ([d, month, y]) => {
+      const index = monthIndex(month);
+      if (index === undefined) return false;
+      found.day = validDate(y ? new Date(+y, index, +d) : upcomingDate(+d, index, now), +d);
+      return !!found.day;
+    });
+  }
+  if (!found.day) {
+    take(`(?:on |op )?(${MONTH_WORDS})\\s+(\\d{1,2})(?:,?\\s+(\\d{4}))?`, ([month, d, y]) => {
+      const index = monthIndex(month);
+      if (index === undefined) return false;
+      found.day = validDate(y ? new Date(+y, index, +d) : upcomingDate(+d, index, now), +d);
+      return !!found.day;
+    });
+  }
+  if (!found.day) {
+    take('(today|vandaag|tomorrow|morgen|overmorgen|day after tomorrow)', ([word]) => {
+      const offsets: Record<string, number> = { today: 0, vandaag: 0, tomorrow: 1, morgen: 1 };
+      found.day = addDays(today, offsets[word.toLowerCase()] ?? 2);
+      return true;
+    });
+  }
+  if (!found.day) {
+    take(`(?:(?:next|volgende|on|op|this|deze)\\s+)?(${WEEKDAY_WORDS})`, ([word]) => {
+      const weekday = WEEKDAY_NAMES[word.toLowerCase()];
+      const ahead = (weekday - today.getDay() + 7) % 7 || 7;
+      found.day = addDays(today, ahead);
+      return true;
+    });
+  }
+  if (!found.day) {
+    take('(?:next week|volgende week)', () => {
+      // Monday of next week
+      found.day = addDays(today, 7 - ((today.getDay() + 6) % 7));
+      return true;
+    });
+  }
+  if (!found.day) {
+    take('(?:in|over)\\s+(\\d{1,3})\\s+(days?|dagen|dag|weeks?|weken|week)', ([count, unit]) => {
+      found.day = addDays(today, Number(count) * (/^(w)/i.test(unit) ? 7 : 1));
+      return true;
+    });
+  }
+
+  const { day, time, endTime } = found;
+  let start: Date | null = null;
+  let end: Date | null = null;
+  if (time) {
+    const base = day ?? today;
+    start = new Date(base.getFullYear(), base.getMonth(), base.getDate(), time.hours, time.minutes);
+    // A bare time that has already passed today means tomorrow
+    if (!day && start <= now) start = new Date(base.getFullYear(), base.getMonth(), base.getDate() + 1, time.hours, time.minutes);
+    if (endTime) {
+      end = new Date(start.getFullYear(), start.getMonth(), start.getDate(), endTime.hours, endTime.minutes);
+      // "22-1" runs past midnight
+      if (end <= start) end = new Date(end.getFullYear(), end.getMonth(), end.getDate() + 1, endTime.hours, endTime.minutes);
+    }
+  } else if (day) {
+    start = day;
+  }
+
+  const title = text.replace(/\s+/g, ' ').trim();
+  const { kind, project, priority, location } = found;
+  return {
+    // Input that is nothing but fields ("tomorrow") keeps itself as the title
+    title: title || input.trim(),
+    kind: kind ?? (end || location ? 'event' : 'task'),
+    start,
+    end,
+    allDay: !!start && !time,
+    project: project ?? null,
+    priority: priority ?? null,
+    location: location ?? null,
+    hasFields: !!(kind || project || priority || location || start),
+  };
+}
+
+// The start as a concrete moment: all-day results get `hour` o'clock, for the
+// things that need a time (reminders, events).
+export const quickAddStart = (parsed: QuickAdd, hour = 9): Date | null => {
+  if (!parsed.start) return null;
+  if (!parsed.allDay) return parsed.start;
+  const start = new Date(parsed.start);
+  start.setHours(hour, 0, 0, 0);
+  return start;
+};
+
+export default parseQuickAdd;
@@ -0,0 +1,97 @@
+import type { RealtimePostgresChangesPayload, SupabaseClient } from '@supabase/supabase-js';
+
+import type { Row, StoredRow, TableName } from './driver';
+
+// Live row changes for everything that can be shared between users. Supabase
+// only delivers rows the user may read (RLS), so `notes` and `note_folders`
+// are subscribed unfiltered; the collaborator tables need REPLICA IDENTITY FULL
+// (see supabase/migrations) so a DELETE still says which note/folder it revoked.
+
+export type SharedTable = Extract<TableName, 'notes' | 'note_folders' | 'note_collaborators' | 'folder_collaborators'>;
+
+export type RowChange<T extends Row = StoredRow> = {
+  table: SharedTable;
+  type: 'INSERT' | 'UPDATE' | 'DELETE';
+  // The new row for INSERT/UPDATE, null for DELETE.
+  row: T | null;
+  // The previous row; only the primary key unless the table has REPLICA IDENTITY FULL.
+  old: Partial<T>;
+};
+
+const SHARED_TABLES: SharedTable[] = ['notes', 'note_folders', 'note_collaborators', 'folder_collaborators'];
+
+export function subscribeToSharedContent(
+  client: SupabaseClient,
+  userId: string,
+  onChange: (change: RowChange) => void,
+): () => void {
+  let channel = client.channel(`shared_content_${userId}`);
+
+  SHARED_TABLES.forEach((table) => {
+    channel = channel.on(
+      'postgres_changes',
+      { event: '*', schema: 'public', table },
+      (payload: RealtimePostgresChangesPayload<StoredRow>) => {
+        // Moving a note or folder to the trash is an UPDATE; listeners treat it as a DELETE
+        if (payload.eventType === 'UPDATE' && payload.new.deleted_at) {
+          onChange({ table, type: 'DELETE', row: null, old: payload.new });
+          return;
+        }
+        onChange({
+          table,
+          type: payload.eventType,
+          row: payload.eventType === 'DELETE' ? null : payload.new,
+          old: payload.old ?? {},
+        });
+      },
+    );
+  });
+
+  channel.subscribe((status) => {
+    if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+      console.warn(`⚠️ Realtime channel for shared content: ${status}`);
+    }
+  });
+
+  return () => {
+    client.removeChannel(channel);
+  };
+}
+
+export type PresenceUser = { user_id: string; name: string };
+
+// Joins the presence room of one note; `onSync` receives everyone currently in
+// it (including the current user), one entry per user even with several tabs open.
+export function joinNotePresence(
+  client: SupabaseClient,
+  noteId: string,
+  me: PresenceUser,
+  onSync: (users: PresenceUser[]) => void,
+): () => void {
+  const channel = client.channel(`note_presence_${noteId}`, { config: { presence: { key: me.user_id } } });
+
+  channel
+    .on('presence', { event: 'sync' }, () => {
+      const state = channel.presenceState<PresenceUser>();
+      onSync(Object.values(state).map((entries) => entries[0]).filter(Boolean));
+    })
+    .subscribe(async (status) => {
+      if (status === 'SUBSCRIBED') await channel.track(me);
+    });
+
+  return () => {
+    channel.untrack();
+    client.removeChannel(channel);
+  };
+}
+
+// Replaces the row with the same id, or adds it at the front (lists are newest first).
+export const upsertById = <T extends { id: string }>(list: T[], row: T): T[] =>
+  list.some((item) => item.id === row.id)
+    ? list.map((item) => (item.id === row.id ? { ...item, ...row } : item))
+    : [row, ...list];
+
+export const removeById = <T extends { id: string }>(list: T[], id: string | undefined): T[] =>
+  id ? list.filter((item) => item.id !== id) : list;
+
+export default subscribeToSharedContent;
@@ -0,0 +1,295 @@
+// A practical subset of iCalendar RRULE (RFC 5545), stored as the plain rule
+// string, e.g. `FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR` or `FREQ=MONTHLY;BYDAY=-1FR`.
+// Supported: FREQ (DAILY/WEEKLY/MONTHLY/YEARLY), INTERVAL, BYDAY (with ordinals
+// for MONTHLY), BYMONTHDAY, COUNT and UNTIL. Occurrences keep the local time of
+// day of the series start, so 09:00 stays 09:00 across DST changes.
+
+export type Frequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+export type Weekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU';
+
+// `ordinal` only applies to MONTHLY rules: 1 = first, -1 = last, ...
+export type ByDay = { weekday: Weekday; ordinal?: number };
+
+export type RecurrenceRule = {
+  freq: Frequency;
+  interval: number;
+  byDay?: ByDay[];
+  byMonthDay?: number[];
+  count?: number;
+  until?: Date;
+};
+
+export const WEEKDAYS: Weekday[] = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+
+const FREQUENCIES: Frequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+
+// Stops runaway iteration for rules that (almost) never match.
+const MAX_PERIODS = 5000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// JS getDay() is Sunday-based; RRULE weeks start on Monday.
+const weekdayIndex = (date: Date) => (date.getDay() + 6) % 7;
+
+const parseUntil = (value: string) => {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return undefined;
+  const [, y, mo, d, h = '23', mi = '59', s = '59', utc] = match;
+  return utc
+    ? new Date(Date.UTC(+y, +mo - 1, +d, +h, +mi, +s))
+    : new Date(+y, +mo - 1, +d, +h, +mi, +s);
+};
+
+const formatUntil = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+export function parseRecurrence(value: string | null | undefined): RecurrenceRule | null {
+  if (!value || !value.trim()) return null;
+  const parts = Object.fromEntries(
+    value
+      .trim()
+      .replace(/^RRULE:/i, '')
+      .split(';')
+      .map((part) => part.split('='))
+      .filter(([key, val]) => key && val !== undefined)
+      .map(([key, val]) => [key.trim().toUpperCase(), val.trim().toUpperCase()]),
+  ) as Record<string, string>;
+
+  const freq = parts.FREQ as Frequency;
+  if (!FREQUENCIES.includes(freq)) return null;
+
+  const rule: RecurrenceRule = { freq, interval: Math.max(1, parseInt(parts.INTERVAL ?? '1', 10) || 1) };
+
+  if (parts.BYDAY) {
+    const byDay = parts.BYDAY.split(',').map((entry) => {
+      const match = entry.match(/^([+-]?\d{1,2})?(MO|TU|WE|TH|FR|SA|SU)$/);
+      if (!match) return null;
+      return match[1] ? { weekday: match[2] as Weekday, ordinal: parseInt(match[1], 10) } : { weekday: match[2] as Weekday };
+    });
+    if (byDay.some((d) => d === null)) return null;
+    rule.byDay = byDay as ByDay[];
+  }
+  if (parts.BYMONTHDAY) {
+    const days = parts.BYMONTHDAY.split(',').map((d) => parseInt(d, 10));
+    if (days.some((d) => !d || d < -31 || d > 31)) return null;
+    rule.byMonthDay = days;
+  }
+  if (parts.COUNT) {
+    const count = parseInt(parts.COUNT, 10);
+    if (!(count > 0)) return null;
+    rule.count = count;
+  }
+  if (parts.UNTIL) {
+    const until = parseUntil(parts.UNTIL);
+    if (!until) return null;
+    rule.until = until;
+  }
+  return rule;
+}
+
+export function formatRecurrence(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay?.length) parts.push(`BYDAY=${rule.byDay.map((d) => `${d.ordinal ?? ''}${d.weekday}`).join(',')}`);
+  if (rule.byMonthDay?.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${formatUntil(rule.until)}`);
+  return parts.join(';');
+}
+
+const atTimeOf = (template: Date, year: number, month: number, day: number) =>
+  new Date(year, month, day, template.getHours(), template.getMinutes(), template.getSeconds(), 0);
+
+const daysInMonth = (year: number, month: number) => new Date(year, month + 1, 0).getDate();
+
+// Days of one month matching the rule's BYMONTHDAY / BYDAY, ascending.
+function monthDays(rule: RecurrenceRule, start: Date, year: number, month: number): number[] {
+  const total = daysInMonth(year, month);
+  const days = new Set<number>();
+
+  rule.byMonthDay?.forEach((d) => {
+    const day = d > 0 ? d : total + d + 1;
+    if (day >= 1 && day <= total) days.add(day);
+  });
+
+  rule.byDay?.forEach(({ weekday, ordinal }) => {
+    const target = WEEKDAYS.indexOf(weekday);
+    const matching: number[] = [];
+    for (let day = 1; day <= total; day++) {
+      if (weekdayIndex(new Date(year, month, day)) === target) matching.push(day);
+    }
+    if (!ordinal) matching.forEach((day) => days.add(day));
+    else {
+      const day = ordinal > 0 ? matching[ordinal - 1] : matching[matching.length + ordinal];
+      if (day) days.add(day);
+    }
+  });
+
+  if (!rule.byMonthDay?.length && !rule.byDay?.length && start.getDate() <= total) days.add(start.getDate());
+  return Array.from(days).sort((a, b) => a - b);
+}
+
+const calendarDayNumber = (date: Date) => Math.floor(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) / DAY_MS);
+
+// Whole periods that lie entirely before `from`, so long-running series don't
+// have to be walked from their first occurrence. Not usable with COUNT.
+function periodsBefore(rule: RecurrenceRule, start: Date, from: Date): number {
+  const days = calendarDayNumber(from) - calendarDayNumber(start);
+  const months = (from.getFullYear() - start.getFullYear()) * 12 + from.getMonth() - start.getMonth();
+  const periods = {
+    DAILY: days / rule.interval,
+    WEEKLY: (days + weekdayIndex(start)) / 7 / rule.interval,
+    MONTHLY: months / rule.interval,
+    YEARLY: (from.getFullYear() - start.getFullYear()) / rule.interval,
+  }[rule.freq];
+  return Math.max(0, Math.floor(periods) - 1);
+}
+
+// All occurrences of the series starting at `start`, in order (lazily).
+// Passing `from` skips ahead; earlier occurrences may or may not be yielded.
+export function* iterateOccurrences(rule: RecurrenceRule, start: Date, from?: Date): Generator<Date> {
+  const firstPeriod = from && !rule.count ? periodsBefore(rule, start, from) : 0;
+  let emitted = 0;
+
+  for (let period = firstPeriod; period < firstPeriod + MAX_PERIODS; period++) {
+    let candidates: Date[] = [];
+    switch (rule.freq) {
+      case 'DAILY': {
+        const date = atTimeOf(start, start.getFullYear(), start.getMonth(), start.getDate() + period * rule.interval);
+        const allowed = rule.byDay?.map((d) => WEEKDAYS.indexOf(d.weekday));
+        if (!allowed || allowed.includes(weekdayIndex(date))) candidates = [date];
+        break;
+      }
+      case 'WEEKLY': {
+        const monday = start.getDate() - weekdayIndex(start) + period * rule.interval * 7;
+        const weekdays = rule.byDay?.length
+          ? Array.from(new Set(rule.byDay.map((d) => WEEKDAYS.indexOf(d.weekday)))).sort((a, b) => a - b)
+          : [weekdayIndex(start)];
+        candidates = weekdays.map((offset) => atTimeOf(start, start.getFullYear(), start.getMonth(), monday + offset));
+        break;
+      }
+      case 'MONTHLY': {
+        const first = new Date(start.getFullYear(), start.getMonth() + period * rule.interval, 1);
+        candidates = monthDays(rule, start, first.getFullYear(), first.getMonth()).map((day) =>
+          atTimeOf(start, first.getFullYear(), first.getMonth(), day),
+        );
+        break;
+      }
+      case 'YEARLY': {
+        const year = start.getFullYear() + period * rule.interval;
+        // Feb 29 only exists in leap years; other years are skipped like RFC 5545 does.
+        if (start.getDate() <= daysInMonth(year, start.getMonth())) {
+          candidates = [atTimeOf(start, year, start.getMonth(), start.getDate())];
+        }
+        break;
+      }
+    }
+    for (const date of candidates) {
+      if (date < start) continue;
+      if ((rule.until && date > rule.until) || (rule.count && emitted >= rule.count)) return;
+      emitted++;
+      yield date;
+    }
+  }
+}
+
+// First occurrence strictly after `after`, or null when the series has ended.
+export function nextOccurrence(rule: RecurrenceRule, start: Date, after: Date): Date | null {
+  for (const date of iterateOccurrences(rule, start, after)) {
+    if (date > after) return date;
+  }
+  return null;
+}
+
+// Occurrences with from <= date < to.
+export function occurrencesBetween(rule: RecurrenceRule, start: Date, from: Date, to: Date): Date[] {
+  const result: Date[] = [];
+  for (const date of iterateOccurrences(rule, start, from)) {
+    if (date >= to) break;
+    if (date >= from) result.push(date);
+  }
+  return result;
+}
+
+// Moves a series forward past `after` (a reminder marked done): returns the
+// next start and the rule to store with it, or null once the series is over.
+// COUNT is decremented by the occurrences passed so the total stays the same;
+// only then is the series walked from `current`, otherwise from `after`.
+export function advanceRecurrence(
+  value: string,
+  current: Date,
+  after: Date = new Date(Math.max(Date.now(), current.getTime())),
+): { next: Date; rule: string } | null {
+  const rule = parseRecurrence(value);
+  if (!rule) return null;
+  let passed = 0;
+  for (const date of iterateOccurrences(rule, current, after)) {
+    if (date > after) {
+      const nextRule = rule.count ? { ...rule, count: rule.count - passed } : rule;
+      return { next: date, rule: formatRecurrence(nextRule) };
+    }
+    passed++;
+  }
+  return null;
+}
+
+const WEEKDAY_NAMES: Record<Weekday, string> = {
+  MO: 'Monday',
+  TU: 'Tuesday',
+  WE: 'Wednesday',
+  TH: 'Thursday',
+  FR: 'Friday',
+  SA: 'Saturday',
+  SU: 'Sunday',
+};
+
+const ORDINAL_NAMES: Record<string, string> = { '1': 'first', '2': 'second', '3': 'third', '4': 'fourth', '-1': 'last' };
+
+// Short English description for list rows, e.g. "Every weekday", "Last Friday of the month".
+export function describeRecurrence(value: string | null | undefined): string | null {
+  const rule = parseRecurrence(value);
+  if (!rule) return null;
+  const every = (unit: string) => (rule.interval > 1 ? `Every ${rule.interval} ${unit}s` : `Every ${unit}`);
+  const days = rule.byDay?.map((d) => d.weekday) ?? [];
+  let text: string;
+
+  if (rule.freq === 'DAILY') {
+    text = every('day');
+  } else if (rule.freq === 'WEEKLY') {
+    const weekdaysOnly = days.length === 5 && WEEKDAYS.slice(0, 5).every((d) => days.includes(d));
+    if (weekdaysOnly && rule.interval === 1) text = 'Every weekday';
+    else if (days.length) text = `${every('week')} on ${days.map((d) => WEEKDAY_NAMES[d]).join(', ')}`;
+    else text = every('week');
+  } else if (rule.freq === 'MONTHLY') {
+    const ordinal = rule.byDay?.find((d) => d.ordinal);
+    if (ordinal && rule.byDay!.length === 1) {
+      const position = ORDINAL_NAMES[String(ordinal.ordinal)] ?? `#${ordinal.ordinal}`;
+      const name = `${position.charAt(0).toUpperCase()}${position.slice(1)} ${WEEKDAY_NAMES[ordinal.weekday]}`;
+      text = rule.interval > 1 ? `${name} of every ${rule.interval} months` : `${name} of the month`;
+    } else if (rule.byMonthDay?.length) {
+      text = `${every('month')} on day ${rule.byMonthDay.join(', ')}`;
+    } else {
+      text = every('month');
+    }
+  } else {
+    text = every('year');
+  }
+
+  if (rule.count) text += `, ${rule.count}×`;
+  if (rule.until) text += ` until ${rule.until.toLocaleDateString()}`;
+  return text;
+}
+
+// Presets offered in the UI; `custom` takes a raw RRULE.
+export const RECURRENCE_PRESETS: { key: string; label: string; rule: string | null }[] = [
+  { key: 'none', label: 'Once', rule: null },
+  { key: 'daily', label: 'Daily', rule: 'FREQ=DAILY' },
+  { key: 'weekdays', label: 'Weekdays', rule: 'FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR' },
+  { key: 'weekly', label: 'Weekly', rule: 'FREQ=WEEKLY' },
+  { key: 'monthly', label: 'Monthly', rule: 'FREQ=MONTHLY' },
+];
+
+// "Last Friday of the month" style rule for the weekday of `date`.
+export const lastWeekdayOfMonthRule = (date: Date) => `FREQ=MONTHLY;BYDAY=-1${WEEKDAYS[weekdayIndex(date)]}`;
+
+export default parseRecurrence;
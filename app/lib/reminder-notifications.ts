@@ -0,0 +1,149 @@
+import * as Notifications from 'expo-notifications';
+import { Platform } from 'react-native';
+
+import type { Reminder } from './types';
+
+// Local notifications for reminders. Every reminder owns at most one scheduled
+// notification, identified as `reminder-<id>`, so scheduling is idempotent:
+// (re)scheduling replaces the previous one and resyncing can diff by id.
+// Web has no scheduled local notifications; everything here is a no-op there.
+
+export type ReminderAction = 'done' | 'snooze' | 'open';
+
+export const SNOOZE_MINUTES = 10;
+
+const CATEGORY_ID = 'reminder';
+const CHANNEL_ID = 'reminders';
+const ID_PREFIX = 'reminder-';
+
+const supported = Platform.OS !== 'web';
+
+const notificationId = (reminderId: string) => `${ID_PREFIX}${reminderId}`;
+
+let configured: Promise<boolean> | null = null;
+
+// Handler, Android channel, "Done"/"Snooze" category and permission; runs once.
+export function configureReminderNotifications(): Promise<boolean> {
+  if (!supported) return Promise.resolve(false);
+  configured ??= (async () => {
+    try {
+      Notifications.setNotificationHandler({
+        handleNotification: async () => ({
+          shouldShowBanner: true,
+          shouldShowList: true,
+          shouldPlaySound: true,
+          shouldSetBadge: false,
+        }),
+      });
+
+      if (Platform.OS === 'android') {
+        await Notifications.setNotificationChannelAsync(CHANNEL_ID, {
+          name: 'Reminders',
+          importance: Notifications.AndroidImportance.HIGH,
+        });
+      }
+
+      await Notifications.setNotificationCategoryAsync(CATEGORY_ID, [
+        { identifier: 'done', buttonTitle: 'Done', options: { opensAppToForeground: true } },
+        {
+          identifier: 'snooze',
+          buttonTitle: `Snooze ${SNOOZE_MINUTES} min`,
+          options: { opensAppToForeground: true },
+        },
+      ]);
+
+      const current = await Notifications.getPermissionsAsync();
+      if (current.granted) return true;
+      if (!current.canAskAgain) return false;
+      const requested = await Notifications.requestPermissionsAsync();
+      return requested.granted;
+    } catch (e) {
+      console.warn('⚠️ Reminder notifications unavailable', e);
+      return false;
+    }
+  })();
+  return configured;
+}
+
+const shouldFire = (reminder: Reminder) =>
+  !reminder.is_done && !!reminder.remind_at && new Date(reminder.remind_at).getTime() > Date.now();
+
+export async function cancelReminderNotification(reminderId: string) {
+  if (!supported) return;
+  try {
+    await Notifications.cancelScheduledNotificationAsync(notificationId(reminderId));
+  } catch (e) {
+    console.warn('⚠️ Could not cancel reminder notification', e);
+  }
+}
+
+// Schedules (or replaces) the notification for a reminder; done or past
+// reminders just lose theirs.
+export async function scheduleReminderNotification(reminder: Reminder) {
+  if (!supported) return;
+  await cancelReminderNotification(reminder.id);
+  if (!shouldFire(reminder) || !(await configureReminderNotifications())) return;
+  try {
+    await Notifications.scheduleNotificationAsync({
+      identifier: notificationId(reminder.id),
+      content: {
+        title: 'Reminder',
+        body: reminder.title,
+        data: { reminderId: reminder.id },
+        categoryIdentifier: CATEGORY_ID,
+      },
+      trigger: {
+        type: Notifications.SchedulableTriggerInputTypes.DATE,
+        date: new Date(reminder.remind_at!),
+        channelId: CHANNEL_ID,
+      },
+    });
+  } catch (e) {
+    console.warn('⚠️ Could not schedule reminder notification', e);
+  }
+}
+
+// Brings the OS schedule in line with the reminders list: drops notifications
+// for reminders that are gone/done and (re)schedules the rest.
+export async function syncReminderNotifications(reminders: Reminder[]) {
+  if (!supported || !(await configureReminderNotifications())) return;
+  try {
+    const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+    const wanted = new Set(reminders.filter(shouldFire).map((r) => notificationId(r.id)));
+    await Promise.all(
+      scheduled
+        .filter((n) => n.identifier.startsWith(ID_PREFIX) && !wanted.has(n.identifier))
+        .map((n) => Notifications.cancelScheduledNotificationAsync(n.identifier)),
+    );
+    await Promise.all(reminders.filter(shouldFire).map(scheduleReminderNotification));
+  } catch (e) {
+    console.warn('⚠️ Could not resync reminder notifications', e);
+  }
+}
+
+const toAction = (actionIdentifier: string): ReminderAction =>
+  actionIdentifier === 'done' ? 'done' : actionIdentifier === 'snooze' ? 'snooze' : 'open';
+
+// Calls `onAction` for taps on reminder notifications and their buttons,
+// including the one that launched the app from a killed state.
+export function subscribeToReminderActions(
+  onAction: (action: ReminderAction, reminder: Pick<Reminder, 'id' | 'title'>) => void,
+) {
+  if (!supported) return () => {};
+
+  const handle = (response: Notifications.NotificationResponse | null) => {
+    const reminderId = response?.notification.request.content.data?.reminderId;
+    if (typeof reminderId !== 'string') return;
+    onAction(toAction(response!.actionIdentifier), {
+      id: reminderId,
+      title: response!.notification.request.content.body ?? '',
+    });
+    Notifications.clearLastNotificationResponseAsync().catch(() => {});
+  };
+
+  Notifications.getLastNotificationResponseAsync().then(handle).catch(() => {});
+  const subscription = Notifications.addNotificationResponseReceivedListener(handle);
+  return () => subscription.remove();
+}
+
+export default scheduleReminderNotification;
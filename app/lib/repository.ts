@@ -0,0 +1,513 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { eq, fail, isIn, notNull, ok, RepoResult, RepositoryError, Row, SelectOptions, TableDriver, TableName } from './driver';
+import { supabase } from './supabase';
+import { createOfflineDriver } from './offline-driver';
+import { createSupabaseDriver } from './supabase-driver';
+import { countIds, EMPTY_TRASH, expiredIds, TRASH_TABLES, type TrashContents, type TrashIds, type TrashTable, type TrashWrite } from './trash';
+import type {
+  AgendaEvent,
+  FolderCollaborator,
+  NewAgendaEvent,
+  NewCollaborator,
+  NewNote,
+  NewNoteFolder,
+  NewNoteRevision,
+  NewProject,
+  NewReminder,
+  NewTask,
+  NewWorkflowStatus,
+  Note,
+  NoteCollaborator,
+  NoteFolder,
+  NoteRevision,
+  Project,
+  Reminder,
+  Task,
+  UserProfile,
+  WorkflowStatus,
+} from './types';
+
+export { RepositoryError } from './driver';
+export type { RepoResult } from './driver';
+
+// Result of an insert that may have retried without optional columns
+// the database doesn't know about yet (e.g. `project` on older schemas).
+export type InsertResult<T> = RepoResult<T> & { droppedColumns: string[] };
+
+const withDropped = <T>(result: RepoResult<T>, droppedColumns: string[]): InsertResult<T> => ({
+  ...result,
+  droppedColumns,
+});
+
+// Inserts a single row; when the schema lacks one of `optionalColumns`, drops
+// that column and tries again instead of failing the whole write.
+async function insertWithFallback<T extends Row>(
+  driver: TableDriver,
+  table: TableName,
+  payload: Row,
+  optionalColumns: string[],
+): Promise<InsertResult<T | null>> {
+  let current = { ...payload };
+  const dropped: string[] = [];
+
+  for (;;) {
+    const result = await driver.insert<T>(table, [current], { returning: true });
+    if (!result.error) return withDropped(ok(result.data[0] ?? null), dropped);
+
+    const { error } = result;
+    const message = error.message.toLowerCase();
+    const column =
+      error.kind === 'missing_column' && error.column && optionalColumns.includes(error.column)
+        ? error.column
+        : optionalColumns.find((c) => c in current && message.includes(c));
+
+    if (!column || !(column in current)) return withDropped(fail(error), dropped);
+
+    console.warn(`${column} column missing on ${table} table, retrying without it`);
+    const { [column]: _ignored, ...rest } = current;
+    current = rest;
+    dropped.push(column);
+  }
+}
+
+const first = <T>(result: RepoResult<T[]>): RepoResult<T | null> =>
+  result.error ? result : ok(result.data[0] ?? null);
+
+const noop = <T>(result: RepoResult<T>): RepoResult<null> => (result.error ? result : ok(null));
+
+type Collaborator = { user_id: string | null };
+
+// Adds user_email / user_name from `profiles`. A failing profile lookup is
+// not fatal: the raw collaborator rows are returned instead.
+async function attachProfiles<T extends Collaborator>(driver: TableDriver, rows: T[]): Promise<T[]> {
+  const ids = rows.flatMap((r) => (r.user_id ? [r.user_id] : []));
+  if (ids.length === 0) return rows;
+  const profiles = await driver.select<UserProfile>('profiles', {
+    columns: 'id, email, name',
+    filters: [isIn('id', ids)],
+  });
+  if (profiles.error) {
+    console.error('❌ Error fetching profiles:', profiles.error);
+    return rows;
+  }
+  return rows.map((row) => {
+    const profile = profiles.data.find((p) => p.id === row.user_id);
+    return { ...row, user_email: profile?.email, user_name: profile?.name ?? undefined };
+  });
+}
+
+const isMissingTrash = (error: RepositoryError) => error.kind === 'missing_column' && error.column === 'deleted_at';
+
+export function createRepository(driver: TableDriver) {
+  // Tables found to lack `deleted_at` (schemas from before the trash).
+  const withoutTrash = new Set<TableName>();
+
+  // Selects the rows that are not in the trash.
+  const selectLive = async <T extends Row>(table: TableName, options: SelectOptions = {}): Promise<RepoResult<T[]>> => {
+    if (withoutTrash.has(table)) return driver.select<T>(table, options);
+    const result = await driver.select<T>(table, { ...options, filters: [...(options.filters ?? []), eq('deleted_at', null)] });
+    if (!result.error || !isMissingTrash(result.error)) return result;
+    console.warn(`deleted_at column missing on ${table} table, showing all rows`);
+    withoutTrash.add(table);
+    return driver.select<T>(table, options);
+  };
+
+  const tasks = {
+    list: (userId: string) =>
+      selectLive<Task>('tasks', {
+        filters: [eq('user_id', userId)],
+        order: { column: 'created_at', ascending: false },
+      }),
+    create: (input: NewTask) => {
+      const payload: Row = {
+        title: input.title.trim(),
+        description: input.description ?? '',
+        is_done: false,
+        user_id: input.user_id,
+      };
+      if (input.project?.trim()) payload.project = input.project.trim();
+      if (input.project_id) payload.project_id = input.project_id;
+      if (input.folder_id) payload.folder_id = input.folder_id;
+      if (input.due_at) payload.due_at = input.due_at;
+      if (input.priority) payload.priority = input.priority;
+      if (input.estimated_minutes) payload.estimated_minutes = input.estimated_minutes;
+      if (input.parent_id) payload.parent_id = input.parent_id;
+      if (input.checklist?.length) payload.checklist = input.checklist;
+      if (input.auto_complete === false) payload.auto_complete = false;
+      if (input.status_id) payload.status_id = input.status_id;
+      if (input.position) payload.position = input.position;
+      return insertWithFallback<Task>(driver, 'tasks', payload, [
+        'project',
+        'project_id',
+        'folder_id',
+        'due_at',
+        'priority',
+        'estimated_minutes',
+        'parent_id',
+        'checklist',
+        'auto_complete',
+        'status_id',
+        'position',
+      ]);
+    },
+    update: async (id: string, patch: Partial<Task>, userId?: string) =>
+      noop(await driver.update('tasks', patch, userId ? [eq('id', id), eq('user_id', userId)] : [eq('id', id)])),
+    // One request for a change shared by several tasks (batch actions).
+    updateMany: async (ids: string[], patch: Partial<Task>, userId?: string) =>
+      noop(await driver.update('tasks', patch, userId ? [isIn('id', ids), eq('user_id', userId)] : [isIn('id', ids)])),
+    remove: (id: string, userId?: string) =>
+      driver.remove('tasks', userId ? [eq('id', id), eq('user_id', userId)] : [eq('id', id)]),
+    // The database cascades parent deletes, but the offline cache doesn't, so
+    // subtasks are removed along with their parent explicitly.
+    removeMany: (ids: string[], userId?: string) =>
+      driver.remove('tasks', userId ? [isIn('id', ids), eq('user_id', userId)] : [isIn('id', ids)]),
+  };
+
+  const statuses = {
+    list: (userId: string) =>
+      driver.select<WorkflowStatus>('task_statuses', {
+        filters: [eq('user_id', userId)],
+        order: { column: 'position', ascending: true },
+      }),
+    create: async (input: NewWorkflowStatus) =>
+      first(await driver.insert<WorkflowStatus>('task_statuses', [input], { returning: true })),
+    createMany: (rows: NewWorkflowStatus[]) => driver.insert<WorkflowStatus>('task_statuses', rows, { returning: true }),
+    update: async (id: string, patch: Partial<WorkflowStatus>) =>
+      noop(await driver.update('task_statuses', patch, [eq('id', id)])),
+    // Flipping "counts as completed" also opens or closes the tasks in that status.
+    setCompleted: async (id: string, isCompleted: boolean): Promise<RepoResult<null>> => {
+      const updated = await driver.update('task_statuses', { is_completed: isCompleted }, [eq('id', id)]);
+      if (updated.error) return updated;
+      return noop(await driver.update('tasks', { is_done: isCompleted }, [eq('status_id', id)]));
+    },
+    // Tasks in a removed status fall back to a default one; see lib/task-statuses.ts.
+    remove: async (id: string): Promise<RepoResult<null>> => {
+      const unlinked = await driver.update('tasks', { status_id: null }, [eq('status_id', id)]);
+      if (unlinked.error) return unlinked;
+      return driver.remove('task_statuses', [eq('id', id)]);
+    },
+  };
+
+  const projects = {
+    list: (userId: string) =>
+      driver.select<Project>('projects', {
+        filters: [eq('user_id', userId)],
+        order: { column: 'created_at', ascending: true },
+      }),
+    create: async (input: NewProject) => first(await driver.insert<Project>('projects', [input], { returning: true })),
+    update: async (id: string, patch: Partial<Project>) => noop(await driver.update('projects', patch, [eq('id', id)])),
+    // The database unlinks tasks, notes and events itself, but the offline
+    // cache doesn't, so their `project_id` is cleared explicitly first.
+    remove: async (id: string): Promise<RepoResult<null>> => {
+      for (const table of ['tasks', 'notes', 'agenda_events'] as const) {
+        const unlinked = await driver.update(table, { project_id: null }, [eq('project_id', id)]);
+        if (unlinked.error) return unlinked;
+      }
+      return driver.remove('projects', [eq('id', id)]);
+    },
+  };
+
+  const reminders = {
+    list: () => selectLive<Reminder>('reminders', { order: { column: 'remind_at', ascending: true } }),
+    create: (input: NewReminder) => {
+      const { recurrence, ...payload } = input;
+      return insertWithFallback<Reminder>(driver, 'reminders', recurrence ? { ...payload, recurrence } : payload, [
+        'recurrence',
+      ]);
+    },
+    get: async (id: string) => first(await driver.select<Reminder>('reminders', { filters: [eq('id', id)], limit: 1 })),
+    update: async (id: string, patch: Partial<Reminder>) => noop(await driver.update('reminders', patch, [eq('id', id)])),
+    updateMany: async (ids: string[], patch: Partial<Reminder>) =>
+      noop(await driver.update('reminders', patch, [isIn('id', ids)])),
+    remove: (id: string) => driver.remove('reminders', [eq('id', id)]),
+  };
+
+  const events = {
+    list: () => selectLive<AgendaEvent>('agenda_events', { order: { column: 'starts_at', ascending: true } }),
+    create: (input: NewAgendaEvent) => {
+      const { recurrence, recurrence_exceptions, ical_uid, ...payload } = input;
+      const row: Row = { ...payload };
+      if (recurrence) row.recurrence = recurrence;
+      if (recurrence_exceptions?.length) row.recurrence_exceptions = recurrence_exceptions;
+      if (ical_uid) row.ical_uid = ical_uid;
+      return insertWithFallback<AgendaEvent>(driver, 'agenda_events', row, [
+        'recurrence',
+        'recurrence_exceptions',
+        'ical_uid',
+      ]);
+    },
+    update: async (id: string, patch: Partial<AgendaEvent>) =>
+      noop(await driver.update('agenda_events', patch, [eq('id', id)])),
+    remove: (id: string) => driver.remove('agenda_events', [eq('id', id)]),
+  };
+
+  const folders = {
+    listOwn: (userId: string) =>
+      selectLive<NoteFolder>('note_folders', {
+        filters: [eq('user_id', userId)],
+        order: { column: 'created_at', ascending: false },
+      }),
+    listByIds: async (ids: string[]) =>
+      ids.length === 0
+        ? ok<NoteFolder[]>([])
+        : selectLive<NoteFolder>('note_folders', {
+            filters: [isIn('id', ids)],
+            order: { column: 'created_at', ascending: false },
+          }),
+    create: async (input: NewNoteFolder) =>
+      first(await driver.insert<NoteFolder>('note_folders', [input], { returning: true })),
+    update: async (id: string, patch: Partial<NoteFolder>) =>
+      noop(await driver.update('note_folders', patch, [eq('id', id)])),
+    remove: (id: string) => driver.remove('note_folders', [eq('id', id)]),
+    // The folder itself followed by its parent, grandparent, ...
+    listAncestorIds: async (folderId: string): Promise<string[]> => {
+      const ids: string[] = [];
+      let current: string | null = folderId;
+      while (current && !ids.includes(current)) {
+        ids.push(current);
+        const parent: RepoResult<{ parent_folder_id: string | null }[]> = await driver.select('note_folders', {
+          columns: 'parent_folder_id',
+          filters: [eq('id', current)],
+          limit: 1,
+        });
+        current = parent.data?.[0]?.parent_folder_id ?? null;
+      }
+      return ids;
+    },
+    // All subfolder ids below `parentId` (depth-first, parent before child).
+    listDescendantIds: async (parentId: string): Promise<string[]> => {
+      const { data: children } = await selectLive<{ id: string }>('note_folders', {
+        columns: 'id',
+        filters: [eq('parent_folder_id', parentId)],
+      });
+      let ids: string[] = [];
+      for (const child of children ?? []) {
+        ids = [...ids, child.id, ...(await folders.listDescendantIds(child.id))];
+      }
+      return ids;
+    },
+  };
+
+  const notes = {
+    listOwned: (userId: string) =>
+      selectLive<Note>('notes', {
+        filters: [{ op: 'or', filters: [eq('owner_id', userId), eq('user_id', userId)] }],
+        order: { column: 'created_at', ascending: false },
+      }),
+    listByIds: async (ids: string[]) =>
+      ids.length === 0
+        ? ok<Note[]>([])
+        : selectLive<Note>('notes', { filters: [isIn('id', ids)], order: { column: 'created_at', ascending: false } }),
+    listByFolders: async (folderIds: string[]) =>
+      folderIds.length === 0
+        ? ok<Note[]>([])
+        : selectLive<Note>('notes', {
+            filters: [isIn('folder_id', folderIds)],
+            order: { column: 'created_at', ascending: false },
+          }),
+    listIdsInFolders: async (folderIds: string[]): Promise<RepoResult<string[]>> => {
+      if (folderIds.length === 0) return ok([]);
+      const result = await selectLive<{ id: string }>('notes', { columns: 'id', filters: [isIn('folder_id', folderIds)] });
+      return result.error ? result : ok(result.data.map((n) => n.id));
+    },
+    getOwner: async (id: string): Promise<RepoResult<string | null>> => {
+      const result = await driver.select<Pick<Note, 'owner_id' | 'user_id'>>('notes', {
+        columns: 'owner_id, user_id',
+        filters: [eq('id', id)],
+        limit: 1,
+      });
+      if (result.error) return result;
+      if (!result.data[0]) return fail(new RepositoryError('Note not found', 'not_found'));
+      return ok(result.data[0].owner_id || result.data[0].user_id || null);
+    },
+    create: async (input: NewNote) => first(await driver.insert<Note>('notes', [input], { returning: true })),
+    get: async (id: string) => first(await driver.select<Note>('notes', { filters: [eq('id', id)], limit: 1 })),
+    update: async (id: string, patch: Partial<Note>) => noop(await driver.update('notes', patch, [eq('id', id)])),
+    // Optimistic concurrency for collaborative editing: only writes when the row
+    // still has `updatedAt`; resolves to null when someone else saved first.
+    updateIfUnchanged: async (id: string, patch: Partial<Note>, updatedAt: string) =>
+      first(await driver.update<Note>('notes', patch, [eq('id', id), eq('updated_at', updatedAt)], { returning: true })),
+    remove: (id: string) => driver.remove('notes', [eq('id', id)]),
+  };
+
+  const noteCollaborators = {
+    listForNote: async (noteId: string): Promise<RepoResult<NoteCollaborator[]>> => {
+      const result = await driver.select<NoteCollaborator>('note_collaborators', { filters: [eq('note_id', noteId)] });
+      return result.error ? result : ok(await attachProfiles(driver, result.data));
+    },
+    listNoteIdsForUser: async (userId: string, noteIds?: string[]): Promise<RepoResult<string[]>> => {
+      const filters = [eq('user_id', userId)];
+      if (noteIds) {
+        if (noteIds.length === 0) return ok([]);
+        filters.push(isIn('note_id', noteIds));
+      }
+      const result = await driver.select<{ note_id: string }>('note_collaborators', { columns: 'note_id', filters });
+      return result.error ? result : ok(result.data.map((c) => c.note_id));
+    },
+    find: async (noteId: string, userId: string) =>
+      first(
+        await driver.select<NoteCollaborator>('note_collaborators', {
+          filters: [eq('note_id', noteId), eq('user_id', userId)],
+          limit: 1,
+        }),
+      ),
+    add: async (noteId: string, input: NewCollaborator) =>
+      first(await driver.insert<NoteCollaborator>('note_collaborators', [{ note_id: noteId, ...input }], { returning: true })),
+    addMany: async (rows: (NewCollaborator & { note_id: string })[]) =>
+      rows.length === 0 ? ok(null) : noop(await driver.insert('note_collaborators', rows)),
+    remove: (id: string) => driver.remove('note_collaborators', [eq('id', id)]),
+  };
+
+  const folderCollaborators = {
+    listForFolder: async (folderId: string): Promise<RepoResult<FolderCollaborator[]>> => {
+      const result = await driver.select<FolderCollaborator>('folder_collaborators', { filters: [eq('folder_id', folderId)] });
+      return result.error ? result : ok(await attachProfiles(driver, result.data));
+    },
+    // Ancestor collaborators, de-duplicated per user.
+    listForFolders: async (folderIds: string[]): Promise<RepoResult<Pick<FolderCollaborator, 'user_id' | 'permission'>[]>> => {
+      if (folderIds.length === 0) return ok([]);
+      const result = await driver.select<Pick<FolderCollaborator, 'user_id' | 'permission'>>('folder_collaborators', {
+        columns: 'user_id, permission',
+        filters: [isIn('folder_id', folderIds)],
+      });
+      return result.error ? result : ok(Array.from(new Map(result.data.map((c) => [c.user_id, c])).values()));
+    },
+    // Folder ids that have at least one collaborator row visible to the current user.
+    listSharedFolderIds: async (): Promise<RepoResult<string[]>> => {
+      const result = await driver.select<{ folder_id: string }>('folder_collaborators', { columns: 'folder_id, user_id' });
+      return result.error ? result : ok(Array.from(new Set(result.data.map((c) => c.folder_id))));
+    },
+    listFolderIdsForUser: async (userId: string, folderIds?: string[]): Promise<RepoResult<string[]>> => {
+      const filters = [eq('user_id', userId)];
+      if (folderIds) {
+        if (folderIds.length === 0) return ok([]);
+        filters.push(isIn('folder_id', folderIds));
+      }
+      const result = await driver.select<{ folder_id: string }>('folder_collaborators', { columns: 'folder_id', filters });
+      return result.error ? result : ok(result.data.map((c) => c.folder_id));
+    },
+    find: async (folderId: string, userId: string) =>
+      first(
+        await driver.select<FolderCollaborator>('folder_collaborators', {
+          filters: [eq('folder_id', folderId), eq('user_id', userId)],
+          limit: 1,
+        }),
+      ),
+    addMany: async (rows: (NewCollaborator & { folder_id: string })[]) =>
+      rows.length === 0 ? ok(null) : noop(await driver.insert('folder_collaborators', rows)),
+    remove: (id: string) => driver.remove('folder_collaborators', [eq('id', id)]),
+  };
+
+  // Rows deleted in one go share `deletedAt`; see lib/trash.ts.
+  const trash = {
+    // The user's trashed rows; empty on schemas without the trash.
+    list: async (userId: string): Promise<RepoResult<TrashContents>> => {
+      const own = (table: TrashTable) =>
+        table === 'notes'
+          ? [{ op: 'or' as const, filters: [eq('owner_id', userId), eq('user_id', userId)] }]
+          : table === 'tasks' || table === 'note_folders'
+            ? [eq('user_id', userId)]
+            : [];
+      const contents: TrashContents = { ...EMPTY_TRASH };
+      for (const table of TRASH_TABLES) {
+        if (withoutTrash.has(table)) continue;
+        const result = await driver.select(table, {
+          filters: [...own(table), notNull('deleted_at')],
+          order: { column: 'deleted_at', ascending: false },
+        });
+        if (result.error && isMissingTrash(result.error)) withoutTrash.add(table);
+        else if (result.error) return result;
+        else (contents as Record<TrashTable, Row[]>)[table] = result.data;
+      }
+      return ok(contents);
+    },
+    // Fails with a missing_column error on schemas without the trash, rather
+    // than deleting for good.
+    move: async (table: TrashTable, ids: string[], deletedAt: string) =>
+      ids.length === 0 ? ok(null) : noop(await driver.update(table, { deleted_at: deletedAt }, [isIn('id', ids)])),
+    // Takes rows out of the trash again (see restoreWrites in lib/trash.ts).
+    restore: async (writes: TrashWrite[]): Promise<RepoResult<null>> => {
+      for (const { table, ids, patch } of writes) {
+        const result = await driver.update(table, patch, [isIn('id', ids)]);
+        if (result.error) return result;
+      }
+      return ok(null);
+    },
+    // Deletes for good.
+    purge: async (ids: TrashIds): Promise<RepoResult<null>> => {
+      for (const table of TRASH_TABLES) {
+        if (!ids[table]?.length) continue;
+        const result = await driver.remove(table, [isIn('id', ids[table]!)]);
+        if (result.error) return result;
+      }
+      return ok(null);
+    },
+    // Deletes whatever is past its TRASH_DAYS for good and lists what is left.
+    purgeExpired: async (userId: string, now: Date): Promise<RepoResult<TrashContents>> => {
+      const listed = await trash.list(userId);
+      if (listed.error) return listed;
+      const expired = expiredIds(listed.data, now);
+      if (countIds(expired) === 0) return listed;
+      console.log('🗑️ Purging expired trash:', countIds(expired));
+      const purged = await trash.purge(expired);
+      return purged.error ? purged : trash.list(userId);
+    },
+  };
+
+  const noteRevisions = {
+    // Newest first, with the author's name and email.
+    list: async (noteId: string): Promise<RepoResult<NoteRevision[]>> => {
+      const result = await driver.select<NoteRevision>('note_revisions', {
+        filters: [eq('note_id', noteId)],
+        order: { column: 'created_at', ascending: false },
+      });
+      return result.error ? result : ok(await attachProfiles(driver, result.data));
+    },
+    latest: async (noteId: string) =>
+      first(
+        await driver.select<NoteRevision>('note_revisions', {
+          filters: [eq('note_id', noteId)],
+          order: { column: 'created_at', ascending: false },
+          limit: 1,
+        }),
+      ),
+    create: (input: NewNoteRevision) => driver.insert('note_revisions', [input]),
+    update: async (id: string, patch: Partial<NoteRevision>) =>
+      noop(await driver.update('note_revisions', patch, [eq('id', id)])),
+  };
+
+  const profiles = {
+    ensure: (id: string, fullName: string) => driver.upsert('profiles', [{ id, full_name: fullName }], 'id'),
+    searchByEmail: (query: string, limit = 5) =>
+      driver.select<UserProfile>('profiles', {
+        columns: 'id, email, name',
+        filters: [{ op: 'ilike', column: 'email', pattern: `%${query}%` }],
+        limit,
+      }),
+  };
+
+  return {
+    tasks,
+    statuses,
+    projects,
+    reminders,
+    events,
+    folders,
+    notes,
+    noteCollaborators,
+    folderCollaborators,
+    noteRevisions,
+    trash,
+    profiles,
+  };
+}
+
+export type Repository = ReturnType<typeof createRepository>;
+
+// Reads fall back to the on-device cache and writes are queued while offline.
+export const offlineDriver = createOfflineDriver(createSupabaseDriver(supabase), AsyncStorage);
+
+export const repository = createRepository(offlineDriver);
+
+export default repository;
@@ -0,0 +1,77 @@
+import { createId } from './driver';
+import type { ChecklistItem, Task } from './types';
+
+// Subtasks are ordinary tasks with a `parent_id`, checklist items are plain
+// lines stored on the task itself. A task with `auto_complete` (the default)
+// is closed once all of its subtasks and checklist items are done, and opened
+// again when one of them is unchecked; this carries on up through its parents.
+
+export type TaskPatch = { id: string; patch: Partial<Task> };
+
+export const childrenOf = (tasks: Task[], parentId: string) => tasks.filter((task) => task.parent_id === parentId);
+
+// Tasks shown at the top level: no parent, or a parent that isn't in `tasks`.
+export function rootTasks(tasks: Task[]): Task[] {
+  const ids = new Set(tasks.map((task) => task.id));
+  return tasks.filter((task) => !task.parent_id || !ids.has(task.parent_id));
+}
+
+// All subtasks below `taskId`, at any depth.
+export function descendantIds(tasks: Task[], taskId: string): string[] {
+  const ids: string[] = [];
+  const queue = [taskId];
+  while (queue.length) {
+    const parentId = queue.shift()!;
+    childrenOf(tasks, parentId).forEach((child) => {
+      // Guards against parent_id cycles in bad data
+      if (child.id === taskId || ids.includes(child.id)) return;
+      ids.push(child.id);
+      queue.push(child.id);
+    });
+  }
+  return ids;
+}
+
+// Done/total over the direct subtasks plus the checklist items ("3/5").
+export function taskProgress(task: Task, tasks: Task[]): { done: number; total: number } {
+  const children = childrenOf(tasks, task.id);
+  const checklist = task.checklist ?? [];
+  return {
+    done: children.filter((child) => child.is_done).length + checklist.filter((item) => item.done).length,
+    total: children.length + checklist.length,
+  };
+}
+
+// Applies `changes` to a task and returns every write that follows from it:
+// the task itself, then each auto-completing parent whose state flips.
+export function completionPatches(tasks: Task[], taskId: string, changes: Partial<Task>): TaskPatch[] {
+  const byId = new Map(tasks.map((task) => [task.id, task]));
+  const patches = new Map<string, Partial<Task>>();
+  const apply = (id: string, patch: Partial<Task>) => {
+    byId.set(id, { ...byId.get(id)!, ...patch });
+    patches.set(id, { ...patches.get(id), ...patch });
+  };
+
+  const task = byId.get(taskId);
+  if (!task) return [];
+  apply(taskId, changes);
+
+  // A checklist edit can close (or reopen) the task itself; an explicit
+  // is_done change starts with the parent.
+  let next = 'is_done' in changes ? (task.parent_id ? byId.get(task.parent_id) : undefined) : byId.get(taskId);
+  const visited = new Set<string>();
+  while (next && next.auto_complete !== false && !visited.has(next.id)) {
+    visited.add(next.id);
+    const { done, total } = taskProgress(next, [...byId.values()]);
+    const allDone = total > 0 && done === total;
+    if (total === 0 || next.is_done === allDone) break;
+    apply(next.id, { is_done: allDone });
+    next = next.parent_id ? byId.get(next.parent_id) : undefined;
+  }
+
+  return [...patches].map(([id, patch]) => ({ id, patch }));
+}
+
+export const newChecklistItem = (text: string): ChecklistItem => ({ id: createId(), text: text.trim(), done: false });
+
+export default completionPatches;
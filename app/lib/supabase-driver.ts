@@ -0,0 +1,107 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { fail, Filter, ok, Row, TableDriver } from './driver';
+
+// PostgREST `or=(...)` syntax, e.g. owner_id.eq.123,user_id.eq.123
+const toOrExpression = (filters: Filter[]): string =>
+  filters
+    .map((filter) => {
+      switch (filter.op) {
+        case 'eq':
+          return filter.value === null ? `${filter.column}.is.null` : `${filter.column}.eq.${filter.value}`;
+        case 'in':
+          return `${filter.column}.in.(${filter.values.join(',')})`;
+        case 'not_null':
+          return `${filter.column}.not.is.null`;
+        case 'ilike':
+          return `${filter.column}.ilike.${filter.pattern}`;
+        case 'or':
+          return `or(${toOrExpression(filter.filters)})`;
+      }
+    })
+    .join(',');
+
+// The query builders are heavily generic; filters are applied structurally.
+const applyFilters = (query: any, filters: Filter[] = []) => {
+  let next = query;
+  for (const filter of filters) {
+    switch (filter.op) {
+      case 'eq':
+        next = filter.value === null ? next.is(filter.column, null) : next.eq(filter.column, filter.value);
+        break;
+      case 'in':
+        next = next.in(filter.column, filter.values);
+        break;
+      case 'not_null':
+        next = next.not(filter.column, 'is', null);
+        break;
+      case 'ilike':
+        next = next.ilike(filter.column, filter.pattern);
+        break;
+      case 'or':
+        next = next.or(toOrExpression(filter.filters));
+        break;
+    }
+  }
+  return next;
+};
+
+export function createSupabaseDriver(client: SupabaseClient): TableDriver {
+  return {
+    async select<T extends Row>(table: Parameters<TableDriver['select']>[0], options: Parameters<TableDriver['select']>[1] = {}) {
+      try {
+        let query = applyFilters(client.from(table).select(options.columns ?? '*'), options.filters);
+        if (options.order) query = query.order(options.order.column, { ascending: options.order.ascending });
+        if (options.limit) query = query.limit(options.limit);
+        const { data, error } = await query;
+        if (error) return fail(error);
+        return ok((data ?? []) as T[]);
+      } catch (e) {
+        return fail(e);
+      }
+    },
+
+    async insert<T extends Row>(table: Parameters<TableDriver['insert']>[0], rows: Row[], options: { returning?: boolean } = {}) {
+      try {
+        const query = client.from(table).insert(rows);
+        const { data, error } = options.returning ? await query.select() : await query;
+        if (error) return fail(error);
+        return ok(((data as T[] | null) ?? []) as T[]);
+      } catch (e) {
+        return fail(e);
+      }
+    },
+
+    async upsert(table, rows, onConflict) {
+      try {
+        const { error } = await client.from(table).upsert(rows, { onConflict }).select();
+        if (error) return fail(error);
+        return ok(null);
+      } catch (e) {
+        return fail(e);
+      }
+    },
+
+    async update<T extends Row>(table: Parameters<TableDriver['update']>[0], patch: Row, filters: Filter[], options: { returning?: boolean } = {}) {
+      try {
+        const query = applyFilters(client.from(table).update(patch), filters);
+        const { data, error } = options.returning ? await query.select() : await query;
+        if (error) return fail(error);
+        return ok(((data as T[] | null) ?? []) as T[]);
+      } catch (e) {
+        return fail(e);
+      }
+    },
+
+    async remove(table, filters) {
+      try {
+        const { error } = await applyFilters(client.from(table).delete(), filters);
+        if (error) return fail(error);
+        return ok(null);
+      } catch (e) {
+        return fail(e);
+      }
+    },
+  };
+}
+
+export default createSupabaseDriver;
@@ -1,7 +1,7 @@
 import { createClient } from "@supabase/supabase-js";
 import Constants from "expo-constants";
 
-const supabaseUrl =
+export const supabaseUrl =
   Constants.expoConfig?.extra?.EXPO_PUBLIC_SUPABASE_URL as string;
 const supabaseAnonKey =
   Constants.expoConfig?.extra?.EXPO_PUBLIC_SUPABASE_ANON_KEY as string;
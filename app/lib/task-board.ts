@@ -0,0 +1,88 @@
+import { activeProjects, findProjectByName } from './projects';
+import { statusOf, statusPatch, workflowStatuses } from './task-statuses';
+import type { Project, Task, TaskPriority, WorkflowStatus } from './types';
+
+// Board layout for tasks: the same tasks as the list, split into columns by
+// status, project or priority. Dropping a task on another column turns into
+// the patch that makes it belong there.
+
+export type TaskBoardGrouping = 'status' | 'project' | 'priority';
+
+// What the columns are built from.
+export type BoardContext = {
+  projects: Project[];
+  statuses: WorkflowStatus[];
+};
+
+export type BoardColumn = {
+  key: string;
+  title: string;
+  color: string | null;
+  tasks: Task[];
+};
+
+const PRIORITY_COLUMNS: { key: TaskPriority | 'none'; title: string }[] = [
+  { key: 'high', title: 'High' },
+  { key: 'medium', title: 'Medium' },
+  { key: 'low', title: 'Low' },
+  { key: 'none', title: 'No priority' },
+];
+
+const NO_PROJECT = 'none';
+
+// The project column of a task. Unlinked tasks whose text matches a project go
+// there too, like on the project screen.
+const projectKey = (task: Task, projects: Project[]) =>
+  task.project_id ?? (task.project ? findProjectByName(projects, task.project)?.id : undefined) ?? NO_PROJECT;
+
+const columnKeyOf = (task: Task, grouping: TaskBoardGrouping, { projects, statuses }: BoardContext) =>
+  grouping === 'status'
+    ? statusOf(task, statuses).id
+    : grouping === 'priority'
+      ? task.priority ?? 'none'
+      : projectKey(task, projects);
+
+export function boardColumns(tasks: Task[], grouping: TaskBoardGrouping, context: BoardContext): BoardColumn[] {
+  const { projects, statuses } = context;
+  const columns: BoardColumn[] =
+    grouping === 'status'
+      ? workflowStatuses(statuses).map((status) => ({
+          key: status.id,
+          title: status.name,
+          color: status.color ?? null,
+          tasks: [],
+        }))
+      : grouping === 'priority'
+        ? PRIORITY_COLUMNS.map((column) => ({ ...column, color: null, tasks: [] }))
+        : [
+            // Archived projects only get a column while they still hold tasks
+            ...activeProjects(projects),
+            ...projects.filter((p) => p.archived_at && tasks.some((task) => projectKey(task, projects) === p.id)),
+          ]
+            .map((project) => ({ key: project.id, title: project.name, color: project.color ?? null, tasks: [] as Task[] }))
+            .concat({ key: NO_PROJECT, title: 'No project', color: null, tasks: [] });
+
+  const byKey = new Map(columns.map((column) => [column.key, column]));
+  tasks.forEach((task) => byKey.get(columnKeyOf(task, grouping, context))?.tasks.push(task));
+  return columns;
+}
+
+// What changes when `task` is dropped on column `key`; null when it is already there.
+export function moveToColumnPatch(
+  task: Task,
+  grouping: TaskBoardGrouping,
+  key: string,
+  context: BoardContext,
+): Partial<Task> | null {
+  const { projects, statuses } = context;
+  if (columnKeyOf(task, grouping, context) === key) return null;
+  if (grouping === 'priority') return { priority: key === 'none' ? null : (key as TaskPriority) };
+  if (grouping === 'project') {
+    const project = projects.find((p) => p.id === key);
+    return { project_id: project?.id ?? null, project: project?.name ?? null };
+  }
+  const status = workflowStatuses(statuses).find((s) => s.id === key);
+  return status ? statusPatch(task, status, statuses) : null;
+}
+
+export default boardColumns;
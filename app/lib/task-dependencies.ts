@@ -0,0 +1,49 @@
+import type { Task } from './types';
+
+// "B is blocked by A" links between tasks, stored on B as `blocked_by: [A]`.
+// A task is blocked while any of its blockers is still open. Blocker ids that
+// no longer exist (deleted tasks) are ignored.
+
+const blockerIds = (task: Task) => task.blocked_by ?? [];
+
+export function openBlockers(task: Task, tasks: Task[]): Task[] {
+  const ids = blockerIds(task);
+  return tasks.filter((other) => ids.includes(other.id) && !other.is_done);
+}
+
+export const isBlocked = (task: Task, tasks: Task[]) => openBlockers(task, tasks).length > 0;
+
+// The tasks that list `task` as a blocker.
+export const dependentsOf = (task: Task, tasks: Task[]) => tasks.filter((other) => blockerIds(other).includes(task.id));
+
+// Making `taskId` wait for `blockerId` closes a cycle when the blocker already
+// waits for the task, directly or through other tasks. Returns that chain,
+// starting at the blocker and ending at the task, or null when the link is fine.
+export function findDependencyCycle(tasks: Task[], taskId: string, blockerId: string): Task[] | null {
+  const byId = new Map(tasks.map((task) => [task.id, task]));
+  if (blockerId === taskId) return byId.has(taskId) ? [byId.get(taskId)!] : [];
+
+  // Depth-first over blocked_by, remembering how each task was reached
+  const cameFrom = new Map<string, string | null>([[blockerId, null]]);
+  const stack = [blockerId];
+  while (stack.length) {
+    const id = stack.pop()!;
+    if (id === taskId) {
+      const chain: Task[] = [];
+      for (let at: string | null = id; at; at = cameFrom.get(at) ?? null) {
+        const task = byId.get(at);
+        if (task) chain.unshift(task);
+      }
+      return chain;
+    }
+    const current = byId.get(id);
+    for (const next of current ? blockerIds(current) : []) {
+      if (cameFrom.has(next)) continue;
+      cameFrom.set(next, id);
+      stack.push(next);
+    }
+  }
+  return null;
+}
+
+export default isBlocked;
@@ -0,0 +1,82 @@
+import type { TaskPatch } from './subtasks';
+import type { Task } from './types';
+
+// Manual task order. `position` is a fractional index: a string key compared
+// character by character, with a new key always fitting between any two
+// others, so moving a task only rewrites that task. Keys are base 62 digits
+// and never end in '0' (then nothing would fit directly before them).
+//
+// Tasks without a position (written by older clients) come first, newest first.
+
+const DIGITS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+
+// A key between `a` and `b` (both fractional parts, a < b); '' is the lowest
+// possible key and null stands for "no upper bound".
+function midpoint(a: string, b: string | null): string {
+  if (b !== null) {
+    // Shared prefix: the answer starts with it too
+    let n = 0;
+    while ((a[n] ?? '0') === b[n]) n++;
+    if (n > 0) return b.slice(0, n) + midpoint(a.slice(n), b.slice(n));
+  }
+  const digitA = a ? DIGITS.indexOf(a[0]) : 0;
+  const digitB = b !== null ? DIGITS.indexOf(b[0]) : DIGITS.length;
+  if (digitB - digitA > 1) return DIGITS[Math.round((digitA + digitB) / 2)];
+  // Neighbouring first digits: b's first digit alone sorts below a longer b,
+  // otherwise keep a's digit and go one level deeper
+  if (b !== null && b.length > 1) return b.slice(0, 1);
+  return DIGITS[digitA] + midpoint(a.slice(1), null);
+}
+
+// Just below `key`, by lowering its first digit that can go down. New tasks go
+// on top, so this keeps keys short: one extra character per ~30 new tasks
+// instead of per ~6 with plain midpoints.
+function keyBefore(key: string): string {
+  for (let i = 0; i < key.length; i++) {
+    const digit = DIGITS.indexOf(key[i]);
+    if (digit > 1) return key.slice(0, i) + DIGITS[digit - 1];
+  }
+  return midpoint('', key);
+}
+
+export const keyBetween = (before: string | null, after: string | null) =>
+  before === null && after !== null ? keyBefore(after) : midpoint(before ?? '', after);
+
+export function compareByPosition(a: Task, b: Task): number {
+  if (!a.position || !b.position) return (a.position ? 1 : 0) - (b.position ? 1 : 0);
+  return a.position < b.position ? -1 : a.position > b.position ? 1 : 0;
+}
+
+// A position for a new task, above everything else.
+export function firstPosition(tasks: Task[]): string {
+  const lowest = tasks.reduce<string | null>(
+    (min, task) => (task.position && (min === null || task.position < min) ? task.position : min),
+    null,
+  );
+  return keyBetween(null, lowest);
+}
+
+// Moves a task to `toIndex` within `group` (in display order). Writes one row
+// when both neighbours have a position; otherwise numbers the whole group once.
+export function reorderPatches(group: Task[], taskId: string, toIndex: number): TaskPatch[] {
+  const task = group.find((t) => t.id === taskId);
+  if (!task) return [];
+  const rest = group.filter((t) => t.id !== taskId);
+  const index = Math.min(Math.max(toIndex, 0), rest.length);
+  const before = rest[index - 1];
+  const after = rest[index];
+  if (before === group[group.indexOf(task) - 1] && after === group[group.indexOf(task) + 1]) return [];
+
+  if ((!before || before.position) && (!after || after.position)) {
+    return [{ id: task.id, patch: { position: keyBetween(before?.position ?? null, after?.position ?? null) } }];
+  }
+
+  const ordered = [...rest.slice(0, index), task, ...rest.slice(index)];
+  let previous: string | null = null;
+  return ordered.map((t) => {
+    previous = keyBetween(previous, null);
+    return { id: t.id, patch: { position: previous } };
+  });
+}
+
+export default keyBetween;
@@ -0,0 +1,86 @@
+import { compareByPosition } from './task-order';
+import type { Task, TaskPriority } from './types';
+
+// Due dates, priorities and estimates of tasks. A `due_at` at exactly local
+// midnight is a day-only deadline ("due Friday"): shown without a time and only
+// overdue once that day has passed. Anything else is due at that moment.
+
+export const TASK_PRIORITIES: TaskPriority[] = ['high', 'medium', 'low'];
+
+export type TaskSort = 'manual' | 'created' | 'due' | 'priority';
+
+// Estimate choices offered when adding a task, in minutes.
+export const ESTIMATE_OPTIONS = [15, 30, 60, 120, 240];
+
+const PRIORITY_RANK: Record<TaskPriority, number> = { high: 0, medium: 1, low: 2 };
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+export const isDayOnlyDue = (dueAt: string) => {
+  const date = new Date(dueAt);
+  return date.getHours() === 0 && date.getMinutes() === 0 && date.getSeconds() === 0;
+};
+
+// The moment a task becomes overdue: its due time, or the end of a day-only due date.
+export function dueDeadline(task: Pick<Task, 'due_at'>): Date | null {
+  if (!task.due_at) return null;
+  const due = new Date(task.due_at);
+  return isDayOnlyDue(task.due_at) ? new Date(due.getFullYear(), due.getMonth(), due.getDate() + 1) : due;
+}
+
+export const isOverdue = (task: Task, now: Date = new Date()) => {
+  const deadline = dueDeadline(task);
+  return !task.is_done && !!deadline && deadline <= now;
+};
+
+export const isDueToday = (task: Task, now: Date = new Date()) =>
+  !task.is_done && !!task.due_at && startOfDay(new Date(task.due_at)).getTime() === startOfDay(now).getTime();
+
+// Tasks without a due date (or priority) go last; ties fall back to the other
+// key, then to the incoming (newest first) order.
+export function sortTasks(tasks: Task[], sort: TaskSort): Task[] {
+  if (sort === 'created') return tasks;
+  // Array sort is stable, so unpositioned tasks keep their newest-first order
+  if (sort === 'manual') return [...tasks].sort(compareByPosition);
+  const due = (task: Task) => dueDeadline(task)?.getTime() ?? Infinity;
+  const rank = (task: Task) => (task.priority ? PRIORITY_RANK[task.priority] : 3);
+  return tasks
+    .map((task, index) => ({ task, index }))
+    .sort((a, b) => {
+      const byDue = due(a.task) - due(b.task);
+      const byPriority = rank(a.task) - rank(b.task);
+      const primary = sort === 'due' ? byDue || byPriority : byPriority || byDue;
+      return (Number.isNaN(primary) ? 0 : primary) || a.index - b.index;
+    })
+    .map(({ task }) => task);
+}
+
+// "Today 15:00", "Tomorrow", "Fri 23 Oct 09:30", ...
+export function formatDue(dueAt: string, now: Date = new Date()): string {
+  const due = new Date(dueAt);
+  const days = Math.round((startOfDay(due).getTime() - startOfDay(now).getTime()) / 86400000);
+  const day =
+    days === 0
+      ? 'Today'
+      : days === 1
+        ? 'Tomorrow'
+        : days === -1
+          ? 'Yesterday'
+          : due.toLocaleDateString(undefined, {
+              weekday: 'short',
+              day: 'numeric',
+              month: 'short',
+              ...(due.getFullYear() !== now.getFullYear() && { year: 'numeric' }),
+            });
+  return isDayOnlyDue(dueAt) ? day : `${day} ${due.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
+}
+
+// 45 -> "45 min", 90 -> "1 h 30", 120 -> "2 h"
+export function formatEstimate(minutes: number): string {
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest ? `${hours} h ${rest}` : `${hours} h`;
+}
+
+export default sortTasks;
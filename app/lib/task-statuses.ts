@@ -0,0 +1,76 @@
+import type { NewWorkflowStatus, Task, WorkflowStatus } from './types';
+
+// Workflow statuses of tasks. Users define their own ordered list; until it
+// has loaded, or on databases without the task_statuses table, the built-in
+// To do / Done pair is used, stored in `is_done` alone.
+//
+// `is_done` decides completion: a task whose status disagrees with it (a
+// parent completed automatically, a row written by an older client) is shown
+// in the first status of the right kind.
+
+export const DEFAULT_STATUSES: Omit<NewWorkflowStatus, 'user_id'>[] = [
+  { name: 'To do', color: '#64748b', position: 0, is_completed: false },
+  { name: 'In progress', color: '#2563eb', position: 1, is_completed: false },
+  { name: 'Done', color: '#059669', position: 2, is_completed: true },
+];
+
+// Stand-ins that only map onto `is_done`.
+const BUILT_IN_STATUSES: WorkflowStatus[] = [
+  { id: 'todo', ...DEFAULT_STATUSES[0] },
+  { id: 'done', ...DEFAULT_STATUSES[2], position: 1 },
+];
+
+export const STATUS_COLORS = ['#64748b', '#2563eb', '#7c3aed', '#0891b2', '#ca8a04', '#ea580c', '#dc2626', '#059669'];
+
+const isBuiltIn = (status: WorkflowStatus) => BUILT_IN_STATUSES.includes(status);
+
+// The user's statuses in order, or the built-in set when there are none.
+export const workflowStatuses = (statuses: WorkflowStatus[]) =>
+  statuses.length ? [...statuses].sort((a, b) => a.position - b.position) : BUILT_IN_STATUSES;
+
+const firstOfKind = (list: WorkflowStatus[], completed: boolean) =>
+  list.find((status) => status.is_completed === completed) ?? list[0];
+
+// Where new tasks start.
+export const initialStatus = (statuses: WorkflowStatus[]) => firstOfKind(workflowStatuses(statuses), false);
+
+export function statusOf(task: Task, statuses: WorkflowStatus[]): WorkflowStatus {
+  const list = workflowStatuses(statuses);
+  const id = statuses.length ? task.status_id : task.is_done ? 'done' : 'todo';
+  const own = list.find((status) => status.id === id);
+  return own && own.is_completed === !!task.is_done ? own : firstOfKind(list, !!task.is_done);
+}
+
+// The checkbox: open tasks go to the first completed status, done tasks back
+// to the first open one.
+export const toggledStatus = (task: Task, statuses: WorkflowStatus[]) =>
+  firstOfKind(workflowStatuses(statuses), !task.is_done);
+
+// The write that puts `task` in `status`, keeping `is_done` in step; null when
+// it is already there.
+export function statusPatch(task: Task, status: WorkflowStatus, statuses: WorkflowStatus[]): Partial<Task> | null {
+  if (statusOf(task, statuses).id === status.id) return null;
+  const patch: Partial<Task> = {};
+  if (!!task.is_done !== status.is_completed) patch.is_done = status.is_completed;
+  if (!isBuiltIn(status)) patch.status_id = status.id;
+  return patch;
+}
+
+// A workflow needs somewhere to put open and completed tasks.
+export const hasBothKinds = (statuses: WorkflowStatus[]) =>
+  statuses.some((status) => status.is_completed) && statuses.some((status) => !status.is_completed);
+
+// Moves a status `delta` places; returns the new positions of the rows that changed.
+export function reorderStatuses(statuses: WorkflowStatus[], id: string, delta: number): { id: string; position: number }[] {
+  const list = workflowStatuses(statuses).slice();
+  const from = list.findIndex((status) => status.id === id);
+  const to = Math.min(Math.max(from + delta, 0), list.length - 1);
+  if (from < 0 || from === to) return [];
+  list.splice(to, 0, ...list.splice(from, 1));
+  return list
+    .map((status, position) => ({ id: status.id, position, changed: status.position !== position }))
+    .filter(({ changed }) => changed)
+    .map(({ id: statusId, position }) => ({ id: statusId, position }));
+}
+
+export default statusOf;
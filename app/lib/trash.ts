@@ -0,0 +1,174 @@
+import type { Row, TableName } from './driver';
+import type { AgendaEvent, Note, NoteFolder, Reminder, Task } from './types';
+
+// Deleting moves rows to the trash by setting `deleted_at`; everything
+// deleted in one go gets the same timestamp (a task with its subtasks, a
+// folder with its subfolders and their notes) and is listed and restored as
+// one item. Items are removed for good after TRASH_DAYS.
+
+export const TRASH_DAYS = 30;
+
+export type TrashTable = Extract<TableName, 'tasks' | 'reminders' | 'agenda_events' | 'note_folders' | 'notes'>;
+
+// Children before parents, for deleting rows for good.
+export const TRASH_TABLES: TrashTable[] = ['notes', 'note_folders', 'tasks', 'reminders', 'agenda_events'];
+
+export type TrashIds = Partial<Record<TrashTable, string[]>>;
+
+export type TrashContents = {
+  tasks: Task[];
+  reminders: Reminder[];
+  agenda_events: AgendaEvent[];
+  note_folders: NoteFolder[];
+  notes: Note[];
+};
+
+export const EMPTY_TRASH: TrashContents = { tasks: [], reminders: [], agenda_events: [], note_folders: [], notes: [] };
+
+export type TrashItem = {
+  table: TrashTable;
+  id: string;
+  title: string;
+  deleted_at: string;
+  // The item plus everything deleted along with it.
+  ids: TrashIds;
+};
+
+// A write that takes rows out of the trash.
+export type TrashWrite = { table: TrashTable; ids: string[]; patch: Row };
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export const daysLeft = (deletedAt: string, now: Date) =>
+  Math.max(0, Math.ceil((new Date(deletedAt).getTime() + TRASH_DAYS * DAY - now.getTime()) / DAY));
+
+const sameBatch = (a: { deleted_at?: string | null }, b: { deleted_at?: string | null }) =>
+  !!a.deleted_at && a.deleted_at === b.deleted_at;
+
+// Rows below `root` (by `parentOf`) deleted in the same batch, the root included.
+function batchTree<T extends { id: string; deleted_at?: string | null }>(
+  rows: T[],
+  root: T,
+  parentOf: (row: T) => string | null | undefined,
+): T[] {
+  const tree = [root];
+  for (let i = 0; i < tree.length; i++) {
+    rows
+      .filter((row) => parentOf(row) === tree[i].id && sameBatch(row, root) && !tree.includes(row))
+      .forEach((row) => tree.push(row));
+  }
+  return tree;
+}
+
+// The Trash view's items, newest first. Rows deleted along with their parent
+// folder or task are part of that item instead of listed on their own.
+export function trashItems(trash: TrashContents): TrashItem[] {
+  const items: TrashItem[] = [];
+  const byId = <T extends { id: string }>(rows: T[], id: string | null | undefined) =>
+    id ? rows.find((row) => row.id === id) : undefined;
+
+  trash.tasks
+    .filter((task) => {
+      const parent = byId(trash.tasks, task.parent_id);
+      return !parent || !sameBatch(parent, task);
+    })
+    .forEach((task) =>
+      items.push({
+        table: 'tasks',
+        id: task.id,
+        title: task.title,
+        deleted_at: task.deleted_at!,
+        ids: { tasks: batchTree(trash.tasks, task, (t) => t.parent_id).map((t) => t.id) },
+      }),
+    );
+
+  trash.note_folders
+    .filter((folder) => {
+      const parent = byId(trash.note_folders, folder.parent_folder_id);
+      return !parent || !sameBatch(parent, folder);
+    })
+    .forEach((folder) => {
+      const folderIds = batchTree(trash.note_folders, folder, (f) => f.parent_folder_id).map((f) => f.id);
+      items.push({
+        table: 'note_folders',
+        id: folder.id,
+        title: folder.name,
+        deleted_at: folder.deleted_at!,
+        ids: {
+          note_folders: folderIds,
+          notes: trash.notes.filter((note) => folderIds.includes(note.folder_id) && sameBatch(note, folder)).map((n) => n.id),
+        },
+      });
+    });
+
+  trash.notes
+    .filter((note) => {
+      const folder = byId(trash.note_folders, note.folder_id);
+      return !folder || !sameBatch(folder, note);
+    })
+    .forEach((note) =>
+      items.push({ table: 'notes', id: note.id, title: note.title, deleted_at: note.deleted_at!, ids: { notes: [note.id] } }),
+    );
+
+  trash.reminders.forEach((reminder) =>
+    items.push({
+      table: 'reminders',
+      id: reminder.id,
+      title: reminder.title,
+      deleted_at: reminder.deleted_at!,
+      ids: { reminders: [reminder.id] },
+    }),
+  );
+  trash.agenda_events.forEach((event) =>
+    items.push({
+      table: 'agenda_events',
+      id: event.id,
+      title: event.title,
+      deleted_at: event.deleted_at!,
+      ids: { agenda_events: [event.id] },
+    }),
+  );
+
+  return items.sort((a, b) => b.deleted_at.localeCompare(a.deleted_at));
+}
+
+// The writes that restore `item`. A note, folder or subtask whose parent is
+// still in the trash comes back at the top level instead of inside it.
+export function restoreWrites(item: TrashItem, trash: TrashContents): TrashWrite[] {
+  const writes: TrashWrite[] = [];
+  const restoring = (table: TrashTable, id: string | null | undefined) => !!id && !!item.ids[table]?.includes(id);
+  const trashed = (table: 'note_folders' | 'tasks', id: string | null | undefined) =>
+    !!id && trash[table].some((row) => row.id === id) && !restoring(table, id);
+
+  const split = <T extends { id: string }>(table: TrashTable, rows: T[], detach: (row: T) => boolean, patch: Row) => {
+    const ids = item.ids[table] ?? [];
+    const detached = rows.filter((row) => ids.includes(row.id) && detach(row)).map((row) => row.id);
+    const rest = ids.filter((id) => !detached.includes(id));
+    if (rest.length) writes.push({ table, ids: rest, patch: { deleted_at: null } });
+    if (detached.length) writes.push({ table, ids: detached, patch: { deleted_at: null, ...patch } });
+  };
+
+  split('note_folders', trash.note_folders, (folder) => trashed('note_folders', folder.parent_folder_id), {
+    parent_folder_id: null,
+  });
+  split('notes', trash.notes, (note) => trashed('note_folders', note.folder_id), { folder_id: null });
+  split('tasks', trash.tasks, (task) => trashed('tasks', task.parent_id), { parent_id: null });
+  split('reminders', trash.reminders, () => false, {});
+  split('agenda_events', trash.agenda_events, () => false, {});
+  return writes;
+}
+
+// Everything past its TRASH_DAYS.
+export function expiredIds(trash: TrashContents, now: Date): TrashIds {
+  const expired = (rows: { id: string; deleted_at?: string | null }[]) =>
+    rows.filter((row) => row.deleted_at && daysLeft(row.deleted_at, now) === 0).map((row) => row.id);
+  return Object.fromEntries(TRASH_TABLES.map((table) => [table, expired(trash[table])]));
+}
+
+// Adds up ids per table, e.g. all items for "Empty trash".
+export const mergeIds = (list: TrashIds[]): TrashIds =>
+  Object.fromEntries(TRASH_TABLES.map((table) => [table, list.flatMap((ids) => ids[table] ?? [])]));
+
+export const countIds = (ids: TrashIds) => TRASH_TABLES.reduce((sum, table) => sum + (ids[table]?.length ?? 0), 0);
+
+export default trashItems;
@@ -0,0 +1,272 @@
+// Shared entity types for the planner. These mirror the Supabase tables
+// one-to-one so the repository layer can pass rows through untouched.
+
+export type Task = {
+  id: string;
+  title: string;
+  description?: string | null;
+  is_done: boolean;
+  // Workflow status; see lib/task-statuses.ts. `is_done` must agree with its
+  // "counts as completed" flag, and wins when it doesn't.
+  status_id?: string | null;
+  // Free-text project of older rows; `project_id` replaces it (lib/projects.ts).
+  project?: string | null;
+  project_id?: string | null;
+  folder_id?: string | null;
+  // Local midnight means the whole day; see lib/task-schedule.ts.
+  due_at?: string | null;
+  priority?: TaskPriority | null;
+  estimated_minutes?: number | null;
+  // Subtasks are tasks with a parent; see lib/subtasks.ts.
+  parent_id?: string | null;
+  checklist?: ChecklistItem[] | null;
+  // Close the task once all subtasks and checklist items are done (default on).
+  auto_complete?: boolean | null;
+  // Ids of tasks that must be done first; see lib/task-dependencies.ts.
+  blocked_by?: string[] | null;
+  // Manual order (a fractional index); see lib/task-order.ts.
+  position?: string | null;
+  // Set while the task is in the trash; see lib/trash.ts.
+  deleted_at?: string | null;
+  created_at?: string;
+  updated_at?: string;
+  user_id?: string;
+};
+
+export type TaskPriority = 'low' | 'medium' | 'high';
+
+// A user-defined column of the task workflow (Backlog, Doing, Review, Done...).
+export type WorkflowStatus = {
+  id: string;
+  name: string;
+  color?: string | null;
+  // Ascending; the order of the board columns and the status pickers.
+  position: number;
+  // Tasks in this status count as done (`is_done`).
+  is_completed: boolean;
+  created_at?: string;
+  updated_at?: string;
+  user_id?: string;
+};
+
+export type ChecklistItem = {
+  id: string;
+  text: string;
+  done: boolean;
+};
+
+export type Reminder = {
+  id: string;
+  title: string;
+  remind_at: string | null;
+  is_done: boolean;
+  // RRULE (see lib/recurrence.ts); `remind_at` is always the next occurrence.
+  recurrence?: string | null;
+  deleted_at?: string | null;
+  created_at?: string;
+  updated_at?: string;
+  user_id?: string;
+};
+
+export type AgendaEvent = {
+  id: string;
+  title: string;
+  starts_at: string | null;
+  ends_at: string | null;
+  location?: string | null;
+  description?: string | null;
+  // RRULE for repeating events; `starts_at`/`ends_at` describe the first occurrence.
+  recurrence?: string | null;
+  recurrence_exceptions?: EventException[] | null;
+  // UID of the iCalendar event this was imported from, used to skip duplicates.
+  ical_uid?: string | null;
+  project_id?: string | null;
+  deleted_at?: string | null;
+  created_at?: string;
+  updated_at?: string;
+  user_id?: string;
+};
+
+// One occurrence of a recurring event that was skipped or changed, keyed by
+// the start it would have had according to the rule.
+export type EventException = {
+  original_start: string;
+  skipped?: boolean;
+  title?: string;
+  starts_at?: string;
+  ends_at?: string | null;
+  location?: string | null;
+};
+
+export type NoteFolder = {
+  id: string;
+  name: string;
+  color?: string | null;
+  icon?: string | null;
+  notes_count?: number | null;
+  created_at?: string;
+  updated_at?: string;
+  parent_folder_id?: string | null;
+  is_expanded?: boolean;
+  deleted_at?: string | null;
+  user_id?: string;
+};
+
+export type Note = {
+  id: string;
+  folder_id: string;
+  title: string;
+  content?: string | null;
+  color?: string | null;
+  project_id?: string | null;
+  deleted_at?: string | null;
+  created_at?: string;
+  updated_at?: string;
+  owner_id?: string;
+  user_id?: string;
+};
+
+// A saved state of a note for its version history (see lib/note-revisions.ts).
+export type NoteRevision = {
+  id: string;
+  note_id: string;
+  title: string;
+  content?: string | null;
+  color?: string | null;
+  // Who made the changes; null for the state from before the history existed.
+  user_id: string | null;
+  created_at: string;
+  updated_at?: string;
+  user_email?: string;
+  user_name?: string;
+};
+
+export type Project = {
+  id: string;
+  name: string;
+  color?: string | null;
+  // Ionicons glyph name
+  icon?: string | null;
+  description?: string | null;
+  // Set when archived; archived projects are hidden from the pickers.
+  archived_at?: string | null;
+  created_at?: string;
+  updated_at?: string;
+  user_id?: string;
+};
+
+export type Permission = 'view' | 'edit';
+
+export type NoteCollaborator = {
+  id: string;
+  note_id: string;
+  user_id: string;
+  permission: Permission;
+  invited_by: string;
+  created_at?: string;
+  user_email?: string;
+  user_name?: string;
+};
+
+export type FolderCollaborator = {
+  id: string;
+  folder_id: string;
+  user_id: string;
+  permission: Permission;
+  invited_by: string;
+  created_at?: string;
+  user_email?: string;
+  user_name?: string;
+};
+
+export type UserProfile = {
+  id: string;
+  email: string;
+  name?: string | null;
+};
+
+// Input shapes for creating rows. Server-generated columns (id, created_at, updated_at)
+// are left out; optional columns may be dropped by the schema fallback.
+export type NewTask = {
+  title: string;
+  description?: string | null;
+  project?: string | null;
+  project_id?: string | null;
+  folder_id?: string | null;
+  due_at?: string | null;
+  priority?: TaskPriority | null;
+  estimated_minutes?: number | null;
+  parent_id?: string | null;
+  checklist?: ChecklistItem[] | null;
+  auto_complete?: boolean | null;
+  status_id?: string | null;
+  position?: string | null;
+  user_id: string;
+};
+
+export type NewProject = {
+  name: string;
+  color?: string | null;
+  icon?: string | null;
+  description?: string | null;
+  user_id?: string;
+};
+
+export type NewWorkflowStatus = {
+  name: string;
+  color?: string | null;
+  position: number;
+  is_completed: boolean;
+  user_id?: string;
+};
+
+export type NewReminder = {
+  title: string;
+  remind_at: string | null;
+  recurrence?: string | null;
+  user_id?: string;
+};
+
+export type NewAgendaEvent = {
+  title: string;
+  starts_at: string | null;
+  ends_at?: string | null;
+  location?: string | null;
+  description?: string | null;
+  recurrence?: string | null;
+  recurrence_exceptions?: EventException[] | null;
+  ical_uid?: string | null;
+  user_id?: string;
+};
+
+export type NewNoteFolder = {
+  name: string;
+  color?: string | null;
+  icon?: string | null;
+  parent_folder_id?: string | null;
+  user_id?: string;
+};
+
+export type NewNote = {
+  title: string;
+  content?: string | null;
+  color?: string | null;
+  folder_id: string | null;
+  user_id?: string;
+  owner_id?: string;
+};
+
+export type NewNoteRevision = {
+  note_id: string;
+  title: string;
+  content?: string | null;
+  color?: string | null;
+  user_id: string | null;
+  created_at?: string;
+};
+
+export type NewCollaborator = {
+  user_id: string;
+  permission: Permission;
+  invited_by?: string;
+};
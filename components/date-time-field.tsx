@@ -0,0 +1,159 @@
+import { Ionicons } from '@expo/vector-icons';
+import DateTimePicker, { DateTimePickerAndroid } from '@react-native-community/datetimepicker';
+import { useState } from 'react';
+import { Platform, Pressable, StyleSheet, Text, View } from 'react-native';
+
+const ACCENT = '#4f3dff';
+
+export type DateTimeFieldProps = {
+  // ISO string, or null when empty. Date-only fields use local midnight.
+  value: string | null;
+  onChange: (value: string | null) => void;
+  placeholder: string;
+  mode?: 'datetime' | 'date';
+  minimumDate?: Date;
+  // Red border, e.g. an end time before the start.
+  invalid?: boolean;
+};
+
+// The next full half hour: a sensible first value when an empty field is opened.
+const nextHalfHour = () => {
+  const date = new Date();
+  date.setMinutes(date.getMinutes() < 30 ? 30 : 60, 0, 0);
+  return date;
+};
+
+const formatValue = (iso: string, mode: 'datetime' | 'date') =>
+  mode === 'date'
+    ? new Date(iso).toLocaleDateString(undefined, { weekday: 'short', day: 'numeric', month: 'short', year: 'numeric' })
+    : new Date(iso).toLocaleString(undefined, {
+        weekday: 'short',
+        day: 'numeric',
+        month: 'short',
+        hour: '2-digit',
+        minute: '2-digit',
+      });
+
+// Native date/time field. Android opens the system dialogs (date, then time);
+// iOS shows the inline picker under the field. Web: date-time-field.web.tsx.
+export function DateTimeField({
+  value,
+  onChange,
+  placeholder,
+  mode = 'datetime',
+  minimumDate,
+  invalid,
+}: DateTimeFieldProps) {
+  const [open, setOpen] = useState(false);
+  const current = value ? new Date(value) : (minimumDate ?? nextHalfHour());
+
+  const emit = (date: Date) => {
+    if (mode === 'date') date.setHours(0, 0, 0, 0);
+    onChange(date.toISOString());
+  };
+
+  const openPicker = () => {
+    if (Platform.OS !== 'android') {
+      if (!value) emit(new Date(current));
+      setOpen((isOpen) => !isOpen);
+      return;
+    }
+    DateTimePickerAndroid.open({
+      value: current,
+      mode: 'date',
+      minimumDate,
+      onChange: (event, date) => {
+        if (event.type !== 'set' || !date) return;
+        if (mode === 'date') return emit(date);
+        DateTimePickerAndroid.open({
+          value: date,
+          mode: 'time',
+          is24Hour: true,
+          onChange: (timeEvent, time) => {
+            if (timeEvent.type === 'set' && time) emit(time);
+          },
+        });
+      },
+    });
+  };
+
+  return (
+    <View style={{ gap: 8 }}>
+      <Pressable onPress={openPicker} style={[styles.field, invalid && styles.invalid]}>
+        <Ionicons name={mode === 'date' ? 'calendar-outline' : 'time-outline'} size={18} color={ACCENT} />
+        <Text style={[styles.text, !value && styles.placeholder]}>
+          {value ? formatValue(value, mode) : placeholder}
+        </Text>
+        {value ? (
+          <Pressable
+            hitSlop={8}
+            onPress={() => {
+              setOpen(false);
+              onChange(null);
+            }}>
+            <Ionicons name="close-circle" size={18} color="#9ca3af" />
+          </Pressable>
+        ) : null}
+      </Pressable>
+      {open && Platform.OS === 'ios' ? (
+        <View style={styles.inlinePicker}>
+          <DateTimePicker
+            value={current}
+            mode={mode}
+            display="inline"
+            minimumDate={minimumDate}
+            minuteInterval={5}
+            accentColor={ACCENT}
+            onChange={(_, date) => date && emit(date)}
+          />
+          <Pressable onPress={() => setOpen(false)} style={styles.doneButton}>
+            <Text style={styles.doneText}>Gereed</Text>
+          </Pressable>
+        </View>
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  field: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    backgroundColor: '#f8fafc',
+    borderRadius: 14,
+    paddingHorizontal: 12,
+    paddingVertical: 12,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  invalid: {
+    borderColor: '#ef4444',
+  },
+  text: {
+    flex: 1,
+    fontSize: 16,
+    color: '#111827',
+  },
+  placeholder: {
+    color: '#9ca3af',
+  },
+  inlinePicker: {
+    backgroundColor: '#fff',
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    padding: 8,
+  },
+  doneButton: {
+    alignSelf: 'flex-end',
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+  },
+  doneText: {
+    color: ACCENT,
+    fontWeight: '700',
+  },
+});
+
+export default DateTimeField;
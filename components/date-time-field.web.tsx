@@ -0,0 +1,85 @@
+import { Ionicons } from '@expo/vector-icons';
+import { StyleSheet, View } from 'react-native';
+
+const ACCENT = '#4f3dff';
+
+export type DateTimeFieldProps = {
+  // ISO string, or null when empty. Date-only fields use local midnight.
+  value: string | null;
+  onChange: (value: string | null) => void;
+  placeholder: string;
+  mode?: 'datetime' | 'date';
+  minimumDate?: Date;
+  // Red border, e.g. an end time before the start.
+  invalid?: boolean;
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// ISO -> the local "YYYY-MM-DD" / "YYYY-MM-DDTHH:mm" the browser inputs use.
+export const toInputValue = (iso: string | null | undefined, mode: 'datetime' | 'date') => {
+  if (!iso) return '';
+  const date = new Date(iso);
+  if (isNaN(date.getTime())) return '';
+  const day = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  return mode === 'date' ? day : `${day}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+// And back: both formats parse as local time when no zone is given. Null for
+// a cleared or half-typed input.
+export const fromInputValue = (raw: string, mode: 'datetime' | 'date') => {
+  const date = new Date(mode === 'date' ? `${raw}T00:00` : raw);
+  return raw && !isNaN(date.getTime()) ? date.toISOString() : null;
+};
+
+// Browser date/time input.
+export function DateTimeField({
+  value,
+  onChange,
+  placeholder,
+  mode = 'datetime',
+  minimumDate,
+  invalid,
+}: DateTimeFieldProps) {
+  return (
+    <View style={[styles.field, invalid && styles.invalid]}>
+      <Ionicons name={mode === 'date' ? 'calendar-outline' : 'time-outline'} size={18} color={ACCENT} />
+      <input
+        type={mode === 'date' ? 'date' : 'datetime-local'}
+        aria-label={placeholder}
+        title={placeholder}
+        value={toInputValue(value, mode)}
+        min={minimumDate ? toInputValue(minimumDate.toISOString(), mode) : undefined}
+        onChange={(e) => onChange(fromInputValue(e.target.value, mode))}
+        style={{
+          flex: 1,
+          border: 'none',
+          outline: 'none',
+          background: 'transparent',
+          fontSize: 16,
+          fontFamily: 'inherit',
+          color: value ? '#111827' : '#9ca3af',
+        }}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  field: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    backgroundColor: '#f8fafc',
+    borderRadius: 14,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  invalid: {
+    borderColor: '#ef4444',
+  },
+});
+
+export default DateTimeField;
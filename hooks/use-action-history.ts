@@ -0,0 +1,104 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Platform } from 'react-native';
+
+import { HISTORY_LIMIT, runSteps, type HistoryEntry } from '@/app/lib/history';
+import type { RepositoryError } from '@/app/lib/repository';
+
+// How long the undo snackbar stays up after a change.
+export const SNACKBAR_MS = 6000;
+
+export type Snackbar = { entry: HistoryEntry; undone: boolean };
+
+// Undo/redo stacks for the session, the snackbar for the latest change and,
+// on web, Ctrl/Cmd+Z (undo) and Ctrl/Cmd+Shift+Z or Ctrl+Y (redo) outside
+// text fields, which keep their own undo.
+export function useActionHistory(onError: (error: RepositoryError) => void) {
+  const past = useRef<HistoryEntry[]>([]);
+  const future = useRef<HistoryEntry[]>([]);
+  const busy = useRef(false);
+  const timer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const [snackbar, setSnackbar] = useState<Snackbar | null>(null);
+  const [, setVersion] = useState(0);
+  const errorHandler = useRef(onError);
+  errorHandler.current = onError;
+
+  const show = useCallback((next: Snackbar | null) => {
+    if (timer.current) clearTimeout(timer.current);
+    setSnackbar(next);
+    timer.current = next ? setTimeout(() => setSnackbar(null), SNACKBAR_MS) : null;
+  }, []);
+
+  useEffect(
+    () => () => {
+      if (timer.current) clearTimeout(timer.current);
+    },
+    [],
+  );
+
+  const record = useCallback(
+    (entry: HistoryEntry) => {
+      past.current = [...past.current, entry].slice(-HISTORY_LIMIT);
+      future.current = [];
+      setVersion((v) => v + 1);
+      show({ entry, undone: false });
+    },
+    [show],
+  );
+
+  // Moves the newest entry from one stack to the other once its steps worked.
+  const travel = useCallback(
+    async (direction: 'undo' | 'redo') => {
+      const from = direction === 'undo' ? past : future;
+      const to = direction === 'undo' ? future : past;
+      const entry = from.current[from.current.length - 1];
+      if (!entry || busy.current) return;
+      busy.current = true;
+      const error = await runSteps(entry[direction]);
+      busy.current = false;
+      entry.refresh();
+      if (error) {
+        errorHandler.current(error);
+        return;
+      }
+      from.current = from.current.slice(0, -1);
+      to.current = [...to.current, entry];
+      setVersion((v) => v + 1);
+      show({ entry, undone: direction === 'undo' });
+    },
+    [show],
+  );
+
+  const undo = useCallback(() => travel('undo'), [travel]);
+  const redo = useCallback(() => travel('redo'), [travel]);
+
+  useEffect(() => {
+    if (Platform.OS !== 'web' || typeof document === 'undefined') return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.metaKey || event.ctrlKey) || event.altKey) return;
+      const target = event.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        undo();
+      } else if ((key === 'z' && event.shiftKey) || (key === 'y' && event.ctrlKey)) {
+        event.preventDefault();
+        redo();
+      }
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  return {
+    record,
+    undo,
+    redo,
+    canUndo: past.current.length > 0,
+    canRedo: future.current.length > 0,
+    snackbar,
+    dismiss: () => show(null),
+  };
+}
+
+export default useActionHistory;
@@ -0,0 +1,58 @@
+import { useCallback, useEffect, useState } from 'react';
+
+import {
+  calendarFeedUrl,
+  getCalendarFeed,
+  revokeCalendarFeed,
+  rotateCalendarFeed,
+  type CalendarFeed,
+} from '@/app/lib/calendar-feed';
+import { supabase, supabaseUrl } from '@/app/lib/supabase';
+
+// The signed-in user's calendar feed link; only loaded while `enabled`.
+export function useCalendarFeed(userId: string | null | undefined, enabled: boolean) {
+  const [feed, setFeed] = useState<CalendarFeed | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!enabled || !userId) return;
+    let cancelled = false;
+    setLoading(true);
+    getCalendarFeed(supabase).then(({ data, error: loadError }) => {
+      if (cancelled) return;
+      setFeed(data);
+      setError(loadError?.message ?? null);
+      setLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, userId]);
+
+  const rotate = useCallback(async () => {
+    setLoading(true);
+    const { data, error: rotateError } = await rotateCalendarFeed(supabase);
+    if (data) setFeed(data);
+    setError(rotateError?.message ?? null);
+    setLoading(false);
+  }, []);
+
+  const revoke = useCallback(async () => {
+    if (!userId) return;
+    setLoading(true);
+    const { error: revokeError } = await revokeCalendarFeed(supabase, userId);
+    if (!revokeError) setFeed(null);
+    setError(revokeError?.message ?? null);
+    setLoading(false);
+  }, [userId]);
+
+  return {
+    feed,
+    url: feed ? calendarFeedUrl(supabaseUrl, feed.token) : null,
+    loading,
+    error,
+    rotate,
+    revoke,
+  };
+}
@@ -0,0 +1,23 @@
+import { useEffect, useState } from 'react';
+
+import { joinNotePresence, type PresenceUser } from '@/app/lib/realtime';
+import { supabase } from '@/app/lib/supabase';
+
+// Other people currently viewing/editing `noteId` (the current user excluded).
+export function useNotePresence(noteId: string | null | undefined, me: PresenceUser | null) {
+  const [users, setUsers] = useState<PresenceUser[]>([]);
+  const userId = me?.user_id;
+  const name = me?.name;
+
+  useEffect(() => {
+    if (!noteId || !userId) {
+      setUsers([]);
+      return;
+    }
+    return joinNotePresence(supabase, noteId, { user_id: userId, name: name ?? 'Moof user' }, (present) =>
+      setUsers(present.filter((user) => user.user_id !== userId)),
+    );
+  }, [noteId, userId, name]);
+
+  return users;
+}
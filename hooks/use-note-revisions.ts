@@ -0,0 +1,31 @@
+import { useCallback, useEffect, useState } from 'react';
+
+import type { NoteRevision } from '@/app/lib/types';
+import { useRepository } from '@/hooks/use-repository';
+
+// The version history of `noteId`, newest first; loaded while a note is given.
+export function useNoteRevisions(noteId: string | null | undefined) {
+  const repo = useRepository();
+  const [revisions, setRevisions] = useState<NoteRevision[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const reload = useCallback(async () => {
+    if (!noteId) return;
+    setLoading(true);
+    const { data, error: loadError } = await repo.noteRevisions.list(noteId);
+    if (loadError) console.warn('Note history unavailable', loadError);
+    setRevisions(data ?? []);
+    setError(loadError?.message ?? null);
+    setLoading(false);
+  }, [noteId, repo]);
+
+  useEffect(() => {
+    setRevisions([]);
+    reload();
+  }, [reload]);
+
+  return { revisions, loading, error, reload };
+}
+
+export default useNoteRevisions;
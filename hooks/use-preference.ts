@@ -0,0 +1,42 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { useCallback, useEffect, useState } from 'react';
+
+// A small per-user UI setting (e.g. list or board) remembered on this device.
+// Shows `fallback` until the stored value has loaded; values that are no longer
+// in `allowed` are ignored.
+export function usePreference<T extends string>(
+  userId: string | null | undefined,
+  name: string,
+  fallback: T,
+  allowed: readonly T[],
+) {
+  const key = `moof:prefs:${userId ?? 'anonymous'}:${name}`;
+  const [value, setValue] = useState<T>(fallback);
+
+  useEffect(() => {
+    let cancelled = false;
+    AsyncStorage.getItem(key)
+      .then((stored) => {
+        if (cancelled) return;
+        setValue(stored && (allowed as readonly string[]).includes(stored) ? (stored as T) : fallback);
+      })
+      .catch((error) => console.warn(`Could not read preference ${name}`, error));
+    return () => {
+      cancelled = true;
+    };
+    // `allowed` and `fallback` are constants at every call site
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [key]);
+
+  const update = useCallback(
+    (next: T) => {
+      setValue(next);
+      AsyncStorage.setItem(key, next).catch((error) => console.warn(`Could not save preference ${name}`, error));
+    },
+    [key, name],
+  );
+
+  return [value, update] as const;
+}
+
+export default usePreference;
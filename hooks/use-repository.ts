@@ -0,0 +1,13 @@
+import { createContext, useContext } from 'react';
+
+import { repository, type Repository } from '@/app/lib/repository';
+
+// Screens read their data access from context so a memory-backed repository
+// (see app/lib/memory-driver.ts) can be swapped in without touching Supabase.
+export const RepositoryContext = createContext<Repository>(repository);
+
+export const RepositoryProvider = RepositoryContext.Provider;
+
+export function useRepository() {
+  return useContext(RepositoryContext);
+}
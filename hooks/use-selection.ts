@@ -0,0 +1,58 @@
+import { useMemo, useRef, useState } from 'react';
+import type { GestureResponderEvent } from 'react-native';
+
+type ClickModifiers = { shiftKey?: boolean; metaKey?: boolean; ctrlKey?: boolean };
+
+// Multi-select for a list of rows. A long press (touch) or cmd/ctrl-click (web)
+// starts a selection and shift-click adds the range from the last picked row;
+// while anything is selected a plain tap toggles rows instead of opening them.
+// Only `visibleIds` count, so rows hidden by a filter are never acted on.
+export function useSelection(visibleIds: string[]) {
+  const [picked, setPicked] = useState<string[]>([]);
+  const anchor = useRef<string | null>(null);
+  const selected = useMemo(() => visibleIds.filter((id) => picked.includes(id)), [visibleIds, picked]);
+
+  const toggle = (id: string) => {
+    anchor.current = id;
+    setPicked((prev) => (prev.includes(id) ? prev.filter((other) => other !== id) : [...prev, id]));
+  };
+
+  const start = (id: string) => {
+    anchor.current = id;
+    setPicked((prev) => (prev.includes(id) ? prev : [...prev, id]));
+  };
+
+  // Handles a tap on a row; false when it wasn't a selection gesture.
+  const press = (id: string, event?: GestureResponderEvent) => {
+    // react-native-web passes the DOM click event through
+    const modifiers = (event?.nativeEvent ?? {}) as ClickModifiers;
+    const from = anchor.current ? visibleIds.indexOf(anchor.current) : -1;
+    if (modifiers.shiftKey && from >= 0) {
+      const to = visibleIds.indexOf(id);
+      const range = visibleIds.slice(Math.min(from, to), Math.max(from, to) + 1);
+      setPicked((prev) => [...prev, ...range.filter((other) => !prev.includes(other))]);
+      return true;
+    }
+    if (modifiers.metaKey || modifiers.ctrlKey || modifiers.shiftKey || selected.length) {
+      toggle(id);
+      return true;
+    }
+    return false;
+  };
+
+  const clear = () => {
+    anchor.current = null;
+    setPicked([]);
+  };
+
+  return {
+    selected,
+    isSelected: (id: string) => selected.includes(id),
+    press,
+    start,
+    selectAll: () => setPicked(visibleIds),
+    clear,
+  };
+}
+
+export default useSelection;
@@ -0,0 +1,18 @@
+import { useEffect, useState } from 'react';
+
+import { offlineDriver } from '@/app/lib/repository';
+import type { SyncStatus } from '@/app/lib/offline-driver';
+
+// Offline/outbox state for banners; also keeps retrying queued writes while mounted.
+export function useSyncStatus() {
+  const [status, setStatus] = useState<SyncStatus>(offlineDriver.getStatus());
+
+  useEffect(() => offlineDriver.subscribe(setStatus), []);
+  useEffect(() => offlineDriver.start(), []);
+
+  return {
+    status,
+    flush: offlineDriver.flush,
+    resolveConflict: offlineDriver.resolveConflict,
+  };
+}
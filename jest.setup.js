@@ -0,0 +1,7 @@
+// Native modules that have no implementation under Jest.
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+
+// Tests run against the in-memory driver (app/lib/memory-driver.ts), never Supabase.
+jest.mock('./app/lib/supabase', () => ({ supabase: {}, supabaseUrl: '', default: {} }));
@@ -0,0 +1,247 @@
+// Read-only iCalendar feed of one user's planner: agenda events (with their
+// repeat rules and exceptions), open tasks with a due date and open reminders.
+// The caller is identified only by the secret token in the URL (see the
+// calendar_feeds migration), so calendar apps can subscribe without a session:
+//
+//   supabase functions deploy calendar-feed --no-verify-jwt
+//   <SUPABASE_URL>/functions/v1/calendar-feed?token=<calendar_feeds.token>
+//
+// The ICS writing mirrors app/lib/ics.ts; Deno can't import the app's
+// extensionless modules, so the few helpers needed are repeated here.
+
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+// The columns the feed reads (see app/lib/types.ts for the full rows).
+type FeedException = {
+  original_start: string;
+  skipped?: boolean;
+  starts_at?: string | null;
+  ends_at?: string | null;
+  title?: string | null;
+  location?: string | null;
+};
+
+type FeedEvent = {
+  id: string;
+  title: string;
+  starts_at: string | null;
+  ends_at?: string | null;
+  location?: string | null;
+  description?: string | null;
+  recurrence?: string | null;
+  recurrence_exceptions?: FeedException[] | null;
+  ical_uid?: string | null;
+};
+
+type FeedTask = { id: string; title: string; description?: string | null; due_at?: string | null };
+
+type FeedReminder = { id: string; title: string; remind_at?: string | null; recurrence?: string | null };
+
+type QueryError = { code?: string; message?: string };
+
+type QueryResult = { data: unknown[] | null; error: QueryError | null };
+
+type FeedQuery = PromiseLike<QueryResult> & { is: (column: string, value: null) => PromiseLike<QueryResult> };
+
+const TOKEN_PATTERN = /^[0-9a-f]{64}$/;
+
+const escapeText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/\r?\n/g, '\\n').replace(/([,;])/g, '\\$1');
+
+const formatDateTime = (iso: string) => new Date(iso).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const encoder = new TextEncoder();
+
+// Lines longer than 75 octets continue on the next line after a space.
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    if (encoder.encode(current + char).length > (parts.length ? 74 : 75)) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function vevent(fields: {
+  uid: string;
+  stamp: string;
+  start: string;
+  end?: string | null;
+  title: string;
+  location?: string | null;
+  description?: string | null;
+  extra?: string[];
+}): string[] {
+  const lines = ['BEGIN:VEVENT', `UID:${fields.uid}`, `DTSTAMP:${fields.stamp}`, `DTSTART:${formatDateTime(fields.start)}`];
+  if (fields.end) lines.push(`DTEND:${formatDateTime(fields.end)}`);
+  lines.push(`SUMMARY:${escapeText(fields.title)}`);
+  if (fields.location) lines.push(`LOCATION:${escapeText(fields.location)}`);
+  if (fields.description) lines.push(`DESCRIPTION:${escapeText(fields.description)}`);
+  return [...lines, ...(fields.extra ?? []), 'END:VEVENT'];
+}
+
+function eventLines(event: FeedEvent, stamp: string): string[] {
+  if (!event.starts_at) return [];
+  const uid = event.ical_uid || `${event.id}@mooftodo`;
+  const exceptions = Array.isArray(event.recurrence_exceptions) ? event.recurrence_exceptions : [];
+  const rule = typeof event.recurrence === 'string' ? event.recurrence.trim() : '';
+  const recurring = rule !== '';
+  const extra = recurring
+    ? [
+        `RRULE:${rule}`,
+        ...exceptions.filter((e) => e.skipped).map((e) => `EXDATE:${formatDateTime(e.original_start)}`),
+      ]
+    : [];
+  const lines = vevent({
+    uid,
+    stamp,
+    start: event.starts_at,
+    end: event.ends_at,
+    title: event.title,
+    location: event.location,
+    description: event.description,
+    extra,
+  });
+  if (!recurring) return lines;
+
+  const duration = event.ends_at ? new Date(event.ends_at).getTime() - new Date(event.starts_at).getTime() : null;
+  exceptions
+    .filter((e) => !e.skipped)
+    .forEach((e) => {
+      const start = e.starts_at ?? e.original_start;
+      const end =
+        e.ends_at !== undefined
+          ? e.ends_at
+          : duration === null
+            ? null
+            : new Date(new Date(start).getTime() + duration).toISOString();
+      lines.push(
+        ...vevent({
+          uid,
+          stamp,
+          start,
+          end,
+          title: e.title ?? event.title,
+          location: e.location !== undefined ? e.location : event.location,
+          extra: [`RECURRENCE-ID:${formatDateTime(e.original_start)}`],
+        }),
+      );
+    });
+  return lines;
+}
+
+const alarm = ['BEGIN:VALARM', 'ACTION:DISPLAY', 'DESCRIPTION:Reminder', 'TRIGGER:PT0S', 'END:VALARM'];
+
+function buildCalendar(events: FeedEvent[], tasks: FeedTask[], reminders: FeedReminder[]): string {
+  const stamp = formatDateTime(new Date().toISOString());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//MoofToDo//Calendar feed//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'X-WR-CALNAME:MoofToDo',
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    ...events.flatMap((event) => eventLines(event, stamp)),
+    // Tasks only have a deadline, so they show up as a moment in time.
+    ...tasks.flatMap((task) =>
+      task.due_at
+        ? vevent({
+            uid: `task-${task.id}@mooftodo`,
+            stamp,
+            start: task.due_at,
+            title: `☐ ${task.title}`,
+            description: task.description,
+            extra: ['CATEGORIES:Task'],
+          })
+        : [],
+    ),
+    ...reminders.flatMap((reminder) =>
+      reminder.remind_at
+        ? vevent({
+            uid: `reminder-${reminder.id}@mooftodo`,
+            stamp,
+            start: reminder.remind_at,
+            title: reminder.title,
+            extra: [
+              'CATEGORIES:Reminder',
+              ...(reminder.recurrence ? [`RRULE:${reminder.recurrence}`] : []),
+              ...alarm,
+            ],
+          })
+        : [],
+    ),
+    'END:VCALENDAR',
+  ];
+  return `${lines.map(foldLine).join('\r\n')}\r\n`;
+}
+
+const notFound = () => new Response('Not found', { status: 404 });
+
+// Same test as the app's selectLive (app/lib/repository.ts): Postgres reports
+// "column agenda_events.deleted_at does not exist" before the trash migration.
+const isMissingTrash = (error: QueryError | null) =>
+  !!error && (error.code === '42703' || error.code === 'PGRST204') && /deleted_at/.test(error.message ?? '');
+
+// The user's rows that are not in the trash; every row on databases that don't
+// have the trash yet.
+async function selectLive(query: () => FeedQuery): Promise<QueryResult> {
+  const result = await query().is('deleted_at', null);
+  if (!isMissingTrash(result.error)) return result;
+  console.warn('deleted_at column missing, serving all rows');
+  return query();
+}
+
+Deno.serve(async (req) => {
+  if (req.method !== 'GET' && req.method !== 'HEAD') return new Response('Method not allowed', { status: 405 });
+
+  const token = new URL(req.url).searchParams.get('token') ?? '';
+  if (!TOKEN_PATTERN.test(token)) return notFound();
+
+  // Service role: the token has already identified the user; every query is scoped to them.
+  const client = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!, {
+    auth: { persistSession: false },
+  });
+
+  const { data: feed, error: feedError } = await client
+    .from('calendar_feeds')
+    .select('user_id')
+    .eq('token', token)
+    .maybeSingle();
+  if (feedError) {
+    console.error('❌ Calendar feed lookup failed:', feedError);
+    return new Response('Feed unavailable', { status: 500 });
+  }
+  // Unknown and revoked tokens look the same.
+  if (!feed) return notFound();
+
+  // Rows in the trash (deleted_at set) stay out of the feed
+  const [events, tasks, reminders] = await Promise.all([
+    selectLive(() => client.from('agenda_events').select('*').eq('user_id', feed.user_id)),
+    selectLive(() => client.from('tasks').select('*').eq('user_id', feed.user_id).eq('is_done', false)),
+    selectLive(() => client.from('reminders').select('*').eq('user_id', feed.user_id).eq('is_done', false)),
+  ]);
+  const failed = [events, tasks, reminders].find((result) => result.error);
+  if (failed) {
+    console.error('❌ Calendar feed query failed:', failed.error);
+    return new Response('Feed unavailable', { status: 500 });
+  }
+
+  const body = buildCalendar(
+    (events.data ?? []) as FeedEvent[],
+    (tasks.data ?? []) as FeedTask[],
+    (reminders.data ?? []) as FeedReminder[],
+  );
+  return new Response(req.method === 'HEAD' ? null : body, {
+    headers: {
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': 'inline; filename="mooftodo.ics"',
+      'Cache-Control': 'private, max-age=300',
+    },
+  });
+});
@@ -0,0 +1,28 @@
+-- `updated_at` on every synced table, maintained by the database so the
+-- offline outbox (app/lib/offline-driver.ts) can detect rows that changed
+-- on the server while a device was offline.
+
+create or replace function public.set_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$;
+
+do $$
+declare
+  t text;
+begin
+  foreach t in array array['tasks', 'reminders', 'agenda_events', 'note_folders', 'notes'] loop
+    execute format('alter table public.%I add column if not exists updated_at timestamptz not null default now()', t);
+    execute format('drop trigger if exists set_updated_at on public.%I', t);
+    execute format(
+      'create trigger set_updated_at before update on public.%I for each row execute function public.set_updated_at()',
+      t
+    );
+  end loop;
+end;
+$$;
@@ -0,0 +1,21 @@
+-- Realtime for shared notes and folders (app/lib/realtime.ts).
+-- REPLICA IDENTITY FULL makes DELETE events carry the whole old row, so a
+-- revoked collaborator's client knows which note/folder to drop.
+
+alter table public.note_collaborators replica identity full;
+alter table public.folder_collaborators replica identity full;
+
+do $$
+declare
+  t text;
+begin
+  foreach t in array array['notes', 'note_folders', 'note_collaborators', 'folder_collaborators'] loop
+    if not exists (
+      select 1 from pg_publication_tables
+      where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = t
+    ) then
+      execute format('alter publication supabase_realtime add table public.%I', t);
+    end if;
+  end loop;
+end;
+$$;
@@ -0,0 +1,4 @@
+-- Recurring reminders: an RRULE string such as `FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR`.
+-- `remind_at` keeps pointing at the next occurrence; completing one moves it forward.
+
+alter table public.reminders add column if not exists recurrence text;
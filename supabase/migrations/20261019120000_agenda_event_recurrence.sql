@@ -0,0 +1,9 @@
+-- Recurring agenda events: an RRULE string plus per-occurrence exceptions.
+-- `recurrence_exceptions` holds objects keyed by `original_start` (the start the
+-- rule would have produced) that either skip that occurrence or override its
+-- title/start/end/location. "This and following" edits end the series with
+-- UNTIL/COUNT and insert a new event, so no extra table is needed.
+
+alter table public.agenda_events
+  add column if not exists recurrence text,
+  add column if not exists recurrence_exceptions jsonb not null default '[]'::jsonb;
@@ -0,0 +1,6 @@
+-- UID of the iCalendar VEVENT an agenda event was imported from. Importing the
+-- same .ics file again skips events whose UID is already present.
+
+alter table public.agenda_events add column if not exists ical_uid text;
+
+create index if not exists agenda_events_user_ical_uid_idx on public.agenda_events (user_id, ical_uid);
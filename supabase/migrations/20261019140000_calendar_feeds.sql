@@ -0,0 +1,37 @@
+-- Secret token per user for the read-only iCalendar feed served by
+-- supabase/functions/calendar-feed. Whoever has the URL can read the feed, so
+-- the app can rotate the token (old URL stops working) or revoke it entirely.
+
+create table if not exists public.calendar_feeds (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  -- 64 hex characters; two random UUIDs without dashes.
+  token text not null unique default replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+  created_at timestamptz not null default now()
+);
+
+alter table public.calendar_feeds enable row level security;
+
+drop policy if exists "Users can read their calendar feed" on public.calendar_feeds;
+create policy "Users can read their calendar feed" on public.calendar_feeds
+  for select using (auth.uid() = user_id);
+
+drop policy if exists "Users can revoke their calendar feed" on public.calendar_feeds;
+create policy "Users can revoke their calendar feed" on public.calendar_feeds
+  for delete using (auth.uid() = user_id);
+
+-- Creating and rotating both go through here so tokens are only ever generated
+-- by the database, never chosen by a client.
+create or replace function public.rotate_calendar_feed()
+returns public.calendar_feeds
+language sql
+security definer
+set search_path = public
+as $$
+  insert into public.calendar_feeds (user_id)
+  values (auth.uid())
+  on conflict (user_id) do update set token = default, created_at = now()
+  returning *;
+$$;
+
+revoke execute on function public.rotate_calendar_feed() from public, anon;
+grant execute on function public.rotate_calendar_feed() to authenticated;
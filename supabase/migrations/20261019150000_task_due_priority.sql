@@ -0,0 +1,10 @@
+-- Due dates, priorities and time estimates on tasks. A `due_at` at exactly local
+-- midnight means "some time that day" (see app/lib/task-schedule.ts); the app
+-- only counts such tasks as overdue once the day is over.
+
+alter table public.tasks
+  add column if not exists due_at timestamptz,
+  add column if not exists priority text check (priority in ('low', 'medium', 'high')),
+  add column if not exists estimated_minutes integer check (estimated_minutes > 0);
+
+create index if not exists tasks_user_due_at_idx on public.tasks (user_id, due_at) where not is_done;
@@ -0,0 +1,11 @@
+-- Subtasks and checklists. A subtask is a regular task row pointing at its
+-- parent (deleting the parent deletes its subtasks); checklist items are plain
+-- lines stored on the task as `[{ "id", "text", "done" }]`. With `auto_complete`
+-- on, the app closes a parent once every subtask and checklist item is done.
+
+alter table public.tasks
+  add column if not exists parent_id uuid references public.tasks (id) on delete cascade,
+  add column if not exists checklist jsonb not null default '[]'::jsonb,
+  add column if not exists auto_complete boolean not null default true;
+
+create index if not exists tasks_parent_id_idx on public.tasks (parent_id);
@@ -0,0 +1,5 @@
+-- "Blocked by" links between tasks: the ids of the tasks that have to be done
+-- first. The app refuses links that would make a cycle; ids of deleted tasks
+-- are ignored, so no cleanup trigger is needed.
+
+alter table public.tasks add column if not exists blocked_by uuid[] not null default '{}';
@@ -0,0 +1,77 @@
+-- Projects as rows of their own instead of the free-text `tasks.project`.
+-- Tasks, notes and agenda events point at a project through `project_id`;
+-- deleting a project unlinks them. Archived projects keep their links but are
+-- hidden from the pickers. The old `project` column stays for older clients
+-- and is only read as a fallback.
+
+create table if not exists public.projects (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  name text not null,
+  color text,
+  icon text,
+  description text,
+  archived_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists projects_user_id_idx on public.projects (user_id);
+
+alter table public.projects enable row level security;
+
+drop policy if exists "Users can read their projects" on public.projects;
+create policy "Users can read their projects" on public.projects
+  for select using (auth.uid() = user_id);
+
+drop policy if exists "Users can create projects" on public.projects;
+create policy "Users can create projects" on public.projects
+  for insert with check (auth.uid() = user_id);
+
+drop policy if exists "Users can update their projects" on public.projects;
+create policy "Users can update their projects" on public.projects
+  for update using (auth.uid() = user_id);
+
+drop policy if exists "Users can delete their projects" on public.projects;
+create policy "Users can delete their projects" on public.projects
+  for delete using (auth.uid() = user_id);
+
+drop trigger if exists set_updated_at on public.projects;
+create trigger set_updated_at before update on public.projects
+  for each row execute function public.set_updated_at();
+
+do $$
+declare
+  t text;
+begin
+  foreach t in array array['tasks', 'notes', 'agenda_events'] loop
+    execute format(
+      'alter table public.%I add column if not exists project_id uuid references public.projects (id) on delete set null',
+      t
+    );
+    execute format('create index if not exists %I on public.%I (project_id)', t || '_project_id_idx', t);
+  end loop;
+end;
+$$;
+
+-- One project per distinct name a user typed (ignoring case and surrounding
+-- spaces), then link the tasks to it.
+insert into public.projects (user_id, name, created_at)
+select distinct on (t.user_id, lower(trim(t.project)))
+  t.user_id, trim(t.project), min(t.created_at) over (partition by t.user_id, lower(trim(t.project)))
+from public.tasks t
+where t.project is not null
+  and trim(t.project) <> ''
+  and not exists (
+    select 1 from public.projects p
+    where p.user_id = t.user_id and lower(p.name) = lower(trim(t.project))
+  )
+order by t.user_id, lower(trim(t.project)), t.created_at;
+
+update public.tasks t
+set project_id = p.id
+from public.projects p
+where t.project_id is null
+  and t.project is not null
+  and p.user_id = t.user_id
+  and lower(p.name) = lower(trim(t.project));
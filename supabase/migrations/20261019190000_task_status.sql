@@ -0,0 +1,6 @@
+-- Board status of open tasks: still to do, or in progress. Completion stays
+-- in `is_done` (the board shows done tasks in their own column), so clients
+-- that only know `is_done` keep working.
+
+alter table public.tasks
+  add column if not exists status text not null default 'todo' check (status in ('todo', 'in_progress'));
@@ -0,0 +1,74 @@
+-- User-defined workflow statuses (Backlog, Doing, Review, Done, ...) in a
+-- fixed order, each either open or "counts as completed". Tasks point at one
+-- through `status_id`; `is_done` stays and always matches the status' flag,
+-- so clients that only know `is_done` keep working. Removing a status unlinks
+-- its tasks, which then show in the first status of their kind.
+
+create table if not exists public.task_statuses (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  name text not null,
+  color text,
+  position integer not null default 0,
+  is_completed boolean not null default false,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists task_statuses_user_id_idx on public.task_statuses (user_id, position);
+
+alter table public.task_statuses enable row level security;
+
+drop policy if exists "Users can read their task statuses" on public.task_statuses;
+create policy "Users can read their task statuses" on public.task_statuses
+  for select using (auth.uid() = user_id);
+
+drop policy if exists "Users can create task statuses" on public.task_statuses;
+create policy "Users can create task statuses" on public.task_statuses
+  for insert with check (auth.uid() = user_id);
+
+drop policy if exists "Users can update their task statuses" on public.task_statuses;
+create policy "Users can update their task statuses" on public.task_statuses
+  for update using (auth.uid() = user_id);
+
+drop policy if exists "Users can delete their task statuses" on public.task_statuses;
+create policy "Users can delete their task statuses" on public.task_statuses
+  for delete using (auth.uid() = user_id);
+
+drop trigger if exists set_updated_at on public.task_statuses;
+create trigger set_updated_at before update on public.task_statuses
+  for each row execute function public.set_updated_at();
+
+alter table public.tasks
+  add column if not exists status_id uuid references public.task_statuses (id) on delete set null;
+
+create index if not exists tasks_status_id_idx on public.tasks (status_id);
+
+-- The board columns from before custom statuses, for everyone with tasks.
+-- New users get the same set from the app on first load.
+insert into public.task_statuses (user_id, name, color, position, is_completed)
+select u.user_id, d.name, d.color, d.position, d.is_completed
+from (select distinct user_id from public.tasks where user_id is not null) u
+cross join (
+  values ('To do', '#64748b', 0, false), ('In progress', '#2563eb', 1, false), ('Done', '#059669', 2, true)
+) as d (name, color, position, is_completed)
+where not exists (select 1 from public.task_statuses s where s.user_id = u.user_id);
+
+-- The `status` column these replace goes once its values are carried over.
+do $$
+begin
+  if exists (
+    select 1 from information_schema.columns
+    where table_schema = 'public' and table_name = 'tasks' and column_name = 'status'
+  ) then
+    update public.tasks t
+    set status_id = s.id
+    from public.task_statuses s
+    where t.status_id is null
+      and s.user_id = t.user_id
+      and s.name = case when t.is_done then 'Done' when t.status = 'in_progress' then 'In progress' else 'To do' end;
+
+    alter table public.tasks drop column status;
+  end if;
+end;
+$$;
@@ -0,0 +1,17 @@
+-- Manual task order. `position` is a fractional index (app/lib/task-order.ts):
+-- text keys compared byte by byte, so a task can be moved between two others
+-- by rewriting only its own key. Existing tasks keep their newest-first order.
+
+alter table public.tasks add column if not exists position text collate "C";
+
+create index if not exists tasks_user_position_idx on public.tasks (user_id, position);
+
+-- Zero-padded row numbers plus 'V', so the keys never end in '0'.
+update public.tasks t
+set position = lpad(ordered.n::text, 8, '0') || 'V'
+from (
+  select id, row_number() over (partition by user_id order by created_at desc, id) as n
+  from public.tasks
+) ordered
+where t.id = ordered.id
+  and t.position is null;
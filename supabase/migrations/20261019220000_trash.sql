@@ -0,0 +1,50 @@
+-- Trash: deleting a task, reminder, agenda event, note or folder sets
+-- `deleted_at` instead of removing the row. Rows deleted together (a folder
+-- with its subfolders and notes, a task with its subtasks) share the same
+-- timestamp so they are restored together (app/lib/trash.ts). After 30 days
+-- they are removed for good by `purge_trash()`, run nightly with pg_cron, and
+-- by the app at start and when the Trash loads (for projects without pg_cron).
+
+do $$
+declare
+  t text;
+begin
+  foreach t in array array['tasks', 'reminders', 'agenda_events', 'note_folders', 'notes'] loop
+    execute format('alter table public.%I add column if not exists deleted_at timestamptz', t);
+    execute format(
+      'create index if not exists %I on public.%I (deleted_at) where deleted_at is not null',
+      t || '_deleted_at_idx',
+      t
+    );
+  end loop;
+end;
+$$;
+
+-- Children before parents, so nothing is held back by a foreign key.
+create or replace function public.purge_trash()
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  delete from public.notes where deleted_at <= now() - interval '30 days';
+  delete from public.note_folders where deleted_at <= now() - interval '30 days';
+  delete from public.tasks where deleted_at <= now() - interval '30 days';
+  delete from public.reminders where deleted_at <= now() - interval '30 days';
+  delete from public.agenda_events where deleted_at <= now() - interval '30 days';
+$$;
+
+revoke execute on function public.purge_trash() from public, anon, authenticated;
+
+-- Nightly at 03:00 UTC. Scheduling under the same name replaces the job, so
+-- rerunning this migration is safe.
+do $$
+begin
+  if exists (select 1 from pg_available_extensions where name = 'pg_cron') then
+    create extension if not exists pg_cron with schema pg_catalog;
+    perform cron.schedule('purge-trash', '0 3 * * *', 'select public.purge_trash()');
+  else
+    raise notice 'pg_cron is not available; expired trash is purged by the app only';
+  end if;
+end;
+$$;
@@ -0,0 +1,55 @@
+-- Version history for notes. The app writes a revision after each save,
+-- throttled to one row per author per 10 minutes: within that window the
+-- author's latest row is updated instead (app/lib/note-revisions.ts), so the
+-- newest revision always matches the note. A row without `user_id` holds the
+-- note as it was before its first revision; only the note's owner writes it.
+
+create table if not exists public.note_revisions (
+  id uuid primary key default gen_random_uuid(),
+  note_id uuid not null references public.notes (id) on delete cascade,
+  user_id uuid references auth.users (id) on delete set null,
+  title text not null,
+  content text,
+  color text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists note_revisions_note_id_idx on public.note_revisions (note_id, created_at desc);
+
+alter table public.note_revisions enable row level security;
+
+-- Whoever can read the note (owner or collaborator, by the notes policies)
+-- can read its history.
+drop policy if exists "Users can read revisions of notes they can read" on public.note_revisions;
+create policy "Users can read revisions of notes they can read" on public.note_revisions
+  for select using (exists (select 1 from public.notes n where n.id = note_id));
+
+-- Anyone who can read the note adds revisions as themselves; the authorless
+-- original can only come from the note's owner (owner_id, else user_id, like
+-- the app's notes.getOwner).
+drop policy if exists "Users can add revisions to notes they can read" on public.note_revisions;
+create policy "Users can add revisions to notes they can read" on public.note_revisions
+  for insert with check (
+    (
+      user_id = auth.uid()
+      and exists (select 1 from public.notes n where n.id = note_id)
+    )
+    or (
+      user_id is null
+      and exists (select 1 from public.notes n where n.id = note_id and coalesce(n.owner_id, n.user_id) = auth.uid())
+    )
+  );
+
+drop policy if exists "Users can update their own revisions" on public.note_revisions;
+create policy "Users can update their own revisions" on public.note_revisions
+  for update using (user_id = auth.uid()) with check (user_id = auth.uid());
+
+-- Only the snapshot itself can change: a revision can't be moved to another
+-- note or handed to another author. (`updated_at` is set by the trigger.)
+revoke update on public.note_revisions from anon, authenticated;
+grant update (title, content, color) on public.note_revisions to authenticated;
+
+drop trigger if exists set_updated_at on public.note_revisions;
+create trigger set_updated_at before update on public.note_revisions
+  for each row execute function public.set_updated_at();